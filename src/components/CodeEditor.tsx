@@ -1,12 +1,38 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 
 import { useFlowStore } from '../store';
+import { useDiagramStore } from '../store/diagramStore';
 
-import { parseMermaid, detectInputType } from '../lib/mermaidParser';
-import { getLayoutedElements } from '../lib/layoutEngine';
+import { detectInputType, diagnoseMermaid } from '../lib/mermaidParser';
+import { fromMermaidError, type Diagnostic } from '../lib/diagnostics';
+import { findElementAt, findElementSpans, mapSourceElements, type SourceElement, type SourceSpan } from '../lib/sourceMap';
+import { findLinkEdge } from '../lib/codeSync';
 import { interpretText } from '../lib/aiService';
+import { useDiagramPipeline } from '../hooks/useDiagramPipeline';
 import { MonacoWrapper } from './editor/MonacoWrapper';
 import { EditorToolbar } from './editor/EditorToolbar';
+import { CodeSyncIndicator } from './editor/CodeSyncIndicator';
+
+// Wait for typing to settle before re-checking the code
+const DIAGNOSE_DELAY_MS = 400;
+
+// Select the canvas node or edge written at a source element of `code`, deselecting the rest
+function selectOnCanvas(element: SourceElement, code: string) {
+    const { nodes, edges, onNodesChange, onEdgesChange } = useDiagramStore.getState();
+    const edgeId = element.kind === 'edge' ? findLinkEdge(code, edges, Number(element.id))?.id : undefined;
+    const nodeId = element.kind === 'edge' ? undefined : nodes.find(n => n.id === element.id)?.id;
+    if (!edgeId && !nodeId) return;
+
+    // Only elements whose selection actually changes, so moving within a node is a no-op
+    const nodeChanges = nodes
+        .filter(n => !!n.selected !== (n.id === nodeId))
+        .map(n => ({ type: 'select' as const, id: n.id, selected: n.id === nodeId }));
+    const edgeChanges = edges
+        .filter(e => !!e.selected !== (e.id === edgeId))
+        .map(e => ({ type: 'select' as const, id: e.id, selected: e.id === edgeId }));
+    if (nodeChanges.length) onNodesChange(nodeChanges);
+    if (edgeChanges.length) onEdgesChange(edgeChanges);
+}
 
 
 
@@ -20,7 +46,8 @@ export function CodeEditor() {
     } = useFlowStore();
 
     const [inputType, setInputType] = useState<'mermaid' | 'natural'>('mermaid');
-    const [syntaxErrors, setSyntaxErrors] = useState<{ line: number; message: string }[]>([]);
+    const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+    const runPipeline = useDiagramPipeline();
 
 
 
@@ -52,51 +79,63 @@ export function CodeEditor() {
     // Listen for node click events from the canvas (bidirectional highlighting)
     useEffect(() => {
         const handleNodeSelected = (event: CustomEvent<{ nodeId: string; label: string }>) => {
-            if (!editorRef.current || !code) return;
+            if (!editorRef.current || !monacoRef.current || !code) return;
 
-            const { label } = event.detail;
-            const lines = code.split('\n');
+            const { nodeId, label } = event.detail;
+            let spans: SourceSpan[] = findElementSpans(mapSourceElements(code), nodeId);
 
-            // Find line containing this node's label
-            const lineIndex = lines.findIndex(line =>
-                line.includes(label) ||
-                line.includes(`[${label}]`) ||
-                line.includes(`(${label})`) ||
-                line.includes(`{${label}}`)
-            );
+            // Diagrams without a source map (sequence, class, ...) fall back to finding the label
+            if (spans.length === 0) {
+                const lineIndex = code.split('\n').findIndex(line => label && line.includes(label));
+                if (lineIndex === -1) return;
+                spans = [{ startLine: lineIndex + 1, startColumn: 1, endLine: lineIndex + 1, endColumn: 1 }];
+            }
 
-            if (lineIndex !== -1) {
-                // Scroll to and highlight the line
-                editorRef.current.revealLineInCenter(lineIndex + 1);
-
-                // Add decoration
-                if (monacoRef.current) {
-                    decorationsRef.current = editorRef.current.deltaDecorations(
-                        decorationsRef.current,
-                        [{
-                            range: new monacoRef.current.Range(lineIndex + 1, 1, lineIndex + 1, 1),
-                            options: {
-                                isWholeLine: true,
-                                className: 'highlighted-line',
-                                glyphMarginClassName: 'highlighted-glyph',
-                            }
-                        }]
-                    );
+            const Range = monacoRef.current.Range;
+            const first = spans[0];
+            editorRef.current.revealRangeInCenter(new Range(first.startLine, first.startColumn, first.endLine, first.endColumn));
+
+            decorationsRef.current = editorRef.current.deltaDecorations(
+                decorationsRef.current,
+                spans.map(span => ({
+                    range: new Range(span.startLine, span.startColumn, span.endLine, span.endColumn),
+                    options: {
+                        isWholeLine: true,
+                        className: 'highlighted-line',
+                        glyphMarginClassName: 'highlighted-glyph',
+                    }
+                }))
+            );
 
-                    // Clear highlight after 3 seconds
-                    setTimeout(() => {
-                        if (editorRef.current) {
-                            decorationsRef.current = editorRef.current.deltaDecorations(decorationsRef.current, []);
-                        }
-                    }, 3000);
+            // Clear highlight after 3 seconds
+            setTimeout(() => {
+                if (editorRef.current) {
+                    decorationsRef.current = editorRef.current.deltaDecorations(decorationsRef.current, []);
                 }
-            }
+            }, 3000);
         };
 
         window.addEventListener('node-selected', handleNodeSelected as EventListener);
         return () => window.removeEventListener('node-selected', handleNodeSelected as EventListener);
     }, [code]);
 
+    // Check the code as it is typed; results show as editor markers with quick-fixes
+    useEffect(() => {
+        if (inputType !== 'mermaid' || !code.trim()) {
+            setDiagnostics([]);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            const result = await diagnoseMermaid(code);
+            if (!cancelled) setDiagnostics(result);
+        }, DIAGNOSE_DELAY_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [code, inputType]);
+
     const handleCodeChange = useCallback((value: string | undefined) => {
         const newCode = value || '';
         setCode(newCode);
@@ -107,7 +146,6 @@ export function CodeEditor() {
         if (!code.trim()) return;
         setLoading(true);
         setError(null);
-        setSyntaxErrors([]);
 
         try {
             let mermaidCode = code;
@@ -125,17 +163,17 @@ export function CodeEditor() {
 
             // First attempt to parse
             try {
-                const { nodes: parsedNodes, edges: parsedEdges } = await parseMermaid(mermaidCode);
-                const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(parsedNodes, parsedEdges);
-                setNodes(layoutedNodes);
-                setEdges(layoutedEdges);
+                const diagram = await runPipeline(mermaidCode);
+                if (!diagram) return;
 
                 if (metadata) {
-                    parsedNodes.forEach(node => {
+                    diagram.nodes.forEach(node => {
                         const label = (node.data.label as string) || '';
                         if (label && metadata && metadata[label]) node.data.metadata = metadata[label];
                     });
                 }
+                setNodes(diagram.nodes);
+                setEdges(diagram.edges);
             } catch (initialError) {
                 // If parsing fails, try to Auto-Fix if we have an API key
                 const errorMessage = initialError instanceof Error ? initialError.message : 'Error processing code';
@@ -149,10 +187,11 @@ export function CodeEditor() {
                         if (fixedCode && fixedCode !== mermaidCode) {
                             setCode(fixedCode);
                             // Retry parsing with fixed code
-                            const { nodes: newNodes, edges: newEdges } = await parseMermaid(fixedCode);
-                            const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(newNodes, newEdges);
-                            setNodes(layoutedNodes);
-                            setEdges(layoutedEdges);
+                            const fixed = await runPipeline(fixedCode);
+                            if (fixed) {
+                                setNodes(fixed.nodes);
+                                setEdges(fixed.edges);
+                            }
                             return; // Success!
                         }
                     } catch (fixError) {
@@ -167,15 +206,14 @@ export function CodeEditor() {
             const errorMessage = error instanceof Error ? error.message : 'Error processing code';
             setError(errorMessage);
 
-            // Try to parse line number from error
-            const lineMatch = errorMessage.match(/line (\d+)/i);
-            if (lineMatch) {
-                setSyntaxErrors([{ line: parseInt(lineMatch[1]), message: errorMessage }]);
+            // Errors that name a line are shown on it in the editor
+            if (/line \d+/i.test(errorMessage)) {
+                setDiagnostics([fromMermaidError(error, code)]);
             }
         } finally {
             setLoading(false);
         }
-    }, [code, inputType, ollamaUrl, modelName, aiMode, onlineProvider, apiKey, setNodes, setEdges, setLoading, setError, setSourceCode, setCode]);
+    }, [code, inputType, ollamaUrl, modelName, aiMode, onlineProvider, apiKey, setNodes, setEdges, setLoading, setError, setSourceCode, setCode, runPipeline]);
 
 
 
@@ -186,6 +224,14 @@ export function CodeEditor() {
         editorRef.current = editor;
         monacoRef.current = monaco;
 
+        // Moving the cursor onto a node, link or subgraph selects it on the canvas
+        editor.onDidChangeCursorPosition((event: { position: { lineNumber: number; column: number }; source: string }) => {
+            if (event.source !== 'mouse' && event.source !== 'keyboard') return;
+            const source = editor.getValue();
+            const element = findElementAt(mapSourceElements(source), event.position.lineNumber, event.position.column);
+            if (element) selectOnCanvas(element, source);
+        });
+
         // Define themes
         monaco.editor.defineTheme('architect-dark', {
             base: 'vs-dark',
@@ -244,12 +290,13 @@ export function CodeEditor() {
 
     return (
         <div className="h-full flex flex-col gap-4 animate-slide-up relative">
+            <CodeSyncIndicator />
             <MonacoWrapper
                 code={code}
                 onChange={handleCodeChange}
                 onMount={handleEditorMount}
                 theme={(theme === 'light' || theme === 'dark') ? theme : 'dark'}
-                syntaxErrors={syntaxErrors}
+                diagnostics={diagnostics}
                 setCode={setCode}
             />
 
@@ -1,4 +1,4 @@
-import React, { useCallback, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
     ReactFlow,
     Background,
@@ -7,16 +7,42 @@ import {
     useReactFlow,
     BackgroundVariant,
     SelectionMode,
+    type OnNodeDrag,
 } from '@xyflow/react';
-import { useFlowStore } from '../store';
+import { useFlowStore, type Edge } from '../store';
 import { useMobileDetect } from '../hooks/useMobileDetect';
 import { nodeTypes } from './nodes/CustomNodes';
 import { edgeTypes, EdgeDefs } from './edges/AnimatedEdge';
 import {
     Spline, Minus, Plus, Maximize, Map, Wand2,
-    Hand, MousePointer2, Settings2, ChevronDown, FileImage, Trash2
+    Hand, MousePointer2, Settings2, ChevronDown, FileImage, Trash2, Loader2, CornerDownRight,
+    Workflow, Atom, Orbit, ListTree, LayoutGrid
 } from 'lucide-react';
-import { getLayoutedElements } from '../lib/layoutEngine';
+import { applyLayout, getLayoutAlgorithms } from '../lib/layoutAlgorithms';
+import { getFlowDirection } from '../lib/mermaidParser';
+import { getRoutingKey, routeOrthogonalEdges, routeOrthogonalEdgesInChunks } from '../lib/edgeRouter';
+import type { EdgeData, EdgeStyle } from '../types';
+
+// The edge style toggle cycles curved → straight → orthogonal
+const EDGE_STYLES: Record<EdgeStyle, { next: EdgeStyle; label: string; icon: typeof Spline; iconClass?: string }> = {
+    curved: { next: 'straight', label: 'Curved', icon: Spline },
+    straight: { next: 'orthogonal', label: 'Straight', icon: Minus, iconClass: 'rotate-45' },
+    orthogonal: { next: 'curved', label: 'Orthogonal', icon: CornerDownRight },
+};
+
+// Quiet time after the last node change before orthogonal routes are stored
+const ROUTE_DELAY = 120;
+
+// Bend points by edge id, as setEdgePoints stores them
+const getEdgePoints = (edges: Edge[]) => Object.fromEntries(edges.map(edge => [edge.id, (edge.data as EdgeData | undefined)?.points]));
+
+const LAYOUT_ICONS: Record<string, typeof Spline> = {
+    dagre: Workflow,
+    force: Atom,
+    radial: Orbit,
+    tree: ListTree,
+    grid: LayoutGrid,
+};
 
 
 
@@ -25,8 +51,8 @@ export function FlowCanvas() {
     const {
         nodes, edges, onNodesChange, onEdgesChange, onConnect,
         setSelectedNode, edgeStyle, setEdgeStyle, theme, activeFilters,
-        setNodes, setEdges, focusMode, setViewMode,
-        setMermaidCode, setInputDescription, setSourceCode
+        setNodes, setEdges, focusMode, setViewMode, layout, setLayout,
+        setMermaidCode, setInputDescription, setSourceCode, sourceCode, diagramProgress, setEdgePoints
     } = useFlowStore();
     const { isMobile } = useMobileDetect();
     const { zoomIn, zoomOut, fitView } = useReactFlow();
@@ -38,6 +64,8 @@ export function FlowCanvas() {
     const [showMiniMap, setShowMiniMap] = useState(true);
     const [isSelectionMode, setIsSelectionMode] = useState(false); // false = Pan, true = Select
 
+    const EdgeStyleIcon = EDGE_STYLES[edgeStyle].icon;
+
     const nodeTypesMemo = useMemo(() => nodeTypes, []);
     const edgeTypesMemo = useMemo(() => edgeTypes, []);
 
@@ -213,12 +241,63 @@ export function FlowCanvas() {
         });
     }, [nodes, activeFilters]);
 
+    // Orthogonal routes are stored on the edges (so exports see them) once the nodes settle after
+    // a layout, import or drag; while dragging only the edges at the dragged nodes are re-routed
+    const [draggedIds, setDraggedIds] = useState<Set<string> | null>(null);
+    const routedKey = useRef('');
+    const routingKey = useMemo(
+        () => (edgeStyle === 'orthogonal' ? getRoutingKey(filteredNodes, edges) : ''),
+        [filteredNodes, edges, edgeStyle],
+    );
+
+    useEffect(() => {
+        if (edgeStyle !== 'orthogonal') {
+            // Drop the routes when leaving orthogonal edges, so exports draw the new style
+            if (routedKey.current) setEdgePoints(Object.fromEntries(edges.map(edge => [edge.id, undefined])));
+            routedKey.current = '';
+            return;
+        }
+        if (draggedIds || routingKey === routedKey.current) return;
+        // Routed in slices so large diagrams stay responsive; a newer layout or a drag cancels the run
+        const abort = new AbortController();
+        const timer = setTimeout(async () => {
+            try {
+                const routed = await routeOrthogonalEdgesInChunks(filteredNodes, edges, abort.signal);
+                routedKey.current = routingKey;
+                setEdgePoints(getEdgePoints(routed));
+            } catch (error) {
+                if (!abort.signal.aborted) console.error('[FlowCanvas] Edge routing failed:', error);
+            }
+        }, ROUTE_DELAY);
+        return () => {
+            clearTimeout(timer);
+            abort.abort();
+        };
+    }, [edgeStyle, routingKey, draggedIds, filteredNodes, edges, setEdgePoints]);
+
+    const routedEdges = useMemo(
+        () => (edgeStyle === 'orthogonal' && draggedIds ? routeOrthogonalEdges(filteredNodes, edges, draggedIds) : edges),
+        [filteredNodes, edges, edgeStyle, draggedIds],
+    );
+
+    const onNodeDragStart = useCallback<OnNodeDrag>((_event, _node, dragged) => {
+        setDraggedIds(new Set(dragged.map(n => n.id)));
+    }, []);
+
+    const onNodeDragStop = useCallback<OnNodeDrag>(() => {
+        // Keep the dragged edges' last routes until the full re-route lands
+        if (draggedIds) {
+            setEdgePoints(getEdgePoints(routedEdges.filter((edge, i) => edge !== edges[i])));
+        }
+        setDraggedIds(null);
+    }, [draggedIds, routedEdges, edges, setEdgePoints]);
+
     // Apply edge styling with offsets to prevent overlaps
     const styledEdges = useMemo(() => {
         // Group edges by source-target pair to add offsets
         const edgeGroups: Record<string, number> = {};
 
-        return edges.map((edge) => {
+        return routedEdges.map((edge) => {
             const key = `${edge.source}-${edge.target}`;
             const reverseKey = `${edge.target}-${edge.source}`;
 
@@ -226,21 +305,20 @@ export function FlowCanvas() {
             const groupIndex = edgeGroups[key] || edgeGroups[reverseKey] || 0;
             edgeGroups[key] = groupIndex + 1;
 
+            // Sequence messages keep their dedicated edge type regardless of edge style
+            const type = edge.type === 'message' ? edge.type : edgeStyle;
+
             return {
                 ...edge,
-                type: edgeStyle === 'curved' ? 'curved' : 'straight',
+                type,
                 // Add slight offset for parallel edges
-                style: {
-                    ...edge.style,
-                    strokeWidth: 2,
-                },
                 data: {
                     ...edge.data,
                     offset: groupIndex * 20, // Offset parallel edges
                 },
             };
         });
-    }, [edges, edgeStyle]);
+    }, [routedEdges, edgeStyle]);
 
     // Filter edges to only show connections between visible nodes AND if edges are enabled
     const filteredEdges = useMemo(() => {
@@ -266,14 +344,14 @@ export function FlowCanvas() {
         setSelectedNode(null);
     }, [setSelectedNode]);
 
-    // Auto-layout cleanup function
-    const handleAutoLayout = useCallback(() => {
+    // Auto-layout cleanup function, with the algorithm picked in the toolkit
+    const handleAutoLayout = useCallback((algorithm: string = layout) => {
         if (nodes.length === 0) return;
-        const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(nodes, edges);
+        const { nodes: layoutedNodes, edges: layoutedEdges } = applyLayout(algorithm, nodes, edges, { direction: getFlowDirection(sourceCode) });
         setNodes(layoutedNodes);
         setEdges(layoutedEdges);
         setTimeout(() => fitView({ padding: 0.2, duration: 500 }), 100);
-    }, [nodes, edges, setNodes, setEdges, fitView]);
+    }, [layout, nodes, edges, sourceCode, setNodes, setEdges, fitView]);
 
     // Reset view
     const handleResetView = useCallback(() => {
@@ -300,6 +378,8 @@ export function FlowCanvas() {
                 onNodesChange={onNodesChange}
                 onEdgesChange={onEdgesChange}
                 onConnect={onConnect}
+                onNodeDragStart={onNodeDragStart}
+                onNodeDragStop={onNodeDragStop}
                 onNodeClick={onNodeClick}
                 onPaneClick={onPaneClick}
                 nodeTypes={nodeTypesMemo}
@@ -317,7 +397,7 @@ export function FlowCanvas() {
                 multiSelectionKeyCode={['Meta', 'Control']}
                 deleteKeyCode={['Backspace', 'Delete']}
                 defaultEdgeOptions={{
-                    type: edgeStyle === 'curved' ? 'curved' : 'straight',
+                    type: edgeStyle,
                     style: { strokeWidth: 2, stroke: theme === 'dark' ? '#475569' : '#94a3b8' },
                 }}
                 proOptions={{ hideAttribution: true }}
@@ -412,6 +492,25 @@ export function FlowCanvas() {
 
                                         <div className="h-px bg-slate-200 dark:bg-white/10 mx-2" />
 
+                                        {/* Section: Layout algorithm (also applies it) */}
+                                        <div className="p-1 space-y-1">
+                                            <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 dark:text-slate-500 px-2 mb-1 block">Layout</span>
+                                            {getLayoutAlgorithms().map(algorithm => (
+                                                <MenuButton
+                                                    key={algorithm.id}
+                                                    icon={LAYOUT_ICONS[algorithm.id] || Wand2}
+                                                    label={algorithm.label}
+                                                    active={layout === algorithm.id}
+                                                    onClick={() => {
+                                                        setLayout(algorithm.id);
+                                                        handleAutoLayout(algorithm.id);
+                                                    }}
+                                                />
+                                            ))}
+                                        </div>
+
+                                        <div className="h-px bg-slate-200 dark:bg-white/10 mx-2" />
+
                                         {/* Section: Layout & Overlays */}
                                         <div className="p-1 space-y-1">
                                             <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 dark:text-slate-500 px-2 mb-1 block">Actions</span>
@@ -420,15 +519,15 @@ export function FlowCanvas() {
                                                 icon={Wand2}
                                                 label="Auto Layout"
                                                 active={false}
-                                                onClick={handleAutoLayout}
+                                                onClick={() => handleAutoLayout()}
                                             />
 
                                             <MenuButton
-                                                icon={edgeStyle === 'curved' ? Spline : Minus}
-                                                label={edgeStyle === 'curved' ? 'Edge Style: Curved' : 'Edge Style: Straight'}
-                                                iconClass={edgeStyle === 'straight' ? 'rotate-45' : ''}
+                                                icon={EDGE_STYLES[edgeStyle].icon}
+                                                label={`Edge Style: ${EDGE_STYLES[edgeStyle].label}`}
+                                                iconClass={EDGE_STYLES[edgeStyle].iconClass}
                                                 active={false}
-                                                onClick={() => setEdgeStyle(edgeStyle === 'curved' ? 'straight' : 'curved')}
+                                                onClick={() => setEdgeStyle(EDGE_STYLES[edgeStyle].next)}
                                             />
 
                                             <MenuButton
@@ -488,7 +587,7 @@ export function FlowCanvas() {
 
                             {/* Auto Layout */}
                             <button
-                                onClick={handleAutoLayout}
+                                onClick={() => handleAutoLayout()}
                                 className="w-11 h-11 flex items-center justify-center rounded-xl text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-white/10 active:scale-95 transition-all"
                                 title="Auto Layout"
                             >
@@ -497,11 +596,11 @@ export function FlowCanvas() {
 
                             {/* Toggle Edge Style */}
                             <button
-                                onClick={() => setEdgeStyle(edgeStyle === 'curved' ? 'straight' : 'curved')}
+                                onClick={() => setEdgeStyle(EDGE_STYLES[edgeStyle].next)}
                                 className="w-11 h-11 flex items-center justify-center rounded-xl text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-white/10 active:scale-95 transition-all"
-                                title={edgeStyle === 'curved' ? 'Switch to Straight Edges' : 'Switch to Curved Edges'}
+                                title={`Switch to ${EDGE_STYLES[EDGE_STYLES[edgeStyle].next].label} Edges`}
                             >
-                                {edgeStyle === 'curved' ? <Spline className="w-5 h-5" /> : <Minus className="w-5 h-5 rotate-45" />}
+                                <EdgeStyleIcon className={`w-5 h-5 ${EDGE_STYLES[edgeStyle].iconClass || ''}`} />
                             </button>
                         </div>
                     </Panel>
@@ -545,6 +644,16 @@ export function FlowCanvas() {
                 {/* Command Palette Hint - Top Center (Desktop only) */}
 
             </ReactFlow>
+
+            {/* Parse/layout progress; the canvas stays usable while the worker runs */}
+            {diagramProgress && (
+                <div className="absolute inset-0 z-40 flex items-center justify-center pointer-events-none bg-white/30 dark:bg-black/20">
+                    <div className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white/90 dark:bg-surface/90 backdrop-blur-md border border-slate-200 dark:border-white/10 shadow-lg text-xs font-bold uppercase tracking-wider text-slate-600 dark:text-slate-300">
+                        <Loader2 className="w-4 h-4 animate-spin text-blue-500" />
+                        {diagramProgress === 'parsing' ? 'Parsing diagram…' : 'Laying out diagram…'}
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
@@ -1,8 +1,7 @@
 import { useState, useCallback, useRef } from 'react';
 import { useFlowStore } from '../store';
 import { analyzeImage, analyzeSVG } from '../lib/aiService';
-import { parseMermaid } from '../lib/mermaidParser';
-import { getLayoutedElements } from '../lib/layoutEngine';
+import { useDiagramPipeline } from '../hooks/useDiagramPipeline';
 import { Upload, X, Loader2, Zap } from 'lucide-react';
 
 export function ImageUpload() {
@@ -16,6 +15,7 @@ export function ImageUpload() {
         setNodes, setEdges, setLoading, setError, setSourceCode, isLoading,
         ollamaUrl, modelName, aiMode, onlineProvider, apiKey, generationComplexity
     } = useFlowStore();
+    const runPipeline = useDiagramPipeline();
 
     const handleFile = useCallback((file: File) => {
         const validImageTypes = ['image/jpeg', 'image/png', 'image/webp'];
@@ -122,10 +122,11 @@ export function ImageUpload() {
             }
 
             setSourceCode(result.mermaidCode);
-            const { nodes: parsedNodes, edges: parsedEdges } = await parseMermaid(result.mermaidCode);
+            const diagram = await runPipeline(result.mermaidCode);
+            if (!diagram) return;
 
             if (result.metadata) {
-                parsedNodes.forEach(node => {
+                diagram.nodes.forEach(node => {
                     const label = (node.data.label as string) || '';
                     if (label && result.metadata && result.metadata[label]) {
                         node.data.metadata = result.metadata[label];
@@ -133,15 +134,14 @@ export function ImageUpload() {
                 });
             }
 
-            const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(parsedNodes, parsedEdges);
-            setNodes(layoutedNodes);
-            setEdges(layoutedEdges);
+            setNodes(diagram.nodes);
+            setEdges(diagram.edges);
         } catch (error) {
             setError(error instanceof Error ? error.message : 'Failed to process input');
         } finally {
             setLoading(false);
         }
-    }, [preview, svgContent, fileType, ollamaUrl, modelName, setNodes, setEdges, setLoading, setError, setSourceCode, aiMode, onlineProvider, apiKey]);
+    }, [preview, svgContent, fileType, ollamaUrl, modelName, setNodes, setEdges, setLoading, setError, setSourceCode, aiMode, onlineProvider, apiKey, runPipeline]);
 
     return (
         <div className="h-full flex flex-col gap-6 animate-slide-up">
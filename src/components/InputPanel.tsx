@@ -2,13 +2,13 @@ import { useCallback } from 'react';
 import { ImageUpload } from './ImageUpload';
 import { CodeEditor } from './CodeEditor';
 import { ComfyImportPanel } from './editor/ComfyImportPanel'; // Import new panel
-import { Image, Code, MessageSquare, Loader2, Zap, Workflow } from 'lucide-react'; // Add Workflow icon
+import { DiagramImportPanel } from './editor/DiagramImportPanel';
+import { Image, Code, MessageSquare, Loader2, Zap, Workflow, FileInput } from 'lucide-react'; // Add Workflow icon
 import { useFlowStore } from '../store';
 import { interpretText } from '../lib/aiService';
-import { parseMermaid } from '../lib/mermaidParser';
-import { getLayoutedElements } from '../lib/layoutEngine';
+import { useDiagramPipeline } from '../hooks/useDiagramPipeline';
 
-type Tab = 'image' | 'code' | 'describe' | 'comfy'; // Add 'comfy' tab type
+type Tab = 'image' | 'code' | 'describe' | 'comfy' | 'import'; // Add 'comfy' tab type
 
 export function InputPanel() {
     const {
@@ -23,6 +23,7 @@ export function InputPanel() {
         // Actions for auto-sync and save
         setMermaidCode, saveDiagram
     } = useFlowStore();
+    const runPipeline = useDiagramPipeline();
 
     const handleTextGenerate = useCallback(async () => {
         if (!description.trim()) return;
@@ -68,10 +69,11 @@ export function InputPanel() {
             setMermaidCode(result.mermaidCode);
             setSourceCode(result.mermaidCode);
 
-            const { nodes: parsedNodes, edges: parsedEdges } = await parseMermaid(result.mermaidCode);
+            const diagram = await runPipeline(result.mermaidCode);
+            if (!diagram) return;
 
             if (result.metadata) {
-                parsedNodes.forEach(node => {
+                diagram.nodes.forEach(node => {
                     const label = (node.data.label as string) || '';
                     if (label && result.metadata && result.metadata[label]) {
                         node.data.metadata = result.metadata[label];
@@ -79,9 +81,8 @@ export function InputPanel() {
                 });
             }
 
-            const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(parsedNodes, parsedEdges);
-            setNodes(layoutedNodes);
-            setEdges(layoutedEdges);
+            setNodes(diagram.nodes);
+            setEdges(diagram.edges);
 
             // Auto-save the generated diagram
             // Generate a name based on the description or a timestamp
@@ -93,12 +94,13 @@ export function InputPanel() {
         } finally {
             setLoading(false);
         }
-    }, [description, ollamaUrl, modelName, aiMode, onlineProvider, apiKey, generationComplexity, setNodes, setEdges, setLoading, setError, setSourceCode, setMermaidCode, saveDiagram]);
+    }, [description, ollamaUrl, modelName, aiMode, onlineProvider, apiKey, generationComplexity, setNodes, setEdges, setLoading, setError, setSourceCode, setMermaidCode, saveDiagram, runPipeline]);
 
     const tabs = [
         { id: 'describe' as Tab, icon: MessageSquare, label: 'Describe' }, // Moved Describe first as primary
         { id: 'code' as Tab, icon: Code, label: 'Code' },
         { id: 'comfy' as Tab, icon: Workflow, label: 'ComfyUI' }, // New Tab
+        { id: 'import' as Tab, icon: FileInput, label: 'Import' },
         { id: 'image' as Tab, icon: Image, label: 'Upload' },
     ];
 
@@ -167,6 +169,7 @@ export function InputPanel() {
                 {activeTab === 'image' && <ImageUpload />}
                 {activeTab === 'code' && <CodeEditor />}
                 {activeTab === 'comfy' && <ComfyImportPanel />}
+                {activeTab === 'import' && <DiagramImportPanel />}
 
                 {activeTab === 'describe' && (
                     <div className="h-full flex flex-col animate-slide-up">
@@ -1,13 +1,18 @@
 import { useFlowStore } from '../store';
 import {
     Server, Database, Smartphone, Layers, X, Tag, Code2,
-    FileText, Activity, Zap, Cpu, Wifi, BarChart3
+    FileText, Activity, Zap, Cpu, Wifi, BarChart3, Table2, Pin, PinOff
 } from 'lucide-react';
 import { useMemo } from 'react';
 import { SmartGuide } from './SmartGuide';
+import { ShapePicker } from './ShapePicker';
+import { isErDiagram } from '../lib/erDiagram';
 
 export function NodeDetailsPanel() {
-    const { selectedNode, setSelectedNode, nodes, edges, updateNodeData, updateNodeType, deleteNode } = useFlowStore();
+    const {
+        selectedNode, setSelectedNode, nodes, edges, updateNodeData, updateNodeType, deleteNode,
+        savedDiagrams, loadDiagram
+    } = useFlowStore();
 
     // Stats for Empty State
     const systemStats = useMemo(() => ({
@@ -45,6 +50,17 @@ export function NodeDetailsPanel() {
     }
 
     const label = (selectedNode.data?.label as string) || 'Node';
+    const isDatabase = ['database', 'databaseNode', 'data'].includes(selectedNode.type || '');
+    const schemaDiagramId = selectedNode.data?.schemaDiagramId as string | undefined;
+    const schemaDiagrams = savedDiagrams.filter(d => isErDiagram(d.sourceCode || ''));
+
+    // Swap the canvas for the linked ER diagram
+    const openSchema = () => {
+        if (!schemaDiagramId) return;
+        setSelectedNode(null);
+        loadDiagram(schemaDiagramId);
+    };
+    const pinned = !!nodes.find(n => n.id === selectedNode.id)?.data.pinned;
     const metadata = selectedNode.data?.metadata as { role?: string; techStack?: string[]; description?: string } | undefined;
 
     const getIcon = () => {
@@ -115,6 +131,47 @@ export function NodeDetailsPanel() {
                     </select>
                 </div>
 
+                {/* Shape Picker: any Mermaid v11 shape, drawn by ShapeNode */}
+                {selectedNode.type !== 'group' && (
+                    <div className="space-y-2">
+                        <label className="text-[9px] font-black uppercase tracking-widest text-slate-500 dark:text-tertiary block">Shape</label>
+                        <ShapePicker
+                            value={nodes.find(n => n.id === selectedNode.id)?.data.shape}
+                            onSelect={(shape) => {
+                                if (selectedNode.type !== 'custom-shape') updateNodeType(selectedNode.id, 'custom-shape');
+                                updateNodeData(selectedNode.id, { shape });
+                            }}
+                        />
+                    </div>
+                )}
+
+                {/* ER Schema drill-down for data stores */}
+                {isDatabase && (
+                    <div className="space-y-2">
+                        <label className="text-[9px] font-black uppercase tracking-widest text-slate-500 dark:text-tertiary block">ER Schema</label>
+                        <div className="flex gap-2">
+                            <select
+                                value={schemaDiagramId || ''}
+                                onChange={(e) => updateNodeData(selectedNode.id, { schemaDiagramId: e.target.value || undefined })}
+                                className="flex-1 min-w-0 bg-white dark:bg-black/20 border border-slate-200 dark:border-white/10 rounded-xl p-3 text-sm font-semibold outline-none focus:border-blue-500/50 transition-all text-slate-800 dark:text-primary cursor-pointer appearance-none"
+                            >
+                                <option value="">{schemaDiagrams.length ? 'No schema linked' : 'Save an erDiagram first'}</option>
+                                {schemaDiagrams.map(d => (
+                                    <option key={d.id} value={d.id}>{d.name}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={openSchema}
+                                disabled={!schemaDiagramId}
+                                title="Open ER schema"
+                                className="px-3 rounded-xl bg-cyan-50 dark:bg-cyan-500/10 border border-cyan-200 dark:border-cyan-500/20 text-cyan-600 dark:text-cyan-400 hover:bg-cyan-100 dark:hover:bg-cyan-500/20 disabled:opacity-40 transition-all"
+                            >
+                                <Table2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 {/* Core Metadata */}
                 <div className="space-y-6">
                     {metadata?.role && (
@@ -157,8 +214,18 @@ export function NodeDetailsPanel() {
                     )}
                 </div>
 
-                {/* Delete Button */}
-                <div className="pt-4 border-t border-slate-200 dark:border-white/5">
+                {/* Pin / Delete */}
+                <div className="pt-4 border-t border-slate-200 dark:border-white/5 space-y-2">
+                    <button
+                        onClick={() => updateNodeData(selectedNode.id, { pinned: !pinned })}
+                        title="Pinned nodes keep their position through Auto Layout and code edits"
+                        className={`w-full py-3 rounded-xl border text-[11px] font-bold uppercase tracking-wider transition-all flex items-center justify-center gap-2 ${pinned
+                            ? 'bg-amber-50 dark:bg-amber-500/10 border-amber-200 dark:border-amber-500/20 text-amber-600 dark:text-amber-400 hover:bg-amber-100 dark:hover:bg-amber-500/20'
+                            : 'bg-white dark:bg-black/20 border-slate-200 dark:border-white/10 text-slate-600 dark:text-secondary hover:bg-slate-50 dark:hover:bg-white/5'}`}
+                    >
+                        {pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                        {pinned ? 'Unpin Position' : 'Pin Position'}
+                    </button>
                     <button
                         onClick={() => deleteNode(selectedNode.id)}
                         className="w-full py-3 rounded-xl bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 text-red-600 dark:text-red-400 text-[11px] font-bold uppercase tracking-wider hover:bg-red-100 dark:hover:bg-red-500/20 hover:border-red-300 dark:hover:border-red-500/40 transition-all flex items-center justify-center gap-2"
@@ -0,0 +1,49 @@
+import { SHAPE_DEFINITIONS, resolveShapeName, type ShapeDefinition } from '../lib/shapes';
+
+const CATEGORY_LABELS: Record<ShapeDefinition['category'], string> = {
+    basic: 'Basic',
+    logic: 'Process & Logic',
+    data: 'Data & Documents',
+    other: 'Other',
+};
+
+interface ShapePickerProps {
+    value?: string;
+    onSelect: (shapeId: string) => void;
+}
+
+/**
+ * Grid of every Mermaid v11 shape, grouped by category
+ */
+export function ShapePicker({ value, onSelect }: ShapePickerProps) {
+    const selected = resolveShapeName(value);
+    const categories = Object.keys(CATEGORY_LABELS) as ShapeDefinition['category'][];
+
+    return (
+        <div className="space-y-3 max-h-64 overflow-y-auto pr-1">
+            {categories.map(category => (
+                <div key={category} className="space-y-1.5">
+                    <span className="text-[8px] font-black uppercase tracking-widest text-slate-400 dark:text-tertiary">{CATEGORY_LABELS[category]}</span>
+                    <div className="grid grid-cols-6 gap-1.5">
+                        {SHAPE_DEFINITIONS.filter(def => def.category === category).map(def => (
+                            <button
+                                key={def.id}
+                                onClick={() => onSelect(def.id)}
+                                title={`${def.label} (${def.id})`}
+                                className={`aspect-square p-1.5 rounded-lg border transition-all ${selected === def.id
+                                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-500/10 text-blue-500'
+                                    : 'border-slate-200 dark:border-white/10 text-slate-400 hover:border-blue-500/50 hover:text-blue-500'}`}
+                            >
+                                <svg viewBox="0 0 100 70" className="w-full h-full overflow-visible">
+                                    {def.path
+                                        ? <path d={def.path} fill="none" stroke="currentColor" strokeWidth={5} strokeLinejoin="round" />
+                                        : <text x="50" y="48" textAnchor="middle" fontSize="40" fill="currentColor">T</text>}
+                                </svg>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
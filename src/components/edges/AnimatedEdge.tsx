@@ -1,4 +1,8 @@
 import { BaseEdge, getSmoothStepPath, getBezierPath, Position, EdgeLabelRenderer } from '@xyflow/react';
+import { MessageEdge } from './MessageEdge';
+import type { EdgeMarker, EdgeStroke } from '../../types';
+import { getFlowLink, getStrokeStyle } from '../../lib/flowEdges';
+import { getOrthogonalPath } from '../../lib/edgeRouter';
 
 interface AnimatedEdgeProps {
     id: string;
@@ -11,7 +15,102 @@ interface AnimatedEdgeProps {
     style?: React.CSSProperties;
     markerEnd?: string;
     label?: any;
-    data?: { curved?: boolean; offset?: number };
+    data?: {
+        curved?: boolean;
+        orthogonal?: boolean;
+        /** Bend points from the orthogonal router */
+        points?: { x: number; y: number }[];
+        /** Shift of the label from the middle of the edge, set by the layout to keep it clear of nodes */
+        labelOffset?: { x: number; y: number };
+        offset?: number;
+        stroke?: EdgeStroke;
+        length?: number;
+        startMarker?: EdgeMarker;
+        endMarker?: EdgeMarker;
+        sourceCardinality?: string;
+        targetCardinality?: string;
+    };
+}
+
+type FlowMarker = Exclude<EdgeMarker, 'none'>;
+
+const DEFAULT_STROKE = '#6366f1';
+const HOLLOW_FILL = 'fill-white dark:fill-slate-950';
+const ARROW_HEAD = 'M 0 0 L 10 5 L 0 10 z';
+const DIAMOND = 'M 0 5 L 7 0 L 14 5 L 7 10 z';
+
+interface MarkerShape {
+    viewBox: string;
+    refX: number;
+    refY: number;
+    size: number;
+    height?: number;
+    body: (color: string) => React.ReactNode;
+}
+
+// Crow's-foot cardinality markers (ER diagrams), drawn with the node side at x=20
+function crowsFoot(d: string, optional: boolean): MarkerShape {
+    return {
+        viewBox: '0 0 20 20', refX: 20, refY: 10, size: 10,
+        body: color => (
+            <>
+                <path d={d} fill="none" stroke={color} strokeWidth="1.5" />
+                {optional && <circle cx="6" cy="10" r="3.5" className={HOLLOW_FILL} stroke={color} strokeWidth="1.5" />}
+            </>
+        ),
+    };
+}
+
+const MARKER_SHAPES: Record<FlowMarker, MarkerShape> = {
+    arrow: { viewBox: '0 0 10 10', refX: 9, refY: 5, size: 5, body: color => <path d={ARROW_HEAD} fill={color} /> },
+    // Flowchart circle (--o) and cross (--x) ends
+    circle: { viewBox: '0 0 10 10', refX: 9, refY: 5, size: 5, body: color => <circle cx="5" cy="5" r="4" fill={color} /> },
+    cross: { viewBox: '0 0 10 10', refX: 8, refY: 5, size: 5, body: color => <path d="M 1 1 L 9 9 M 9 1 L 1 9" fill="none" stroke={color} strokeWidth="2" /> },
+    // UML relationship markers (class diagrams)
+    triangle: { viewBox: '0 0 10 10', refX: 10, refY: 5, size: 7, body: color => <path d={ARROW_HEAD} className={HOLLOW_FILL} stroke={color} strokeWidth="1" /> },
+    diamond: { viewBox: '0 0 14 10', refX: 14, refY: 5, size: 8, height: 6, body: color => <path d={DIAMOND} className={HOLLOW_FILL} stroke={color} strokeWidth="1" /> },
+    'filled-diamond': { viewBox: '0 0 14 10', refX: 14, refY: 5, size: 8, height: 6, body: color => <path d={DIAMOND} fill={color} /> },
+    lollipop: { viewBox: '0 0 10 10', refX: 9, refY: 5, size: 6, body: color => <circle cx="5" cy="5" r="4" className={HOLLOW_FILL} stroke={color} strokeWidth="1.5" /> },
+    'zero-or-one': crowsFoot('M 14 3 V 17', true),
+    'exactly-one': crowsFoot('M 10 3 V 17 M 15 3 V 17', false),
+    'zero-or-many': crowsFoot('M 12 10 L 20 3 M 12 10 L 20 17 M 12 10 H 20', true),
+    'one-or-many': crowsFoot('M 8 3 V 17 M 12 10 L 20 3 M 12 10 L 20 17 M 12 10 H 20', false),
+};
+
+/**
+ * Id of the <marker> drawing a typed end; ends of other colours than the default get their own, suffixed by colour
+ */
+function getMarkerId(marker: FlowMarker, colorKey?: string): string {
+    const id = marker === 'arrow' ? 'arrow' : `marker-${marker}`;
+    return colorKey ? `${id}-${colorKey}` : id;
+}
+
+function getMarkerUrl(marker?: EdgeMarker, colorKey?: string): string | undefined {
+    if (!marker || marker === 'none') return undefined;
+    return `url(#${getMarkerId(marker, colorKey)})`;
+}
+
+function MarkerDef({ id, marker, color }: { id: string; marker: FlowMarker; color: string }) {
+    const shape = MARKER_SHAPES[marker];
+    return (
+        <marker
+            id={id}
+            viewBox={shape.viewBox}
+            refX={shape.refX}
+            refY={shape.refY}
+            markerWidth={shape.size}
+            markerHeight={shape.height ?? shape.size}
+            orient="auto-start-reverse"
+        >
+            {shape.body(color)}
+        </marker>
+    );
+}
+
+// Point a short distance along the straight line from (x1, y1) towards (x2, y2)
+function pointNear(x1: number, y1: number, x2: number, y2: number, distance: number) {
+    const length = Math.hypot(x2 - x1, y2 - y1) || 1;
+    return { x: x1 + ((x2 - x1) / length) * distance, y: y1 + ((y2 - y1) / length) * distance };
 }
 
 export function AnimatedEdge({
@@ -29,13 +128,16 @@ export function AnimatedEdge({
 }: AnimatedEdgeProps) {
     const isCurved = data?.curved !== false;
     const offset = data?.offset || 0;
+    const link = getFlowLink(data, style);
 
     // Apply offset for parallel edges
     const offsetX = sourcePosition === Position.Left || sourcePosition === Position.Right ? 0 : offset;
     const offsetY = sourcePosition === Position.Top || sourcePosition === Position.Bottom ? 0 : offset;
 
-    // Use SmoothStep for cleaner orthogonal routing, Bezier for curved
-    const [edgePath, labelX, labelY] = isCurved
+    // Routed bend points when available, otherwise SmoothStep for cleaner orthogonal routing, Bezier for curved
+    const [edgePath, labelX, labelY] = data?.orthogonal && data.points
+        ? getOrthogonalPath([{ x: sourceX, y: sourceY }, ...data.points, { x: targetX, y: targetY }])
+        : isCurved
         ? getBezierPath({
             sourceX: sourceX + offsetX,
             sourceY: sourceY + offsetY,
@@ -56,11 +158,32 @@ export function AnimatedEdge({
             offset: 20, // Offset from node for cleaner routing
         });
 
-    const isDashed = style?.strokeDasharray;
-    const strokeColor = isDashed ? '#94a3b8' : '#6366f1';
+    // Routed labels sit on their own route; others take the layout's shift off the nodes
+    const labelOffset = !(data?.orthogonal && data.points) && data?.labelOffset;
+    const labelLeft = labelX + (labelOffset ? labelOffset.x : 0);
+    const labelTop = labelY + (labelOffset ? labelOffset.y : 0);
+
+    // `~~~` links only influence layout
+    if (link.stroke === 'invisible') return null;
+
+    const isDashed = link.stroke === 'dotted';
+    // linkStyle colours win over the default palette, including the glow, travelling dot and markers
+    const strokeColor = style.stroke || (isDashed ? '#94a3b8' : DEFAULT_STROKE);
+    const colorKey = strokeColor === DEFAULT_STROKE ? undefined : strokeColor.replace(/[^a-z0-9]/gi, '');
+    const endMarker = data?.endMarker ?? (markerEnd ? undefined : 'arrow');
+    const ends = [data?.startMarker, endMarker].filter((marker): marker is FlowMarker => !!marker && marker !== 'none');
 
     return (
         <>
+            {/* Markers in this edge's colour; identical ids across edges of one colour draw the same thing */}
+            {colorKey && ends.length > 0 && (
+                <defs>
+                    {[...new Set(ends)].map(marker => (
+                        <MarkerDef key={marker} id={getMarkerId(marker, colorKey)} marker={marker} color={strokeColor} />
+                    ))}
+                </defs>
+            )}
+
             {/* Shadow/glow effect for depth */}
             <path
                 d={edgePath}
@@ -75,12 +198,14 @@ export function AnimatedEdge({
             <BaseEdge
                 id={id}
                 path={edgePath}
-                markerEnd={markerEnd || 'url(#arrow)'}
+                markerEnd={endMarker ? getMarkerUrl(endMarker, colorKey) : markerEnd}
+                markerStart={getMarkerUrl(data?.startMarker, colorKey)}
                 style={{
                     strokeWidth: 2,
                     stroke: strokeColor,
                     strokeLinecap: 'round',
                     strokeLinejoin: 'round',
+                    ...getStrokeStyle(link.stroke),
                     ...style,
                 }}
             />
@@ -96,9 +221,10 @@ export function AnimatedEdge({
                     <div
                         style={{
                             position: 'absolute',
-                            transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
+                            transform: `translate(-50%, -50%) translate(${labelLeft}px, ${labelTop}px)`,
                             pointerEvents: 'all',
                             zIndex: 10,
+                            color: style.color,
                         }}
                         className="px-2.5 py-1 bg-slate-900 border border-slate-600/50 rounded-md text-[10px] font-semibold text-slate-200 shadow-lg whitespace-nowrap"
                     >
@@ -106,6 +232,27 @@ export function AnimatedEdge({
                     </div>
                 </EdgeLabelRenderer>
             )}
+
+            {/* Multiplicities at either end (class diagram relations) */}
+            {(data?.sourceCardinality || data?.targetCardinality) && (
+                <EdgeLabelRenderer>
+                    {[
+                        { text: data?.sourceCardinality, at: pointNear(sourceX, sourceY, targetX, targetY, 24) },
+                        { text: data?.targetCardinality, at: pointNear(targetX, targetY, sourceX, sourceY, 24) },
+                    ].filter(c => c.text).map((c, i) => (
+                        <div
+                            key={i}
+                            style={{
+                                position: 'absolute',
+                                transform: `translate(6px, -50%) translate(${c.at.x}px, ${c.at.y}px)`,
+                            }}
+                            className="text-[10px] font-bold text-slate-500 dark:text-slate-400 whitespace-nowrap"
+                        >
+                            {c.text}
+                        </div>
+                    ))}
+                </EdgeLabelRenderer>
+            )}
         </>
     );
 }
@@ -118,22 +265,14 @@ export function CurvedEdge(props: AnimatedEdgeProps) {
     return <AnimatedEdge {...props} data={{ ...props.data, curved: true }} />;
 }
 
+export function OrthogonalEdge(props: AnimatedEdgeProps) {
+    return <AnimatedEdge {...props} data={{ ...props.data, curved: false, orthogonal: true }} />;
+}
+
 export function EdgeDefs() {
     return (
         <svg style={{ position: 'absolute', width: 0, height: 0 }}>
             <defs>
-                {/* Arrow marker with better styling */}
-                <marker
-                    id="arrow"
-                    viewBox="0 0 10 10"
-                    refX="9"
-                    refY="5"
-                    markerWidth="5"
-                    markerHeight="5"
-                    orient="auto-start-reverse"
-                >
-                    <path d="M 0 0 L 10 5 L 0 10 z" fill="#6366f1" />
-                </marker>
                 {/* Dotted arrow marker */}
                 <marker
                     id="arrow-dotted"
@@ -146,6 +285,40 @@ export function EdgeDefs() {
                 >
                     <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
                 </marker>
+                {/* Open (async) arrow markers */}
+                {[['arrow-open', '#6366f1'], ['arrow-open-dotted', '#94a3b8']].map(([id, color]) => (
+                    <marker
+                        key={id}
+                        id={id}
+                        viewBox="0 0 10 10"
+                        refX="9"
+                        refY="5"
+                        markerWidth="6"
+                        markerHeight="6"
+                        orient="auto-start-reverse"
+                    >
+                        <path d="M 0 0 L 10 5 L 0 10" fill="none" stroke={color} strokeWidth="1.5" />
+                    </marker>
+                ))}
+                {/* Typed flowchart, class and ER ends in the default colour */}
+                {(Object.keys(MARKER_SHAPES) as FlowMarker[]).map(marker => (
+                    <MarkerDef key={marker} id={getMarkerId(marker)} marker={marker} color={DEFAULT_STROKE} />
+                ))}
+                {/* Cross markers (lost / destroyed messages) */}
+                {[['cross', '#6366f1'], ['cross-dotted', '#94a3b8']].map(([id, color]) => (
+                    <marker
+                        key={id}
+                        id={id}
+                        viewBox="0 0 10 10"
+                        refX="5"
+                        refY="5"
+                        markerWidth="6"
+                        markerHeight="6"
+                        orient="auto"
+                    >
+                        <path d="M 1 1 L 9 9 M 9 1 L 1 9" fill="none" stroke={color} strokeWidth="2" />
+                    </marker>
+                ))}
             </defs>
         </svg>
     );
@@ -155,4 +328,6 @@ export const edgeTypes = {
     animated: AnimatedEdge,
     curved: CurvedEdge,
     straight: StraightEdge,
+    orthogonal: OrthogonalEdge,
+    message: MessageEdge,
 };
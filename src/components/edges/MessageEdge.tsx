@@ -0,0 +1,99 @@
+import { BaseEdge, EdgeLabelRenderer, useInternalNode } from '@xyflow/react';
+import {
+    SEQUENCE_LAYOUT,
+    getSequenceRowOffset,
+    type SequenceArrowHead,
+    type SequenceLineStyle,
+} from '../../lib/sequenceDiagram';
+
+interface MessageEdgeProps {
+    id: string;
+    source: string;
+    target: string;
+    style?: React.CSSProperties;
+    label?: React.ReactNode;
+    data?: {
+        row?: number;
+        lineStyle?: SequenceLineStyle;
+        head?: SequenceArrowHead;
+        bidirectional?: boolean;
+        sequenceNumber?: number;
+    };
+}
+
+const MARKERS: Record<SequenceArrowHead, string | undefined> = {
+    none: undefined,
+    arrow: 'arrow',
+    cross: 'cross',
+    async: 'arrow-open',
+};
+
+/**
+ * Horizontal message between two lifelines, drawn on the row assigned by the parser.
+ * Geometry comes from the lifeline nodes themselves rather than handle positions,
+ * so every message of a pair can sit on its own row.
+ */
+export function MessageEdge({ id, source, target, style = {}, label, data }: MessageEdgeProps) {
+    const sourceNode = useInternalNode(source);
+    const targetNode = useInternalNode(target);
+    if (!sourceNode || !targetNode) return null;
+
+    const row = data?.row ?? 0;
+    const isDotted = data?.lineStyle === 'dotted';
+    const strokeColor = isDotted ? '#94a3b8' : '#6366f1';
+    const markerId = MARKERS[data?.head ?? 'arrow'];
+    const marker = markerId ? `url(#${markerId}${isDotted ? '-dotted' : ''})` : undefined;
+
+    const sourceX = sourceNode.internals.positionAbsolute.x + (sourceNode.measured.width ?? SEQUENCE_LAYOUT.participantWidth) / 2;
+    const targetX = targetNode.internals.positionAbsolute.x + (targetNode.measured.width ?? SEQUENCE_LAYOUT.participantWidth) / 2;
+    const y = sourceNode.internals.positionAbsolute.y + getSequenceRowOffset(row);
+
+    // Self-messages loop out to the right and come back slightly lower
+    const isSelf = source === target;
+    const loop = SEQUENCE_LAYOUT.selfMessageWidth;
+    const edgePath = isSelf
+        ? `M ${sourceX} ${y - 8} H ${sourceX + loop} V ${y + 8} H ${sourceX + 4}`
+        : `M ${sourceX} ${y} L ${targetX} ${y}`;
+    const labelX = isSelf ? sourceX + loop + 8 : (sourceX + targetX) / 2;
+    const labelY = isSelf ? y - 8 : y - 6;
+
+    const text = data?.sequenceNumber !== undefined && label
+        ? `${data.sequenceNumber}. ${label}`
+        : label ?? data?.sequenceNumber;
+
+    return (
+        <>
+            <BaseEdge
+                id={id}
+                path={edgePath}
+                markerEnd={marker}
+                markerStart={data?.bidirectional ? marker : undefined}
+                style={{
+                    strokeWidth: 2,
+                    stroke: strokeColor,
+                    strokeDasharray: isDotted ? '6,4' : undefined,
+                    strokeLinecap: 'round',
+                    ...style,
+                }}
+            />
+
+            {text !== undefined && text !== '' && (
+                <EdgeLabelRenderer>
+                    <div
+                        style={{
+                            position: 'absolute',
+                            transform: isSelf
+                                ? `translate(0, -50%) translate(${labelX}px, ${labelY}px)`
+                                : `translate(-50%, -100%) translate(${labelX}px, ${labelY}px)`,
+                            pointerEvents: 'all',
+                            zIndex: 10,
+                        }}
+                        className="px-2 py-0.5 rounded-md text-[11px] font-semibold text-slate-700 dark:text-slate-200 bg-white/80 dark:bg-slate-900/80 whitespace-nowrap"
+                    >
+                        {text}
+                    </div>
+                </EdgeLabelRenderer>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,49 @@
+import { AlertTriangle, Check, GitMerge, Loader2 } from 'lucide-react';
+import { useDiagramStore } from '../../store/diagramStore';
+import { useUIStore } from '../../store/uiStore';
+
+const STATUS_LABELS = {
+    synced: 'In sync with canvas',
+    pending: 'Applying changes…',
+    error: 'Syntax error, canvas not updated',
+    conflict: 'Canvas and code both changed',
+};
+
+export function CodeSyncIndicator() {
+    const { codeSyncStatus, setCodeSyncStatus, setMermaidCode } = useUIStore();
+    const sourceCode = useDiagramStore((state) => state.sourceCode);
+
+    const keepCanvas = () => {
+        setMermaidCode(sourceCode);
+        setCodeSyncStatus('synced');
+    };
+
+    return (
+        <div className="flex items-center justify-between gap-2 px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest border border-slate-200 dark:border-white/5 text-slate-400">
+            <span className={`flex items-center gap-2 ${codeSyncStatus === 'error' ? 'text-red-400' : codeSyncStatus === 'conflict' ? 'text-amber-400' : ''}`}>
+                {codeSyncStatus === 'synced' && <Check className="w-3 h-3 text-emerald-400" />}
+                {codeSyncStatus === 'pending' && <Loader2 className="w-3 h-3 animate-spin" />}
+                {codeSyncStatus === 'error' && <AlertTriangle className="w-3 h-3" />}
+                {codeSyncStatus === 'conflict' && <GitMerge className="w-3 h-3" />}
+                {STATUS_LABELS[codeSyncStatus]}
+            </span>
+            {codeSyncStatus === 'conflict' && (
+                <span className="flex items-center gap-1">
+                    {/* 'pending' lifts the conflict so useCodeSync applies the editor text */}
+                    <button
+                        onClick={() => setCodeSyncStatus('pending')}
+                        className="px-2 py-1 rounded-lg hover:bg-slate-100 dark:hover:bg-white/5 text-blue-400"
+                    >
+                        Keep code
+                    </button>
+                    <button
+                        onClick={keepCanvas}
+                        className="px-2 py-1 rounded-lg hover:bg-slate-100 dark:hover:bg-white/5 text-blue-400"
+                    >
+                        Keep canvas
+                    </button>
+                </span>
+            )}
+        </div>
+    );
+}
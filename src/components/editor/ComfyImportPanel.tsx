@@ -2,8 +2,7 @@ import React, { useState } from 'react';
 import { workflowToMermaid } from '../../lib/comfy2mermaid';
 import { Upload, AlertCircle, RefreshCw } from 'lucide-react';
 import { useFlowStore } from '../../store';
-import { parseMermaid } from '../../lib/mermaidParser';
-import { getLayoutedElements } from '../../lib/layoutEngine';
+import { useDiagramPipeline } from '../../hooks/useDiagramPipeline';
 
 export function ComfyImportPanel() {
     const {
@@ -14,6 +13,7 @@ export function ComfyImportPanel() {
         setInputActiveTab,
         saveDiagram
     } = useFlowStore();
+    const runPipeline = useDiagramPipeline();
 
     const [jsonInput, setJsonInput] = useState('');
     const [error, setError] = useState<string | null>(null);
@@ -48,11 +48,11 @@ export function ComfyImportPanel() {
             setSourceCode(code);
 
             // Process Diagram for visualization
-            const { nodes: parsedNodes, edges: parsedEdges } = await parseMermaid(code);
-            const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(parsedNodes, parsedEdges);
+            const diagram = await runPipeline(code);
+            if (!diagram) return;
 
-            setNodes(layoutedNodes);
-            setEdges(layoutedEdges);
+            setNodes(diagram.nodes);
+            setEdges(diagram.edges);
 
             // Auto-save
             saveDiagram(`ComfyUI Import ${new Date().toLocaleTimeString()}`);
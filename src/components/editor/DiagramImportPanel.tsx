@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Upload, AlertCircle, RefreshCw } from 'lucide-react';
+import { useFlowStore } from '../../store';
+import { exportToMermaid } from '../../lib/mermaidExporter';
+import { importFromDrawio, isDrawioFile } from '../../lib/drawio';
+import { importFromExcalidraw, isExcalidrawFile } from '../../lib/excalidraw';
+import { importFromDot, isDotFile } from '../../lib/graphviz';
+import { importFromGraphml, isGraphmlFile } from '../../lib/graphml';
+import { importFromCytoscape, isCytoscapeFile } from '../../lib/cytoscape';
+import type { ImportedDiagram } from '../../lib/diagramImport';
+
+// File formats of other diagram tools, recognised by their content
+interface ImportFormat {
+    label: string;
+    extensions: string[];
+    detect: (text: string) => boolean;
+    read: (text: string) => Promise<ImportedDiagram> | ImportedDiagram;
+}
+
+const FORMATS: ImportFormat[] = [
+    { label: 'draw.io', extensions: ['.drawio', '.xml'], detect: isDrawioFile, read: importFromDrawio },
+    { label: 'Excalidraw', extensions: ['.excalidraw', '.json'], detect: isExcalidrawFile, read: importFromExcalidraw },
+    { label: 'GraphML', extensions: ['.graphml'], detect: isGraphmlFile, read: importFromGraphml },
+    { label: 'Cytoscape', extensions: ['.cyjs', '.json'], detect: isCytoscapeFile, read: importFromCytoscape },
+    { label: 'Graphviz DOT', extensions: ['.dot', '.gv'], detect: isDotFile, read: importFromDot },
+];
+
+export function DiagramImportPanel() {
+    const {
+        setMermaidCode,
+        setSourceCode,
+        setNodes,
+        setEdges,
+        setInputActiveTab,
+        saveDiagram
+    } = useFlowStore();
+
+    const [input, setInput] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            const text = e.target?.result as string;
+            setInput(text);
+            convert(text);
+        };
+        reader.onerror = () => setError('Failed to read file');
+        reader.readAsText(file);
+    };
+
+    const convert = async (text: string) => {
+        setError(null);
+        if (!text.trim()) return;
+
+        const format = FORMATS.find(f => f.detect(text));
+        if (!format) {
+            setError(`Unrecognised file. Supported formats: ${FORMATS.map(f => f.label).join(', ')}`);
+            return;
+        }
+
+        try {
+            const { nodes, edges } = await format.read(text);
+            if (nodes.length === 0) throw new Error('The file has no shapes to import');
+
+            // Imported positions are kept; the code is regenerated from the nodes so both stay in sync
+            const code = exportToMermaid(nodes, edges);
+            setMermaidCode(code);
+            setSourceCode(code);
+            setNodes(nodes);
+            setEdges(edges);
+
+            saveDiagram(`${format.label} Import ${new Date().toLocaleTimeString()}`);
+            setInputActiveTab('code');
+        } catch (err) {
+            console.error(err);
+            setError(`Could not import ${format.label} file: ` + (err instanceof Error ? err.message : String(err)));
+        }
+    };
+
+    return (
+        <div className="flex flex-col h-full animate-slide-up">
+            <div className="p-4 mb-4 bg-slate-50 dark:bg-black/20 rounded-xl border border-dashed border-slate-300 dark:border-white/10">
+                <label className="flex flex-col items-center justify-center w-full h-32 cursor-pointer hover:bg-slate-100 dark:hover:bg-white/5 transition rounded-lg group">
+                    <div className="flex flex-col items-center justify-center pt-5 pb-6">
+                        <Upload className="w-8 h-8 mb-3 text-slate-400 group-hover:text-blue-500 transition-colors" />
+                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                            <span className="font-semibold text-blue-600 dark:text-blue-400">Click to upload</span> a diagram file
+                        </p>
+                        <p className="text-[10px] text-slate-400 dark:text-slate-500 mt-1">
+                            {FORMATS.map(f => f.label).join(' · ')}
+                        </p>
+                    </div>
+                    <input type="file" className="hidden" accept={FORMATS.flatMap(f => f.extensions).join(',')} onChange={handleFileUpload} />
+                </label>
+            </div>
+
+            <div className="flex-1 flex flex-col gap-2">
+                <label className="text-[10px] font-bold uppercase tracking-wider text-slate-400 dark:text-slate-500 pl-1">
+                    Or Paste File Contents
+                </label>
+                <textarea
+                    className="flex-1 w-full p-4 rounded-xl bg-white dark:bg-black/20 border border-slate-200 dark:border-white/10 text-xs font-mono text-slate-600 dark:text-slate-300 resize-none outline-none focus:border-blue-500/40 focus:ring-2 focus:ring-blue-500/20 transition-all placeholder:text-slate-400"
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    placeholder='<mxfile> ... </mxfile>, digraph { ... }, { "elements": ... }'
+                />
+            </div>
+
+            {error && (
+                <div className="mt-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-500/30 text-red-600 dark:text-red-300 p-3 rounded-lg flex items-center gap-2 text-xs">
+                    <AlertCircle className="w-4 h-4 shrink-0" />
+                    {error}
+                </div>
+            )}
+
+            <button
+                onClick={() => convert(input)}
+                disabled={!input.trim()}
+                className={`mt-4 w-full py-3.5 rounded-xl font-bold text-sm tracking-wide transition-all duration-300 flex items-center justify-center gap-2
+                    ${!input.trim()
+                        ? 'bg-slate-100 dark:bg-slate-800 text-slate-400 dark:text-slate-500 cursor-not-allowed'
+                        : 'bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-600/20 active:scale-[0.98]'
+                    }`}
+            >
+                <RefreshCw className="w-4 h-4" />
+                Import & Visualize
+            </button>
+        </div>
+    );
+}
@@ -2,17 +2,22 @@ import { Link } from 'react-router-dom';
 import {
     Edit3, Code, Download, Zap, Sun, Moon, Maximize2, Minimize2, Settings, Save,
     ChevronDown, FileCode, ImageIcon, FileText, Frame, Cloud, Server, Cpu, RotateCcw, RotateCw,
-    Menu, X, Home
+    Menu, X, Home, FileDown, Share2, PenTool, Workflow, Network, Boxes
 } from 'lucide-react';
 import { useStore } from 'zustand';
 import { useFlowStore, useDiagramStore } from '../../store';
 import { useMobileDetect } from '../../hooks/useMobileDetect';
 import {
-    exportToPng, exportToJpg, exportToSvg,
-    exportToTxt, downloadMermaid, exportToJson
+    exportToPng, exportToJpg, exportToSvg, exportToPdf,
+    exportToTxt, downloadMermaid, exportToJson, downloadDrawio, downloadExcalidraw,
+    downloadDot, downloadGraphml, downloadCytoscape
 } from '../../lib/exportUtils';
+import type { PdfExportOptions } from '../../lib/pdfExport';
+import type { ExportFormat } from '../../types';
+import { getFlowDirection } from '../../lib/mermaidParser';
 import { useState } from 'react';
 import { SettingsModal } from '../Settings';
+import { PdfExportDialog } from './PdfExportDialog';
 
 // Mobile Menu Item Component - extracted outside to avoid hook issues
 interface MobileMenuItemProps {
@@ -65,7 +70,9 @@ export function EditorHeader() {
         focusMode, setFocusMode,
         saveDiagram,
         aiMode,
-        onlineProvider
+        onlineProvider,
+        sourceCode,
+        edgeStyle
     } = useFlowStore();
     const { isMobile } = useMobileDetect();
 
@@ -74,6 +81,7 @@ export function EditorHeader() {
     const canRedo = useStore(useDiagramStore.temporal, (state: any) => state.futureStates.length > 0);
 
     const [showSettings, setShowSettings] = useState(false);
+    const [showPdfDialog, setShowPdfDialog] = useState(false);
     const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
     const [showExportMenu, setShowExportMenu] = useState(false);
     const [showMobileMenu, setShowMobileMenu] = useState(false);
@@ -93,7 +101,7 @@ export function EditorHeader() {
         }
     };
 
-    const handleExport = async (format: 'png' | 'jpg' | 'svg' | 'txt' | 'code' | 'json') => {
+    const handleExport = async (format: ExportFormat) => {
         setShowExportMenu(false);
         setShowMobileMenu(false);
         const viewport = document.querySelector('.react-flow__viewport') as HTMLElement;
@@ -107,23 +115,50 @@ export function EditorHeader() {
                     if (viewport) await exportToJpg(viewport);
                     break;
                 case 'svg':
-                    if (viewport) await exportToSvg(viewport);
+                    exportToSvg(nodes, edges, { edgeStyle });
+                    break;
+                case 'pdf':
+                    // Page and title block options are asked for first
+                    setShowPdfDialog(true);
                     break;
                 case 'txt':
                     exportToTxt(nodes, edges);
                     break;
                 case 'code':
-                    downloadMermaid(nodes, edges);
+                    downloadMermaid(nodes, edges, { direction: getFlowDirection(sourceCode) });
                     break;
                 case 'json':
                     exportToJson(nodes, edges);
                     break;
+                case 'drawio':
+                    downloadDrawio(nodes, edges, { edgeStyle });
+                    break;
+                case 'excalidraw':
+                    downloadExcalidraw(nodes, edges, { edgeStyle });
+                    break;
+                case 'dot':
+                    downloadDot(nodes, edges, { direction: getFlowDirection(sourceCode) });
+                    break;
+                case 'graphml':
+                    downloadGraphml(nodes, edges);
+                    break;
+                case 'cytoscape':
+                    downloadCytoscape(nodes, edges);
+                    break;
             }
         } catch (error) {
             console.error('Export failed:', error);
         }
     };
 
+    const handlePdfExport = (options: PdfExportOptions) => {
+        try {
+            exportToPdf(nodes, edges, { edgeStyle, ...options });
+        } catch (error) {
+            console.error('Export failed:', error);
+        }
+    };
+
     const handleOpenSettings = () => {
         setShowMobileMenu(false);
         setShowSettings(true);
@@ -344,6 +379,48 @@ export function EditorHeader() {
                                             disabled={nodes.length === 0}
                                             iconColor="text-emerald-500"
                                         />
+                                        <MobileMenuItem
+                                            icon={FileDown}
+                                            label="PDF Document"
+                                            onClick={() => handleExport('pdf')}
+                                            disabled={nodes.length === 0}
+                                            iconColor="text-rose-500"
+                                        />
+                                        <MobileMenuItem
+                                            icon={Share2}
+                                            label="draw.io Diagram"
+                                            onClick={() => handleExport('drawio')}
+                                            disabled={nodes.length === 0}
+                                            iconColor="text-orange-500"
+                                        />
+                                        <MobileMenuItem
+                                            icon={PenTool}
+                                            label="Excalidraw Sketch"
+                                            onClick={() => handleExport('excalidraw')}
+                                            disabled={nodes.length === 0}
+                                            iconColor="text-violet-500"
+                                        />
+                                        <MobileMenuItem
+                                            icon={Workflow}
+                                            label="Graphviz DOT"
+                                            onClick={() => handleExport('dot')}
+                                            disabled={nodes.length === 0}
+                                            iconColor="text-sky-500"
+                                        />
+                                        <MobileMenuItem
+                                            icon={Network}
+                                            label="GraphML"
+                                            onClick={() => handleExport('graphml')}
+                                            disabled={nodes.length === 0}
+                                            iconColor="text-teal-500"
+                                        />
+                                        <MobileMenuItem
+                                            icon={Boxes}
+                                            label="Cytoscape JSON"
+                                            onClick={() => handleExport('cytoscape')}
+                                            disabled={nodes.length === 0}
+                                            iconColor="text-amber-500"
+                                        />
                                         <MobileMenuItem
                                             icon={FileText}
                                             label="Logic Summary"
@@ -373,6 +450,11 @@ export function EditorHeader() {
                     isOpen={showSettings}
                     onClose={() => setShowSettings(false)}
                 />
+                <PdfExportDialog
+                    isOpen={showPdfDialog}
+                    onClose={() => setShowPdfDialog(false)}
+                    onExport={handlePdfExport}
+                />
             </>
         );
     }
@@ -533,6 +615,30 @@ export function EditorHeader() {
                                     <Frame className="w-3.5 h-3.5 text-emerald-500" />
                                     SVG Vector
                                 </button>
+                                <button onClick={() => handleExport('pdf')} className="w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/5 text-[10px] font-bold text-secondary transition-all">
+                                    <FileDown className="w-3.5 h-3.5 text-rose-500" />
+                                    PDF Document
+                                </button>
+                                <button onClick={() => handleExport('drawio')} className="w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/5 text-[10px] font-bold text-secondary transition-all">
+                                    <Share2 className="w-3.5 h-3.5 text-orange-500" />
+                                    draw.io Diagram
+                                </button>
+                                <button onClick={() => handleExport('excalidraw')} className="w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/5 text-[10px] font-bold text-secondary transition-all">
+                                    <PenTool className="w-3.5 h-3.5 text-violet-500" />
+                                    Excalidraw Sketch
+                                </button>
+                                <button onClick={() => handleExport('dot')} className="w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/5 text-[10px] font-bold text-secondary transition-all">
+                                    <Workflow className="w-3.5 h-3.5 text-sky-500" />
+                                    Graphviz DOT
+                                </button>
+                                <button onClick={() => handleExport('graphml')} className="w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/5 text-[10px] font-bold text-secondary transition-all">
+                                    <Network className="w-3.5 h-3.5 text-teal-500" />
+                                    GraphML
+                                </button>
+                                <button onClick={() => handleExport('cytoscape')} className="w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/5 text-[10px] font-bold text-secondary transition-all">
+                                    <Boxes className="w-3.5 h-3.5 text-amber-500" />
+                                    Cytoscape JSON
+                                </button>
                                 <button onClick={() => handleExport('txt')} className="w-full flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/5 text-[10px] font-bold text-secondary transition-all">
                                     <FileText className="w-3.5 h-3.5 text-slate-400" />
                                     Logic Summary
@@ -547,6 +653,11 @@ export function EditorHeader() {
                 isOpen={showSettings}
                 onClose={() => setShowSettings(false)}
             />
+            <PdfExportDialog
+                isOpen={showPdfDialog}
+                onClose={() => setShowPdfDialog(false)}
+                onExport={handlePdfExport}
+            />
         </header>
     );
 }
@@ -1,35 +1,102 @@
-
-import Editor, { type OnMount } from '@monaco-editor/react';
+import { useCallback, useEffect, useRef } from 'react';
+import Editor, { type Monaco, type OnMount } from '@monaco-editor/react';
+import type { editor as MonacoEditor, languages } from 'monaco-editor';
 import { AlertCircle, Trash2 } from 'lucide-react';
+import type { Diagnostic, DiagnosticRange } from '../../lib/diagnostics';
+
+// Marker owner and source, so our markers and quick-fixes are told apart from Monaco's own
+const MARKER_OWNER = 'mermaid';
 
 interface MonacoWrapperProps {
     code: string;
     onChange: (value: string | undefined) => void;
     onMount: OnMount;
     theme: 'light' | 'dark';
-    syntaxErrors: { line: number; message: string }[];
+    diagnostics: Diagnostic[];
 
     setCode: (code: string) => void;
 }
 
+function toMonacoRange(range: DiagnosticRange) {
+    return {
+        startLineNumber: range.startLine,
+        startColumn: range.startColumn,
+        endLineNumber: range.endLine,
+        endColumn: range.endColumn,
+    };
+}
+
 export function MonacoWrapper({
     code,
     onChange,
     onMount,
     theme,
-    syntaxErrors,
+    diagnostics,
     setCode
 }: MonacoWrapperProps) {
-    // monacoRef removed as it was unused
+    const editorRef = useRef<MonacoEditor.IStandaloneCodeEditor | null>(null);
+    const monacoRef = useRef<Monaco | null>(null);
+    const diagnosticsRef = useRef(diagnostics);
+    const quickFixesRef = useRef<{ dispose: () => void } | null>(null);
+
+    // Show diagnostics as squiggles in the editor
+    useEffect(() => {
+        diagnosticsRef.current = diagnostics;
+        const monaco = monacoRef.current;
+        const model = editorRef.current?.getModel();
+        if (!monaco || !model) return;
+
+        const severities = {
+            error: monaco.MarkerSeverity.Error,
+            warning: monaco.MarkerSeverity.Warning,
+            info: monaco.MarkerSeverity.Info,
+        };
+        monaco.editor.setModelMarkers(model, MARKER_OWNER, diagnostics.map(diagnostic => ({
+            ...toMonacoRange(diagnostic),
+            severity: severities[diagnostic.severity],
+            message: diagnostic.message,
+            code: diagnostic.code,
+            source: MARKER_OWNER,
+        })));
+    }, [diagnostics]);
+
+    useEffect(() => () => quickFixesRef.current?.dispose(), []);
+
+    const handleMount = useCallback<OnMount>((editor, monaco) => {
+        editorRef.current = editor;
+        monacoRef.current = monaco;
+
+        // Offer each diagnostic's fixes from the lightbulb / Ctrl+.
+        quickFixesRef.current?.dispose();
+        quickFixesRef.current = monaco.languages.registerCodeActionProvider('markdown', {
+            provideCodeActions: (model: MonacoEditor.ITextModel, _range: unknown, context: languages.CodeActionContext): languages.CodeActionList => {
+                const actions = context.markers
+                    .filter(marker => marker.source === MARKER_OWNER && model === editor.getModel())
+                    .flatMap(marker => {
+                        const diagnostic = diagnosticsRef.current.find(d =>
+                            d.startLine === marker.startLineNumber && d.startColumn === marker.startColumn && d.message === marker.message);
+                        return (diagnostic?.fixes || []).map((fix, i) => ({
+                            title: fix.title,
+                            kind: 'quickfix',
+                            diagnostics: [marker],
+                            isPreferred: i === 0,
+                            edit: {
+                                edits: [{
+                                    resource: model.uri,
+                                    versionId: model.getVersionId(),
+                                    textEdit: { range: toMonacoRange(fix.range), text: fix.text },
+                                }],
+                            },
+                        }));
+                    });
+                return { actions, dispose: () => { } };
+            },
+        });
 
-    // Define themes once on mount or when theme prop changes appropriately
-    // For simplicity, we can do it inside a useEffect here if we have access to monaco instance, 
-    // but usually it's better to do it once. 
-    // However, since we need monaco instance, we'll assume the parent component or this component handles it via onMount/useEffect.
+        onMount(editor, monaco);
+    }, [onMount]);
 
-    // Actually, let's keep the theme definition inside the component for now or rely on the parent to pass the ref if needed. 
-    // But better yet, let's expose specific theme logic or keep it self-contained if possible. 
-    // The original code defined themes in useEffect when monacoRef was available.
+    const firstError = diagnostics.find(d => d.severity === 'error');
 
     return (
         <div className={`flex-1 rounded-2xl overflow-hidden border relative group shadow-inner transition-colors ${theme === 'dark' ? 'bg-[#0B1221] border-white/5' : 'bg-slate-50 border-slate-200'
@@ -74,7 +141,7 @@ export function MonacoWrapper({
                 }}
                 value={code}
                 onChange={onChange}
-                onMount={onMount}
+                onMount={handleMount}
             />
 
             {/* Floating Action Buttons */}
@@ -91,13 +158,13 @@ export function MonacoWrapper({
             </div>
 
             {/* Syntax Errors */}
-            {syntaxErrors.length > 0 && (
+            {firstError && (
                 <div className="absolute bottom-4 left-4 right-4 p-3 bg-red-500/10 border border-red-500/30 rounded-xl animate-fade-in">
                     <div className="flex items-start gap-2">
                         <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
                         <div>
-                            <p className="text-[10px] font-bold text-red-400 uppercase tracking-wider">Syntax Error</p>
-                            <p className="text-[11px] text-red-300 mt-1">{syntaxErrors[0].message}</p>
+                            <p className="text-[10px] font-bold text-red-400 uppercase tracking-wider">Syntax Error (Line {firstError.startLine})</p>
+                            <p className="text-[11px] text-red-300 mt-1">{firstError.message}</p>
                         </div>
                     </div>
                 </div>
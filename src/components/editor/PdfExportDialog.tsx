@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { FileDown, X, ChevronDown } from 'lucide-react';
+import { useMobileDetect } from '../../hooks/useMobileDetect';
+import { PAGE_SIZES, type PageOrientation, type PageSize, type PdfExportOptions } from '../../lib/pdfExport';
+
+interface PdfExportDialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onExport: (options: PdfExportOptions) => void;
+}
+
+const ORIENTATIONS: { id: PageOrientation; label: string }[] = [
+    { id: 'auto', label: 'Auto' },
+    { id: 'portrait', label: 'Portrait' },
+    { id: 'landscape', label: 'Landscape' },
+];
+
+const inputClass = 'w-full bg-black/20 border border-white/10 rounded-xl p-3 text-[12px] font-bold outline-none focus:border-blue-500/50 transition-all text-primary placeholder:text-slate-600';
+const labelClass = 'text-[10px] font-bold uppercase tracking-wider text-tertiary pl-1';
+
+export function PdfExportDialog({ isOpen, onClose, onExport }: PdfExportDialogProps) {
+    const { isMobile } = useMobileDetect();
+    const [title, setTitle] = useState(`Diagram ${new Date().toLocaleDateString()}`);
+    const [author, setAuthor] = useState('');
+    const [pageSize, setPageSize] = useState<PageSize>('A4');
+    const [orientation, setOrientation] = useState<PageOrientation>('auto');
+    const [margin, setMargin] = useState(12);
+
+    if (!isOpen) return null;
+
+    const handleExport = () => {
+        onExport({ title: title.trim(), author: author.trim() || undefined, pageSize, orientation, margin });
+        onClose();
+    };
+
+    return (
+        <>
+            <div className="fixed inset-0 z-[9998] bg-black/40 backdrop-blur-sm animate-fade-in" onClick={onClose} />
+            <div className={`fixed z-[9999] flex flex-col gap-4
+                ${isMobile
+                    ? 'inset-0 rounded-none pt-safe'
+                    : 'top-24 right-12 w-96 max-h-[80vh] rounded-[2rem]'
+                } floating-glass p-6 titanium-border shadow-2xl overflow-hidden`}
+            >
+                <div className="flex items-center justify-between flex-shrink-0">
+                    <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-xl bg-blue-500/10 flex items-center justify-center border border-blue-500/20">
+                            <FileDown className="w-5 h-5 text-blue-500" />
+                        </div>
+                        <div>
+                            <h3 className="text-sm font-bold text-primary tracking-tight">Export PDF</h3>
+                            <p className="text-[10px] text-tertiary font-medium uppercase tracking-wider">Vector, print ready</p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className={`${isMobile ? 'w-11 h-11' : 'p-2'} hover:bg-white/5 rounded-full transition-colors group flex items-center justify-center`}
+                    >
+                        <X className="w-5 h-5 text-tertiary group-hover:text-primary transition-colors" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto space-y-4 pb-2">
+                    <div className="space-y-2">
+                        <label className={labelClass}>Title</label>
+                        <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} placeholder="Diagram name" />
+                    </div>
+                    <div className="space-y-2">
+                        <label className={labelClass}>Author</label>
+                        <input type="text" value={author} onChange={(e) => setAuthor(e.target.value)} className={inputClass} placeholder="Optional" />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-2">
+                            <label className={labelClass}>Page Size</label>
+                            <div className="relative">
+                                <select
+                                    value={pageSize}
+                                    onChange={(e) => setPageSize(e.target.value as PageSize)}
+                                    className={`${inputClass} appearance-none pr-10 cursor-pointer`}
+                                >
+                                    {(Object.keys(PAGE_SIZES) as PageSize[]).map(size => (
+                                        <option key={size} value={size}>{size}</option>
+                                    ))}
+                                </select>
+                                <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-tertiary pointer-events-none" />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <label className={labelClass}>Margin (mm)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                max={50}
+                                value={margin}
+                                onChange={(e) => setMargin(Math.min(50, Math.max(0, Number(e.target.value) || 0)))}
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className={labelClass}>Orientation</label>
+                        <div className="flex items-center gap-1 p-1 bg-black/20 rounded-xl border border-white/5">
+                            {ORIENTATIONS.map(option => (
+                                <button
+                                    key={option.id}
+                                    onClick={() => setOrientation(option.id)}
+                                    className={`flex-1 py-2.5 rounded-lg text-[10px] font-bold transition-all uppercase tracking-wide
+                                        ${orientation === option.id
+                                            ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/20'
+                                            : 'text-tertiary hover:text-primary hover:bg-white/5'
+                                        }`}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <p className="text-[9px] text-slate-500 leading-relaxed px-1">
+                        Large diagrams that would print below half size are tiled across several pages.
+                    </p>
+                </div>
+
+                <button
+                    onClick={handleExport}
+                    className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-blue-600 hover:bg-blue-500 text-white text-[11px] font-bold uppercase tracking-wider transition-all shadow-lg shadow-blue-900/20"
+                >
+                    <FileDown className="w-4 h-4" />
+                    Export PDF
+                </button>
+            </div>
+        </>
+    );
+}
@@ -1,6 +1,10 @@
 import { memo } from 'react';
 import { Handle, Position, NodeResizer } from '@xyflow/react';
-import { Database, Cpu, Users, Globe, Server, Zap, Play, Square, GitBranch } from 'lucide-react';
+import { Database, Cpu, Users, Globe, Server, Zap, Play, Square, GitBranch, Table2, KeyRound } from 'lucide-react';
+import type { ClassMember } from '../../lib/classDiagram';
+import type { ErAttribute } from '../../lib/erDiagram';
+import { STATE_BAR_SIZE } from '../../lib/stateDiagram';
+import { splitNodeStyle } from '../../lib/mermaidStyles';
 
 /**
  * High-contrast, accessible node color palette
@@ -161,10 +165,11 @@ const StandardNode = memo(({ data, selected, type, style: propStyle }: NodeCompo
     const styleKey = getNodeStyle(label, type);
     const themeStyle = NODE_STYLES[styleKey];
     const Icon = themeStyle.icon;
+    const custom = splitNodeStyle(data);
 
     return (
         <div
-            style={propStyle}
+            style={{ ...propStyle, ...custom.body }}
             className={`
                 group relative px-5 py-3.5 rounded-2xl border-2 transition-all duration-300 
                 min-w-[160px] max-w-[240px]
@@ -178,7 +183,7 @@ const StandardNode = memo(({ data, selected, type, style: propStyle }: NodeCompo
             </div>
 
             {/* Label with high contrast */}
-            <span className={`text-[13px] font-bold block text-center leading-relaxed ${themeStyle.text}`}>
+            <span className={`text-[13px] font-bold block text-center leading-relaxed ${themeStyle.text}`} style={custom.text}>
                 {label}
             </span>
 
@@ -206,10 +211,11 @@ const TerminalNode = memo(({ data, selected, type, style: propStyle }: NodeCompo
     const styleKey = isEnd ? 'end' : 'start';
     const themeStyle = NODE_STYLES[styleKey];
     const Icon = themeStyle.icon;
+    const custom = splitNodeStyle(data);
 
     return (
         <div
-            style={propStyle}
+            style={{ ...propStyle, ...custom.body }}
             className={`
             group relative px-8 py-3 rounded-full border-2 transition-all duration-300 
             min-w-[120px]
@@ -218,7 +224,7 @@ const TerminalNode = memo(({ data, selected, type, style: propStyle }: NodeCompo
         `}>
             <div className="flex items-center justify-center gap-2">
                 <Icon className={`w-3.5 h-3.5 ${themeStyle.text}`} />
-                <span className={`text-[11px] font-black uppercase tracking-widest ${themeStyle.text}`}>
+                <span className={`text-[11px] font-black uppercase tracking-widest ${themeStyle.text}`} style={custom.text}>
                     {label}
                 </span>
             </div>
@@ -236,11 +242,27 @@ const TerminalNode = memo(({ data, selected, type, style: propStyle }: NodeCompo
 const DecisionNodeComponent = memo(({ data, selected, style: propStyle }: NodeComponentProps) => {
     const label = data.label || 'Decision';
     const style = NODE_STYLES.decision;
+    const custom = splitNodeStyle(data);
+
+    // State diagram fork/join pseudo-states render as a synchronisation bar
+    if (data.stateKind === 'fork' || data.stateKind === 'join') {
+        return (
+            <div
+                style={{ width: STATE_BAR_SIZE.width, height: STATE_BAR_SIZE.height, ...propStyle }}
+                className={`relative rounded-full bg-slate-700 dark:bg-slate-300 ${selected ? `ring-4 ring-purple-500/30 shadow-xl ${style.glow}` : ''}`}
+            >
+                <CustomHandle type="target" position={Position.Top} styleKey="decision" />
+                <CustomHandle type="source" position={Position.Bottom} styleKey="decision" />
+            </div>
+        );
+    }
 
     return (
         <div style={propStyle} className="relative w-[130px] h-[100px] flex items-center justify-center group">
             {/* Diamond background */}
-            <div className={`
+            <div
+                style={custom.body}
+                className={`
                 absolute inset-2 border-2 rotate-45 rounded-xl transition-all duration-300
                 ${style.bg} ${style.border}
                 ${selected ? `shadow-xl ${style.glow}` : 'border-opacity-50'}
@@ -249,7 +271,7 @@ const DecisionNodeComponent = memo(({ data, selected, style: propStyle }: NodeCo
             {/* Label (not rotated) */}
             <div className="relative z-10 text-center px-2">
                 <GitBranch className={`w-4 h-4 mx-auto mb-1 ${style.text}`} />
-                <span className={`text-[11px] font-bold leading-tight ${style.text}`}>
+                <span className={`text-[11px] font-bold leading-tight ${style.text}`} style={custom.text}>
                     {label}
                 </span>
             </div>
@@ -268,10 +290,11 @@ const DecisionNodeComponent = memo(({ data, selected, style: propStyle }: NodeCo
 const DatabaseNodeComponent = memo(({ data, selected, style: propStyle }: NodeComponentProps) => {
     const label = data.label || 'Database';
     const style = NODE_STYLES.data;
+    const custom = splitNodeStyle(data);
 
     return (
         <div
-            style={propStyle}
+            style={{ ...propStyle, ...custom.body }}
             className={`
             group relative px-6 py-5 rounded-xl border-2 transition-all duration-300 
             min-w-[150px]
@@ -283,11 +306,18 @@ const DatabaseNodeComponent = memo(({ data, selected, style: propStyle }: NodeCo
 
             <div className="flex flex-col items-center pt-2">
                 <Database className={`w-5 h-5 mb-2 ${style.text}`} />
-                <span className={`text-[12px] font-bold text-center ${style.text}`}>
+                <span className={`text-[12px] font-bold text-center ${style.text}`} style={custom.text}>
                     {label}
                 </span>
             </div>
 
+            {/* Linked ER schema drill-down */}
+            {typeof data.schemaDiagramId === 'string' && (
+                <div className={`absolute -top-3 -right-3 w-7 h-7 rounded-lg ${style.solid} ${style.border} border-2 flex items-center justify-center shadow-sm z-10`} title="Has ER schema">
+                    <Table2 className={`w-3.5 h-3.5 ${style.textSolid}`} />
+                </div>
+            )}
+
             {/* Cylinder bottom cap */}
             <div className={`absolute bottom-0 left-4 right-4 h-2 ${style.border} border-2 rounded-b-full bg-current opacity-20`} />
 
@@ -300,8 +330,9 @@ const DatabaseNodeComponent = memo(({ data, selected, style: propStyle }: NodeCo
 // ============================================
 // Group/Swimlane Node - Resizable container with glow
 // ============================================
-export const GroupNode = memo(({ data, selected }: { data: { label?: string; color?: string }; selected?: boolean }) => {
+export const GroupNode = memo(({ data, selected }: { data: { label?: string; color?: string; [key: string]: unknown }; selected?: boolean }) => {
     const label = data.label || 'Group';
+    const custom = splitNodeStyle(data);
     const borderColor = data.color || '#f59e0b';
 
     return (
@@ -333,6 +364,7 @@ export const GroupNode = memo(({ data, selected }: { data: { label?: string; col
                     boxShadow: selected
                         ? `0 0 40px ${borderColor}40, 0 4px 20px rgba(0,0,0,0.4)`
                         : `0 0 30px ${borderColor}25, 0 4px 20px rgba(0,0,0,0.3)`,
+                    ...custom.body,
                 }}
             >
                 {/* Top gradient bar */}
@@ -371,6 +403,10 @@ export const GroupNode = memo(({ data, selected }: { data: { label?: string; col
                 >
                     {label}
                 </div>
+
+                {/* Hidden handles so transitions can target a composite state */}
+                <Handle type="target" position={Position.Top} className="!w-2 !h-2 !opacity-0" />
+                <Handle type="source" position={Position.Bottom} className="!w-2 !h-2 !opacity-0" />
             </div>
         </>
     );
@@ -384,9 +420,10 @@ const SystemNode = memo(({ data, selected, type }: NodeComponentProps) => {
     const styleKey = getNodeStyle(label, type);
     const style = NODE_STYLES[styleKey];
     const Icon = style.icon;
+    const custom = splitNodeStyle(data);
 
     return (
-        <div className={`
+        <div style={custom.body} className={`
             group relative px-5 py-4 rounded-lg border-2 transition-all duration-300 
             min-w-[160px] max-w-[240px]
             ${style.bg} ${style.border}
@@ -396,7 +433,7 @@ const SystemNode = memo(({ data, selected, type }: NodeComponentProps) => {
                 <div className={`w-8 h-8 rounded-lg ${style.bg} ${style.border} border flex items-center justify-center`}>
                     <Icon className={`w-4 h-4 ${style.text}`} />
                 </div>
-                <span className={`text-[12px] font-bold ${style.text}`}>
+                <span className={`text-[12px] font-bold ${style.text}`} style={custom.text}>
                     {label}
                 </span>
             </div>
@@ -407,6 +444,108 @@ const SystemNode = memo(({ data, selected, type }: NodeComponentProps) => {
     );
 });
 
+// ============================================
+// UML Class Node - Compartments for name, attributes and methods
+// ============================================
+const UmlClassNode = memo(({ data, selected }: NodeComponentProps) => {
+    const name = data.label || 'Class';
+    const style = NODE_STYLES.tech;
+    const attributes = (data.attributes as ClassMember[]) || [];
+    const methods = (data.methods as ClassMember[]) || [];
+    const annotation = data.annotation as string | undefined;
+    const generic = data.generic as string | undefined;
+    const isAbstract = annotation?.toLowerCase() === 'abstract';
+    const custom = splitNodeStyle(data);
+
+    const renderMember = (member: ClassMember, i: number) => (
+        <li
+            key={i}
+            className={`font-mono text-[11px] leading-[18px] truncate ${style.text} ${member.isStatic ? 'underline' : ''} ${member.isAbstract ? 'italic' : ''}`}
+        >
+            {member.visibility && <span className="opacity-60 mr-1">{member.visibility}</span>}
+            {member.text}
+        </li>
+    );
+
+    return (
+        <div style={custom.body} className={`
+            group relative min-w-[180px] rounded-lg border-2 overflow-hidden transition-all duration-300
+            bg-white dark:bg-slate-900 ${style.border}
+            ${selected ? `ring-4 ring-current/20 shadow-xl ${style.glow}` : 'border-opacity-50 hover:border-opacity-100'}
+        `}>
+            {/* Name compartment */}
+            <div className={`px-4 py-2 text-center ${style.bg}`}>
+                {annotation && (
+                    <span className={`block text-[10px] leading-[14px] ${style.text} opacity-70`}>«{annotation}»</span>
+                )}
+                <span className={`text-[13px] font-bold ${style.text} ${isAbstract ? 'italic' : ''}`}>
+                    {name}{generic && `<${generic}>`}
+                </span>
+            </div>
+
+            {/* Attributes compartment */}
+            <ul className={`px-3 py-1.5 min-h-[18px] border-t-2 ${style.border} border-opacity-40`}>
+                {attributes.map(renderMember)}
+            </ul>
+
+            {/* Methods compartment */}
+            <ul className={`px-3 py-1.5 min-h-[18px] border-t-2 ${style.border} border-opacity-40`}>
+                {methods.map(renderMember)}
+            </ul>
+
+            <CustomHandle type="target" position={Position.Top} styleKey="tech" />
+            <CustomHandle type="source" position={Position.Bottom} styleKey="tech" />
+        </div>
+    );
+});
+
+// ============================================
+// ER Entity Node - Table with key, type and name columns
+// ============================================
+const ErEntityNode = memo(({ data, selected }: NodeComponentProps) => {
+    const name = data.label || 'Entity';
+    const style = NODE_STYLES.data;
+    const attributes = (data.attributes as ErAttribute[]) || [];
+    const custom = splitNodeStyle(data);
+
+    return (
+        <div style={custom.body} className={`
+            group relative min-w-[180px] rounded-lg border-2 overflow-hidden transition-all duration-300
+            bg-white dark:bg-slate-900 ${style.border}
+            ${selected ? `ring-4 ring-current/20 shadow-xl ${style.glow}` : 'border-opacity-50 hover:border-opacity-100'}
+        `}>
+            <div className={`flex items-center justify-center gap-2 px-4 py-2 ${style.bg}`}>
+                <Table2 className={`w-4 h-4 ${style.text}`} />
+                <span className={`text-[13px] font-bold ${style.text}`}>{name}</span>
+            </div>
+
+            {attributes.length > 0 && (
+                <table className={`w-full border-t-2 ${style.border} border-opacity-40 my-2`}>
+                    <tbody>
+                        {attributes.map((attribute, i) => (
+                            <tr key={i} className="font-mono text-[11px] leading-[22px]" title={attribute.comment}>
+                                <td className="pl-3 w-10">
+                                    {attribute.keys.length > 0 && (
+                                        <span className={`inline-flex items-center gap-0.5 text-[9px] font-bold ${attribute.keys.includes('PK') ? 'text-amber-600 dark:text-amber-400' : style.text}`}>
+                                            {attribute.keys.includes('PK') && <KeyRound className="w-3 h-3" />}
+                                            {attribute.keys.join(',')}
+                                        </span>
+                                    )}
+                                </td>
+                                <td className="px-2 text-slate-500 dark:text-slate-400">{attribute.type}</td>
+                                <td className={`pr-3 font-semibold ${style.text}`}>{attribute.name}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <CustomHandle type="target" position={Position.Top} styleKey="data" />
+            <CustomHandle type="source" position={Position.Bottom} styleKey="data" />
+        </div>
+    );
+});
+
 // ============================================
 // Exports Mapping
 // ============================================
@@ -416,6 +555,7 @@ export const DecisionNode = memo((props: any) => <DecisionNodeComponent {...prop
 export const DatabaseNode = memo((props: any) => <DatabaseNodeComponent {...props} />);
 
 import { ShapeNode } from './ShapeNode';
+import { LifelineNode, FragmentNode, SequenceNoteNode } from './SequenceNodes';
 
 export const nodeTypes = {
     start: StartNode,
@@ -445,4 +585,15 @@ export const nodeTypes = {
     // Custom Shape Node
     'custom-shape': ShapeNode,
     'shape': ShapeNode, // Alias
+
+    // Class Diagram
+    umlClass: UmlClassNode,
+
+    // ER Diagram
+    erEntity: ErEntityNode,
+
+    // Sequence Diagram
+    lifeline: LifelineNode,
+    fragment: FragmentNode,
+    sequenceNote: SequenceNoteNode,
 };
@@ -0,0 +1,144 @@
+import { memo } from 'react';
+import { Handle, Position } from '@xyflow/react';
+import { User } from 'lucide-react';
+import { NODE_STYLES } from './CustomNodes';
+import {
+    SEQUENCE_LAYOUT,
+    getSequenceRowOffset,
+    type SequenceActivation,
+    type SequenceSection,
+} from '../../lib/sequenceDiagram';
+
+interface SequenceNodeProps {
+    data: {
+        label?: string;
+        [key: string]: unknown;
+    };
+    selected?: boolean;
+}
+
+// ============================================
+// Lifeline - Participant header, dashed life line and activation bars
+// ============================================
+export const LifelineNode = memo(({ data, selected }: SequenceNodeProps) => {
+    const label = data.label || 'Participant';
+    const isActor = data.participantKind === 'actor';
+    const themeStyle = isActor ? NODE_STYLES.team : NODE_STYLES.default;
+    const activations = (data.activations as SequenceActivation[]) || [];
+    const { headerHeight, activationWidth, rowHeight } = SEQUENCE_LAYOUT;
+
+    const header = (position: 'top' | 'bottom') => (
+        <div
+            className={`
+                absolute left-0 right-0 flex items-center justify-center gap-2 px-3 rounded-xl border-2
+                pointer-events-auto transition-all duration-300
+                ${position === 'top' ? 'top-0' : 'bottom-0'}
+                ${themeStyle.bg} ${themeStyle.border}
+                ${selected ? `ring-4 ring-current/20 shadow-xl ${themeStyle.glow}` : 'border-opacity-50 hover:border-opacity-100'}
+            `}
+            style={{ height: headerHeight }}
+        >
+            {isActor && <User className={`w-4 h-4 shrink-0 ${themeStyle.text}`} />}
+            <span className={`text-[12px] font-bold truncate ${themeStyle.text}`}>{label}</span>
+            {position === 'top' && (
+                <>
+                    <Handle type="target" position={Position.Bottom} className="!w-2 !h-2 !opacity-0" />
+                    <Handle type="source" position={Position.Bottom} className="!w-2 !h-2 !opacity-0" />
+                </>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="relative w-full h-full">
+            {header('top')}
+
+            {/* Life line */}
+            <div
+                className="absolute left-1/2 -translate-x-1/2 border-l-2 border-dashed border-slate-300 dark:border-slate-600"
+                style={{ top: headerHeight, bottom: headerHeight }}
+            />
+
+            {/* Activation bars, offset sideways when nested */}
+            {activations.map((activation, i) => (
+                <div
+                    key={i}
+                    className={`absolute rounded-sm border ${themeStyle.solid} ${themeStyle.border}`}
+                    style={{
+                        left: `calc(50% - ${activationWidth / 2}px + ${activation.depth * 4}px)`,
+                        width: activationWidth,
+                        top: getSequenceRowOffset(activation.start) - rowHeight * 0.2,
+                        height: (activation.end - activation.start) * rowHeight + rowHeight * 0.4,
+                    }}
+                />
+            ))}
+
+            {header('bottom')}
+        </div>
+    );
+});
+
+// ============================================
+// Fragment - loop / alt / opt / par / critical / break / rect block
+// ============================================
+export const FragmentNode = memo(({ data, selected }: SequenceNodeProps) => {
+    const kind = (data.fragmentKind as string) || 'loop';
+    const label = data.label || '';
+    const startRow = (data.startRow as number) || 0;
+    const sections = (data.sections as SequenceSection[]) || [];
+    const { rowHeight } = SEQUENCE_LAYOUT;
+
+    // `rect` blocks only highlight a region with the given colour
+    if (kind === 'rect') {
+        return (
+            <div
+                className={`w-full h-full rounded-lg ${selected ? 'ring-2 ring-blue-500/40' : ''}`}
+                style={{ background: label || 'rgba(148, 163, 184, 0.1)', opacity: 0.35 }}
+            />
+        );
+    }
+
+    return (
+        <div className={`relative w-full h-full rounded-lg border-2 border-slate-400/60 dark:border-slate-500/60 bg-slate-500/5 ${selected ? 'ring-2 ring-blue-500/40' : ''}`}>
+            {/* Operator tab */}
+            <div className="absolute top-0 left-0 flex items-center gap-2 pointer-events-auto">
+                <span className="px-2 py-0.5 rounded-br-lg bg-slate-200 dark:bg-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-200">
+                    {kind}
+                </span>
+                {label && (
+                    <span className="text-[11px] font-semibold text-slate-500 dark:text-slate-400">[{label}]</span>
+                )}
+            </div>
+
+            {/* Operand separators (else / and / option) */}
+            {sections.map((section, i) => (
+                <div
+                    key={i}
+                    className="absolute left-0 right-0 border-t-2 border-dashed border-slate-400/60 dark:border-slate-500/60"
+                    style={{ top: (section.row - startRow) * rowHeight - 4 }}
+                >
+                    {section.label && (
+                        <span className="ml-3 text-[11px] font-semibold text-slate-500 dark:text-slate-400">[{section.label}]</span>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+});
+
+// ============================================
+// Sequence Note - Sticky note beside or over lifelines
+// ============================================
+export const SequenceNoteNode = memo(({ data, selected }: SequenceNodeProps) => {
+    return (
+        <div className={`
+            w-full h-full flex items-center justify-center px-3 rounded-md border
+            bg-amber-100 border-amber-400 dark:bg-amber-900/40 dark:border-amber-600
+            ${selected ? 'ring-2 ring-amber-500/40 shadow-lg' : 'shadow-sm'}
+        `}>
+            <span className="text-[11px] font-medium text-center leading-tight text-amber-900 dark:text-amber-100">
+                {data.label}
+            </span>
+        </div>
+    );
+});
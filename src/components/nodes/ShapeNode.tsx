@@ -1,24 +1,19 @@
 import { memo } from 'react';
 import { Handle, Position } from '@xyflow/react';
 import { NODE_STYLES } from './CustomNodes';
-import { SHAPE_PATHS } from '../../lib/shapes';
+import { splitNodeStyle } from '../../lib/mermaidStyles';
+import { SHAPE_PATHS, resolveShapeName } from '../../lib/shapes';
 
 // Map mermaid types to shape names if needed, or use raw type
 // Default fallback
 const DEFAULT_SHAPE = 'rect';
 
 export const ShapeNode = memo(({ data, selected, type }: any) => {
-    const rawShape = (data.shape || 'rect').toLowerCase();
+    // Normalize shape names: aliases, classic bracket types and v11 short names all resolve to one id
+    const shapeKey = resolveShapeName(data.shape) || DEFAULT_SHAPE;
 
-    // Normalize shape names
-    let shapeKey = rawShape;
-    if (rawShape === 'database') shapeKey = 'cyl';
-    if (rawShape === 'decision') shapeKey = 'diamond';
-    if (rawShape === 'process') shapeKey = 'rect';
-    if (rawShape === 'start') shapeKey = 'stadium';
-    if (rawShape === 'end') shapeKey = 'stadium';
-
-    const pathData = SHAPE_PATHS[shapeKey] || SHAPE_PATHS[DEFAULT_SHAPE];
+    // `text` is deliberately empty: a label without an outline
+    const pathData = SHAPE_PATHS[shapeKey] ?? SHAPE_PATHS[DEFAULT_SHAPE];
 
     // Style logic similar to StandardNode
     // We can infer style from category or just use default
@@ -36,11 +31,12 @@ export const ShapeNode = memo(({ data, selected, type }: any) => {
 
     // Override based on shape
     if (shapeKey === 'cyl') styleKey = 'data';
-    if (shapeKey === 'diamond') styleKey = 'decision';
+    if (shapeKey === 'diam') styleKey = 'decision';
     if (shapeKey === 'stadium' && (type === 'start' || type === 'end')) styleKey = type;
 
     // @ts-ignore
     const themeStyle = NODE_STYLES[styleKey] || NODE_STYLES.default;
+    const custom = splitNodeStyle(data);
 
     return (
         <div className={`relative group w-32 h-20 flex items-center justify-center transition-all ${selected ? 'drop-shadow-lg scale-105' : ''}`}>
@@ -48,13 +44,18 @@ export const ShapeNode = memo(({ data, selected, type }: any) => {
                 <path
                     d={pathData}
                     className={`${themeStyle.solid} ${themeStyle.border} fill-current stroke-2 stroke-current opacity-90`}
-                    style={{ fill: 'var(--bg-color)', stroke: 'var(--border-color)' }}
+                    style={{
+                        fill: (custom.body?.background as string | undefined) ?? 'var(--bg-color)',
+                        stroke: custom.body?.borderColor ?? 'var(--border-color)',
+                        strokeWidth: custom.body?.borderWidth,
+                        strokeDasharray: custom.body?.borderStyle === 'dashed' ? '6,4' : undefined,
+                    }}
                 />
             </svg>
 
             {/* Label Overlay */}
             <div className="absolute inset-0 flex items-center justify-center p-2 text-center pointer-events-none">
-                <span className={`text-[10px] font-bold leading-tight ${themeStyle.text}`}>
+                <span className={`text-[10px] font-bold leading-tight ${themeStyle.text}`} style={custom.text}>
                     {data.label}
                 </span>
             </div>
@@ -5,3 +5,5 @@
 export { useAIGeneration } from './useAIGeneration';
 export { useKeyboardShortcuts, getShortcutDisplay } from './useKeyboardShortcuts';
 export { useMobileDetect, checkIsMobile, MOBILE_BREAKPOINT } from './useMobileDetect';
+export { useCodeSync } from './useCodeSync';
+export { useDiagramPipeline } from './useDiagramPipeline';
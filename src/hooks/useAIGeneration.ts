@@ -7,8 +7,7 @@ import { useDiagramStore } from '../store/diagramStore';
 import { useSettingsStore } from '../store/settingsStore';
 import { useUIStore } from '../store/uiStore';
 import { interpretText, analyzeImage, analyzeSVG } from '../lib/aiService';
-import { parseMermaid } from '../lib/mermaidParser';
-import { getLayoutedElements } from '../lib/layoutEngine';
+import { useDiagramPipeline } from './useDiagramPipeline';
 import type { AIResponse, NodeMetadata } from '../types';
 
 interface UseAIGenerationReturn {
@@ -26,6 +25,7 @@ export function useAIGeneration(): UseAIGenerationReturn {
     const { setNodes, setEdges, setSourceCode } = useDiagramStore();
     const { ollamaUrl, modelName, aiMode, onlineProvider, apiKey } = useSettingsStore();
     const { isLoading, error, setLoading, setError } = useUIStore();
+    const runPipeline = useDiagramPipeline();
 
     const processAIResponse = useCallback(
         async (result: AIResponse) => {
@@ -34,11 +34,13 @@ export function useAIGeneration(): UseAIGenerationReturn {
             }
 
             setSourceCode(result.mermaidCode);
-            const { nodes: parsedNodes, edges: parsedEdges } = await parseMermaid(result.mermaidCode);
+            // Parse and layout run in the pipeline worker; null means a newer diagram replaced this one
+            const diagram = await runPipeline(result.mermaidCode);
+            if (!diagram) return;
 
             // Attach metadata if available
             if (result.metadata) {
-                parsedNodes.forEach((node: any) => {
+                diagram.nodes.forEach((node: any) => {
                     const label = (node.data.label as string) || '';
                     if (label && result.metadata && result.metadata[label]) {
                         node.data.metadata = result.metadata[label] as NodeMetadata;
@@ -46,15 +48,10 @@ export function useAIGeneration(): UseAIGenerationReturn {
                 });
             }
 
-            const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(
-                parsedNodes,
-                parsedEdges
-            );
-
-            setNodes(layoutedNodes);
-            setEdges(layoutedEdges);
+            setNodes(diagram.nodes);
+            setEdges(diagram.edges);
         },
-        [setNodes, setEdges, setSourceCode]
+        [setNodes, setEdges, setSourceCode, runPipeline]
     );
 
     const validateSettings = useCallback(() => {
@@ -83,7 +80,7 @@ export function useAIGeneration(): UseAIGenerationReturn {
                     onlineProvider,
                     apiKey
                 );
-                processAIResponse(result);
+                await processAIResponse(result);
             } catch (err) {
                 setError(err instanceof Error ? err.message : 'Failed to generate diagram');
             } finally {
@@ -118,7 +115,7 @@ export function useAIGeneration(): UseAIGenerationReturn {
                     onlineProvider,
                     apiKey
                 );
-                processAIResponse(result);
+                await processAIResponse(result);
             } catch (err) {
                 setError(err instanceof Error ? err.message : 'Failed to analyze image');
             } finally {
@@ -153,7 +150,7 @@ export function useAIGeneration(): UseAIGenerationReturn {
                     onlineProvider,
                     apiKey
                 );
-                processAIResponse(result);
+                await processAIResponse(result);
             } catch (err) {
                 setError(err instanceof Error ? err.message : 'Failed to analyze SVG');
             } finally {
@@ -0,0 +1,73 @@
+import { useEffect } from 'react';
+import { useDiagramStore } from '../store/diagramStore';
+import { useUIStore } from '../store/uiStore';
+import { detectInputType, getFlowDirection } from '../lib/mermaidParser';
+import { useDiagramPipeline } from './useDiagramPipeline';
+
+// Wait for typing to settle before re-parsing
+const APPLY_DELAY_MS = 800;
+
+/**
+ * useCodeSync
+ *
+ * Keeps the Monaco editor and the canvas in step:
+ * 1. Canvas edits patch `sourceCode` (see diagramStore); the editor follows unless it has unapplied edits.
+ * 2. Editor edits are re-parsed after a pause and merged onto the canvas, keeping node positions.
+ * If both sides change at once, the status becomes 'conflict' until the user picks one.
+ */
+export function useCodeSync() {
+    const mermaidCode = useUIStore((state) => state.mermaidCode);
+    const inConflict = useUIStore((state) => state.codeSyncStatus === 'conflict');
+    const sourceCode = useDiagramStore((state) => state.sourceCode);
+    const runPipeline = useDiagramPipeline();
+
+    // 1. Canvas -> code
+    useEffect(() => {
+        return useDiagramStore.subscribe((state, prev) => {
+            if (state.sourceCode === prev.sourceCode) return;
+
+            const { mermaidCode, setMermaidCode, setCodeSyncStatus } = useUIStore.getState();
+            if (mermaidCode === state.sourceCode) {
+                setCodeSyncStatus('synced');
+            } else if (!mermaidCode.trim() || mermaidCode === prev.sourceCode) {
+                setMermaidCode(state.sourceCode);
+                setCodeSyncStatus('synced');
+            } else if (detectInputType(mermaidCode) === 'mermaid') {
+                setCodeSyncStatus('conflict');
+            }
+        });
+    }, []);
+
+    // 2. Code -> canvas
+    useEffect(() => {
+        const { codeSyncStatus, setCodeSyncStatus } = useUIStore.getState();
+        if (mermaidCode === sourceCode) {
+            if (codeSyncStatus !== 'synced') setCodeSyncStatus('synced');
+            return;
+        }
+        if (inConflict || !mermaidCode.trim() || detectInputType(mermaidCode) !== 'mermaid') return;
+
+        setCodeSyncStatus('pending');
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const { nodes, edges, sourceCode } = useDiagramStore.getState();
+                const current = { nodes, edges, direction: getFlowDirection(sourceCode) };
+                // Parsed and merged in the pipeline worker; null when a newer request took over
+                const merged = await runPipeline(mermaidCode, { strict: true, current });
+                if (cancelled || !merged) return;
+                useDiagramStore.getState().setDiagram({ nodes: merged.nodes, edges: merged.edges, sourceCode: mermaidCode });
+                setCodeSyncStatus('synced');
+            } catch (error) {
+                if (cancelled) return;
+                console.warn('[CodeSync] Code not applied:', error);
+                setCodeSyncStatus('error');
+            }
+        }, APPLY_DELAY_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [mermaidCode, sourceCode, inConflict, runPipeline]);
+}
@@ -0,0 +1,17 @@
+import { createDiagramPipeline } from '../lib/diagramPipeline';
+import { useUIStore } from '../store/uiStore';
+
+// One pipeline for the whole app, so any new diagram supersedes the one in flight
+const pipeline = createDiagramPipeline({
+    onProgress: (stage) => useUIStore.getState().setDiagramProgress(stage),
+});
+
+/**
+ * useDiagramPipeline
+ *
+ * Parse and lay out Mermaid source off the main thread. The returned function resolves
+ * null when a newer request replaced this one, in which case its result must be ignored.
+ */
+export function useDiagramPipeline() {
+    return pipeline.run;
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { parseClassDiagram, parseClassMember, estimateClassNodeSize } from '../classDiagram';
+import { getLayoutedElements } from '../layoutEngine';
+
+const SHOP = `classDiagram
+    class Order {
+        <<entity>>
+        +String id
+        -List~Item~ items
+        +total() Money
+        +create()$ Order
+        #validate()* bool
+    }
+    class Repository~T~
+    <<interface>> Repository
+    Customer "1" --> "*" Order : places
+    Order *-- Item
+    Cart o-- Item
+    Animal <|-- Dog
+    OrderRepository ..|> Repository
+    Order ..> Money
+    Customer : +String email`;
+
+describe('classDiagram', () => {
+    it('should split members into attributes and methods', () => {
+        const { nodes } = parseClassDiagram(SHOP);
+        const order = nodes.find(n => n.id === 'Order')!;
+
+        expect(order.type).toBe('umlClass');
+        expect(order.data.annotation).toBe('entity');
+        expect(order.data.attributes).toEqual([
+            { visibility: '+', text: 'String id', isStatic: false, isAbstract: false },
+            { visibility: '-', text: 'List<Item> items', isStatic: false, isAbstract: false },
+        ]);
+        expect((order.data.methods as unknown[]).length).toBe(3);
+        expect(nodes.find(n => n.id === 'Customer')?.data.attributes).toEqual([
+            { visibility: '+', text: 'String email', isStatic: false, isAbstract: false },
+        ]);
+    });
+
+    it('should read static and abstract classifiers', () => {
+        expect(parseClassMember('+create()$ Order')).toEqual({
+            visibility: '+', text: 'create() Order', isStatic: true, isAbstract: false,
+        });
+        expect(parseClassMember('#validate()* bool')).toMatchObject({ isAbstract: true, text: 'validate() bool' });
+        expect(parseClassMember('count$')).toMatchObject({ visibility: '', text: 'count', isStatic: true });
+    });
+
+    it('should keep generics and standalone annotations', () => {
+        const { nodes } = parseClassDiagram(SHOP);
+        const repository = nodes.find(n => n.id === 'Repository')!;
+
+        expect(repository.data).toMatchObject({ generic: 'T', annotation: 'interface' });
+    });
+
+    it('should type relationship markers and cardinalities', () => {
+        const { edges } = parseClassDiagram(SHOP);
+        const byPair = (s: string, t: string) => edges.find(e => e.source === s && e.target === t)!;
+
+        expect(byPair('Customer', 'Order')).toMatchObject({ label: 'places' });
+        expect(byPair('Customer', 'Order').data).toMatchObject({
+            startMarker: 'none', endMarker: 'arrow', relation: 'association',
+            sourceCardinality: '1', targetCardinality: '*',
+        });
+        expect(byPair('Order', 'Item').data).toMatchObject({ startMarker: 'filled-diamond', relation: 'composition' });
+        expect(byPair('Cart', 'Item').data).toMatchObject({ startMarker: 'diamond', relation: 'aggregation' });
+        expect(byPair('Animal', 'Dog').data).toMatchObject({ startMarker: 'triangle', relation: 'inheritance' });
+        expect(byPair('OrderRepository', 'Repository').data).toMatchObject({ endMarker: 'triangle', relation: 'realization' });
+        expect(byPair('OrderRepository', 'Repository').style?.strokeDasharray).toBe('5,5');
+        expect(byPair('Order', 'Money').data).toMatchObject({ relation: 'dependency' });
+    });
+
+    it('should read relations written without spaces', () => {
+        const { edges } = parseClassDiagram(`classDiagram
+    Animal<|--Duck
+    Order*--Item
+    Shape()--Circle
+    Client..>Service : uses`);
+
+        expect(edges.map(e => [e.source, e.target, e.data?.relation])).toEqual([
+            ['Animal', 'Duck', 'inheritance'],
+            ['Order', 'Item', 'composition'],
+            ['Shape', 'Circle', 'lollipop'],
+            ['Client', 'Service', 'dependency'],
+        ]);
+        expect(edges[0].data).toMatchObject({ startMarker: 'triangle', endMarker: 'none' });
+    });
+
+    it('should nest classes declared inside a namespace', () => {
+        const { nodes } = parseClassDiagram(`classDiagram
+    namespace Shapes {
+        class Circle
+        class Square
+    }
+    Circle --|> Shape`);
+
+        expect(nodes[0]).toMatchObject({ id: 'Shapes', type: 'group' });
+        expect(nodes.find(n => n.id === 'Circle')).toMatchObject({ parentId: 'Shapes', extent: 'parent' });
+        expect(nodes.find(n => n.id === 'Shape')?.parentId).toBeUndefined();
+    });
+
+    it('should size class nodes from their compartments in the layout', () => {
+        const parsed = parseClassDiagram(SHOP);
+        const order = parsed.nodes.find(n => n.id === 'Order')!;
+        const size = estimateClassNodeSize(order.data);
+        const { nodes } = getLayoutedElements(parsed.nodes, parsed.edges);
+        const laidOut = nodes.filter(n => n.type === 'umlClass');
+
+        expect(size.height).toBeGreaterThan(60);
+        expect(laidOut).toHaveLength(parsed.nodes.length);
+        expect(new Set(laidOut.map(n => `${n.position.x},${n.position.y}`)).size).toBe(laidOut.length);
+    });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+    renameNodeInSource, addEdgeToSource, removeFromSource, removeEdgesFromSource,
+    findSourceLinks, findLinkEdge, mergeParsedDiagram, setNodeShapeInSource,
+} from '../codeSync';
+import { type Node, type Edge } from '../../store';
+
+const SOURCE = `flowchart LR
+    %% Entry points
+    A[Client] --> B{Auth?} -->|yes| C[(Orders DB)]
+    B -.-> D
+    subgraph S [Services]
+        D
+    end
+    %% {"id":"D","type":"server"}
+    style D fill:#fee2e2
+    class C,D hot
+    linkStyle 1 stroke:#16a34a
+    linkStyle 2 stroke:#dc2626`;
+
+const node = (id: string, x = 0): Node => ({ id, position: { x, y: 0 }, data: { label: id } });
+const edge = (source: string, target: string, id = `${source}-${target}`): Edge => ({ id, source, target });
+
+describe('codeSync', () => {
+    it('should list links in Mermaid order', () => {
+        expect(findSourceLinks(SOURCE).map(l => `${l.source}>${l.target}@${l.line}`)).toEqual(['A>B@2', 'B>C@2', 'B>D@3']);
+    });
+
+    it('should rename declared nodes in place, keeping the bracket style', () => {
+        const code = renameNodeInSource(SOURCE, 'B', 'Signed in?');
+        expect(code.split('\n')[2]).toBe('    A[Client] --> B{Signed in?} -->|yes| C[(Orders DB)]');
+        expect(renameNodeInSource(SOURCE, 'C', 'Say "hi"')).toContain('C[("Say #quot;hi#quot;")]');
+    });
+
+    it('should declare bare nodes at their first mention and retitle subgraphs', () => {
+        expect(renameNodeInSource(SOURCE, 'D', 'Worker').split('\n')[3]).toBe('    B -.-> D[Worker]');
+        expect(renameNodeInSource(SOURCE, 'S', 'Backend').split('\n')[4]).toBe('    subgraph S [Backend]');
+    });
+
+    it('should write shape changes as @{ shape } and rename inside them', () => {
+        const code = setNodeShapeInSource(SOURCE, 'C', 'lin-cyl', 'Orders DB');
+        expect(code.split('\n')[2]).toBe('    A[Client] --> B{Auth?} -->|yes| C@{ shape: lin-cyl, label: "Orders DB" }');
+        expect(setNodeShapeInSource(SOURCE, 'D', 'hexagon', 'Worker').split('\n')[3]).toBe('    B -.-> D{{Worker}}');
+
+        expect(renameNodeInSource(code, 'C', 'Ledger').split('\n')[2]).toContain('C@{ shape: lin-cyl, label: "Ledger" }');
+        const unlabelled = 'flowchart TD\n    A@{ shape: docs } --> B';
+        expect(renameNodeInSource(unlabelled, 'A', 'Specs')).toContain('A@{ shape: docs, label: "Specs" } --> B');
+        expect(findSourceLinks(unlabelled).map(l => `${l.source}>${l.target}`)).toEqual(['A>B']);
+    });
+
+    it('should append new links after the last link, outside subgraphs', () => {
+        const code = addEdgeToSource(SOURCE, { source: 'C', target: 'D' });
+        expect(code.split('\n')[4]).toBe('    C --> D');
+        // Appended last, so existing linkStyle indices still point at the same links
+        expect(findSourceLinks(code).map(l => l.index)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should remove a link from a chain and renumber linkStyle', () => {
+        const edges = [edge('A', 'B'), edge('B', 'C'), edge('B', 'D')];
+        const code = removeEdgesFromSource(SOURCE, edges, ['A-B']);
+
+        expect(code).toContain('    A[Client]\n    B{Auth?} -->|yes| C[(Orders DB)]');
+        expect(code).toContain('linkStyle 0 stroke:#16a34a');
+        expect(code).toContain('linkStyle 1 stroke:#dc2626');
+        expect(code).toContain('%% Entry points');
+    });
+
+    it('should keep quoted labels and shapes when a chain is split', () => {
+        const code = removeEdgesFromSource('flowchart LR\n    A("Auth (JWT)") -->|"q[1]"| B -->|ok| C', [edge('A', 'B'), edge('B', 'C')], ['B-C']);
+        expect(code.split('\n')[1]).toBe('    A("Auth (JWT)") -->|"q[1]"| B');
+    });
+
+    it('should match links to canvas edges by their place among links between the same nodes', () => {
+        const code = 'flowchart LR\n    A --> B\n    A -.-> C\n    A -->|retry| B';
+        const edges = [edge('A', 'B', 'first'), edge('A', 'C', 'c'), edge('A', 'B', 'second')];
+
+        expect([0, 1, 2].map(index => findLinkEdge(code, edges, index)?.id)).toEqual(['first', 'c', 'second']);
+        expect(findLinkEdge(code, edges, 3)).toBeUndefined();
+    });
+
+    it('should remove a node with its links, styles, classes and comment', () => {
+        const code = removeFromSource(SOURCE, { nodes: ['D'] });
+
+        expect(code).not.toMatch(/\bD\b/);
+        expect(code).toContain('    subgraph S [Services]\n    end');
+        expect(code).toContain('    class C hot');
+        expect(code).not.toContain('linkStyle 2');
+    });
+
+    it('should unwrap removed subgraphs and leave other diagram types alone', () => {
+        expect(removeFromSource(SOURCE, { nodes: ['S'] })).toContain('    B -.-> D\n        D\n    %% {"id"');
+        const sequence = 'sequenceDiagram\n    A->>B: hi';
+        expect(removeFromSource(sequence, { nodes: ['A'] })).toBe(sequence);
+        expect(addEdgeToSource(sequence, { source: 'A', target: 'B' })).toBe(sequence);
+    });
+
+    it('should keep positions when the re-parsed structure is unchanged', () => {
+        const current = { nodes: [node('A', 120), node('B', 340)], edges: [edge('A', 'B')] };
+        const parsed = { nodes: [{ ...node('A'), data: { label: 'Renamed' } }, node('B')], edges: [edge('A', 'B')] };
+
+        const merged = mergeParsedDiagram(current, parsed);
+        expect(merged.nodes.map(n => [n.position.x, n.data.label])).toEqual([[120, 'Renamed'], [340, 'B']]);
+    });
+
+    it('should lay out again when the diagram direction changes', () => {
+        const current = { nodes: [node('A', 120), node('B', 340)], edges: [edge('A', 'B')], direction: 'TB' as const };
+        const merged = mergeParsedDiagram(current, { ...current, direction: 'LR' });
+
+        expect(merged.nodes[0].position.y).toBe(merged.nodes[1].position.y);
+        expect(merged.nodes[0].sourcePosition).toBe('right');
+    });
+
+    it('should keep existing nodes in place when the code adds one', () => {
+        const current = { nodes: [node('A', 120), { ...node('B', 340), position: { x: 340, y: 500 } }], edges: [edge('A', 'B')] };
+        const parsed = { nodes: [node('A'), node('B'), node('C')], edges: [edge('A', 'B'), edge('B', 'C')] };
+
+        const merged = mergeParsedDiagram(current, parsed);
+        const [a, b, c] = merged.nodes;
+        expect(a.position).toEqual({ x: 120, y: 0 });
+        expect(b.position).toEqual({ x: 340, y: 500 });
+        // Laid out below B, as it would be without the manual positions
+        expect(c.position.y).toBeGreaterThan(b.position.y);
+    });
+
+    it('should keep pinned nodes and their flag through a change of direction', () => {
+        const pinned = { ...node('B', 340), data: { label: 'B', pinned: true } };
+        const current = { nodes: [node('A', 120), pinned], edges: [edge('A', 'B')], direction: 'TB' as const };
+        const merged = mergeParsedDiagram(current, { nodes: [node('A'), node('B')], edges: [edge('A', 'B')], direction: 'LR' });
+
+        expect(merged.nodes[1]).toMatchObject({ position: { x: 340, y: 0 }, data: { pinned: true } });
+        expect(merged.nodes[0].position.x).toBeLessThan(340);
+    });
+});
+
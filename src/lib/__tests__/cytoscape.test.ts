@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { exportToCytoscape, importFromCytoscape, isCytoscapeFile } from '../cytoscape';
+import { getNodeHeight, getNodeWidth } from '../layoutEngine';
+import { NODES, EDGES as BASE_EDGES, withChange } from './fixtures/interchange';
+
+// An edge id that repeats a node id
+const EDGES = withChange(BASE_EDGES, 'e1', { id: 'api' });
+
+describe('cytoscape', () => {
+    it('should write compound nodes with metadata on data and centre positions', () => {
+        const json = exportToCytoscape(NODES, EDGES);
+        const { elements, style } = JSON.parse(json);
+
+        expect(isCytoscapeFile(json)).toBe(true);
+        expect(style.length).toBeGreaterThan(0);
+        expect(elements.nodes[1]).toEqual({
+            data: {
+                id: 'api', label: 'API', parent: 'backend', type: 'server', color: '#ffffff', width: 180, height: 60,
+                techStack: ['Node', 'Express'], role: 'Gateway', description: 'Public entry',
+            },
+            position: { x: 130, y: 90 },
+        });
+        expect(elements.nodes[0].data).toMatchObject({ id: 'backend', type: 'group', color: '#dbeafe' });
+        // Edge ids may not repeat node ids
+        expect(elements.edges[0].data).toMatchObject({ id: 'edge-api', source: 'user', target: 'api', stroke: 'dotted', endMarker: 'arrow' });
+    });
+
+    it('should read its own files back unchanged', () => {
+        const { nodes, edges } = importFromCytoscape(exportToCytoscape(NODES, EDGES));
+
+        expect(nodes.map(n => [n.id, n.type, n.parentId, n.data.label])).toEqual(NODES.map(n => [n.id, n.type, n.parentId, n.data.label]));
+        expect(nodes.slice(1).map(n => n.position)).toEqual([{ x: 40, y: 80 }, { x: 40, y: 200 }, { x: 520, y: 60 }]);
+        // The group is fitted around its members
+        expect(nodes[0].position).toEqual({ x: 0, y: -20 });
+        expect(nodes[0].style).toEqual({ width: 40 + getNodeWidth(nodes[1]) + 40, height: 200 + getNodeHeight(nodes[2]) + 40 });
+        expect(nodes[1].data.metadata).toEqual(NODES[1].data.metadata);
+        expect(nodes[3].data).toMatchObject({ shape: 'circle', style: { background: '#fef3c7' } });
+
+        expect(edges.map(e => [e.source, e.target, e.label])).toEqual([['user', 'api', 'calls'], ['api', 'db', undefined]]);
+        expect(edges[1].data).toMatchObject({ stroke: 'thick', startMarker: 'diamond', endMarker: 'one-or-many' });
+    });
+
+    it('should read element arrays from other tools and lay out unplaced graphs', () => {
+        const json = JSON.stringify({
+            data: [],
+            directed: true,
+            elements: [
+                { data: { id: 1, name: 'Alice', value: 1, type: 'person' } },
+                { data: { id: 2, name: 'Bob', parent: 'team' } },
+                { data: { id: 'team', label: 'Team' } },
+                { data: { source: 1, target: 2, label: 'knows', startMarker: 'bogus' } },
+                { group: 'edges', data: { id: 'dangling', source: 2, target: 3 } },
+            ],
+        });
+        expect(isCytoscapeFile(json)).toBe(true);
+        const { nodes, edges } = importFromCytoscape(json);
+
+        expect(nodes.map(n => [n.id, n.type, n.parentId, n.data.label])).toEqual([
+            ['1', 'default', undefined, 'Alice'],
+            ['team', 'group', undefined, 'Team'],
+            ['2', 'default', 'team', 'Bob'],
+        ]);
+        expect(nodes[1].style?.width).toBeGreaterThan(0);
+        expect(edges).toHaveLength(1);
+        expect(edges[0]).toMatchObject({ source: '1', target: '2', label: 'knows', data: { startMarker: 'none', endMarker: 'arrow' } });
+    });
+
+    it('should not take React Flow JSON for Cytoscape', () => {
+        expect(isCytoscapeFile(JSON.stringify({ nodes: [{ id: 'a', data: { label: 'A' } }], edges: [] }))).toBe(false);
+        expect(isCytoscapeFile('{"type": "excalidraw", "elements": []}')).toBe(false);
+        expect(() => importFromCytoscape('{"elements": []}')).toThrow('no elements');
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import mermaid from 'mermaid';
+import { fromMermaidError, lintFlowchart, type DiagnosticFix } from '../diagnostics';
+import { diagnoseMermaid, parseMermaid } from '../mermaidParser';
+
+// Apply a quick-fix the way Monaco would
+function applyFix(code: string, { range, text }: DiagnosticFix): string {
+    const lines = code.split('\n');
+    const offset = (line: number, column: number) =>
+        lines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0) + column - 1;
+    return code.slice(0, offset(range.startLine, range.startColumn)) + text + code.slice(offset(range.endLine, range.endColumn));
+}
+
+async function mermaidError(code: string): Promise<unknown> {
+    try {
+        await mermaid.parse(code);
+    } catch (e) {
+        return e;
+    }
+    throw new Error('expected a parse error');
+}
+
+describe('diagnostics', () => {
+    it('locates Mermaid syntax errors and offers to quote the label', async () => {
+        const code = 'flowchart TD\n    A --> B\n    B --> C[Save (draft)]';
+        const diagnostic = fromMermaidError(await mermaidError(code), code);
+
+        expect(diagnostic).toMatchObject({ severity: 'error', code: 'syntax-error', startLine: 3, startColumn: 18, endColumn: 19 });
+        expect(diagnostic.message).toBe('Syntax error: unexpected "("');
+        expect(applyFix(code, diagnostic.fixes![0])).toBe('flowchart TD\n    A --> B\n    B --> C["Save (draft)"]');
+        await expect(mermaid.parse(applyFix(code, diagnostic.fixes![0]))).resolves.toBeTruthy();
+    });
+
+    it('offers to rename a node called end', async () => {
+        const code = 'flowchart TD\n    A --> end';
+        const diagnostic = fromMermaidError(await mermaidError(code), code);
+
+        expect(diagnostic.startLine).toBe(2);
+        expect(applyFix(code, diagnostic.fixes![0])).toBe('flowchart TD\n    A --> End');
+    });
+
+    it('maps errors back through code fences and reports unknown diagram types', async () => {
+        const fenced = '```mermaid\nflowchart TD\n    A -->\n```';
+        const [syntax] = await diagnoseMermaid(fenced);
+        expect(syntax).toMatchObject({ code: 'syntax-error', startLine: 3 });
+        expect(syntax.message).toMatch(/ends unexpectedly/);
+
+        const [unknown] = await diagnoseMermaid('\nnot a diagram');
+        expect(unknown).toMatchObject({ code: 'unknown-diagram', startLine: 2, startColumn: 1 });
+    });
+
+    it('warns about nodes that are referenced but never defined', () => {
+        const code = 'flowchart LR\n    Start[Begin] --> Check{Valid?}\n    Chek --> Done';
+        const diagnostics = lintFlowchart(code);
+
+        expect(diagnostics.map(d => d.message)).toEqual([
+            'Node "Chek" is referenced but never defined. Did you mean "Check"?',
+            'Node "Done" is referenced but never defined; it will be drawn with its id as label',
+        ]);
+        expect(diagnostics[0]).toMatchObject({ startLine: 3, startColumn: 5, endColumn: 9 });
+        expect(applyFix(code, diagnostics[0].fixes![0])).toBe('flowchart LR\n    Start[Begin] --> Check{Valid?}\n    Check --> Done');
+        expect(applyFix(code, diagnostics[0].fixes![1])).toBe('flowchart LR\n    Start[Begin] --> Check{Valid?}\n    Chek[Chek] --> Done');
+
+        // Bare ids throughout are plain Mermaid style, not a mistake
+        expect(lintFlowchart('flowchart LR\n    A --> B\n    B --> C')).toEqual([]);
+    });
+
+    it('warns about styling aimed at unknown nodes or links and unclosed subgraphs', () => {
+        const code = [
+            'flowchart LR',
+            '    A[One] --> B[Two]',
+            '    subgraph S [Group]',
+            '        B',
+            '    style X fill:#f00',
+            '    class A,Y hot',
+            '    linkStyle 0,3 stroke:#f00',
+        ].join('\n');
+        const diagnostics = lintFlowchart(code);
+
+        expect(diagnostics.map(d => `${d.code}@${d.startLine}`)).toEqual([
+            'unknown-node@5', 'unknown-node@6', 'link-style-range@7', 'unclosed-subgraph@3',
+        ]);
+        expect(diagnostics[1]).toMatchObject({ startColumn: 13, endColumn: 14 });
+        expect(applyFix(code, diagnostics[0].fixes![0])).not.toContain('style X');
+        expect(applyFix(code, diagnostics[3].fixes![0])).toMatch(/stroke:#f00\n {4}end$/);
+    });
+
+    it('reports the regex fallback from parseMermaid', async () => {
+        const { nodes, diagnostics } = await parseMermaid('flowchart TD\n    A[Start] --> B[Save (draft)]');
+
+        expect(nodes.length).toBeGreaterThan(0);
+        expect(diagnostics.map(d => `${d.severity}:${d.code}@${d.startLine}`)).toEqual([
+            'error:syntax-error@2', 'warning:regex-fallback@1',
+        ]);
+    });
+});
@@ -0,0 +1,31 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll } from 'vitest';
+import { processDiagram } from '../diagramPipeline';
+import { installDomlessSanitizer } from '../domlessSanitizer';
+
+// Like the diagram worker, this suite has no window or document
+const CODE = `flowchart LR
+    A[Start] --> B{Valid?}
+    B -->|yes| C[(Orders DB)]
+    style C fill:#bbf`;
+
+describe('diagramPipeline without a DOM', () => {
+    beforeAll(installDomlessSanitizer);
+
+    it('parses labelled flowcharts with Mermaid rather than the regex fallback', async () => {
+        const diagram = await processDiagram(CODE);
+
+        expect(diagram.diagnostics).toEqual([]);
+        expect(diagram.nodes.map(n => [n.id, n.type, n.data.label])).toEqual([
+            ['A', 'start', 'Start'],
+            ['B', 'decision', 'Valid?'],
+            ['C', 'database', 'Orders DB'],
+        ]);
+        expect(diagram.nodes[2].data.style).toMatchObject({ background: '#bbf' });
+        expect(diagram.edges.map(e => [e.source, e.target, e.label])).toEqual([['A', 'B', undefined], ['B', 'C', 'yes']]);
+    });
+
+    it('resolves strict parses of valid source', async () => {
+        await expect(processDiagram(CODE, { strict: true })).resolves.toMatchObject({ direction: 'LR' });
+    });
+});
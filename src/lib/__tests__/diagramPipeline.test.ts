@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { createDiagramPipeline, type PipelineRequest, type PipelineResponse, type PipelineStage } from '../diagramPipeline';
+
+const CODE = 'flowchart LR\n    A[Start] --> B[End]';
+
+// Stands in for the real worker: records requests and replies on demand
+class FakeWorker extends EventTarget {
+    requests: PipelineRequest[] = [];
+    terminated = false;
+    postMessage(request: PipelineRequest) {
+        this.requests.push(request);
+    }
+    terminate() {
+        this.terminated = true;
+    }
+    reply(response: PipelineResponse) {
+        this.dispatchEvent(new MessageEvent('message', { data: response }));
+    }
+}
+
+describe('diagramPipeline', () => {
+    it('parses and lays out on the main thread when there is no worker', async () => {
+        const stages: (PipelineStage | null)[] = [];
+        const pipeline = createDiagramPipeline({ createWorker: () => null, onProgress: stage => stages.push(stage) });
+
+        const diagram = await pipeline.run(CODE);
+
+        expect(diagram?.nodes.map(n => n.id)).toEqual(['A', 'B']);
+        expect(diagram?.direction).toBe('LR');
+        expect(diagram!.nodes[1].position.x).toBeGreaterThan(diagram!.nodes[0].position.x);
+        expect(stages).toEqual(['parsing', 'layout', null]);
+    });
+
+    it('discards superseded requests', async () => {
+        const pipeline = createDiagramPipeline({ createWorker: () => null });
+
+        const first = pipeline.run(CODE);
+        const second = pipeline.run('flowchart TD\n    X --> Y');
+
+        expect(await first).toBeNull();
+        expect((await second)?.nodes.map(n => n.id)).toEqual(['X', 'Y']);
+    });
+
+    it('rejects strict parse errors', async () => {
+        const pipeline = createDiagramPipeline({ createWorker: () => null });
+
+        await expect(pipeline.run('flowchart TD\n    A -->', { strict: true })).rejects.toThrow();
+    });
+
+    it('ignores stale worker responses and cancels superseded requests', async () => {
+        const worker = new FakeWorker();
+        const stages: (PipelineStage | null)[] = [];
+        const pipeline = createDiagramPipeline({ createWorker: () => worker as unknown as Worker, onProgress: stage => stages.push(stage) });
+
+        const first = pipeline.run('flowchart TD\n    A --> B');
+        const second = pipeline.run(CODE);
+        expect(worker.requests.map(r => `${r.type}:${r.id}`)).toEqual(['run:1', 'cancel:1', 'run:2']);
+        expect(await first).toBeNull();
+
+        const diagram = { nodes: [], edges: [], diagnostics: [], sourceMap: [] };
+        worker.reply({ id: 1, type: 'result', diagram: { ...diagram, direction: 'TB' } });
+        worker.reply({ id: 2, type: 'progress', stage: 'layout' });
+        worker.reply({ id: 2, type: 'result', diagram: { ...diagram, direction: 'LR' } });
+
+        expect((await second)?.direction).toBe('LR');
+        expect(stages).toEqual([null, 'layout', null]);
+    });
+
+    it('falls back to the main thread when the worker fails', async () => {
+        const worker = new FakeWorker();
+        const pipeline = createDiagramPipeline({ createWorker: () => worker as unknown as Worker });
+
+        const result = pipeline.run(CODE);
+        worker.dispatchEvent(new Event('error'));
+
+        expect((await result)?.nodes.map(n => n.id)).toEqual(['A', 'B']);
+        expect(worker.terminated).toBe(true);
+    });
+});
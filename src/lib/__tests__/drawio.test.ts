@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { exportToDrawio, importFromDrawio, isDrawioFile, parseDrawioStyle } from '../drawio';
+import { NODES as BASE_NODES, EDGES as BASE_EDGES, withChange } from './fixtures/interchange';
+
+// Labels are escaped in attributes and waypoints are kept
+const NODES = withChange(BASE_NODES, 'api', { data: { label: 'API <v2>' } });
+const EDGES = withChange(BASE_EDGES, 'e1', { data: { points: [{ x: 130, y: 150 }] } });
+
+function parse(xml: string): Document {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    expect(doc.querySelector('parsererror')).toBeNull();
+    return doc;
+}
+
+// Raw-deflated, base64 page contents as draw.io writes them
+async function compress(xml: string): Promise<string> {
+    const stream = new Response(new TextEncoder().encode(encodeURIComponent(xml))).body!.pipeThrough(new CompressionStream('deflate-raw'));
+    const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+    return btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''));
+}
+
+describe('drawio', () => {
+    it('should write groups as containers, metadata as custom properties and edge styles with waypoints', () => {
+        const xml = exportToDrawio(NODES, EDGES, { edgeStyle: 'orthogonal' });
+        const doc = parse(xml);
+        const cell = (id: string) => doc.querySelector(`mxCell[id="${id}"]`) ?? doc.querySelector(`object[id="${id}"] > mxCell`)!;
+
+        expect(isDrawioFile(xml)).toBe(true);
+        expect(parseDrawioStyle(cell('backend').getAttribute('style'))).toMatchObject({ swimlane: '', container: '1', fillColor: '#dbeafe' });
+        expect(cell('db').getAttribute('parent')).toBe('backend');
+        expect(parseDrawioStyle(cell('db').getAttribute('style'))).toMatchObject({ shape: 'cylinder3', sysvisType: 'database' });
+        expect(cell('db').querySelector('mxGeometry')!.getAttribute('width')).toBe('150');
+
+        const api = doc.querySelector('object[id="api"]')!;
+        expect(api.getAttribute('label')).toBe('API &lt;v2&gt;');
+        expect(api.getAttribute('techStack')).toBe('Node, Express');
+        expect(api.getAttribute('role')).toBe('Gateway');
+
+        const edgeStyle = parseDrawioStyle(cell('e1').getAttribute('style'));
+        expect(edgeStyle).toMatchObject({ edgeStyle: 'orthogonalEdgeStyle', dashed: '1', endArrow: 'classic', startArrow: 'none' });
+        expect(cell('e1').querySelector('Array[as="points"] > mxPoint')!.getAttribute('x')).toBe('130');
+        expect(parseDrawioStyle(cell('e2').getAttribute('style'))).toMatchObject({ strokeWidth: '3', startArrow: 'diamond', startFill: '0', endArrow: 'ERoneToMany' });
+    });
+
+    it('should read its own files back unchanged', async () => {
+        const { nodes, edges } = await importFromDrawio(exportToDrawio(NODES, EDGES));
+
+        expect(nodes.map(n => [n.id, n.type, n.parentId, n.position.x, n.position.y, n.data.label])).toEqual(
+            NODES.map(n => [n.id, n.type, n.parentId, n.position.x, n.position.y, n.data.label]));
+        expect(nodes[0].style).toMatchObject({ width: 400, height: 300 });
+        expect(nodes[1].data.metadata).toEqual(NODES[1].data.metadata);
+        expect(nodes[3].data).toMatchObject({ shape: 'circle', style: { background: '#fef3c7' } });
+
+        expect(edges.map(e => [e.source, e.target, e.label])).toEqual([['user', 'api', 'calls'], ['api', 'db', undefined]]);
+        expect(edges[0].data).toMatchObject({ stroke: 'dotted', startMarker: 'none', endMarker: 'arrow', points: [{ x: 130, y: 150 }] });
+        expect(edges[1].data).toMatchObject({ stroke: 'thick', startMarker: 'diamond', endMarker: 'one-or-many' });
+    });
+
+    it('should import compressed diagrams drawn in draw.io', async () => {
+        const model = `<mxGraphModel><root>
+            <mxCell id="0"/><mxCell id="1" parent="0"/>
+            <mxCell id="lane-1" value="Payments" style="swimlane;" vertex="1" parent="1"><mxGeometry x="100" y="50" width="300" height="200" as="geometry"/></mxCell>
+            <mxCell id="a-2" value="&lt;b&gt;Charge&lt;/b&gt;&lt;br&gt;card" style="rounded=1;whiteSpace=wrap;html=1;" vertex="1" parent="lane-1"><mxGeometry x="20" y="40" width="120" height="60" as="geometry"/></mxCell>
+            <mxCell id="end" value="OK?" style="rhombus;" vertex="1" parent="1"><mxGeometry x="500" y="60" width="80" height="80" as="geometry"/></mxCell>
+            <mxCell id="c" value="" style="ellipse;" vertex="1" parent="1"><mxGeometry x="500" y="200" width="60" height="60" as="geometry"/></mxCell>
+            <mxCell id="e" style="endArrow=block;endFill=1;" edge="1" parent="lane-1" source="a-2" target="end"><mxGeometry relative="1" as="geometry"><Array as="points"><mxPoint x="200" y="70"/></Array></mxGeometry></mxCell>
+            <mxCell id="e-label" value="pay" style="edgeLabel;" vertex="1" connectable="0" parent="e"><mxGeometry relative="1" as="geometry"/></mxCell>
+            <mxCell id="f" edge="1" parent="1" source="end" target="missing"><mxGeometry relative="1" as="geometry"/></mxCell>
+        </root></mxGraphModel>`;
+        const file = `<mxfile host="app.diagrams.net"><diagram id="p1" name="Page-1">${await compress(model)}</diagram></mxfile>`;
+        const { nodes, edges } = await importFromDrawio(file);
+
+        expect(nodes.map(n => [n.id, n.type, n.parentId])).toEqual([
+            ['lane_1', 'group', undefined], ['a_2', 'default', 'lane_1'], ['end_', 'decision', undefined], ['c', 'custom-shape', undefined],
+        ]);
+        expect(nodes[1].data.label).toBe('Charge card');
+        expect(nodes[3].data.shape).toBe('circle');
+        // Dangling edges are dropped; labels on child cells and points inside containers are picked up
+        expect(edges).toHaveLength(1);
+        expect(edges[0]).toMatchObject({ source: 'a_2', target: 'end_', label: 'pay' });
+        expect(edges[0].data).toMatchObject({ endMarker: 'arrow', startMarker: 'none', points: [{ x: 300, y: 120 }] });
+    });
+
+    it('should reject files without a diagram', async () => {
+        await expect(importFromDrawio('<mxfile><diagram id="p"/></mxfile>')).rejects.toThrow('No diagram');
+        await expect(importFromDrawio('<mxfile>')).rejects.toThrow('could not be read');
+    });
+});
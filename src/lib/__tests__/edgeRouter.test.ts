@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { getOrthogonalPath, getRoutingKey, routeOrthogonalEdges, routeOrthogonalEdgesInChunks, type Point } from '../edgeRouter';
+import { type Node, type Edge } from '../../store';
+
+// Nodes as measured on the canvas, 180x60
+const node = (id: string, x: number, y: number, parentId?: string): Node =>
+    ({ id, position: { x, y }, data: { label: id }, parentId, measured: { width: 180, height: 60 } });
+const group = (id: string, x: number, y: number, width: number, height: number): Node =>
+    ({ id, type: 'group', position: { x, y }, data: { label: id }, style: { width, height } });
+
+interface Box { left: number; top: number; right: number; bottom: number }
+
+// Absolute box of a 180x60 node
+const box = (x: number, y: number, width = 180, height = 60): Box => ({ left: x, top: y, right: x + width, bottom: y + height });
+
+function routeOf(nodes: Node[], edge: Edge): Point[] {
+    const [routed] = routeOrthogonalEdges(nodes, [edge]);
+    const source = nodes.find(n => n.id === edge.source)!;
+    const target = nodes.find(n => n.id === edge.target)!;
+    const points = routed.data!.points as Point[];
+    expect(points, 'route found').toBeDefined();
+    // Full polyline from the bottom handle of the source to the top handle of the target, for top-level nodes
+    return [
+        { x: source.position.x + 90, y: source.position.y + 60 },
+        ...points,
+        { x: target.position.x + 90, y: target.position.y },
+    ];
+}
+
+function cutsThrough(route: Point[], { left, top, right, bottom }: Box): boolean {
+    return route.slice(1).some((b, i) => {
+        const a = route[i];
+        return Math.max(a.x, b.x) > left && Math.min(a.x, b.x) < right && Math.max(a.y, b.y) > top && Math.min(a.y, b.y) < bottom;
+    });
+}
+
+const isOrthogonal = (route: Point[]) => route.slice(1).every((b, i) => b.x === route[i].x || b.y === route[i].y);
+
+describe('edgeRouter', () => {
+    it('should draw a straight line when nothing is in the way', () => {
+        const [edge] = routeOrthogonalEdges([node('a', 0, 0), node('b', 0, 200)], [{ id: 'ab', source: 'a', target: 'b' }]);
+        expect(edge.data!.points).toEqual([]);
+    });
+
+    it('should route around nodes between the ends', () => {
+        const nodes = [node('a', 0, 0), node('blocker', 0, 150), node('b', 0, 300)];
+        const route = routeOf(nodes, { id: 'ab', source: 'a', target: 'b' });
+
+        expect(isOrthogonal(route)).toBe(true);
+        expect(cutsThrough(route, box(0, 150))).toBe(false);
+        // Around one side of the blocker: out, down, back in
+        expect(route).toHaveLength(6);
+    });
+
+    it('should route around groups but not the groups an edge starts or ends in', () => {
+        const nodes = [
+            node('a', 400, 0),
+            group('zone', 300, 150, 380, 200), node('inner', 100, 60, 'zone'),
+            node('b', 400, 450),
+        ];
+        const around = routeOf(nodes, { id: 'ab', source: 'a', target: 'b' });
+        expect(cutsThrough(around, box(300, 150, 380, 200))).toBe(false);
+
+        const [into] = routeOrthogonalEdges(nodes, [{ id: 'a-inner', source: 'a', target: 'inner' }]);
+        // Straight down into the group, with a jog over to the inner node
+        expect((into.data!.points as Point[]).every(p => p.y > 60 && p.y < 210)).toBe(true);
+    });
+
+    it('should leave sequence messages and self-loops alone', () => {
+        const nodes = [node('a', 0, 0), node('b', 300, 0)];
+        const edges: Edge[] = [{ id: 'm', source: 'a', target: 'b', type: 'message' }, { id: 'loop', source: 'a', target: 'a' }];
+        expect(routeOrthogonalEdges(nodes, edges)).toEqual(edges);
+    });
+
+    it('should only route edges at moved nodes, including nodes inside a moved group', () => {
+        const nodes = [node('a', 0, 0), node('b', 0, 200), group('zone', 400, 0, 300, 200), node('inner', 40, 40, 'zone'), node('c', 400, 300)];
+        const edges: Edge[] = [
+            { id: 'ab', source: 'a', target: 'b', data: { points: [{ x: 1, y: 1 }] } },
+            { id: 'inner-c', source: 'inner', target: 'c' },
+        ];
+
+        const [ab, innerC] = routeOrthogonalEdges(nodes, edges, new Set(['zone']));
+        expect(ab).toBe(edges[0]);
+        expect(innerC.data!.points).toBeDefined();
+        expect(routeOrthogonalEdges(nodes, edges, new Set(['a']))[1]).toBe(edges[1]);
+    });
+
+    it('should route a 300 node diagram around every node within the time budget', () => {
+        // A tight 20x15 grid with edges between scattered nodes, so most routes have to find their way through it
+        const nodes = Array.from({ length: 300 }, (_, i) => node(`n${i}`, (i % 20) * 230, Math.floor(i / 20) * 110));
+        const edges: Edge[] = nodes.slice(1).map((target, i) => ({ id: `e${i}`, source: `n${(i * 7919) % 300}`, target: target.id }));
+
+        const started = performance.now();
+        const routed = routeOrthogonalEdges(nodes, edges);
+        expect(performance.now() - started).toBeLessThan(3000);
+
+        routed.filter(edge => edge.source !== edge.target).forEach(edge => {
+            const route = routeOf(nodes, edge);
+            const others = nodes.filter(n => n.id !== edge.source && n.id !== edge.target);
+            expect(others.some(n => cutsThrough(route, box(n.position.x, n.position.y))), edge.id).toBe(false);
+        });
+    });
+
+    it('should route in chunks to the same result and stop when aborted', async () => {
+        const nodes = [node('a', 0, 0), node('blocker', 0, 150), node('b', 0, 300), node('c', 300, 300)];
+        const edges: Edge[] = [{ id: 'ab', source: 'a', target: 'b' }, { id: 'ac', source: 'a', target: 'c' }, { id: 'bc', source: 'b', target: 'c' }];
+
+        expect(await routeOrthogonalEdgesInChunks(nodes, edges, undefined, 2)).toEqual(routeOrthogonalEdges(nodes, edges));
+        const abort = new AbortController();
+        const routing = routeOrthogonalEdgesInChunks(nodes, edges, abort.signal, 2);
+        abort.abort();
+        await expect(routing).rejects.toThrow();
+    });
+
+    it('should key routes on node boxes and edge ends, not on the routes themselves', () => {
+        const nodes = [node('a', 0, 0), node('b', 0, 200)];
+        const edges: Edge[] = [{ id: 'ab', source: 'a', target: 'b' }];
+        const key = getRoutingKey(nodes, edges);
+
+        expect(getRoutingKey(nodes, routeOrthogonalEdges(nodes, edges))).toBe(key);
+        expect(getRoutingKey([nodes[0], node('b', 10, 200)], edges)).not.toBe(key);
+        expect(getRoutingKey([nodes[0], { ...nodes[1], hidden: true }], edges)).not.toBe(key);
+        expect(getRoutingKey(nodes, [{ id: 'ab', source: 'b', target: 'a' }])).not.toBe(key);
+    });
+
+    it('should round corners and put the label halfway along the route', () => {
+        const [path, labelX, labelY] = getOrthogonalPath([{ x: 0, y: 0 }, { x: 0, y: 50 }, { x: 100, y: 50 }, { x: 100, y: 100 }]);
+
+        expect(path).toBe('M 0 0 L 0 42 Q 0 50 8 50 L 92 50 Q 100 50 100 58 L 100 100');
+        expect([labelX, labelY]).toEqual([50, 50]);
+        // Handles slightly off the routed line get a corner rather than a diagonal
+        expect(getOrthogonalPath([{ x: 0, y: 0 }, { x: 3, y: 40 }])[0]).toBe('M 0 0 L 1.5 0 Q 3 0 3 1.5 L 3 40');
+    });
+});
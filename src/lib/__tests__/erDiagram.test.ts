@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { parseErDiagram, parseErAttribute, isErDiagram, estimateEntityNodeSize } from '../erDiagram';
+import { getLayoutedElements } from '../layoutEngine';
+
+const SHOP = `erDiagram
+    CUSTOMER ||--o{ ORDER : places
+    ORDER ||--|{ LINE_ITEM : contains
+    PRODUCT |o..o{ LINE_ITEM : "listed in"
+    CUSTOMER }|..|| ADDRESS : "ships to"
+    CUSTOMER {
+        string id PK
+        string email UK "login name"
+        string addressId FK
+    }
+    ORDER {
+        int id PK
+        string customerId FK
+    }
+    LINE_ITEM {
+        int orderId PK, FK
+        int productId PK, FK
+        int quantity
+    }`;
+
+describe('erDiagram', () => {
+    it('should parse entities with their attribute lists', () => {
+        const { nodes } = parseErDiagram(SHOP);
+        const customer = nodes.find(n => n.id === 'CUSTOMER')!;
+
+        expect(nodes.map(n => n.id)).toEqual(['CUSTOMER', 'ORDER', 'LINE_ITEM', 'PRODUCT', 'ADDRESS']);
+        expect(nodes.every(n => n.type === 'erEntity')).toBe(true);
+        expect(customer.data.attributes).toEqual([
+            { type: 'string', name: 'id', keys: ['PK'], comment: undefined },
+            { type: 'string', name: 'email', keys: ['UK'], comment: 'login name' },
+            { type: 'string', name: 'addressId', keys: ['FK'], comment: undefined },
+        ]);
+    });
+
+    it('should read composite key markers', () => {
+        expect(parseErAttribute('int orderId PK, FK')).toMatchObject({ keys: ['PK', 'FK'] });
+        expect(parseErAttribute('int quantity')).toMatchObject({ name: 'quantity', keys: [] });
+        expect(parseErAttribute('}')).toBeNull();
+    });
+
+    it('should map cardinalities to crow\'s-foot markers', () => {
+        const { edges } = parseErDiagram(SHOP);
+
+        expect(edges[0]).toMatchObject({ source: 'CUSTOMER', target: 'ORDER', label: 'places' });
+        expect(edges[0].data).toEqual({ startMarker: 'exactly-one', endMarker: 'zero-or-many', identifying: true });
+        expect(edges[1].data).toMatchObject({ endMarker: 'one-or-many' });
+        expect(edges[2]).toMatchObject({ label: 'listed in', data: { startMarker: 'zero-or-one', identifying: false } });
+        expect(edges[2].style?.strokeDasharray).toBe('5,5');
+        expect(edges[3].data).toMatchObject({ startMarker: 'one-or-many', endMarker: 'exactly-one' });
+    });
+
+    it('should read quoted entity names and word-form cardinalities', () => {
+        const { nodes, edges } = parseErDiagram(`erDiagram
+    "Customer Account" }|..|| ADDRESS : "lives at"
+    CAR one or more to zero or one DRIVER : drives
+    DRIVER only one optionally to many(0) TICKET : receives
+    PERSON 1+ .- 0+ CAR : owns
+    "Customer Account" {
+        string id PK
+    }`);
+
+        expect(nodes.map(n => n.id)).toEqual(['Customer Account', 'ADDRESS', 'CAR', 'DRIVER', 'TICKET', 'PERSON']);
+        expect(nodes[0].data.attributes).toHaveLength(1);
+        expect(edges.map(e => [e.source, e.target, e.label])).toEqual([
+            ['Customer Account', 'ADDRESS', 'lives at'],
+            ['CAR', 'DRIVER', 'drives'],
+            ['DRIVER', 'TICKET', 'receives'],
+            ['PERSON', 'CAR', 'owns'],
+        ]);
+        expect(edges[1].data).toEqual({ startMarker: 'one-or-many', endMarker: 'zero-or-one', identifying: true });
+        expect(edges[2].data).toEqual({ startMarker: 'exactly-one', endMarker: 'zero-or-many', identifying: false });
+        expect(edges[3].data).toEqual({ startMarker: 'one-or-many', endMarker: 'zero-or-many', identifying: false });
+    });
+
+    it('should detect ER sources for schema drill-downs', () => {
+        expect(isErDiagram(SHOP)).toBe(true);
+        expect(isErDiagram('%% schema\nerDiagram\n  A ||--|| B : has')).toBe(true);
+        expect(isErDiagram('flowchart TD\n  A --> B')).toBe(false);
+    });
+
+    it('should size entities from their rows in the layout', () => {
+        const parsed = parseErDiagram(SHOP);
+        const lineItem = parsed.nodes.find(n => n.id === 'LINE_ITEM')!;
+        const address = parsed.nodes.find(n => n.id === 'ADDRESS')!;
+        const { nodes } = getLayoutedElements(parsed.nodes, parsed.edges);
+
+        expect(estimateEntityNodeSize(lineItem.data).height).toBeGreaterThan(estimateEntityNodeSize(address.data).height);
+        expect(new Set(nodes.map(n => `${n.position.x},${n.position.y}`)).size).toBe(nodes.length);
+    });
+});
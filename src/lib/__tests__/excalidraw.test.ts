@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { exportToExcalidraw, importFromExcalidraw, isExcalidrawFile } from '../excalidraw';
+import { getNodeBounds } from '../layoutEngine';
+import { NODES, EDGES as BASE_EDGES, withChange } from './fixtures/interchange';
+
+// Orthogonal arrows bend through their waypoints
+const EDGES = withChange(BASE_EDGES, 'e2', { data: { points: [{ x: 130, y: 160 }] } });
+
+interface Element {
+    id: string;
+    type: string;
+    x: number;
+    y: number;
+    points?: [number, number][];
+    [key: string]: unknown;
+}
+
+function elementsOf(scene: string): Element[] {
+    return JSON.parse(scene).elements;
+}
+
+const shape = (id: string, type: string, x: number, y: number, width: number, height: number, extra: Record<string, unknown> = {}) =>
+    ({ id, type, x, y, width, height, strokeColor: '#1e1e1e', backgroundColor: 'transparent', ...extra });
+const text = (id: string, value: string, x: number, y: number, extra: Record<string, unknown> = {}) =>
+    ({ id, type: 'text', x, y, width: value.length * 10, height: 25, text: value, originalText: value, containerId: null, ...extra });
+const arrow = (id: string, x: number, y: number, points: [number, number][], extra: Record<string, unknown> = {}) =>
+    ({ id, type: 'arrow', x, y, width: 0, height: 0, points, startArrowhead: null, endArrowhead: 'arrow', ...extra });
+
+describe('excalidraw', () => {
+    it('should draw nodes as bound shapes, groups as dashed boxes and edges as bound arrows', () => {
+        const scene = exportToExcalidraw(NODES, EDGES, { edgeStyle: 'orthogonal' });
+        const elements = elementsOf(scene);
+        const byId = new Map(elements.map(e => [e.id, e]));
+
+        expect(isExcalidrawFile(scene)).toBe(true);
+        expect(elements.map(e => e.type).slice(0, 2)).toEqual(['rectangle', 'text']);
+        expect(byId.get('backend')).toMatchObject({ strokeStyle: 'dashed', backgroundColor: '#dbeafe', groupIds: ['group-backend'], roughness: 1 });
+        expect(byId.get('backend-label')).toMatchObject({ containerId: 'backend', verticalAlign: 'top', fontFamily: 1 });
+        expect(byId.get('api')).toMatchObject({ type: 'rectangle', x: 40, y: 60, width: 180, groupIds: ['group-backend'], customData: { sysvisType: 'server', metadata: NODES[1].data.metadata } });
+        expect(byId.get('db')).toMatchObject({ type: 'rectangle', x: 40, y: 180, customData: { sysvisType: 'database' } });
+        expect(byId.get('user')).toMatchObject({ type: 'ellipse', backgroundColor: '#fef3c7', fillStyle: 'hachure' });
+
+        const calls = byId.get('e1')!;
+        expect(calls).toMatchObject({ strokeStyle: 'dashed', startBinding: { elementId: 'user' }, endBinding: { elementId: 'api' }, startArrowhead: null, endArrowhead: 'arrow' });
+        expect(calls.boundElements).toEqual([{ id: 'e1-label', type: 'text' }]);
+        expect(byId.get('e1-label')).toMatchObject({ containerId: 'e1', text: 'calls' });
+        expect(byId.get('api')!.boundElements).toEqual(expect.arrayContaining([{ id: 'e1', type: 'arrow' }, { id: 'e2', type: 'arrow' }]));
+
+        // Orthogonal arrows run through the bend point with a corner wherever two points are not in line
+        const bent = byId.get('e2')!;
+        expect(bent).toMatchObject({ strokeWidth: 4, startArrowhead: 'diamond_outline', endArrowhead: 'crowfoot_one_or_many' });
+        const points = bent.points!.map(([x, y]) => [bent.x + x, bent.y + y]);
+        expect(points).toContainEqual([130, 160]);
+        points.slice(1).forEach(([x, y], i) => expect(x === points[i][0] || y === points[i][1]).toBe(true));
+    });
+
+    it('should read its own scenes back unchanged', () => {
+        const { nodes, edges } = importFromExcalidraw(exportToExcalidraw(NODES, EDGES));
+
+        expect(nodes.map(n => [n.id, n.type, n.parentId, n.position.x, n.position.y, n.data.label])).toEqual(
+            NODES.map(n => [n.id, n.type, n.parentId, n.position.x, n.position.y, n.data.label]));
+        expect(nodes[0].style).toMatchObject({ width: 400, height: 300 });
+        expect(nodes[1].data.metadata).toEqual(NODES[1].data.metadata);
+        expect(nodes[3].data).toMatchObject({ shape: 'circle', style: { background: '#fef3c7' } });
+
+        expect(edges.map(e => [e.source, e.target, e.label])).toEqual([['user', 'api', 'calls'], ['api', 'db', undefined]]);
+        expect(edges[0].data).toMatchObject({ stroke: 'dotted', startMarker: 'none', endMarker: 'arrow' });
+        expect(edges[1].data).toMatchObject({ stroke: 'thick', startMarker: 'diamond', endMarker: 'one-or-many' });
+    });
+
+    it('should read a whiteboard sketch', () => {
+        const scene = JSON.stringify({
+            type: 'excalidraw',
+            elements: [
+                shape('frame-1', 'frame', 0, 0, 500, 300, { name: 'Checkout' }),
+                shape('r1', 'rectangle', 40, 60, 160, 80, { frameId: 'frame-1', backgroundColor: '#a5d8ff' }),
+                // Written on top of the rectangle rather than bound to it
+                text('t1', 'Cart', 100, 90, { frameId: 'frame-1' }),
+                shape('d1', 'diamond', 280, 60, 120, 120, { frameId: 'frame-1', boundElements: [{ id: 't2', type: 'text' }] }),
+                text('t2', 'Paid?', 315, 110, { containerId: 'd1' }),
+                shape('o1', 'ellipse', 700, 80, 100, 100, { strokeColor: '#e03131' }),
+                text('note', 'todo: retries', 700, 400),
+                // Bound at the start, left loose a few pixels short of the diamond at the end
+                arrow('a1', 200, 100, [[0, 0], [40, 0], [70, 20]], { startBinding: { elementId: 'r1' }, strokeStyle: 'dashed' }),
+                arrow('a2', 400, 120, [[0, 0], [300, 10]], { startBinding: { elementId: 'd1' }, endBinding: { elementId: 'o1' }, startArrowhead: 'dot', endArrowhead: 'triangle_outline' }),
+                text('t3', 'yes', 520, 100, { containerId: 'a2' }),
+                arrow('a3', 900, 900, [[0, 0], [50, 50]]),
+                shape('gone', 'rectangle', 40, 200, 50, 50, { isDeleted: true }),
+            ],
+        });
+        const { nodes, edges } = importFromExcalidraw(scene);
+
+        expect(nodes.map(n => [n.id, n.type, n.parentId, n.data.label])).toEqual([
+            ['frame_1', 'group', undefined, 'Checkout'],
+            ['r1', 'default', 'frame_1', 'Cart'],
+            ['d1', 'decision', 'frame_1', 'Paid?'],
+            ['o1', 'custom-shape', undefined, ''],
+            ['note', 'custom-shape', undefined, 'todo: retries'],
+        ]);
+        expect(nodes[1].position).toEqual({ x: 40, y: 60 });
+        expect(nodes[1].data.style).toEqual({ background: '#a5d8ff' });
+        expect(nodes[3].data).toMatchObject({ shape: 'circle', style: { borderColor: '#e03131' } });
+        expect(nodes[4].data.shape).toBe('text');
+
+        expect(edges.map(e => [e.source, e.target, e.label])).toEqual([['r1', 'd1', undefined], ['d1', 'o1', 'yes']]);
+        expect(edges[0].data).toMatchObject({ stroke: 'dotted', endMarker: 'arrow', points: [{ x: 240, y: 100 }] });
+        expect(edges[1].data).toMatchObject({ startMarker: 'circle', endMarker: 'triangle' });
+        expect(edges[1].data?.points).toBeUndefined();
+    });
+
+    it('should lay sketches out again when their shapes overlap', () => {
+        const scene = JSON.stringify({
+            type: 'excalidraw',
+            elements: [
+                shape('a', 'rectangle', 0, 0, 160, 80),
+                shape('b', 'rectangle', 20, 20, 160, 80),
+                shape('c', 'rectangle', 30, 10, 160, 80),
+                arrow('ab', 80, 80, [[0, 0], [0, 40]], { startBinding: { elementId: 'a' }, endBinding: { elementId: 'b' } }),
+            ],
+        });
+        const { nodes } = importFromExcalidraw(scene);
+        const boxes = [...getNodeBounds(nodes).values()];
+
+        boxes.forEach((box, i) => boxes.slice(i + 1).forEach(other => {
+            expect(box.left < other.right && other.left < box.right && box.top < other.bottom && other.top < box.bottom).toBe(false);
+        }));
+    });
+
+    it('should reject text that is not a scene', () => {
+        expect(() => importFromExcalidraw('{"type": "excalidraw"')).toThrow('could not be read');
+        expect(() => importFromExcalidraw('{"type": "excalidraw"}')).toThrow('no elements');
+    });
+});
@@ -0,0 +1,20 @@
+import { type Node, type Edge } from '../../../store';
+
+/** A group holding a server with metadata and a database, plus a circle outside it */
+export const NODES: Node[] = [
+    { id: 'backend', type: 'group', position: { x: 0, y: 0 }, data: { label: 'Backend', color: '#dbeafe' }, style: { width: 400, height: 300 } },
+    { id: 'api', type: 'server', position: { x: 40, y: 60 }, parentId: 'backend', data: { label: 'API', metadata: { techStack: ['Node', 'Express'], role: 'Gateway', description: 'Public entry' } }, measured: { width: 180, height: 60 } },
+    { id: 'db', type: 'database', position: { x: 40, y: 180 }, parentId: 'backend', data: { label: 'Orders DB' }, measured: { width: 150, height: 80 } },
+    { id: 'user', type: 'custom-shape', position: { x: 520, y: 60 }, data: { label: 'User', shape: 'circle', style: { background: '#fef3c7' } }, measured: { width: 80, height: 80 } },
+];
+
+/** A labelled dotted arrow and a thick edge with ER markers at both ends */
+export const EDGES: Edge[] = [
+    { id: 'e1', source: 'user', target: 'api', label: 'calls', data: { stroke: 'dotted', startMarker: 'none', endMarker: 'arrow', length: 1 } },
+    { id: 'e2', source: 'api', target: 'db', data: { stroke: 'thick', startMarker: 'diamond', endMarker: 'one-or-many', length: 1 } },
+];
+
+/** Copy of `items` with the item `id` merged with `change`, data included */
+export function withChange<T extends Node | Edge>(items: T[], id: string, change: Partial<T>): T[] {
+    return items.map(item => item.id === id ? { ...item, ...change, data: { ...item.data, ...change.data } } : item);
+}
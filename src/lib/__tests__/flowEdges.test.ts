@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { parseLinkToken, parseLinkChain, getNodeShapes, toLinkToken, fromMermaidEdge, getFlowLink } from '../flowEdges';
+
+describe('flowEdges', () => {
+    it('should parse link tokens into stroke, markers and length', () => {
+        expect(parseLinkToken('-->')).toEqual({ stroke: 'normal', startMarker: 'none', endMarker: 'arrow', length: 1 });
+        expect(parseLinkToken('---')).toEqual({ stroke: 'normal', startMarker: 'none', endMarker: 'none', length: 1 });
+        expect(parseLinkToken('<==>')).toEqual({ stroke: 'thick', startMarker: 'arrow', endMarker: 'arrow', length: 1 });
+        expect(parseLinkToken('-..-o')).toEqual({ stroke: 'dotted', startMarker: 'none', endMarker: 'circle', length: 2 });
+        expect(parseLinkToken('x--->')?.startMarker).toBe('cross');
+        expect(parseLinkToken('--->')?.length).toBe(2);
+        expect(parseLinkToken('~~~')?.stroke).toBe('invisible');
+        expect(parseLinkToken('->')).toBeNull();
+    });
+
+    it('should write tokens back unchanged', () => {
+        for (const token of ['-->', '---', '==>', '<-->', 'o--o', 'x==x', '-.->', '-..-', '---->', '~~~~']) {
+            expect(toLinkToken(parseLinkToken(token)!)).toBe(token);
+        }
+    });
+
+    it('should follow chains, & lists and both label forms', () => {
+        const links = parseLinkChain('A[Web] & B -- calls --> C{Router} -.->|fallback| D');
+
+        expect(links.map(l => [l.source, l.target, l.label])).toEqual([
+            ['A', 'C', 'calls'],
+            ['B', 'C', 'calls'],
+            ['C', 'D', 'fallback'],
+        ]);
+        expect(links[2].link.stroke).toBe('dotted');
+    });
+
+    it('should read dotted inline labels', () => {
+        const [link] = parseLinkChain('A -. maybe .-> B');
+        expect(link).toMatchObject({ source: 'A', target: 'B', label: 'maybe' });
+        expect(link.link).toMatchObject({ stroke: 'dotted', endMarker: 'arrow' });
+    });
+
+    it('should read brackets and pipes inside quotes and shapes as label text', () => {
+        expect(parseLinkChain('A("Auth (JWT)") --> B').map(l => [l.source, l.target])).toEqual([['A', 'B']]);
+        expect(parseLinkChain('A[a|b] --> B').map(l => [l.source, l.target])).toEqual([['A', 'B']]);
+        expect(parseLinkChain('A -->|"q[1]"| B{"x | y"}')).toMatchObject([{ source: 'A', target: 'B', label: 'q[1]' }]);
+        expect(parseLinkChain('A -- "a|b" --> B')).toMatchObject([{ source: 'A', target: 'B', label: 'a|b' }]);
+    });
+
+    it('should keep quoted shapes whole', () => {
+        expect(getNodeShapes('A("Auth (JWT)") -->|"q[1]"| B[a|b]:::hot')).toEqual(new Map([['A', '("Auth (JWT)")'], ['B', '[a|b]:::hot']]));
+    });
+
+    it('should map Mermaid DB edges and legacy dashed edges', () => {
+        expect(fromMermaidEdge({ type: 'arrow_cross', stroke: 'dotted' }))
+            .toEqual({ stroke: 'dotted', startMarker: 'none', endMarker: 'cross', length: 1 });
+        expect(getFlowLink(undefined, { strokeDasharray: '5,5' }).stroke).toBe('dotted');
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { exportToGraphml, importFromGraphml, isGraphmlFile } from '../graphml';
+import { NODES as BASE_NODES, EDGES as BASE_EDGES, withChange } from './fixtures/interchange';
+
+// Labels need escaping and edges keep their colour
+const NODES = withChange(BASE_NODES, 'api', { data: { label: 'API & <edge>' } });
+const EDGES = withChange(BASE_EDGES, 'e1', { style: { stroke: '#ef4444' } });
+
+describe('graphml', () => {
+    it('should declare every field as a data key and nest group members', () => {
+        const xml = exportToGraphml(NODES, EDGES);
+        const doc = new DOMParser().parseFromString(xml, 'application/xml');
+        expect(doc.querySelector('parsererror')).toBeNull();
+        const data = (element: Element, key: string) => Array.from(element.children).find(child => child.getAttribute('key') === key)?.textContent;
+
+        expect(isGraphmlFile(xml)).toBe(true);
+        expect(Array.from(doc.querySelectorAll('key[for="node"]'), key => key.getAttribute('attr.name'))).toEqual(
+            expect.arrayContaining(['label', 'type', 'techStack', 'role', 'description', 'x', 'y']));
+
+        const api = doc.querySelector('node[id="api"]')!;
+        expect(api.parentElement!.getAttribute('id')).toBe('backend::');
+        expect(data(api, 'n_label')).toBe('API & <edge>');
+        expect(data(api, 'n_techStack')).toBe('Node, Express');
+        expect(data(api, 'n_role')).toBe('Gateway');
+        // Canvas positions, not relative to the group
+        expect([data(api, 'n_x'), data(api, 'n_y'), data(api, 'n_width')]).toEqual(['40', '60', '180']);
+
+        const edge = doc.querySelector('edge[id="e2"]')!;
+        expect([data(edge, 'e_stroke'), data(edge, 'e_startMarker'), data(edge, 'e_endMarker')]).toEqual(['thick', 'diamond', 'one-or-many']);
+    });
+
+    it('should read its own files back unchanged', () => {
+        const { nodes, edges } = importFromGraphml(exportToGraphml(NODES, EDGES));
+
+        expect(nodes.map(n => [n.id, n.type, n.parentId, n.position.x, n.position.y, n.data.label])).toEqual(
+            NODES.map(n => [n.id, n.type, n.parentId, n.position.x, n.position.y, n.data.label]));
+        expect(nodes[0]).toMatchObject({ style: { width: 400, height: 300 }, data: { color: '#dbeafe' } });
+        expect(nodes[1].data.metadata).toEqual(NODES[1].data.metadata);
+        expect(nodes[3].data).toMatchObject({ shape: 'circle', style: { background: '#fef3c7' } });
+
+        expect(edges.map(e => [e.source, e.target, e.label])).toEqual([['user', 'api', 'calls'], ['api', 'db', undefined]]);
+        expect(edges[0]).toMatchObject({ style: { stroke: '#ef4444' }, data: { stroke: 'dotted', startMarker: 'none', endMarker: 'arrow' } });
+        expect(edges[1].data).toMatchObject({ stroke: 'thick', startMarker: 'diamond', endMarker: 'one-or-many' });
+    });
+
+    it('should read plain graphs written by NetworkX and lay them out', () => {
+        const xml = `<?xml version='1.0' encoding='utf-8'?>
+            <graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+              <key id="d0" for="node" attr.name="name" attr.type="string"/>
+              <key id="d1" for="node" attr.name="tech_stack" attr.type="string"/>
+              <key id="d2" for="node" attr.name="type" attr.type="string"><default>person</default></key>
+              <key id="d3" for="edge" attr.name="weight" attr.type="double"/>
+              <graph edgedefault="undirected">
+                <node id="n0"><data key="d0">Alice</data><data key="d1">Python, pandas</data></node>
+                <node id="n1"><data key="d0">Bob</data><data key="d2">server</data></node>
+                <node id="n2"/>
+                <edge source="n0" target="n1"><data key="d3">2.5</data></edge>
+                <edge source="n1" target="n2" directed="true"/>
+                <edge source="n2" target="missing"/>
+              </graph>
+            </graphml>`;
+        const { nodes, edges } = importFromGraphml(xml);
+
+        expect(nodes.map(n => [n.id, n.type, n.data.label])).toEqual([['n0', 'default', 'Alice'], ['n1', 'server', 'Bob'], ['n2', 'default', 'n2']]);
+        expect(nodes[0].data.metadata).toEqual({ techStack: ['Python', 'pandas'], role: '', description: '' });
+        expect(new Set(nodes.map(n => `${n.position.x},${n.position.y}`)).size).toBe(3);
+        expect(edges.map(e => [e.source, e.target, e.data?.endMarker])).toEqual([['n0', 'n1', 'none'], ['n1', 'n2', 'arrow']]);
+    });
+
+    it('should read yEd node graphics', () => {
+        const xml = `<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:y="http://www.yworks.com/xml/graphml">
+              <key id="g" for="node" yfiles.type="nodegraphics"/>
+              <graph edgedefault="directed">
+                <node id="a"><data key="g"><y:ShapeNode><y:Geometry x="10" y="20" width="120" height="40"/><y:Fill color="#FFCC00"/><y:NodeLabel>Start here</y:NodeLabel><y:Shape type="ellipse"/></y:ShapeNode></data></node>
+                <node id="b"><data key="g"><y:ShapeNode><y:Geometry x="10" y="200" width="120" height="40"/><y:NodeLabel>Then</y:NodeLabel></y:ShapeNode></data></node>
+                <edge source="a" target="b"/>
+              </graph>
+            </graphml>`;
+        const { nodes } = importFromGraphml(xml);
+
+        expect(nodes.map(n => [n.id, n.type, n.data.label, n.position])).toEqual([
+            ['a', 'custom-shape', 'Start here', { x: 10, y: 20 }],
+            ['b', 'default', 'Then', { x: 10, y: 200 }],
+        ]);
+        expect(nodes[0].data).toMatchObject({ shape: 'circle', style: { background: '#FFCC00' } });
+    });
+
+    it('should reject documents without a graph', () => {
+        expect(() => importFromGraphml('<graphml xmlns="http://graphml.graphdrawing.org/xmlns"/>')).toThrow('No graph');
+        expect(() => importFromGraphml('<graphml>')).toThrow('could not be read');
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { exportToDot, importFromDot, isDotFile } from '../graphviz';
+import { type Node, type Edge } from '../../store';
+import { NODES as BASE_NODES, EDGES as BASE_EDGES, withChange } from './fixtures/interchange';
+
+// The database sits in a cluster nested in the group, and one edge ends at that cluster
+const DATA: Node = { id: 'data', type: 'group', position: { x: 20, y: 150 }, parentId: 'backend', data: { label: 'Data "tier"', color: '#dcfce7' }, style: { width: 300, height: 120 } };
+const NESTED = withChange([BASE_NODES[0], DATA, ...BASE_NODES.slice(1)], 'db', { position: { x: 20, y: 40 }, parentId: 'data', data: { label: 'Orders\nDB' } });
+const NODES = withChange(NESTED, 'user', { data: { style: { background: '#fef3c7', borderStyle: 'dashed' } } });
+const EDGES: Edge[] = [
+    ...BASE_EDGES,
+    { id: 'e3', source: 'user', target: 'data', data: { stroke: 'normal', startMarker: 'none', endMarker: 'none', length: 1 } },
+];
+
+describe('graphviz', () => {
+    it('should write groups as nested clusters and markers as arrow names', () => {
+        const dot = exportToDot(NODES, EDGES, { direction: 'LR' });
+
+        expect(isDotFile(dot)).toBe(true);
+        expect(dot).toContain('graph [rankdir=LR, compound=true');
+        expect(dot).toMatch(/subgraph "cluster_backend" \{\n\s+label="Backend";\n\s+style="rounded,filled";\n\s+fillcolor="#dbeafe";/);
+        expect(dot).toMatch(/subgraph "cluster_data" \{\n\s+label="Data \\"tier\\"";[\s\S]*"db" \[label="Orders\\nDB", shape="cylinder"/);
+        expect(dot).toContain('"api" [label="API", shape="box", style="rounded", sysvis_type="server", tech_stack="Node, Express", role="Gateway", description="Public entry"]');
+        expect(dot).toContain('"user" [label="User", shape="circle", style="filled,dashed", fillcolor="#fef3c7"');
+        expect(dot).toContain('"user" -> "api" [label="calls", style="dashed"]');
+        expect(dot).toContain('"api" -> "db" [dir="both", arrowhead="crowtee", arrowtail="odiamond", penwidth="3"]');
+        // Edges at a group join a node inside it and are clipped at the cluster
+        expect(dot).toContain('"user" -> "db" [dir="none", lhead="cluster_data"]');
+    });
+
+    it('should read its own graphs back', () => {
+        const { nodes, edges } = importFromDot(exportToDot(NODES, EDGES));
+        const byId = new Map(nodes.map(n => [n.id, n]));
+
+        expect(nodes.map(n => [n.id, n.type, n.parentId, n.data.label])).toEqual(expect.arrayContaining(
+            NODES.map(n => [n.id, n.type, n.parentId, String(n.data.label).replace('\n', ' ')])));
+        expect(nodes.indexOf(byId.get('backend')!)).toBeLessThan(nodes.indexOf(byId.get('data')!));
+        expect(byId.get('data')!.data.color).toBe('#dcfce7');
+        expect(byId.get('api')!.data.metadata).toEqual(NODES[2].data.metadata);
+        expect(byId.get('user')!.data).toMatchObject({ shape: 'circle', style: { background: '#fef3c7', borderStyle: 'dashed' } });
+        // Laid out, groups sized around their members
+        expect(byId.get('backend')!.style?.width).toBeGreaterThan(0);
+
+        expect(edges.map(e => [e.source, e.target, e.label])).toEqual([['user', 'api', 'calls'], ['api', 'db', undefined], ['user', 'data', undefined]]);
+        expect(edges[0].data).toMatchObject({ stroke: 'dotted', startMarker: 'none', endMarker: 'arrow' });
+        expect(edges[1].data).toMatchObject({ stroke: 'thick', startMarker: 'diamond', endMarker: 'one-or-many' });
+        expect(edges[2].data).toMatchObject({ startMarker: 'none', endMarker: 'none' });
+    });
+
+    it('should read graphs written by other tools', () => {
+        const dot = `
+            # generated
+            strict digraph "deps" {
+                rankdir = "LR"; // left to right
+                node [shape=ellipse, style=filled, fillcolor="#eeeeee"];
+                /* services */
+                subgraph cluster0 { label = <<b>Core</b>>; bgcolor = "#ffeeee";
+                    web [label="Web\\nApp"]; worker:p1:n;
+                }
+                subgraph { rank = same; queue [shape=cylinder]; "cache-" + "2" [shape=box, style=""]; }
+                web -> { queue "cache-2" } [arrowhead=odot, color="red:blue"];
+                worker -> queue -> web [dir=back, arrowtail=crow, style=bold];
+            }`;
+        expect(isDotFile(dot)).toBe(true);
+        const { nodes, edges } = importFromDot(dot);
+        const byId = new Map(nodes.map(n => [n.id, n]));
+
+        expect(nodes.map(n => [n.id, n.type, n.parentId, n.data.label])).toEqual([
+            ['cluster0', 'group', undefined, 'Core'],
+            ['web', 'custom-shape', 'cluster0', 'Web App'],
+            ['worker', 'custom-shape', 'cluster0', 'worker'],
+            ['queue', 'database', undefined, 'queue'],
+            ['cache_2', 'default', undefined, 'cache-2'],
+        ]);
+        expect(byId.get('cluster0')!.data.color).toBe('#ffeeee');
+        expect(byId.get('web')!.data).toMatchObject({ shape: 'circle', style: { background: '#eeeeee' } });
+        expect(byId.get('cache_2')!.data.style).toBeUndefined();
+
+        expect(edges.map(e => [e.source, e.target])).toEqual([['web', 'queue'], ['web', 'cache_2'], ['worker', 'queue'], ['queue', 'web']]);
+        expect(edges[0]).toMatchObject({ style: { stroke: 'red' }, data: { endMarker: 'lollipop', startMarker: 'none' } });
+        expect(edges[2].data).toMatchObject({ stroke: 'thick', startMarker: 'zero-or-many', endMarker: 'none' });
+
+        // Laid out left to right
+        expect(byId.get('cluster0')!.position.x).toBeLessThan(byId.get('queue')!.position.x);
+    });
+
+    it('should read undirected graphs without arrows', () => {
+        const { edges } = importFromDot('graph { a -- b; b -- c [dir=forward] }');
+        expect(edges.map(e => e.data?.endMarker)).toEqual(['none', 'arrow']);
+    });
+
+    it('should report where a graph stops making sense', () => {
+        expect(() => importFromDot('digraph {\n  a -> ;\n}')).toThrow('Not a valid DOT file: expected a name on line 2');
+        expect(() => importFromDot('digraph { a -> b')).toThrow('at the end');
+        expect(() => importFromDot('flowchart TD')).toThrow('"graph" or "digraph"');
+    });
+});
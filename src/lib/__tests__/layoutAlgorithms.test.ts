@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { applyLayout, getLayoutAlgorithms, registerLayoutAlgorithm } from '../layoutAlgorithms';
+import { getNodeHeight, getNodeWidth } from '../layoutEngine';
+import { type Node, type Edge } from '../../store';
+
+const group = (id: string, parentId?: string): Node => ({ id, type: 'group', position: { x: 0, y: 0 }, data: { label: id }, parentId });
+const node = (id: string, parentId?: string): Node => ({ id, position: { x: 0, y: 0 }, data: { label: id }, parentId });
+const link = (source: string, target: string): Edge => ({ id: `${source}-${target}`, source, target });
+
+const size = (n: Node) => ({ width: getNodeWidth(n), height: getNodeHeight(n) });
+const centre = (n: Node) => ({ x: n.position.x + size(n).width / 2, y: n.position.y + size(n).height / 2 });
+
+// Region > VPC, with nodes at every level and one outside
+const NESTED: Node[] = [
+    group('region'), group('vpc', 'region'),
+    node('dns', 'region'), node('cdn', 'region'), node('lb', 'vpc'), node('api', 'vpc'), node('db', 'vpc'), node('user'), node('admin'),
+];
+const NESTED_LINKS = [link('user', 'dns'), link('dns', 'lb'), link('lb', 'api'), link('api', 'db'), link('cdn', 'lb'), link('admin', 'api')];
+
+describe('layoutAlgorithms', () => {
+    it('should list the built-in algorithms and fall back to the layered layout', () => {
+        expect(getLayoutAlgorithms().map(a => a.id)).toEqual(['dagre', 'force', 'radial', 'tree', 'grid']);
+        expect(applyLayout('missing', NESTED, NESTED_LINKS)).toEqual(applyLayout('dagre', NESTED, NESTED_LINKS));
+
+        registerLayoutAlgorithm({ id: 'identity', label: 'Identity', description: 'Leaves nodes alone', layout: (nodes, edges) => ({ nodes, edges }) });
+        expect(applyLayout('identity', NESTED, NESTED_LINKS).nodes).toBe(NESTED);
+    });
+
+    it.each(['force', 'radial', 'tree', 'grid'])('%s should keep nodes inside their groups without overlaps', (id) => {
+        const { nodes } = applyLayout(id, NESTED, NESTED_LINKS);
+        const byId = new Map(nodes.map(n => [n.id, n]));
+        const index = (nodeId: string) => nodes.findIndex(n => n.id === nodeId);
+
+        expect(nodes).toHaveLength(NESTED.length);
+        nodes.filter(n => n.parentId).forEach(child => {
+            const parent = byId.get(child.parentId!)!;
+            expect(index(parent.id), child.id).toBeLessThan(index(child.id));
+            expect(child.position.x, child.id).toBeGreaterThanOrEqual(0);
+            expect(child.position.y, child.id).toBeGreaterThanOrEqual(0);
+            expect(child.position.x + size(child).width, child.id).toBeLessThanOrEqual(size(parent).width);
+            expect(child.position.y + size(child).height, child.id).toBeLessThanOrEqual(size(parent).height);
+        });
+        nodes.forEach((a, i) => nodes.slice(i + 1).filter(b => b.parentId === a.parentId).forEach(b => {
+            const apart = a.position.x + size(a).width <= b.position.x || b.position.x + size(b).width <= a.position.x
+                || a.position.y + size(a).height <= b.position.y || b.position.y + size(b).height <= a.position.y;
+            expect(apart, `${a.id}/${b.id}`).toBe(true);
+        }));
+    });
+
+    it('should centre the radial layout on the most connected node', () => {
+        const spokes = ['a', 'b', 'c', 'd', 'e'];
+        const { nodes } = applyLayout('radial', [node('hub'), ...spokes.map(id => node(id))], spokes.map(id => link('hub', id)));
+        const hub = centre(nodes[0]);
+        const distances = nodes.slice(1).map(n => Math.round(Math.hypot(centre(n).x - hub.x, centre(n).y - hub.y)));
+
+        expect(new Set(distances).size).toBe(1);
+        expect(distances[0]).toBeGreaterThan(180);
+    });
+
+    it('should grow the tree along the diagram direction with parents centred over their children', () => {
+        const tree = [node('root'), node('left'), node('right'), node('leaf')];
+        const links = [link('root', 'left'), link('root', 'right'), link('left', 'leaf')];
+        const at = (direction: 'TB' | 'LR') => new Map(applyLayout('tree', tree, links, { direction }).nodes.map(n => [n.id, centre(n)]));
+
+        const down = at('TB');
+        expect(down.get('root')!.y).toBeLessThan(down.get('left')!.y);
+        expect(down.get('left')!.y).toBe(down.get('right')!.y);
+        expect(down.get('root')!.x).toBe((down.get('left')!.x + down.get('right')!.x) / 2);
+        expect(down.get('leaf')!.x).toBe(down.get('left')!.x);
+
+        const across = at('LR');
+        expect(across.get('root')!.x).toBeLessThan(across.get('left')!.x);
+        expect(across.get('left')!.x).toBe(across.get('right')!.x);
+    });
+
+    it('should lay a grid out in rows of about the square root', () => {
+        const cells = Array.from({ length: 9 }, (_, i) => node(`n${i}`));
+        const { nodes } = applyLayout('grid', cells, []);
+
+        expect(new Set(nodes.map(n => n.position.x)).size).toBe(3);
+        expect(new Set(nodes.map(n => n.position.y)).size).toBe(3);
+        expect(nodes[1].position.x).toBeGreaterThan(nodes[0].position.x);
+    });
+
+    it('should keep pinned nodes in place', () => {
+        const pinned = { ...node('dns', 'region'), position: { x: 70, y: 140 }, data: { label: 'dns', pinned: true } };
+        const { nodes } = applyLayout('force', NESTED.map(n => (n.id === 'dns' ? pinned : n)), NESTED_LINKS);
+
+        expect(nodes.find(n => n.id === 'dns')!.position).toEqual({ x: 70, y: 140 });
+    });
+});
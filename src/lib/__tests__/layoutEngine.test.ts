@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import { estimateEdgeLabelSize, getLayoutedElements, getNodeHeight, getNodeWidth } from '../layoutEngine';
+import { type Node, type Edge } from '../../store';
+
+const group = (id: string, parentId?: string): Node => ({ id, type: 'group', position: { x: 0, y: 0 }, data: { label: id }, parentId });
+const node = (id: string, parentId?: string): Node => ({ id, position: { x: 0, y: 0 }, data: { label: id }, parentId });
+
+// Region > VPC > Cluster, with a node at every level and one outside
+const NODES: Node[] = [
+    group('region'), group('vpc', 'region'), group('cluster', 'vpc'),
+    node('dns', 'region'), node('lb', 'vpc'), node('api', 'cluster'), node('worker', 'cluster'), node('user'),
+];
+const EDGES: Edge[] = [
+    { id: 'e1', source: 'api', target: 'worker' },
+    { id: 'e2', source: 'lb', target: 'api' },
+    { id: 'e3', source: 'dns', target: 'lb' },
+];
+
+const size = (n: Node) => ({ width: getNodeWidth(n), height: getNodeHeight(n) });
+
+describe('layoutEngine', () => {
+    it('should lay out every level of nested groups, parents before children', () => {
+        const { nodes } = getLayoutedElements(NODES, EDGES);
+        const index = (id: string) => nodes.findIndex(n => n.id === id);
+
+        expect(nodes).toHaveLength(NODES.length);
+        nodes.filter(n => n.parentId).forEach(n => {
+            expect(index(n.parentId!), n.id).toBeLessThan(index(n.id));
+            expect(n.extent, n.id).toBe('parent');
+        });
+    });
+
+    it('should size each group to contain its children, including nested groups', () => {
+        const { nodes } = getLayoutedElements(NODES, EDGES);
+        const byId = new Map(nodes.map(n => [n.id, n]));
+
+        nodes.filter(n => n.parentId).forEach(child => {
+            const parent = byId.get(child.parentId!)!;
+            const { width, height } = size(child);
+            expect(child.position.x, child.id).toBeGreaterThanOrEqual(0);
+            expect(child.position.y, child.id).toBeGreaterThanOrEqual(0);
+            expect(child.position.x + width, child.id).toBeLessThanOrEqual(size(parent).width);
+            expect(child.position.y + height, child.id).toBeLessThanOrEqual(size(parent).height);
+        });
+        expect(size(byId.get('region')!).width).toBeGreaterThan(size(byId.get('vpc')!).width);
+    });
+
+    it('should follow the diagram direction for flat diagrams', () => {
+        const chain = [node('a'), node('b'), node('c')];
+        const links: Edge[] = [{ id: 'ab', source: 'a', target: 'b' }, { id: 'bc', source: 'b', target: 'c' }];
+        const at = (direction: 'TB' | 'BT' | 'LR' | 'RL') => {
+            const { nodes } = getLayoutedElements(chain, links, { direction });
+            return nodes.map(n => n.position);
+        };
+
+        const [lrA, lrB, lrC] = at('LR');
+        expect(lrA.x).toBeLessThan(lrB.x);
+        expect(lrB.x).toBeLessThan(lrC.x);
+        expect(lrA.y).toBe(lrC.y);
+        expect(at('RL')[0].x).toBeGreaterThan(at('RL')[2].x);
+        expect(at('BT')[0].y).toBeGreaterThan(at('BT')[2].y);
+        expect(getLayoutedElements(chain, links, { direction: 'LR' }).nodes[0]).toMatchObject({ sourcePosition: 'right', targetPosition: 'left' });
+        // A missing header direction falls back to top-to-bottom
+        expect(getLayoutedElements(chain, links, { direction: undefined }).nodes[0]).toMatchObject({ sourcePosition: 'bottom' });
+    });
+
+    it('should lay groups out along the flow and honour per-group direction', () => {
+        const pipeline: Node[] = [
+            { ...group('ingest'), data: { label: 'ingest', direction: 'TB' } }, group('serve'),
+            node('read', 'ingest'), node('parse', 'ingest'), node('cache', 'serve'), node('api', 'serve'),
+        ];
+        const links: Edge[] = [
+            { id: 'e1', source: 'read', target: 'parse' },
+            { id: 'e2', source: 'cache', target: 'api' },
+            { id: 'e3', source: 'parse', target: 'cache' },
+        ];
+        const byId = new Map(getLayoutedElements(pipeline, links, { direction: 'LR' }).nodes.map(n => [n.id, n]));
+        const pos = (id: string) => byId.get(id)!.position;
+
+        // Groups side by side on the same rank, ingest first
+        const middle = (id: string) => pos(id).y + size(byId.get(id)!).height / 2;
+        expect(middle('ingest')).toBe(middle('serve'));
+        expect(pos('ingest').x + size(byId.get('ingest')!).width).toBeLessThan(pos('serve').x);
+        // `direction TB` inside ingest, the diagram's LR inside serve
+        expect(pos('read').y).toBeLessThan(pos('parse').y);
+        expect(pos('read').x).toBe(pos('parse').x);
+        expect(pos('cache').x).toBeLessThan(pos('api').x);
+    });
+
+    it('should keep pinned nodes in place and place the others around them', () => {
+        const chain = [node('a'), node('b'), node('c')];
+        const links: Edge[] = [{ id: 'ab', source: 'a', target: 'b' }, { id: 'bc', source: 'b', target: 'c' }];
+        const fresh = getLayoutedElements(chain, links).nodes;
+        const pinned = { ...node('b'), position: { x: 500, y: 40 }, data: { label: 'b', pinned: true } };
+        const { nodes } = getLayoutedElements([chain[0], pinned, chain[2]], links);
+        const [a, b, c] = nodes;
+
+        expect(b.position).toEqual({ x: 500, y: 40 });
+        // Its neighbours keep their place relative to it
+        expect(a.position.x - b.position.x).toBe(fresh[0].position.x - fresh[1].position.x);
+        expect(c.position.y - b.position.y).toBe(fresh[2].position.y - fresh[1].position.y);
+        expect(a.position.y).toBeLessThan(b.position.y);
+    });
+
+    it('should slide new nodes off fixed ones and grow groups around kept children', () => {
+        const kept = { ...node('kept', 'box'), position: { x: 400, y: 300 } };
+        const { nodes } = getLayoutedElements(
+            [group('box'), kept, node('fresh', 'box'), node('other', 'box')],
+            [],
+            { fixedNodeIds: ['kept'] },
+        );
+        const byId = new Map(nodes.map(n => [n.id, n]));
+        const boxes = ['kept', 'fresh', 'other'].map(id => byId.get(id)!);
+
+        expect(byId.get('kept')!.position).toEqual({ x: 400, y: 300 });
+        boxes.forEach((one, i) => boxes.slice(i + 1).forEach(other => {
+            const apart = one.position.x + size(one).width <= other.position.x || other.position.x + size(other).width <= one.position.x
+                || one.position.y + size(one).height <= other.position.y || other.position.y + size(other).height <= one.position.y;
+            expect(apart, `${one.id}/${other.id}`).toBe(true);
+        }));
+        expect(size(byId.get('box')!).width).toBeGreaterThanOrEqual(400 + size(kept).width);
+        expect(size(byId.get('box')!).height).toBeGreaterThanOrEqual(300 + size(kept).height);
+    });
+
+    it('should rank groups and outside nodes as one graph of their own', () => {
+        // api fans out to two services that both use the data tier, with a client outside any group
+        const services: Node[] = [
+            group('api'), group('orders'), group('billing'), group('data'),
+            node('gateway', 'api'), node('ordersSvc', 'orders'), node('billingSvc', 'billing'), node('db', 'data'), node('client'),
+        ];
+        const links: Edge[] = [
+            { id: 'e1', source: 'client', target: 'gateway' },
+            { id: 'e2', source: 'gateway', target: 'ordersSvc' },
+            { id: 'e3', source: 'gateway', target: 'billingSvc' },
+            { id: 'e4', source: 'ordersSvc', target: 'db' },
+            { id: 'e5', source: 'billingSvc', target: 'db' },
+        ];
+        const byId = new Map(getLayoutedElements(services, links).nodes.map(n => [n.id, n]));
+        const pos = (id: string) => byId.get(id)!.position;
+
+        expect(pos('client').y).toBeLessThan(pos('api').y);
+        expect(pos('api').y).toBeLessThan(pos('orders').y);
+        // The two services share a rank instead of being stacked
+        expect(pos('orders').y).toBe(pos('billing').y);
+        expect(pos('orders').x).not.toBe(pos('billing').x);
+        expect(pos('billing').y).toBeLessThan(pos('data').y);
+    });
+
+    it('should pack unlinked groups in rows rather than one long line', () => {
+        const zones = ['a', 'b', 'c', 'd'].flatMap(id => [group(id), node(`${id}1`, id)]);
+        const groups = getLayoutedElements(zones, []).nodes.filter(n => n.type === 'group');
+
+        expect(new Set(groups.map(g => g.position.x)).size).toBe(2);
+        expect(new Set(groups.map(g => g.position.y)).size).toBe(2);
+    });
+
+    it('should spread ranks apart to fit edge labels', () => {
+        const gap = (label?: string) => {
+            const { nodes } = getLayoutedElements([node('a'), node('b')], [{ id: 'ab', source: 'a', target: 'b', label }]);
+            return nodes[1].position.y - nodes[0].position.y;
+        };
+        expect(gap('a rather long step description')).toBeGreaterThan(gap());
+    });
+
+    it('should keep edge labels off nodes and off each other', () => {
+        const { nodes, edges } = getLayoutedElements(
+            [node('hub'), node('a'), node('b'), node('c')],
+            [
+                { id: 'e1', source: 'hub', target: 'a', label: '1' },
+                { id: 'e2', source: 'hub', target: 'b', label: '2' },
+                { id: 'e3', source: 'hub', target: 'c', label: '3' },
+                { id: 'e4', source: 'hub', target: 'a', label: 'retry' },
+            ],
+        );
+        const byId = new Map(nodes.map(n => [n.id, n]));
+        // Labels are drawn centred between the bottom handle of the source and the top handle of the target
+        const labels = edges.map(edge => {
+            const source = byId.get(edge.source)!;
+            const target = byId.get(edge.target)!;
+            const offset = edge.data!.labelOffset as { x: number; y: number };
+            const { width, height } = estimateEdgeLabelSize(edge.label as string);
+            const x = (source.position.x + size(source).width / 2 + target.position.x + size(target).width / 2) / 2 + offset.x;
+            const y = (source.position.y + size(source).height + target.position.y) / 2 + offset.y;
+            return { id: edge.id, left: x - width / 2, top: y - height / 2, right: x + width / 2, bottom: y + height / 2 };
+        });
+        const boxes = [
+            ...nodes.map(n => ({ id: n.id, left: n.position.x, top: n.position.y, right: n.position.x + size(n).width, bottom: n.position.y + size(n).height })),
+            ...labels,
+        ];
+        const overlaps = (a: typeof boxes[number], b: typeof boxes[number]) =>
+            a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+
+        labels.forEach(label => boxes.filter(box => box.id !== label.id).forEach(box => {
+            expect(overlaps(label, box), `${label.id}/${box.id}`).toBe(false);
+        }));
+    });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { exportToMermaid } from '../mermaidExporter';
+import { parseMermaid, type ParsedDiagram } from '../mermaidParser';
+import { type Node, type Edge } from '../../store';
+import type { EdgeMarker, EdgeStroke, FlowDirection } from '../../types';
+
+// Runs against the real Mermaid parser: the round trip is only meaningful through it
+
+const SHAPES = ['square', 'round', 'stadium', 'subroutine', 'cylinder', 'circle', 'doublecircle', 'diamond',
+    'hexagon', 'odd', 'lean_right', 'lean_left', 'trapezoid', 'inv_trapezoid', 'ellipse',
+    // v11 named shapes, written as `@{ shape: ... }`
+    'rect', 'cyl', 'lin-doc', 'docs', 'bolt', 'tri', 'text', 'brace-r', 'h-cyl', 'notch-pent'];
+const TYPES = ['default', 'server', 'client', 'database', 'decision', 'start', 'end', 'ai', 'team', 'custom-shape'];
+const CATEGORIES = ['filter-other', 'filter-server', 'filter-client', 'filter-db'];
+const LABELS = ['API Gateway', 'Auth "v2"', 'a < b', 'Queue > Worker', 'R&D', 'Cache|Hot', 'Ünïcode ✓', 'Orders DB', 'end of line'];
+const DIRECTIONS: FlowDirection[] = ['TB', 'BT', 'LR', 'RL'];
+const STROKES: EdgeStroke[] = ['normal', 'thick', 'dotted', 'invisible'];
+// Marker pairs Mermaid can express: no start marker, or one mirroring the end
+const MARKERS: [EdgeMarker, EdgeMarker][] = [
+    ['none', 'none'], ['none', 'arrow'], ['none', 'circle'], ['none', 'cross'],
+    ['arrow', 'arrow'], ['circle', 'circle'], ['cross', 'cross'],
+];
+
+// Small seeded PRNG (mulberry32) so failing cases can be replayed by seed
+function createRandom(seed: number) {
+    let state = seed;
+    const next = () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    const int = (max: number) => Math.floor(next() * max);
+    return { chance: (p: number) => next() < p, int, pick: <T,>(items: T[]) => items[int(items.length)] };
+}
+
+function generateDiagram(seed: number): { nodes: Node[]; edges: Edge[]; direction: FlowDirection } {
+    const random = createRandom(seed);
+    // A group may sit inside the one before it, so the list is already parents-first, depth-first
+    const groups: Node[] = Array.from({ length: random.int(4) }, (_, i) => ({
+        id: `g${i}`,
+        type: 'group',
+        parentId: i > 0 && random.chance(0.5) ? `g${i - 1}` : undefined,
+        position: { x: 0, y: 0 },
+        data: {
+            label: random.pick(LABELS),
+            color: random.pick(['#fef3c7', '#dbeafe', '#dcfce7']),
+            category: random.pick(CATEGORIES),
+            direction: random.chance(0.5) ? random.pick(DIRECTIONS) : undefined,
+        },
+        style: {},
+    }));
+
+    const nodes: Node[] = Array.from({ length: 2 + random.int(7) }, (_, i) => {
+        const parent = groups.length && random.chance(0.5) ? random.pick(groups).id : undefined;
+        const styled = random.chance(0.3);
+        return {
+            id: `n${i}`,
+            type: random.pick(TYPES),
+            position: { x: 0, y: 0 },
+            data: {
+                label: random.pick(LABELS),
+                category: random.pick(CATEGORIES),
+                shape: random.pick(SHAPES),
+                metadata: random.chance(0.4)
+                    ? { techStack: ['Go', 'Redis'], role: 'Caches "hot" keys', description: `Node ${i}` }
+                    : undefined,
+                style: styled ? { background: '#fee2e2', borderColor: '#dc2626', borderWidth: '3px' } : undefined,
+                classes: styled && random.chance(0.5) ? ['hot'] : undefined,
+            },
+            parentId: parent,
+            extent: parent ? 'parent' : undefined,
+        };
+    });
+
+    const edges: Edge[] = Array.from({ length: random.int(8) }, (_, i) => {
+        const stroke = random.pick(STROKES);
+        // `~~~` has no arrowheads
+        const [startMarker, endMarker] = stroke === 'invisible' ? MARKERS[0] : random.pick(MARKERS);
+        return {
+            id: `e${i}`,
+            source: random.pick(nodes).id,
+            target: random.pick(nodes).id,
+            label: stroke !== 'invisible' && random.chance(0.4) ? random.pick(LABELS) : undefined,
+            style: random.chance(0.2) ? { strokeOpacity: 0.5, stroke: '#16a34a', strokeDasharray: '5,5' } : { strokeOpacity: 0.5 },
+            data: { stroke, startMarker, endMarker, length: stroke === 'invisible' ? 1 : 1 + random.int(3) },
+        };
+    });
+
+    return { nodes: [...groups, ...nodes], edges, direction: random.pick(DIRECTIONS) };
+}
+
+// Raw style provenance is rewritten as inline `style`/`linkStyle` statements, the resolved CSS is what must match
+function normalize({ nodes, edges, direction }: ParsedDiagram) {
+    return {
+        direction,
+        nodes: nodes.map(node => ({ ...node, data: { ...node.data, inlineStyle: undefined } })),
+        edges: edges.map(edge => ({ ...edge, data: { ...edge.data, linkStyle: undefined } })),
+    };
+}
+
+describe('mermaidExporter', () => {
+    it('should write direction, shapes, subgraphs and link tokens', () => {
+        const nodes: Node[] = [
+            { id: 'G', type: 'group', position: { x: 0, y: 0 }, data: { label: 'Backend', direction: 'LR' } },
+            { id: 'A', type: 'server', position: { x: 0, y: 0 }, data: { label: 'API', shape: 'hexagon' }, parentId: 'G' },
+            { id: 'B', type: 'database', position: { x: 0, y: 0 }, data: { label: 'Say "hi"' } },
+        ];
+        const edges: Edge[] = [{ id: 'e0', source: 'A', target: 'B', label: 'reads', data: { stroke: 'dotted', endMarker: 'circle' } }];
+
+        const code = exportToMermaid(nodes, edges, { direction: 'LR' });
+
+        expect(code).toMatch(/^flowchart LR\n/);
+        expect(code).toContain('A{{"API"}}');
+        expect(code).toContain('B[("Say #quot;hi#quot;")]');
+        expect(code).toContain('subgraph G["Backend"]\n        direction LR\n        A\n    end');
+        expect(code).toContain('A -.-o|"reads"| B');
+        expect(code).toContain('%% {"id":"A","type":"server"}');
+    });
+
+    it('should write catalogue shapes in the v11 syntax', () => {
+        const nodes: Node[] = [
+            { id: 'D', type: 'custom-shape', position: { x: 0, y: 0 }, data: { label: 'Q3 "final"', shape: 'lin-doc' } },
+            { id: 'S', type: 'custom-shape', position: { x: 0, y: 0 }, data: { label: 'Disk', shape: 'disk' } },
+        ];
+
+        const code = exportToMermaid(nodes, []);
+
+        expect(code).toContain('D@{ shape: lin-doc, label: "Q3 #quot;final#quot;" }');
+        expect(code).toContain('S@{ shape: lin-cyl, label: "Disk" }');
+    });
+
+    it('should keep types, categories and metadata through parse', async () => {
+        const nodes: Node[] = [{
+            id: 'W',
+            type: 'ai',
+            position: { x: 0, y: 0 },
+            data: { label: 'Database writer', category: 'filter-server', metadata: { techStack: ['Go'], role: 'writer', description: '' } },
+        }];
+
+        const { nodes: parsed } = await parseMermaid(exportToMermaid(nodes, []));
+
+        expect(parsed[0]).toMatchObject({ id: 'W', type: 'ai', data: { label: 'Database writer', category: 'filter-server' } });
+        expect(parsed[0].data.metadata).toEqual(nodes[0].data.metadata);
+    });
+
+    it('should round-trip a generated corpus through parse -> export -> parse', async () => {
+        for (let seed = 1; seed <= 40; seed++) {
+            const generated = generateDiagram(seed);
+            const code = exportToMermaid(generated.nodes, generated.edges, { direction: generated.direction });
+            const first = await parseMermaid(code);
+
+            // Everything the generator set survives the first import
+            expect(first.direction, `seed ${seed}`).toBe(generated.direction);
+            expect(first.nodes.map(n => [n.id, n.type, n.parentId, n.data.label, n.data.category, n.data.shape ?? null]), `seed ${seed}`)
+                .toEqual(generated.nodes.map(n => [n.id, n.type, n.parentId, n.data.label, n.data.category, n.data.shape ?? null]));
+            expect(first.nodes.map(n => [n.data.metadata, n.data.style, n.data.classes, n.data.color, n.data.direction]), `seed ${seed}`)
+                .toEqual(generated.nodes.map(n => [n.data.metadata, n.data.style, n.data.classes, n.data.color, n.data.direction]));
+            expect(first.edges.map(e => [e.source, e.target, e.label, e.data?.stroke, e.data?.startMarker, e.data?.endMarker, e.data?.length, e.style]), `seed ${seed}`)
+                .toEqual(generated.edges.map(e => [e.source, e.target, e.label, e.data?.stroke, e.data?.startMarker, e.data?.endMarker, e.data?.length, e.style]));
+
+            // Re-exporting is a fixed point, and a second import matches the first
+            const again = exportToMermaid(first.nodes, first.edges, { direction: first.direction });
+            expect(again, `seed ${seed}`).toBe(code);
+            expect(normalize(await parseMermaid(again)), `seed ${seed}`).toEqual(normalize(first));
+        }
+    });
+});
@@ -26,12 +26,40 @@ vi.mock('mermaid', () => {
                         // Edge from A outside to B outside
                         edges.push({ start: 'A', end: 'B', text: undefined });
                     }
+                    // Mermaid lists nested subgraphs innermost first, parents name children by id
+                    if (text.includes('Region')) {
+                        subgraphs.push({ id: 'C', title: 'Cluster', nodes: ['S2', 'S1'] });
+                        subgraphs.push({ id: 'V', title: 'VPC', nodes: ['C', 'LB'] });
+                        subgraphs.push({ id: 'R', title: 'Region', nodes: ['V', 'DNS'] });
+                        ['S1', 'S2', 'LB', 'DNS'].forEach(id => { vertices[id] = { id, text: id, type: 'square' }; });
+                        edges.push({ start: 'S1', end: 'S2', text: undefined, stroke: 'normal' });
+                    }
+                    // `@{ shape: ... }` vertices report the shape name exactly as written
+                    if (text.includes('@{')) {
+                        vertices['R'] = { id: 'R', text: 'Report', type: 'lined-document' };
+                        vertices['S'] = { id: 'S', text: 'Store', type: 'db' };
+                    }
                     if (text.includes('Database')) {
                         vertices['DB'] = { id: 'DB', text: 'Database', type: 'cylinder' };
                         vertices['S'] = { id: 'S', text: 'Server', type: 'round' };
                         vertices['C'] = { id: 'C', text: 'Client App', type: 'round' };
                     }
 
+                    if (text.includes('Thick')) {
+                        vertices['T'] = { id: 'T', text: 'Thick', type: 'square' };
+                        vertices['U'] = { id: 'U', text: 'Other', type: 'square' };
+                        edges.push({ start: 'T', end: 'U', text: undefined, stroke: 'thick', type: 'double_arrow_circle', length: 2 });
+                    }
+
+                    // Mermaid 11 hands vertices back as a Map
+                    if (text.includes('Styled')) {
+                        const map = new Map();
+                        map.set('A', { id: 'A', text: 'Styled', type: 'square' });
+                        map.set('Z', { id: 'Z', text: 'Sink', type: 'square' });
+                        edges.push({ start: 'A', end: 'Z', text: undefined, stroke: 'normal' });
+                        return { db: { getVertices: () => map, getEdges: () => edges, getSubGraphs: () => [] } };
+                    }
+
                     return {
                         db: {
                             getVertices: () => vertices,
@@ -80,6 +108,38 @@ describe('mermaidParser', () => {
         }
     });
 
+    it('should nest subgraphs inside their parent subgraph, parents first', async () => {
+        const code = `
+        flowchart TD
+            subgraph R [Region]
+                subgraph V [VPC]
+                    subgraph C [Cluster]
+                        S1 --> S2
+                    end
+                    LB
+                end
+                DNS
+            end
+        `;
+        const { nodes } = await parseMermaid(code);
+        const parentOf = (id: string) => nodes.find(n => n.id === id)?.parentId;
+
+        expect(nodes.filter(n => n.type === 'group').map(n => n.id)).toEqual(['R', 'V', 'C']);
+        expect([parentOf('R'), parentOf('V'), parentOf('C')]).toEqual([undefined, 'R', 'V']);
+        expect([parentOf('S1'), parentOf('LB'), parentOf('DNS')]).toEqual(['C', 'V', 'R']);
+        expect(nodes.find(n => n.id === 'V')?.extent).toBe('parent');
+    });
+
+    it('should resolve v11 named shapes to custom shape nodes', async () => {
+        const code = `
+        flowchart TD
+            R@{ shape: lined-document, label: "Report" } --> S@{ shape: db, label: "Store" }
+        `;
+        const { nodes } = await parseMermaid(code);
+
+        expect(nodes.map(n => [n.id, n.type, n.data.shape])).toEqual([['R', 'custom-shape', 'lin-doc'], ['S', 'custom-shape', 'cyl']]);
+    });
+
     it('should infer node types from labels', async () => {
         const code = `
         flowchart TD
@@ -97,6 +157,78 @@ describe('mermaidParser', () => {
         expect(serverNode?.type).toBe('server');
     });
 
+    it('should route sequence diagrams to the sequence parser', async () => {
+        const code = `
+        sequenceDiagram
+            Client->>Server: request
+            Server-->>Client: response
+        `;
+        const { nodes, edges } = await parseMermaid(code);
+
+        expect(nodes.map(n => n.type)).toEqual(['lifeline', 'lifeline']);
+        expect(edges.map(e => e.type)).toEqual(['message', 'message']);
+    });
+
+    it('should route class diagrams to the class parser', async () => {
+        const code = `
+        classDiagram
+            Animal <|-- Dog
+        `;
+        const { nodes, edges } = await parseMermaid(code);
+
+        expect(nodes.map(n => n.type)).toEqual(['umlClass', 'umlClass']);
+        expect(edges[0].data).toMatchObject({ startMarker: 'triangle', relation: 'inheritance' });
+    });
+
+    it('should route state diagrams to the state parser', async () => {
+        const code = `
+        stateDiagram-v2
+            [*] --> Idle
+            Idle --> [*]
+        `;
+        const { nodes } = await parseMermaid(code);
+
+        expect(nodes.map(n => n.type)).toEqual(['start', 'process', 'end']);
+    });
+
+    it('should route ER diagrams to the ER parser', async () => {
+        const code = `
+        erDiagram
+            CUSTOMER ||--o{ ORDER : places
+        `;
+        const { nodes, edges } = await parseMermaid(code);
+
+        expect(nodes.map(n => n.type)).toEqual(['erEntity', 'erEntity']);
+        expect(edges[0].data).toMatchObject({ startMarker: 'exactly-one', endMarker: 'zero-or-many' });
+    });
+
+    it('should keep classDef, style and linkStyle directives', async () => {
+        const code = `
+        flowchart TD
+            A[Styled]:::warn --> Z[Sink]
+            classDef warn fill:#fef3c7,stroke:#d97706
+            style Z color:#1e293b
+            linkStyle 0 stroke:#d97706
+        `;
+        const { nodes, edges } = await parseMermaid(code);
+
+        expect(nodes.map(n => n.id)).toEqual(['A', 'Z']);
+        expect(nodes[0].data.style).toEqual({ background: '#fef3c7', borderColor: '#d97706' });
+        expect(nodes[1].data.style).toEqual({ color: '#1e293b' });
+        expect(edges[0].style?.stroke).toBe('#d97706');
+    });
+
+    it('should carry link stroke and arrowheads on edge data', async () => {
+        const code = `
+        flowchart TD
+            T[Thick] o===o U[Other]
+        `;
+        const { edges } = await parseMermaid(code);
+
+        expect(edges[0].data).toMatchObject({ stroke: 'thick', startMarker: 'circle', endMarker: 'circle', length: 2 });
+        expect(edges[0].animated).toBe(false);
+    });
+
     it('should handle empty or invalid input securely', async () => {
         const { nodes, edges } = await parseMermaid('');
         expect(nodes).toEqual([]);
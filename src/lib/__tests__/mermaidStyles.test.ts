@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { extractStyleDirectives, parseInitDirective, toNodeCss, toEdgeCss, applyStyleDirectives } from '../mermaidStyles';
+import { type Node, type Edge } from '../../store';
+
+const STYLED = `%%{init: {'theme': 'base', 'themeVariables': {'primaryColor': '#e0f2fe', 'lineColor': '#0ea5e9'}}}%%
+flowchart LR
+    A[API]:::hot --> B[(DB)]
+    B --> C
+    classDef hot fill:#fee2e2,stroke:#dc2626,stroke-width:3px
+    classDef cold fill:#dbeafe
+    class B,C cold
+    style C fill:#fef9c3,color:#713f12
+    linkStyle 1 stroke:#16a34a,stroke-width:4px,stroke-dasharray: 5 5`;
+
+const node = (id: string, type = 'default'): Node => ({ id, type, position: { x: 0, y: 0 }, data: { label: id } });
+const edge = (source: string, target: string): Edge => ({ id: `${source}-${target}`, source, target, style: { strokeWidth: 2 } });
+
+describe('mermaidStyles', () => {
+    it('should collect classDef, class, style, ::: and linkStyle statements', () => {
+        const directives = extractStyleDirectives(STYLED);
+
+        expect(directives.classDefs.get('hot')).toEqual(['fill:#fee2e2', 'stroke:#dc2626', 'stroke-width:3px']);
+        expect(directives.nodeClasses.get('A')).toEqual(['hot']);
+        expect(directives.nodeClasses.get('B')).toEqual(['cold']);
+        expect(directives.nodeStyles.get('C')).toEqual(['fill:#fef9c3', 'color:#713f12']);
+        expect(directives.linkStyles.get(1)).toEqual(['stroke:#16a34a', 'stroke-width:4px', 'stroke-dasharray: 5 5']);
+    });
+
+    it('should read single-quoted init directives', () => {
+        expect(parseInitDirective(STYLED)).toEqual({
+            theme: 'base',
+            themeVariables: { primaryColor: '#e0f2fe', lineColor: '#0ea5e9' },
+        });
+        expect(parseInitDirective('flowchart TD')).toBeNull();
+    });
+
+    it('should translate declarations to CSS', () => {
+        expect(toNodeCss(['fill:#fff', 'stroke:#000', 'stroke-width:2', 'stroke-dasharray:3 3', 'color:red'])).toEqual({
+            background: '#fff',
+            borderColor: '#000',
+            borderWidth: '2px',
+            borderStyle: 'dashed',
+            color: 'red',
+        });
+        expect(toEdgeCss(['stroke:#f00', 'stroke-width:4px', 'stroke-dasharray: 5 5', 'fill:none'])).toEqual({
+            stroke: '#f00',
+            strokeWidth: 4,
+            strokeDasharray: '5,5',
+        });
+    });
+
+    it('should layer theme, classDef and inline styles onto nodes and edges', () => {
+        const { nodes, edges } = applyStyleDirectives(STYLED, {
+            nodes: [node('A'), node('B'), node('C'), node('G', 'group')],
+            edges: [edge('A', 'B'), edge('B', 'C')],
+        });
+        const [a, b, c, g] = nodes;
+
+        expect(a.data.style).toMatchObject({ background: '#fee2e2', borderColor: '#dc2626', borderWidth: '3px' });
+        expect(a.data.classes).toEqual(['hot']);
+        expect(b.data.style).toEqual({ background: '#dbeafe' });
+        expect(c.data.style).toEqual({ background: '#fef9c3', color: '#713f12' });
+        expect(c.data.inlineStyle).toEqual(['fill:#fef9c3', 'color:#713f12']);
+        expect(g.data.style).toBeUndefined();
+
+        expect(edges[0].style).toEqual({ strokeWidth: 2, stroke: '#0ea5e9' });
+        expect(edges[1].style).toEqual({ strokeWidth: 4, stroke: '#16a34a', strokeDasharray: '5,5' });
+        expect(edges[1].data?.linkStyle).toHaveLength(3);
+    });
+});
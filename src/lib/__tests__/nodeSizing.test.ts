@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { estimateLabelNodeSize, measureText, wrapText } from '../nodeSizing';
+import { getNodeHeight, getNodeWidth } from '../layoutEngine';
+import { type Node } from '../../store';
+
+const node = (label: string, type?: string, extra: Partial<Node> = {}): Node => ({ id: label, type, position: { x: 0, y: 0 }, data: { label }, ...extra });
+
+const BOLD_13 = { size: 13, weight: 700 };
+
+describe('nodeSizing', () => {
+    it('should measure text by length, letter spacing and case', () => {
+        expect(measureText('Gateway service', BOLD_13)).toBeGreaterThan(measureText('Gateway', BOLD_13));
+        expect(measureText('api', { ...BOLD_13, letterSpacing: 0.1 })).toBeCloseTo(measureText('api', BOLD_13) + 3 * 1.3);
+        expect(measureText('end', { ...BOLD_13, uppercase: true })).toBe(measureText('END', BOLD_13));
+    });
+
+    it('should wrap at spaces and let a long word overflow', () => {
+        const lines = wrapText('one two three four five six seven', BOLD_13, measureText('one two three', BOLD_13));
+        expect(lines).toEqual(['one two three', 'four five six', 'seven']);
+        expect(wrapText('Supercalifragilistic', BOLD_13, 20)).toEqual(['Supercalifragilistic']);
+        expect(wrapText('', BOLD_13)).toEqual(['']);
+    });
+
+    it('should keep short labels at the minimum width and wrap long ones onto more lines', () => {
+        const short = estimateLabelNodeSize(node('API'));
+        const long = estimateLabelNodeSize(node('Validate the incoming request against the account quota and rate limits'));
+
+        expect(short.width).toBe(160);
+        expect(long.width).toBe(240);
+        expect(long.height).toBeGreaterThan(short.height * 2);
+    });
+
+    it('should size each node type with its own typography', () => {
+        const label = 'Orders';
+        expect(estimateLabelNodeSize(node(label, 'start')).height).toBeLessThan(estimateLabelNodeSize(node(label)).height);
+        expect(estimateLabelNodeSize(node(label, 'database')).height).toBeGreaterThan(estimateLabelNodeSize(node(label)).height);
+        expect(estimateLabelNodeSize(node(label, 'custom-shape'))).toEqual({ width: 128, height: 80 });
+        // Unknown types render as the standard node
+        expect(estimateLabelNodeSize(node(label, 'unknown'))).toEqual(estimateLabelNodeSize(node(label)));
+        // Terminal labels do not wrap
+        expect(estimateLabelNodeSize(node('A very long terminal label indeed', 'end')).width).toBeGreaterThan(240);
+    });
+
+    it('should prefer a fixed style size, then the measured size, to the estimate', () => {
+        const measured = node('API', undefined, { measured: { width: 210, height: 70 } });
+        expect([getNodeWidth(measured), getNodeHeight(measured)]).toEqual([210, 70]);
+
+        const fixed = node('API', undefined, { measured: { width: 210, height: 70 }, style: { width: 300, height: 120 } });
+        expect([getNodeWidth(fixed), getNodeHeight(fixed)]).toEqual([300, 120]);
+
+        const estimated = estimateLabelNodeSize(node('API'));
+        expect([getNodeWidth(node('API')), getNodeHeight(node('API'))]).toEqual([estimated.width, estimated.height]);
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { PAGE_SIZES, planPages, renderDiagramPdf } from '../pdfExport';
+import { encodeWinAnsi, measurePdfText, parsePath } from '../pdfWriter';
+import { type Node, type Edge } from '../../store';
+
+const node = (id: string, x: number, y: number): Node =>
+    ({ id, position: { x, y }, data: { label: id }, measured: { width: 180, height: 60 } });
+
+// PDF bytes as a string, one character per byte
+const text = (bytes: Uint8Array) => Array.from(bytes, b => String.fromCharCode(b)).join('');
+
+describe('pdfWriter', () => {
+    it('should turn relative, shorthand and arc path commands into absolute lines and curves', () => {
+        expect(parsePath('M0 4 h100 v60 h-100 z')).toEqual([
+            { type: 'M', x: 0, y: 4 }, { type: 'L', x: 100, y: 4 }, { type: 'L', x: 100, y: 64 }, { type: 'L', x: 0, y: 64 }, { type: 'Z' },
+        ]);
+        const quadratic = parsePath('M 0 0 Q 10 0 10 10');
+        expect(quadratic[1]).toMatchObject({ type: 'C', x: 10, y: 10 });
+
+        // A half circle becomes two quarter curves ending on the arc
+        const arc = parsePath('M 0 10 a10 10 0 0 1 20 0');
+        expect(arc.filter(s => s.type === 'C')).toHaveLength(2);
+        expect(arc[1]).toMatchObject({ x: expect.closeTo(10, 6), y: expect.closeTo(0, 6) });
+        expect(arc[2]).toMatchObject({ x: 20, y: 10 });
+    });
+
+    it('should encode text for the standard fonts and measure it with their metrics', () => {
+        expect(encodeWinAnsi('«Café» – 日本')).toBe('«Café» \x96 ??');
+        expect(measurePdfText('Hi', 'Helvetica', 10)).toBeCloseTo(9.44, 5);
+        expect(measurePdfText('mono', 'Courier', 10)).toBe(24);
+    });
+});
+
+describe('pdfExport', () => {
+    it('should fit a small diagram on one page, turned to suit its shape', () => {
+        const wide = planPages(1000, 300, { pageSize: 'A4' });
+        expect(wide.width).toBe(PAGE_SIZES.A4.height);
+        expect(wide.columns * wide.rows).toBe(1);
+        expect(wide.scale).toBeLessThanOrEqual(0.75);
+
+        const tall = planPages(300, 1000, { pageSize: 'A4', orientation: 'auto' });
+        expect(tall.width).toBe(PAGE_SIZES.A4.width);
+        // A tiny diagram prints at its on-screen size rather than blown up
+        expect(planPages(100, 100).scale).toBe(0.75);
+    });
+
+    it('should tile a diagram that would print too small on one page', () => {
+        const layout = planPages(6000, 2000, { pageSize: 'A4', orientation: 'landscape', minScale: 0.5 });
+
+        expect(layout.scale).toBe(0.375);
+        expect(layout.columns).toBe(Math.ceil((6000 * 0.375) / layout.area.width));
+        expect(layout.rows).toBe(Math.ceil((2000 * 0.375) / layout.area.height));
+        expect(layout.columns * layout.rows).toBeGreaterThan(1);
+    });
+
+    it('should write a vector PDF with a title block on every page and a valid cross-reference table', () => {
+        const nodes = [node('Gateway', 0, 0), node('Orders (v2)', 0, 200)];
+        const edges: Edge[] = [{ id: 'e1', source: 'Gateway', target: 'Orders (v2)', label: 'REST' }];
+        const pdf = text(renderDiagramPdf(nodes, edges, { title: 'Checkout', author: 'Platform team', date: new Date('2024-05-01T12:00:00Z') }));
+
+        expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+        expect(pdf).toContain('/Count 1');
+        expect(pdf).toContain('(Checkout) Tj');
+        expect(pdf).toContain('(Platform team  \xb7  2024-05-01) Tj');
+        expect(pdf).toContain('(Page 1 of 1) Tj');
+        // Labels are real text and shapes are paths, not an image
+        expect(pdf).toContain('(Orders \\(v2\\)) Tj');
+        expect(pdf).toContain('(REST) Tj');
+        expect(pdf).not.toContain('/Image');
+
+        const xref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+        expect(pdf.slice(xref, xref + 4)).toBe('xref');
+        const offsets = [...pdf.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+        offsets.forEach((offset, i) => expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+    });
+
+    it('should number tiled pages', () => {
+        const nodes = Array.from({ length: 12 }, (_, i) => node(`n${i}`, i * 600, 0));
+        const pdf = text(renderDiagramPdf(nodes, [], { pageSize: 'A4', orientation: 'portrait' }));
+        const count = Number(pdf.match(/\/Count (\d+)/)![1]);
+
+        expect(count).toBeGreaterThan(1);
+        expect(pdf).toContain(`(Page ${count} of ${count}  \xb7  row 1, column ${count}) Tj`);
+    });
+});
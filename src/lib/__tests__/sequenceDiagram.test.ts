@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { parseSequenceDiagram, SEQUENCE_LAYOUT } from '../sequenceDiagram';
+import { getLayoutedElements } from '../layoutEngine';
+
+const CHECKOUT = `sequenceDiagram
+    autonumber
+    actor U as User
+    participant API as Checkout API
+    participant DB
+    U->>+API: POST /checkout
+    loop Retry up to 3 times
+        API->>DB: reserve stock
+        alt in stock
+            DB-->>API: ok
+        else out of stock
+            DB--xAPI: conflict
+        end
+    end
+    Note over API,DB: transaction boundary
+    API-->>-U: 201 Created`;
+
+describe('sequenceDiagram', () => {
+    it('should create a lifeline per participant in declaration order', () => {
+        const { nodes } = parseSequenceDiagram(CHECKOUT);
+        const lifelines = nodes.filter(n => n.type === 'lifeline');
+
+        expect(lifelines.map(n => n.id)).toEqual(['U', 'API', 'DB']);
+        expect(lifelines[0].data.participantKind).toBe('actor');
+        expect(lifelines[1].data.label).toBe('Checkout API');
+        expect(lifelines.map(n => n.data.column)).toEqual([0, 1, 2]);
+    });
+
+    it('should parse messages as ordered message edges', () => {
+        const { edges } = parseSequenceDiagram(CHECKOUT);
+
+        expect(edges).toHaveLength(5);
+        expect(edges.every(e => e.type === 'message')).toBe(true);
+
+        const rows = edges.map(e => e.data?.row as number);
+        expect([...rows].sort((a, b) => a - b)).toEqual(rows);
+
+        expect(edges[0]).toMatchObject({ source: 'U', target: 'API', label: 'POST /checkout' });
+        expect(edges[0].data).toMatchObject({ lineStyle: 'solid', head: 'arrow', sequenceNumber: 1 });
+        expect(edges[2].data).toMatchObject({ lineStyle: 'dotted', head: 'arrow' });
+        expect(edges[3].data).toMatchObject({ lineStyle: 'dotted', head: 'cross' });
+    });
+
+    it('should record activations from +/- shorthand', () => {
+        const { nodes, edges } = parseSequenceDiagram(CHECKOUT);
+        const api = nodes.find(n => n.id === 'API')!;
+        const activations = api.data.activations as { start: number; end: number }[];
+
+        expect(activations).toHaveLength(1);
+        expect(activations[0].start).toBe(edges[0].data?.row);
+        expect(activations[0].end).toBe(edges[4].data?.row);
+    });
+
+    it('should capture nested fragments and their sections', () => {
+        const { nodes } = parseSequenceDiagram(CHECKOUT);
+        const fragments = nodes.filter(n => n.type === 'fragment');
+
+        expect(fragments).toHaveLength(2);
+        const [loop, alt] = fragments;
+        expect(loop.data).toMatchObject({ fragmentKind: 'loop', label: 'Retry up to 3 times', depth: 0 });
+        expect(alt.data).toMatchObject({ fragmentKind: 'alt', label: 'in stock', depth: 1 });
+        expect(alt.data.sections).toEqual([{ label: 'out of stock', row: expect.any(Number) }]);
+        expect(alt.data.participants).toEqual(expect.arrayContaining(['API', 'DB']));
+        expect(loop.data.endRow as number).toBeGreaterThanOrEqual(alt.data.endRow as number);
+    });
+
+    it('should parse notes spanning several participants', () => {
+        const { nodes } = parseSequenceDiagram(CHECKOUT);
+        const note = nodes.find(n => n.type === 'sequenceNote');
+
+        expect(note?.data).toMatchObject({
+            label: 'transaction boundary',
+            placement: 'over',
+            participants: ['API', 'DB'],
+        });
+    });
+
+    it('should create implicit participants from messages', () => {
+        const { nodes, edges } = parseSequenceDiagram('sequenceDiagram\n    A->>B: hello\n    B->>B: think\n    B-)C: fire and forget');
+
+        expect(nodes.filter(n => n.type === 'lifeline').map(n => n.id)).toEqual(['A', 'B', 'C']);
+        expect(edges[1]).toMatchObject({ source: 'B', target: 'B' });
+        expect(edges[2].data).toMatchObject({ head: 'async' });
+    });
+
+    it('should lay lifelines out in columns on a shared baseline', () => {
+        const parsed = parseSequenceDiagram(CHECKOUT);
+        const { nodes } = getLayoutedElements(parsed.nodes, parsed.edges);
+        const lifelines = nodes.filter(n => n.type === 'lifeline');
+
+        expect(new Set(lifelines.map(n => n.position.y)).size).toBe(1);
+        expect(lifelines[1].position.x - lifelines[0].position.x).toBe(
+            SEQUENCE_LAYOUT.participantWidth + SEQUENCE_LAYOUT.participantGap
+        );
+
+        const [loop, alt] = nodes.filter(n => n.type === 'fragment');
+        expect(alt.position.y).toBeGreaterThan(loop.position.y);
+        expect(alt.position.x).toBeGreaterThan(loop.position.x);
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { SHAPE_DEFINITIONS, SHAPE_PATHS, resolveShapeName, isNamedShape, parseShapeData, toShapeData } from '../shapes';
+
+describe('shapes', () => {
+    it('should cover every Mermaid v11 shape with a path', () => {
+        expect(SHAPE_DEFINITIONS).toHaveLength(47);
+        SHAPE_DEFINITIONS.forEach(def => expect(SHAPE_PATHS[def.id], def.id).toBe(def.path));
+        expect(new Set(SHAPE_DEFINITIONS.map(def => def.id)).size).toBe(SHAPE_DEFINITIONS.length);
+    });
+
+    it('should resolve aliases, classic vertex types and legacy names', () => {
+        expect(resolveShapeName('db')).toBe('cyl');
+        expect(resolveShapeName('Lined-Document')).toBe('lin-doc');
+        expect(resolveShapeName('cylinder')).toBe('cyl');
+        expect(resolveShapeName('inv_trapezoid')).toBe('trap-t');
+        expect(resolveShapeName('rhombus')).toBe('diam');
+        expect(resolveShapeName('nonsense')).toBeUndefined();
+    });
+
+    it('should only treat shapes without bracket syntax as named', () => {
+        expect(isNamedShape('docs')).toBe(true);
+        expect(isNamedShape('rect')).toBe(true);
+        expect(isNamedShape('square')).toBe(false);
+        expect(isNamedShape('circle')).toBe(false);
+        expect(isNamedShape('nonsense')).toBe(false);
+    });
+
+    it('should read and write @{ ... } shape blocks', () => {
+        expect(parseShapeData('@{ shape: doc, label: "Q3, final" }')).toEqual({ shape: 'doc', label: 'Q3, final' });
+        expect(parseShapeData('{shape:tri}')).toEqual({ shape: 'tri' });
+        expect(toShapeData('tri', 'Extract')).toBe('@{ shape: tri, label: "Extract" }');
+        expect(toShapeData('tri')).toBe('@{ shape: tri }');
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { findElementAt, findElementSpans, mapSourceElements } from '../sourceMap';
+import { findSourceLinks } from '../codeSync';
+
+const SOURCE = `flowchart LR
+    A[Client] --> B{Auth?} -->|yes| C[(Orders DB)]
+    B -.-> D
+    subgraph S [Services]
+        D
+    end
+    style D fill:#fee2e2
+    class C,D hot`;
+
+describe('sourceMap', () => {
+    it('records spans for nodes, links and subgraphs', () => {
+        const elements = mapSourceElements(SOURCE);
+        const summary = elements.map(el => `${el.kind}:${el.id}${el.declaration ? '*' : ''}@${el.startLine}:${el.startColumn}-${el.endColumn}`);
+
+        expect(summary).toEqual([
+            'node:A*@2:5-14', 'edge:0*@2:5-20', 'node:B*@2:19-27', 'edge:1*@2:19-38', 'node:C*@2:37-51',
+            'node:B@3:5-6', 'edge:2*@3:5-13', 'node:D@3:12-13',
+            'subgraph:S*@4:5-26',
+            'node:D@5:9-10',
+            'node:D@7:11-12',
+            'node:C@8:11-12', 'node:D@8:13-14',
+        ]);
+        // Link ids follow the same order as linkStyle indexes
+        expect(elements.filter(el => el.kind === 'edge').map(el => `${el.source}>${el.target}`))
+            .toEqual(findSourceLinks(SOURCE).map(link => `${link.source}>${link.target}`));
+    });
+
+    it('finds declarations, falling back to every mention', () => {
+        const elements = mapSourceElements(SOURCE);
+
+        expect(findElementSpans(elements, 'B').map(span => span.startLine)).toEqual([2]);
+        expect(findElementSpans(elements, 'D').map(span => span.startLine)).toEqual([3, 5, 7, 8]);
+        expect(findElementSpans(elements, 'S')).toMatchObject([{ startLine: 4, startColumn: 5 }]);
+        expect(findElementSpans(elements, 'missing')).toEqual([]);
+    });
+
+    it('maps a cursor position to the most specific element', () => {
+        const elements = mapSourceElements(SOURCE);
+
+        expect(findElementAt(elements, 2, 8)).toMatchObject({ kind: 'node', id: 'A' });
+        expect(findElementAt(elements, 2, 16)).toMatchObject({ kind: 'edge', source: 'A', target: 'B' });
+        expect(findElementAt(elements, 2, 30)).toMatchObject({ kind: 'edge', source: 'B', target: 'C' });
+        expect(findElementAt(elements, 4, 10)).toMatchObject({ kind: 'subgraph', id: 'S' });
+        expect(findElementAt(elements, 6, 5)).toBeUndefined();
+    });
+
+    it('only maps flowcharts', () => {
+        expect(mapSourceElements('sequenceDiagram\n    A->>B: hi')).toEqual([]);
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { parseStateDiagram } from '../stateDiagram';
+import { getLayoutedElements } from '../layoutEngine';
+
+const ORDER_LIFECYCLE = `stateDiagram-v2
+    [*] --> Pending
+    state "Awaiting payment" as Pending
+    Pending --> Paid : payment received
+    Pending --> Cancelled : timeout
+    state Fulfilment {
+        [*] --> Picking
+        Picking --> Packing
+        Packing --> [*]
+    }
+    Paid --> Fulfilment
+    state check_stock <<choice>>
+    Fulfilment --> check_stock
+    check_stock --> Shipped : in stock
+    check_stock --> Backordered : out of stock
+    Shipped --> [*]
+    note right of Paid : captured by the PSP
+    Cancelled : order voided`;
+
+describe('stateDiagram', () => {
+    it('should map states and [*] pseudo-states onto flow node types', () => {
+        const { nodes } = parseStateDiagram(ORDER_LIFECYCLE);
+        const byId = (id: string) => nodes.find(n => n.id === id)!;
+
+        expect(byId('root_start')).toMatchObject({ type: 'start', data: { label: 'Start' } });
+        expect(byId('root_end')).toMatchObject({ type: 'end', data: { label: 'End' } });
+        expect(byId('Pending')).toMatchObject({ type: 'process', data: { label: 'Awaiting payment' } });
+        expect(byId('check_stock')).toMatchObject({ type: 'decision', data: { stateKind: 'choice' } });
+        expect(byId('Cancelled').data.metadata).toMatchObject({ description: 'order voided' });
+        expect(nodes.some(n => n.id.startsWith('note'))).toBe(false);
+    });
+
+    it('should turn composite states into groups with scoped start and end nodes', () => {
+        const { nodes } = parseStateDiagram(ORDER_LIFECYCLE);
+        const children = nodes.filter(n => n.parentId === 'Fulfilment').map(n => n.id);
+
+        expect(nodes[0]).toMatchObject({ id: 'Fulfilment', type: 'group' });
+        expect(children).toEqual(['Fulfilment_start', 'Picking', 'Packing', 'Fulfilment_end']);
+        expect(nodes.find(n => n.id === 'Picking')?.extent).toBe('parent');
+    });
+
+    it('should keep transition labels', () => {
+        const { edges } = parseStateDiagram(ORDER_LIFECYCLE);
+
+        expect(edges).toHaveLength(11);
+        expect(edges.find(e => e.source === 'Pending' && e.target === 'Paid')?.label).toBe('payment received');
+        expect(edges.find(e => e.source === 'Paid')?.target).toBe('Fulfilment');
+    });
+
+    it('should parse forks, joins and nested composites', () => {
+        const { nodes } = parseStateDiagram(`stateDiagram
+    state fork_state <<fork>>
+    [*] --> fork_state
+    fork_state --> Outer
+    state Outer {
+        state Inner {
+            Leaf
+        }
+    }
+    state join_state <<join>>
+    Outer --> join_state`);
+
+        expect(nodes.find(n => n.id === 'fork_state')).toMatchObject({ type: 'decision', data: { stateKind: 'fork', label: '' } });
+        expect(nodes.find(n => n.id === 'join_state')?.data.stateKind).toBe('join');
+        expect(nodes.map(n => n.id).slice(0, 2)).toEqual(['Outer', 'Inner']);
+        expect(nodes.find(n => n.id === 'Inner')?.parentId).toBe('Outer');
+        expect(nodes.find(n => n.id === 'Leaf')?.parentId).toBe('Inner');
+    });
+
+    it('should lay out composite states around their children', () => {
+        const parsed = parseStateDiagram(ORDER_LIFECYCLE);
+        const { nodes } = getLayoutedElements(parsed.nodes, parsed.edges);
+        const group = nodes.find(n => n.id === 'Fulfilment')!;
+
+        expect(group.style?.width).toBeGreaterThan(0);
+        expect(nodes.filter(n => n.parentId === 'Fulfilment')).toHaveLength(4);
+    });
+});
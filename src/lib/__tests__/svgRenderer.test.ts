@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { renderDiagramSvg } from '../svgRenderer';
+import { SHAPE_PATHS } from '../shapes';
+import { type Node, type Edge } from '../../store';
+
+const node = (id: string, x: number, y: number, extra: Partial<Node> = {}): Node =>
+    ({ id, position: { x, y }, data: { label: id }, measured: { width: 180, height: 60 }, ...extra });
+
+function parse(svg: string): Document {
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+    expect(doc.querySelector('parsererror')).toBeNull();
+    return doc;
+}
+
+describe('svgRenderer', () => {
+    it('should draw nodes, edges and labels as plain SVG with real text', () => {
+        const nodes = [node('Gateway & <Auth>', 0, 0), node('Orders', 0, 200)];
+        const edges: Edge[] = [{ id: 'e1', source: 'Gateway & <Auth>', target: 'Orders', label: '1' }];
+        const svg = renderDiagramSvg(nodes, edges);
+        const doc = parse(svg);
+
+        expect(svg).not.toContain('foreignObject');
+        const texts = [...doc.querySelectorAll('text')].map(t => t.textContent);
+        expect(texts).toEqual(expect.arrayContaining(['Gateway & <Auth>', 'Orders', '1']));
+        expect(doc.querySelectorAll('g.nodes > g')).toHaveLength(2);
+        expect(doc.querySelector('g.edges path')!.getAttribute('marker-end')).toMatch(/^url\(#arrow-/);
+        expect(doc.querySelectorAll('defs marker')).toHaveLength(1);
+    });
+
+    it('should size the page around the whole diagram, not a viewport', () => {
+        const doc = parse(renderDiagramSvg([node('a', -100, 50), node('b', 400, 300)], [], { padding: 10 }));
+        const root = doc.documentElement;
+
+        expect(root.getAttribute('viewBox')).toBe('-110 40 700 330');
+        expect(root.getAttribute('width')).toBe('700');
+        // Transparent page on request
+        expect(parse(renderDiagramSvg([node('a', 0, 0)], [], { background: null })).querySelector('svg > rect')).toBeNull();
+    });
+
+    it('should draw custom shapes from the shape paths and groups under their children', () => {
+        const nodes = [
+            { ...node('zone', 0, 0), type: 'group', style: { width: 400, height: 300 }, measured: undefined },
+            node('store', 40, 80, { type: 'custom-shape', parentId: 'zone', data: { label: 'store', shape: 'cyl' } }),
+        ];
+        const doc = parse(renderDiagramSvg(nodes, []));
+
+        const outline = doc.querySelector('g[data-id="store"] path')!;
+        expect(outline.getAttribute('d')).toBe(SHAPE_PATHS.cyl);
+        // Placed inside the group, scaled from the 100x70 shape box
+        expect(outline.getAttribute('transform')).toBe('translate(40 80) scale(1.8 0.86)');
+        expect(doc.querySelector('g.groups g[data-id="zone"] rect')!.getAttribute('width')).toBe('400');
+    });
+
+    it('should follow link styles and markers and skip invisible links', () => {
+        const nodes = [node('a', 0, 0), node('b', 0, 200), node('c', 300, 200)];
+        const edges: Edge[] = [
+            { id: 'dotted', source: 'a', target: 'b', data: { stroke: 'dotted', startMarker: 'circle', endMarker: 'one-or-many' } },
+            { id: 'thick', source: 'a', target: 'c', data: { stroke: 'thick' }, style: { stroke: '#ff0000' } },
+            { id: 'hidden', source: 'b', target: 'c', data: { stroke: 'invisible' } },
+        ];
+        const doc = parse(renderDiagramSvg(nodes, edges));
+        const path = (id: string) => doc.querySelector(`g.edges path[data-id="${id}"]`);
+
+        expect(path('dotted')!.getAttribute('stroke-dasharray')).toBe('5,5');
+        expect(path('dotted')!.getAttribute('marker-start')).toMatch(/^url\(#circle-/);
+        expect(path('dotted')!.getAttribute('marker-end')).toMatch(/^url\(#one-or-many-/);
+        expect(path('thick')!.getAttribute('stroke')).toBe('#ff0000');
+        expect(path('thick')!.getAttribute('stroke-width')).toBe('3.5');
+        expect(path('hidden')).toBeNull();
+        // Each marker is coloured like its edge
+        expect(doc.querySelector('marker[id^="arrow-ff0000"] path')!.getAttribute('fill')).toBe('#ff0000');
+    });
+
+    it('should route edges orthogonally when asked', () => {
+        const nodes = [node('a', 0, 0), node('blocker', 0, 150), node('b', 0, 300)];
+        const doc = parse(renderDiagramSvg(nodes, [{ id: 'ab', source: 'a', target: 'b' }], { edgeStyle: 'orthogonal' }));
+        const d = doc.querySelector('g.edges path')!.getAttribute('d')!;
+
+        expect(d).toMatch(/^M 90 60 /);
+        expect(d).not.toContain(' C ');
+        expect(d.split(' Q ').length).toBeGreaterThan(2);
+    });
+
+    it('should draw sequence messages on their rows', () => {
+        const lifeline = (id: string, x: number): Node =>
+            ({ id, type: 'lifeline', position: { x, y: 0 }, data: { label: id }, style: { width: 150, height: 400 } });
+        const edges: Edge[] = [{ id: 'm', source: 'alice', target: 'bob', type: 'message', label: 'hello', data: { row: 0, sequenceNumber: 1 } }];
+        const doc = parse(renderDiagramSvg([lifeline('alice', 0), lifeline('bob', 240)], edges));
+
+        expect(doc.querySelector('g.edges path')!.getAttribute('d')).toBe('M 75 100 L 315 100');
+        expect([...doc.querySelectorAll('text')].map(t => t.textContent)).toContain('1. hello');
+    });
+});
@@ -0,0 +1,247 @@
+import type { Node, Edge } from '../store';
+import type { EdgeMarker } from '../types';
+
+export type ClassVisibility = '+' | '-' | '#' | '~' | '';
+
+export interface ClassMember {
+    visibility: ClassVisibility;
+    text: string;
+    isStatic: boolean;
+    isAbstract: boolean;
+}
+
+export type ClassRelationKind =
+    | 'inheritance'
+    | 'realization'
+    | 'composition'
+    | 'aggregation'
+    | 'association'
+    | 'dependency'
+    | 'lollipop'
+    | 'link'
+    | 'dashed-link';
+
+// Sizing used by the layout engine so compartments don't overlap neighbours
+const CLASS_HEADER_HEIGHT = 44;
+const CLASS_ANNOTATION_HEIGHT = 14;
+const CLASS_MEMBER_HEIGHT = 18;
+const CLASS_COMPARTMENT_PADDING = 12;
+const CLASS_CHAR_WIDTH = 7;
+const CLASS_MIN_WIDTH = 180;
+
+const END_MARKERS: Record<string, EdgeMarker> = {
+    '<|': 'triangle',
+    '|>': 'triangle',
+    '*': 'filled-diamond',
+    'o': 'diamond',
+    '<': 'arrow',
+    '>': 'arrow',
+    '()': 'lollipop',
+};
+
+// A --|> B, A "1" *-- "many" B : label, A ..> B, A ()-- B, Animal<|--Duck ...
+const RELATION_REGEX = /^([^\s"<|*()]+)\s*(?:"([^"]*)"\s*)?(<\||\*|o|<|\(\))?(--|\.\.)(\|>|\*|o|>|\(\))?\s*(?:"([^"]*)"\s*)?([^\s:"]+)\s*(?::\s*(.*))?$/;
+const CLASS_DECLARATION_REGEX = /^class\s+([^\s{["~:]+)(?:~([^~]+)~)?(?:\s*\["([^"]*)"\])?(?::::\S+)?\s*(\{)?\s*(\})?$/;
+const ANNOTATION_REGEX = /^<<\s*([^>]+?)\s*>>\s*(\S+)?$/;
+const MEMBER_LINE_REGEX = /^([^\s:]+)\s*:\s*(.+)$/;
+const NAMESPACE_REGEX = /^namespace\s+(\S+)\s*\{$/;
+
+/**
+ * Parse a single attribute or method line (e.g. "+getName()$ String")
+ */
+export function parseClassMember(raw: string): ClassMember {
+    let text = raw.trim();
+    let visibility: ClassVisibility = '';
+    if (/^[+\-#~]/.test(text)) {
+        visibility = text[0] as ClassVisibility;
+        text = text.slice(1).trim();
+    }
+
+    // Classifiers follow the closing parenthesis for methods, or end the line for attributes
+    let isStatic = false;
+    let isAbstract = false;
+    const classifier = text.match(/(\)|\S)([$*])(\s|$)/);
+    if (classifier && classifier.index !== undefined) {
+        isStatic = classifier[2] === '$';
+        isAbstract = classifier[2] === '*';
+        const at = classifier.index + classifier[1].length;
+        text = (text.slice(0, at) + text.slice(at + 1)).trim();
+    }
+
+    // Mermaid writes generics as ~T~
+    text = text.replace(/~([^~]+)~/g, '<$1>');
+
+    return { visibility, text, isStatic, isAbstract };
+}
+
+function getRelationKind(start: EdgeMarker, end: EdgeMarker, dashed: boolean): ClassRelationKind {
+    const markers = [start, end];
+    if (markers.includes('triangle')) return dashed ? 'realization' : 'inheritance';
+    if (markers.includes('filled-diamond')) return 'composition';
+    if (markers.includes('diamond')) return 'aggregation';
+    if (markers.includes('lollipop')) return 'lollipop';
+    if (markers.includes('arrow')) return dashed ? 'dependency' : 'association';
+    return dashed ? 'dashed-link' : 'link';
+}
+
+/**
+ * Estimate the rendered size of a UML class node from its compartments
+ */
+export function estimateClassNodeSize(data: Node['data']): { width: number; height: number } {
+    const attributes = (data.attributes as ClassMember[]) || [];
+    const methods = (data.methods as ClassMember[]) || [];
+    const lines = [String(data.label || ''), ...attributes.map(m => m.text), ...methods.map(m => m.text)];
+    const longest = Math.max(...lines.map(l => l.length + 2));
+
+    return {
+        width: Math.max(CLASS_MIN_WIDTH, longest * CLASS_CHAR_WIDTH + 32),
+        height: CLASS_HEADER_HEIGHT
+            + (data.annotation ? CLASS_ANNOTATION_HEIGHT : 0)
+            + Math.max(attributes.length, 1) * CLASS_MEMBER_HEIGHT
+            + Math.max(methods.length, 1) * CLASS_MEMBER_HEIGHT
+            + CLASS_COMPARTMENT_PADDING * 2,
+    };
+}
+
+/**
+ * Parse a `classDiagram` into UML class nodes and typed relationship edges.
+ * Namespaces become group nodes containing their classes.
+ */
+export function parseClassDiagram(code: string): { nodes: Node[]; edges: Edge[] } {
+    const lines = code.split('\n').map(l => l.trim()).filter(l => l && !l.startsWith('%%'));
+
+    const classes = new Map<string, Node>();
+    const namespaces: Node[] = [];
+    const edges: Edge[] = [];
+    const groupColors = ['#fef3c7', '#dbeafe', '#dcfce7', '#fce7f3', '#e0e7ff'];
+
+    let currentNamespace: string | null = null;
+    let openClass: Node | null = null;
+
+    const ensureClass = (rawId: string) => {
+        const generic = rawId.match(/~([^~]+)~/)?.[1];
+        const id = rawId.replace(/~[^~]+~/, '');
+        let node = classes.get(id);
+        if (!node) {
+            node = {
+                id,
+                type: 'umlClass',
+                position: { x: 0, y: 0 },
+                data: {
+                    label: id,
+                    attributes: [] as ClassMember[],
+                    methods: [] as ClassMember[],
+                    category: 'filter-other',
+                },
+                parentId: currentNamespace || undefined,
+                extent: currentNamespace ? 'parent' : undefined,
+            };
+            classes.set(id, node);
+        }
+        if (generic) node.data.generic = generic;
+        return node;
+    };
+
+    const addMember = (node: Node, raw: string) => {
+        const annotation = raw.match(/^<<\s*([^>]+?)\s*>>$/);
+        if (annotation) {
+            node.data.annotation = annotation[1];
+            return;
+        }
+        const member = parseClassMember(raw);
+        if (!member.text) return;
+        const bucket = member.text.includes('(') ? 'methods' : 'attributes';
+        (node.data[bucket] as ClassMember[]).push(member);
+    };
+
+    for (const line of lines) {
+        if (/^classDiagram(-v2)?\b/i.test(line)) continue;
+
+        // Class body: every line until the closing brace is a member
+        if (openClass) {
+            if (line === '}') {
+                openClass = null;
+            } else {
+                addMember(openClass, line);
+            }
+            continue;
+        }
+
+        const namespaceMatch = line.match(NAMESPACE_REGEX);
+        if (namespaceMatch) {
+            currentNamespace = namespaceMatch[1];
+            namespaces.push({
+                id: currentNamespace,
+                type: 'group',
+                position: { x: 0, y: 0 },
+                data: {
+                    label: currentNamespace,
+                    color: groupColors[namespaces.length % groupColors.length],
+                    category: 'filter-other',
+                },
+                style: {},
+            });
+            continue;
+        }
+        if (line === '}') {
+            currentNamespace = null;
+            continue;
+        }
+
+        if (/^(direction|style|classDef|cssClass|click|link|callback|note)\b/i.test(line)) continue;
+
+        const classMatch = line.match(CLASS_DECLARATION_REGEX);
+        if (classMatch) {
+            const [, id, generic, label, openBrace, closeBrace] = classMatch;
+            const node = ensureClass(id);
+            if (generic) node.data.generic = generic;
+            if (label) node.data.label = label;
+            if (openBrace && !closeBrace) openClass = node;
+            continue;
+        }
+
+        const annotationMatch = line.match(ANNOTATION_REGEX);
+        if (annotationMatch && annotationMatch[2]) {
+            ensureClass(annotationMatch[2]).data.annotation = annotationMatch[1];
+            continue;
+        }
+
+        const relationMatch = line.match(RELATION_REGEX);
+        if (relationMatch) {
+            const [, left, leftCardinality, leftEnd, lineToken, rightEnd, rightCardinality, right, label] = relationMatch;
+            const source = ensureClass(left).id;
+            const target = ensureClass(right).id;
+            const startMarker = leftEnd ? END_MARKERS[leftEnd] : 'none';
+            const endMarker = rightEnd ? END_MARKERS[rightEnd] : 'none';
+            const dashed = lineToken === '..';
+
+            edges.push({
+                id: `rel-${source}-${target}-${edges.length}`,
+                source,
+                target,
+                label: label?.trim() || undefined,
+                style: {
+                    strokeWidth: 2,
+                    strokeDasharray: dashed ? '5,5' : undefined,
+                },
+                data: {
+                    startMarker,
+                    endMarker,
+                    relation: getRelationKind(startMarker, endMarker, dashed),
+                    sourceCardinality: leftCardinality,
+                    targetCardinality: rightCardinality,
+                },
+            });
+            continue;
+        }
+
+        const memberMatch = line.match(MEMBER_LINE_REGEX);
+        if (memberMatch) {
+            addMember(ensureClass(memberMatch[1]), memberMatch[2]);
+        }
+    }
+
+    const nodes = [...namespaces, ...classes.values()];
+    console.log(`[MermaidParser] Class diagram: ${classes.size} classes, ${edges.length} relations`);
+    return { nodes, edges };
+}
@@ -0,0 +1,422 @@
+import type { Node, Edge } from '../store';
+import type { EdgeData, FlowDirection } from '../types';
+import { getFlowLink, getNodeShapes, parseLinkChain, toLinkToken } from './flowEdges';
+import { SHAPE_BRACKETS, escapeMermaidText } from './mermaidExporter';
+import { getLayoutedElements, placeEdgeLabels } from './layoutEngine';
+import { parseShapeData, resolveShapeName, toShapeData } from './shapes';
+
+/**
+ * Canvas <-> code synchronisation.
+ * Canvas edits patch the Mermaid source line by line so the rest of the file
+ * (formatting, comments, styling) is left untouched; code edits are merged back
+ * onto the canvas keeping node positions when the structure allows it.
+ */
+
+export type CodeSyncStatus = 'synced' | 'pending' | 'error' | 'conflict';
+
+export interface DiagramSnapshot {
+    nodes: Node[];
+    edges: Edge[];
+    direction?: FlowDirection;
+}
+
+interface SourceLink {
+    index: number;
+    line: number;
+    source: string;
+    target: string;
+}
+
+// Lines that never hold node or link statements
+const NON_STATEMENT_REGEX = /^(%%|```|flowchart\b|graph\b|subgraph\b|end\b|direction\b|classDef\b|class\b|style\b|linkStyle\b|click\b)/;
+
+// Bracket pairs, longest first so `((` wins over `(`. Resolved on use: the store imports this
+// module, so SHAPE_BRACKETS may not be initialised yet while modules are loading
+function getShapeOpeners(): [string, string][] {
+    return Object.values(SHAPE_BRACKETS).sort((a, b) => b[0].length - a[0].length);
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function stripClasses(line: string): string {
+    return line.replace(/:::[\w-]+/g, '');
+}
+
+/**
+ * True for flowchart lines that can hold node or link statements
+ */
+export function isStatement(line: string): boolean {
+    return !!line && !NON_STATEMENT_REGEX.test(line);
+}
+
+// Labels (quoted text, piped link text and shape contents) are blanked so ids are only found where they are ids
+function maskLabels(line: string): string {
+    let depth = 0;
+    let quoted = false;
+    let piped = false;
+    let masked = '';
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quoted) {
+            if (ch === '"') quoted = false;
+            masked += ch === '"' ? ch : ' ';
+        } else if (ch === '"') {
+            quoted = true;
+            masked += ch;
+        } else if (ch === '|' && depth === 0) {
+            piped = !piped;
+            masked += ch;
+        } else if (piped) {
+            masked += ' ';
+        } else if ('[({'.includes(ch)) {
+            depth++;
+            masked += ch;
+        } else if (')]}'.includes(ch) && depth > 0) {
+            depth--;
+            masked += ch;
+        } else {
+            masked += depth > 0 ? ' ' : ch;
+        }
+    }
+    return masked;
+}
+
+/**
+ * Offset of `id` used as an id on the line (not inside a label), or -1
+ */
+export function findIdToken(line: string, id: string): number {
+    const match = maskLabels(line).match(new RegExp(String.raw`(^|[^\w])${escapeRegExp(id)}(?!\w)`));
+    return match?.index === undefined ? -1 : match.index + match[1].length;
+}
+
+function formatLabel(label: string, quoted: boolean): string {
+    return quoted || !/^[\w .,'?!-]+$/.test(label) ? `"${escapeMermaidText(label)}"` : label;
+}
+
+/**
+ * True when the source is a flowchart, the only diagram type canvas edits are written back to
+ */
+export function isFlowchartSource(code: string): boolean {
+    const header = code.split('\n').map(l => l.trim()).find(l => l && !l.startsWith('%%') && !l.startsWith('```'));
+    return /^(flowchart|graph)\b/.test(header || '');
+}
+
+/**
+ * Every link in the source in Mermaid's order, which is also the `linkStyle` index order
+ */
+export function findSourceLinks(code: string): SourceLink[] {
+    const links: SourceLink[] = [];
+    code.split('\n').forEach((raw, line) => {
+        const trimmed = raw.trim();
+        if (!isStatement(trimmed)) return;
+        for (const { source, target } of parseLinkChain(stripClasses(trimmed))) {
+            links.push({ index: links.length, line, source, target });
+        }
+    });
+    return links;
+}
+
+// Re-emit one statement without some of its links and dropped nodes; surviving declarations are kept
+function rewriteStatement(raw: string, removeLink: (ordinal: number) => boolean, droppedNodes: Set<string>): string[] {
+    const indent = raw.match(/^\s*/)?.[0] || '';
+    const line = raw.trim().replace(/;$/, '');
+    const shapes = getNodeShapes(line);
+    const declared = new Set<string>();
+    const declare = (id: string) => {
+        if (declared.has(id)) return id;
+        declared.add(id);
+        return id + (shapes.get(id) || '');
+    };
+
+    // Statements are ordered by where their nodes were first mentioned, so node order is unchanged
+    const position = (id: string) => findIdToken(line, id);
+    const statements: { at: number; text: string }[] = [];
+    parseLinkChain(stripClasses(line)).forEach(({ source, target, label, link }, ordinal) => {
+        if (removeLink(ordinal) || droppedNodes.has(source) || droppedNodes.has(target)) return;
+        statements.push({
+            at: Math.min(position(source), position(target)),
+            text: `${declare(source)} ${toLinkToken(link)}${label ? `|${formatLabel(label, false)}|` : ''} ${declare(target)}`,
+        });
+    });
+    shapes.forEach((_, id) => {
+        if (!declared.has(id) && !droppedNodes.has(id)) statements.push({ at: position(id), text: declare(id) });
+    });
+    return statements.sort((a, b) => a.at - b.at).map(statement => indent + statement.text);
+}
+
+// Drop removed link indices from `linkStyle` lines and shift the ones after them
+function renumberLinkStyle(line: string, removed: number[]): string | null {
+    const match = line.match(/^(\s*linkStyle\s+)([\d\s,]+?)(\s+.*)$/);
+    if (!match || removed.length === 0) return line;
+    const indices = match[2].split(',').map(i => parseInt(i.trim(), 10)).filter(i => !isNaN(i));
+    const kept = indices
+        .filter(i => !removed.includes(i))
+        .map(i => i - removed.filter(r => r < i).length);
+    return kept.length ? `${match[1]}${kept.join(',')}${match[3]}` : null;
+}
+
+/**
+ * Remove links (by source index) and nodes from the source. Statements that lose a link are
+ * re-emitted with their remaining links and declarations, every other line is kept as written.
+ */
+export function removeFromSource(code: string, { links = [], nodes = [] }: { links?: number[]; nodes?: string[] }): string {
+    if (!isFlowchartSource(code) || (links.length === 0 && nodes.length === 0)) return code;
+
+    const droppedNodes = new Set(nodes);
+    const sourceLinks = findSourceLinks(code);
+    const removed = sourceLinks
+        .filter(l => links.includes(l.index) || droppedNodes.has(l.source) || droppedNodes.has(l.target))
+        .map(l => l.index);
+
+    const output: string[] = [];
+    const subgraphs: boolean[] = []; // per open subgraph, whether its header was dropped
+    code.split('\n').forEach((raw, lineIndex) => {
+        const line = raw.trim();
+
+        const subgraphMatch = line.match(/^subgraph\s+([^\s[]+)/);
+        if (subgraphMatch) {
+            // Removing a group unwraps it, its members stay in the diagram
+            const dropped = droppedNodes.has(subgraphMatch[1]);
+            subgraphs.push(dropped);
+            if (!dropped) output.push(raw);
+            return;
+        }
+        if (/^end\b/.test(line)) {
+            if (!subgraphs.pop()) output.push(raw);
+            return;
+        }
+
+        if (line.startsWith('%%')) {
+            const json = line.slice(2).trim();
+            try {
+                if (json.startsWith('{') && droppedNodes.has(JSON.parse(json).id)) return;
+            } catch {
+                // Not a node comment
+            }
+            output.push(raw);
+            return;
+        }
+
+        const targeted = line.match(/^(style|click)\s+(\S+)/);
+        if (targeted) {
+            if (!droppedNodes.has(targeted[2])) output.push(raw);
+            return;
+        }
+
+        const classMatch = raw.match(/^(\s*class\s+)(\S+)(\s+.*)$/);
+        if (classMatch) {
+            const ids = classMatch[2].split(',').filter(id => !droppedNodes.has(id.trim()));
+            if (ids.length) output.push(`${classMatch[1]}${ids.join(',')}${classMatch[3]}`);
+            return;
+        }
+
+        if (line.startsWith('linkStyle')) {
+            const renumbered = renumberLinkStyle(raw, removed);
+            if (renumbered !== null) output.push(renumbered);
+            return;
+        }
+
+        if (!isStatement(line)) {
+            output.push(raw);
+            return;
+        }
+
+        const lineLinks = sourceLinks.filter(l => l.line === lineIndex);
+        const touched = lineLinks.some(l => removed.includes(l.index))
+            || nodes.some(id => findIdToken(stripClasses(line), id) !== -1);
+        if (!touched) {
+            output.push(raw);
+            return;
+        }
+        output.push(...rewriteStatement(raw, ordinal => removed.includes(lineLinks[ordinal]?.index), droppedNodes));
+    });
+
+    return output.join('\n');
+}
+
+/**
+ * Source index of a canvas edge: the n-th link between the same two nodes
+ */
+export function findEdgeLinkIndex(code: string, edges: Edge[], edge: Edge): number {
+    const occurrence = edges
+        .slice(0, edges.indexOf(edge))
+        .filter(e => e.source === edge.source && e.target === edge.target).length;
+    const matches = findSourceLinks(code).filter(l => l.source === edge.source && l.target === edge.target);
+    return matches[occurrence]?.index ?? -1;
+}
+
+/**
+ * Canvas edge drawn for the link at `index` in the source: the n-th edge between its two nodes
+ */
+export function findLinkEdge(code: string, edges: Edge[], index: number): Edge | undefined {
+    const link = findSourceLinks(code).find(l => l.index === index);
+    if (!link) return undefined;
+    return edges.find(e => e.source === link.source && e.target === link.target && findEdgeLinkIndex(code, edges, e) === index);
+}
+
+/**
+ * Remove canvas edges from the source
+ */
+export function removeEdgesFromSource(code: string, edges: Edge[], removedIds: string[]): string {
+    if (!isFlowchartSource(code)) return code;
+    const links = edges
+        .filter(e => removedIds.includes(e.id))
+        .map(e => findEdgeLinkIndex(code, edges, e))
+        .filter(i => i !== -1);
+    return removeFromSource(code, { links });
+}
+
+/**
+ * Append a link for a new canvas connection after the last existing link, keeping `linkStyle` indices valid
+ */
+export function addEdgeToSource(code: string, edge: Pick<Edge, 'source' | 'target' | 'label' | 'style'> & { data?: EdgeData }): string {
+    if (!isFlowchartSource(code)) return code;
+    const lines = code.split('\n');
+
+    // Insert after the last link (after its outermost subgraph when nested), else at the end
+    let depth = 0;
+    let insertAt: number | null = null;
+    let indent = '    ';
+    lines.forEach((raw, i) => {
+        const line = raw.trim();
+        if (/^subgraph\b/.test(line)) {
+            depth++;
+        } else if (/^end\b/.test(line)) {
+            depth = Math.max(depth - 1, 0);
+            if (depth === 0 && insertAt === -1) insertAt = i + 1;
+        } else if (isStatement(line) && parseLinkChain(stripClasses(line)).length > 0) {
+            insertAt = depth === 0 ? i + 1 : -1;
+            if (depth === 0) indent = raw.match(/^\s*/)?.[0] || indent;
+        }
+    });
+    if (insertAt === null || insertAt === -1) {
+        insertAt = lines.length;
+        while (insertAt > 0 && !lines[insertAt - 1].trim()) insertAt--;
+    }
+
+    const link = getFlowLink(edge.data, edge.style);
+    const label = edge.label && link.stroke !== 'invisible' ? `|${formatLabel(String(edge.label), false)}|` : '';
+    lines.splice(insertAt, 0, `${indent}${edge.source} ${toLinkToken(link)}${label} ${edge.target}`);
+    return lines.join('\n');
+}
+
+/**
+ * Rewrite the label of a node (or subgraph title) where it is declared, adding a declaration
+ * at its first mention when it only appears as a bare id
+ */
+export function renameNodeInSource(code: string, nodeId: string, label: string): string {
+    if (!isFlowchartSource(code)) return code;
+    const lines = code.split('\n');
+
+    const subgraphIndex = lines.findIndex(l => new RegExp(String.raw`^\s*subgraph\s+${escapeRegExp(nodeId)}(\s|\[|$)`).test(l));
+    if (subgraphIndex !== -1) {
+        lines[subgraphIndex] = lines[subgraphIndex].replace(
+            new RegExp(String.raw`^(\s*subgraph\s+${escapeRegExp(nodeId)})(\s*)(\[.*\])?\s*$`),
+            (_, head: string, space: string, title?: string) => `${head}${title ? space : ''}[${formatLabel(label, !!title?.startsWith('["'))}]`
+        );
+        return lines.join('\n');
+    }
+
+    return rewriteNodeDeclaration(code, nodeId, shape => {
+        if (!shape) return `[${formatLabel(label, false)}]`;
+        // `@{ shape: doc, label: "..." }`: replace or add the label field
+        if (shape.startsWith('@{')) {
+            const text = `"${escapeMermaidText(label)}"`;
+            return 'label' in parseShapeData(shape)
+                ? shape.replace(/(label\s*:\s*)(?:"(?:[^"\\]|\\.)*"|[^,}]*)/, (_, head: string) => head + text)
+                : shape.replace(/\s*\}$/, () => `, label: ${text} }`);
+        }
+        // Keep the bracket style, swap the text
+        const [open, close] = getShapeOpeners().find(([o, c]) => shape.startsWith(o) && shape.endsWith(c)) || ['[', ']'];
+        return open + formatLabel(label, shape.slice(open.length).startsWith('"')) + close;
+    });
+}
+
+/**
+ * Rewrite a node's declaration with a new shape: classic shapes keep bracket syntax,
+ * catalogue shapes use `@{ shape: ..., label: "..." }`
+ */
+export function setNodeShapeInSource(code: string, nodeId: string, shape: string, label: string): string {
+    if (!isFlowchartSource(code)) return code;
+    const brackets = SHAPE_BRACKETS[shape];
+    const declaration = brackets
+        ? `${brackets[0]}${formatLabel(label, false)}${brackets[1]}`
+        : toShapeData(resolveShapeName(shape) || shape, escapeMermaidText(label));
+    return rewriteNodeDeclaration(code, nodeId, () => declaration);
+}
+
+/**
+ * Replace the shape text of a node's first declaration (`[Label]`, `@{...}`), or give a bare id
+ * one at its first mention so node order is unchanged. `rewrite` gets the old shape text, if any.
+ */
+function rewriteNodeDeclaration(code: string, nodeId: string, rewrite: (shape?: string) => string): string {
+    const lines = code.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!isStatement(line)) continue;
+        const shape = getNodeShapes(line).get(nodeId)?.replace(/:::[\w-]+$/, '');
+        if (!shape) continue;
+        const at = lines[i].search(new RegExp(String.raw`(?<!\w)${escapeRegExp(nodeId)}\s*${escapeRegExp(shape)}`));
+        if (at === -1) continue;
+        const start = lines[i].indexOf(shape, at);
+        lines[i] = lines[i].slice(0, start) + rewrite(shape) + lines[i].slice(start + shape.length);
+        return lines.join('\n');
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+        if (!isStatement(lines[i].trim())) continue;
+        const at = findIdToken(lines[i], nodeId);
+        if (at === -1) continue;
+        const end = at + nodeId.length;
+        lines[i] = `${lines[i].slice(0, end)}${rewrite()}${lines[i].slice(end)}`;
+        return lines.join('\n');
+    }
+    return code;
+}
+
+/**
+ * Merge a re-parsed diagram onto the canvas. When the node set, nesting and directions are unchanged,
+ * positions and sizes are kept and only data/edges are replaced. Otherwise it is laid out again with the
+ * nodes that are still there (and still in the same group) kept in place and new ones placed around them;
+ * a change of diagram direction lays out everything but pinned nodes afresh.
+ */
+export function mergeParsedDiagram(current: DiagramSnapshot, parsed: DiagramSnapshot): DiagramSnapshot {
+    const previous = new Map(current.nodes.map(n => [n.id, n]));
+    // Pinning is canvas state, the code knows nothing about it
+    const nodes = parsed.nodes.map(node => {
+        const before = previous.get(node.id);
+        return before?.data.pinned ? { ...node, position: before.position, data: { ...node.data, pinned: true } } : node;
+    });
+    const sameStructure = parsed.direction === current.direction
+        && parsed.nodes.length === current.nodes.length
+        && parsed.nodes.every(n => previous.has(n.id)
+            && previous.get(n.id)?.parentId === n.parentId
+            && previous.get(n.id)?.data.direction === n.data.direction);
+
+    if (!sameStructure) {
+        if (parsed.direction !== current.direction) {
+            return getLayoutedElements(nodes, parsed.edges, { direction: parsed.direction });
+        }
+        // Groups whose own direction changed have their contents laid out again
+        const redirected = new Set(parsed.nodes
+            .filter(n => n.type === 'group' && previous.get(n.id)?.data.direction !== n.data.direction)
+            .map(n => n.id));
+        const kept = nodes.filter(n => previous.has(n.id) && previous.get(n.id)!.parentId === n.parentId && !(n.parentId && redirected.has(n.parentId)));
+        const keptIds = new Set(kept.map(n => n.id));
+        return getLayoutedElements(
+            nodes.map(node => (keptIds.has(node.id) ? { ...node, position: previous.get(node.id)!.position } : node)),
+            parsed.edges,
+            { direction: parsed.direction, fixedNodeIds: [...keptIds] },
+        );
+    }
+
+    const keptNodes = nodes.map(node => {
+        const { position, style, width, height, measured } = previous.get(node.id)!;
+        return { ...node, position, style, width, height, measured };
+    });
+    // Labels may have changed even if nothing moved
+    return { nodes: keptNodes, edges: placeEdgeLabels(keptNodes, parsed.edges) };
+}
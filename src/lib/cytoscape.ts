@@ -0,0 +1,208 @@
+import type { CSSProperties } from 'react';
+import type { Node, Edge } from '../store';
+import type { EdgeData } from '../types';
+import { getFlowLink } from './flowEdges';
+import { getNodeBounds, getNodeHeight, getNodeWidth } from './layoutEngine';
+import { resolveShapeName } from './shapes';
+import {
+    GROUP_COLORS, createIdMapper, placeImportedNodes, sortParentsFirst, toEdgeMarker, toEdgeStroke, toNodeMetadata, toNodeType,
+    type ImportedDiagram,
+} from './diagramImport';
+
+/**
+ * Cytoscape.js JSON interchange, in the `cy.json()` layout that `cy.add()`, `cy.json(...)` and NetworkX's
+ * `cytoscape_graph` read. Node fields and `NodeMetadata` go on `data`, groups are compound parents and
+ * positions are node centres, as in Cytoscape, with the node's size beside them. A small stylesheet shows
+ * labels, colours and arrows.
+ */
+
+interface CytoscapeElement {
+    group?: 'nodes' | 'edges';
+    data?: Record<string, unknown>;
+    position?: { x?: unknown; y?: unknown };
+}
+
+const STYLESHEET = [
+    { selector: 'node', style: { label: 'data(label)', 'text-valign': 'center', 'background-color': 'data(color)', shape: 'round-rectangle' } },
+    { selector: ':parent', style: { 'text-valign': 'top', 'background-opacity': 0.4 } },
+    { selector: 'edge', style: { label: 'data(label)', 'curve-style': 'bezier', 'target-arrow-shape': 'triangle' } },
+];
+
+const cssString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+/**
+ * Write nodes and edges as Cytoscape.js JSON
+ */
+export function exportToCytoscape(nodes: Node[], edges: Edge[]): string {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const bounds = getNodeBounds(nodes);
+    const ids = new Set(nodes.map(n => n.id));
+
+    const cyNodes = sortParentsFirst(nodes).map(node => {
+        const box = bounds.get(node.id)!;
+        const css = (node.data.style || {}) as CSSProperties;
+        const metadata = node.data.metadata;
+        const color = node.type === 'group' ? cssString(node.data.color) : cssString(css.background) ?? cssString(css.backgroundColor);
+        return {
+            data: {
+                id: node.id,
+                label: String(node.data.label ?? ''),
+                parent: node.parentId && byId.has(node.parentId) ? node.parentId : undefined,
+                type: node.type,
+                shape: resolveShapeName(node.data.shape as string | undefined),
+                color: color ?? '#ffffff',
+                ...(node.type === 'group' ? {} : { width: box.right - box.left, height: box.bottom - box.top }),
+                ...metadata,
+            },
+            position: { x: (box.left + box.right) / 2, y: (box.top + box.bottom) / 2 },
+        };
+    });
+
+    const cyEdges = edges.filter(edge => byId.has(edge.source) && byId.has(edge.target)).map(edge => {
+        const link = getFlowLink(edge.data as EdgeData | undefined, edge.style);
+        return {
+            data: {
+                // Element ids are shared between nodes and edges
+                id: ids.has(edge.id) ? `edge-${edge.id}` : edge.id,
+                source: edge.source,
+                target: edge.target,
+                label: typeof edge.label === 'string' ? edge.label : undefined,
+                stroke: link.stroke,
+                startMarker: link.startMarker,
+                endMarker: link.endMarker,
+                color: cssString(edge.style?.stroke),
+            },
+        };
+    });
+
+    return JSON.stringify({ elements: { nodes: cyNodes, edges: cyEdges }, style: STYLESHEET }, null, 2);
+}
+
+// The element list of a cy.json() object, an elements array or { nodes, edges }
+function readElements(value: unknown): CytoscapeElement[] | undefined {
+    if (Array.isArray(value)) return value;
+    if (!value || typeof value !== 'object') return undefined;
+    const { elements, nodes, edges } = value as Record<string, unknown>;
+    if (elements !== undefined) return readElements(elements);
+    if (!Array.isArray(nodes)) return undefined;
+    return [
+        ...nodes.map(node => ({ ...node, group: 'nodes' as const })),
+        ...(Array.isArray(edges) ? edges : []).map(edge => ({ ...edge, group: 'edges' as const })),
+    ];
+}
+
+const toText = (value: unknown) => (typeof value === 'string' || typeof value === 'number' ? String(value) : undefined);
+
+const isEdge = (element: CytoscapeElement) => element.group === 'edges' || (element.group !== 'nodes' && element.data?.source !== undefined && element.data?.target !== undefined);
+
+/**
+ * Whether text looks like Cytoscape.js JSON
+ */
+export function isCytoscapeFile(text: string): boolean {
+    if (!/"elements"\s*:|"data"\s*:\s*\{/.test(text)) return false;
+    try {
+        const elements = readElements(JSON.parse(text));
+        // Nodes carry their id in `data`, which tells these apart from React Flow's own JSON
+        return !!elements?.length && elements.every(element => element?.data && typeof element.data === 'object' && (isEdge(element) || toText(element.data.id) !== undefined));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Read Cytoscape.js JSON into nodes and edges. Compound parents become groups; `label` (or `name`), `type`,
+ * `shape`, `color`, `techStack`, `role` and `description` data fill in the nodes. Positions are kept when
+ * every node has one, otherwise the graph is laid out.
+ */
+export function importFromCytoscape(text: string): ImportedDiagram {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('Not a valid Cytoscape file: the JSON could not be read');
+    }
+    const elements = readElements(parsed)?.filter(element => element && typeof element.data === 'object');
+    if (!elements?.length) throw new Error('Not a valid Cytoscape file: it has no elements');
+
+    const cyNodes = elements.filter(element => !isEdge(element) && toText(element.data!.id) !== undefined);
+    const cyEdges = elements.filter(isEdge);
+    const toId = createIdMapper();
+    const nodeIds = new Set(cyNodes.map(element => toId(toText(element.data!.id)!)));
+    const parentIds = new Set(cyNodes.map(element => toText(element.data!.parent)).filter((id): id is string => !!id).map(toId));
+    const positions = new Map<string, { x: number; y: number }>();
+    let groupIndex = 0;
+
+    const nodes: Node[] = cyNodes.map(element => {
+        const data = element.data!;
+        const id = toId(toText(data.id)!);
+        const parent = toText(data.parent);
+        const parentId = parent && nodeIds.has(toId(parent)) ? toId(parent) : undefined;
+        const extent = parentId ? 'parent' as const : undefined;
+        const label = (toText(data.label) ?? toText(data.name) ?? toText(data.value) ?? toText(data.id)!).replace(/\s+/g, ' ').trim();
+        const techStack = Array.isArray(data.techStack) ? data.techStack.join(',') : toText(data.techStack);
+        const metadata = toNodeMetadata({ techStack, role: toText(data.role), description: toText(data.description) });
+        const color = cssString(data.color);
+
+        if (parentIds.has(id) || data.type === 'group') {
+            return {
+                id, type: 'group', position: { x: 0, y: 0 }, parentId, extent,
+                data: { label, color: color ?? GROUP_COLORS[groupIndex++ % GROUP_COLORS.length], metadata },
+                style: {},
+            };
+        }
+
+        const shape = resolveShapeName(toText(data.shape));
+        let type = toNodeType(data.type);
+        if (!type) {
+            if (shape === 'diam') type = 'decision';
+            else if (shape === 'cyl') type = 'database';
+            else type = shape && shape !== 'rounded' ? 'custom-shape' : 'default';
+        }
+        return {
+            id, type, position: { x: 0, y: 0 }, parentId, extent,
+            data: {
+                label,
+                category: 'filter-other',
+                shape: type === 'custom-shape' || data.shape !== undefined ? shape : undefined,
+                style: color && color !== '#ffffff' ? { background: color } : undefined,
+                metadata,
+            },
+        };
+    });
+
+    // Cytoscape positions are centres; groups are placed around their members
+    cyNodes.forEach((element, i) => {
+        const node = nodes[i];
+        const x = Number(element.position?.x);
+        const y = Number(element.position?.y);
+        if (node.type === 'group' || element.position?.x === undefined || !Number.isFinite(x) || !Number.isFinite(y)) return;
+        const width = Number(element.data!.width) || getNodeWidth(node);
+        const height = Number(element.data!.height) || getNodeHeight(node);
+        positions.set(node.id, { x: x - width / 2, y: y - height / 2 });
+    });
+
+    const edges: Edge[] = cyEdges.flatMap((element, i) => {
+        const data = element.data!;
+        const source = toId(toText(data.source) ?? '');
+        const target = toId(toText(data.target) ?? '');
+        if (!nodeIds.has(source) || !nodeIds.has(target)) return [];
+        const stroke = toEdgeStroke(data.stroke);
+        const color = cssString(data.color);
+        return [{
+            id: `e${i}-${source}-${target}`,
+            source, target,
+            label: (toText(data.label) ?? '').replace(/\s+/g, ' ').trim() || undefined,
+            animated: stroke === 'dotted',
+            style: color ? { stroke: color } : {},
+            data: {
+                stroke,
+                startMarker: toEdgeMarker(data.startMarker, 'none'),
+                endMarker: toEdgeMarker(data.endMarker, 'arrow'),
+                length: 1,
+            } satisfies EdgeData,
+        }];
+    });
+
+    console.log(`[Cytoscape] Imported ${nodes.length} nodes, ${edges.length} edges`);
+    return placeImportedNodes(nodes, edges, positions);
+}
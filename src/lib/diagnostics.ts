@@ -0,0 +1,312 @@
+import { findIdToken, findSourceLinks, isStatement } from './codeSync';
+import { getNodeShapes, parseLinkChain } from './flowEdges';
+
+/**
+ * Diagnostics for Mermaid source: syntax errors reported by Mermaid and
+ * lint warnings for code Mermaid accepts but probably does not mean what it says.
+ * Lines and columns are 1-based with an exclusive end, the convention Monaco markers use.
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+    | 'syntax-error'
+    | 'unknown-diagram'
+    | 'regex-fallback'
+    | 'undefined-node'
+    | 'unknown-node'
+    | 'link-style-range'
+    | 'unclosed-subgraph';
+
+export interface DiagnosticRange {
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+}
+
+/**
+ * Quick-fix replacing `range` with `text`; an empty range inserts
+ */
+export interface DiagnosticFix {
+    title: string;
+    range: DiagnosticRange;
+    text: string;
+}
+
+export interface Diagnostic extends DiagnosticRange {
+    severity: DiagnosticSeverity;
+    code: DiagnosticCode;
+    message: string;
+    fixes?: DiagnosticFix[];
+}
+
+/**
+ * Location details attached to Mermaid's (jison) parse errors
+ */
+interface MermaidErrorHash {
+    text?: string;
+    token?: string | number;
+    loc?: { first_line: number; first_column: number };
+}
+
+// Square-bracket labels holding characters Mermaid reads as syntax unless the label is quoted
+const UNQUOTED_LABEL_REGEX = /(\w+)\[(?!["[(/\\])([^\]"]*[(){}<>;][^\]"]*)\]/g;
+
+function getLines(code: string): string[] {
+    return code.split('\n').map(line => line.replace(/\r$/, ''));
+}
+
+// Range covering the text of a line, without its indentation
+function lineRange(lines: string[], index: number): DiagnosticRange {
+    const text = lines[index] || '';
+    const start = text.length - text.trimStart().length;
+    return { startLine: index + 1, startColumn: start + 1, endLine: index + 1, endColumn: Math.max(text.trimEnd().length, start + 1) + 1 };
+}
+
+// Range of `length` characters from a 0-based offset on a 0-based line
+function tokenRange(index: number, offset: number, length: number): DiagnosticRange {
+    return { startLine: index + 1, startColumn: offset + 1, endLine: index + 1, endColumn: offset + length + 1 };
+}
+
+// The whole line including its line break, for "remove line" fixes
+function removeLineFix(lines: string[], index: number): DiagnosticFix {
+    const range = index + 1 < lines.length
+        ? { startLine: index + 1, startColumn: 1, endLine: index + 2, endColumn: 1 }
+        : { startLine: index + 1, startColumn: 1, endLine: index + 1, endColumn: lines[index].length + 1 };
+    return { title: 'Remove this line', range, text: '' };
+}
+
+function lastContentLine(lines: string[]): number {
+    for (let i = lines.length - 1; i >= 0; i--) {
+        if (lines[i].trim()) return i;
+    }
+    return 0;
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// Lines dropped from the top of the source before Mermaid saw it (code fences, init directives)
+function getLineOffset(source: string, parsedSource: string): number {
+    const first = parsedSource.split('\n')[0];
+    const at = first ? source.indexOf(first) : -1;
+    return at < 0 ? 0 : source.slice(0, at).split('\n').length - 1;
+}
+
+// Fixes for syntax errors with a well-known cause on the failing line
+function getSyntaxFixes(line: string, index: number, token: string): DiagnosticFix[] {
+    const fixes: DiagnosticFix[] = [];
+    if (token === 'end') {
+        const at = findIdToken(line, 'end');
+        if (at >= 0) fixes.push({ title: 'Rename "end" to "End"', range: tokenRange(index, at, 3), text: 'End' });
+    }
+    for (const match of line.matchAll(UNQUOTED_LABEL_REGEX)) {
+        const start = (match.index ?? 0) + match[1].length + 1;
+        fixes.push({ title: `Quote the label of ${match[1]}`, range: tokenRange(index, start, match[2].length), text: `"${match[2]}"` });
+    }
+    return fixes;
+}
+
+/**
+ * Turn an error thrown by `mermaid.parse` into a diagnostic on the source the user wrote.
+ * `parsedSource` is the preprocessed text Mermaid actually parsed, when it differs.
+ */
+export function fromMermaidError(error: unknown, source: string, parsedSource = source): Diagnostic {
+    const lines = getLines(source);
+    const message = error instanceof Error ? error.message : String(error);
+    const offset = getLineOffset(source, parsedSource);
+
+    if (error instanceof Error && error.name === 'UnknownDiagramError') {
+        return {
+            ...lineRange(lines, offset),
+            severity: 'error',
+            code: 'unknown-diagram',
+            message: 'Unknown diagram type, start with a declaration such as "flowchart TD" or "sequenceDiagram"',
+        };
+    }
+
+    const hash = (error as { hash?: MermaidErrorHash } | null)?.hash;
+    if (hash?.loc) {
+        // Errors at the end of input point past the last line
+        const index = Math.min(hash.loc.first_line - 1 + offset, lastContentLine(lines));
+        const line = lines[index] || '';
+        const text = (hash.text || '').trim();
+        const at = text ? line.indexOf(text, hash.loc.first_column) : -1;
+        const atEnd = hash.token === 'EOF' || !text;
+        const range = at >= 0
+            ? tokenRange(index, at, text.length)
+            : atEnd ? tokenRange(index, Math.max(line.trimEnd().length - 1, 0), 1) : lineRange(lines, index);
+        const fixes = getSyntaxFixes(line, index, text);
+        return {
+            ...range,
+            severity: 'error',
+            code: 'syntax-error',
+            message: atEnd ? 'Syntax error: the diagram ends unexpectedly' : `Syntax error: unexpected "${text}"`,
+            ...(fixes.length ? { fixes } : {}),
+        };
+    }
+
+    // Newer (langium) grammars report a character offset instead
+    const position = message.match(/at offset:? (\d+)/);
+    if (position) {
+        const before = parsedSource.slice(0, Number(position[1])).split('\n');
+        const index = Math.min(before.length - 1 + offset, lastContentLine(lines));
+        return { ...tokenRange(index, before[before.length - 1].length, 1), severity: 'error', code: 'syntax-error', message: message.split('\n')[0] };
+    }
+
+    const lineMatch = message.match(/line (\d+)/i);
+    const index = lineMatch ? Math.min(Number(lineMatch[1]) - 1 + offset, lastContentLine(lines)) : offset;
+    return { ...lineRange(lines, index), severity: 'error', code: 'syntax-error', message: message.split('\n')[0] };
+}
+
+/**
+ * Warning shown when the canvas was built by the regex fallback instead of Mermaid itself
+ */
+export function regexFallbackDiagnostic(source: string, parsedSource = source): Diagnostic {
+    return {
+        ...lineRange(getLines(source), getLineOffset(source, parsedSource)),
+        severity: 'warning',
+        code: 'regex-fallback',
+        message: 'Mermaid could not parse this diagram; the canvas shows a best-effort reading of it and may be incomplete',
+    };
+}
+
+/**
+ * Lint a flowchart for references Mermaid silently accepts: nodes that are used but never
+ * given a label (usually a typo of a defined id), styling aimed at unknown nodes or links,
+ * and subgraphs left open.
+ */
+export function lintFlowchart(code: string): Diagnostic[] {
+    const lines = getLines(code);
+    const declared = new Set<string>();
+    const subgraphs = new Set<string>();
+    const mentions = new Map<string, { index: number; at: number }>();
+    const targets: { id: string; index: number; keyword: string }[] = [];
+    const linkStyles: { link: number; index: number }[] = [];
+    const openSubgraphs: number[] = [];
+    let inDirective = false;
+
+    const mention = (id: string, index: number) => {
+        if (!mentions.has(id)) mentions.set(id, { index, at: findIdToken(lines[index], id) });
+    };
+
+    lines.forEach((raw, index) => {
+        const line = raw.trim().replace(/;$/, '');
+        // Multi-line `%%{init: ...}%%` directives
+        if (inDirective || line.startsWith('%%{')) {
+            inDirective = !line.includes('}%%');
+            return;
+        }
+        if (/^subgraph\b/.test(line)) {
+            openSubgraphs.push(index);
+            const id = line.match(/^subgraph\s+(\w+)/)?.[1];
+            if (id) subgraphs.add(id);
+            return;
+        }
+        if (/^end\b/.test(line)) {
+            openSubgraphs.pop();
+            return;
+        }
+        const target = line.match(/^(style|class|click)\s+(\S+)/);
+        if (target) {
+            const ids = target[1] === 'class' ? target[2].split(',') : [target[2]];
+            ids.forEach(id => targets.push({ id, index, keyword: target[1] }));
+            return;
+        }
+        const linkStyle = line.match(/^linkStyle\s+([\d,\s]+?)\s/);
+        if (linkStyle) {
+            linkStyle[1].split(',').forEach(n => linkStyles.push({ link: Number(n), index }));
+            return;
+        }
+        if (!isStatement(line)) return;
+
+        getNodeShapes(line).forEach((shape, id) => {
+            if (!shape.startsWith(':::')) declared.add(id);
+            mention(id, index);
+        });
+        const statement = line.replace(/:::[\w-]+/g, '');
+        const links = parseLinkChain(statement);
+        links.forEach(({ source, target }) => {
+            mention(source, index);
+            mention(target, index);
+        });
+        // A bare `A` or `A & B` statement also creates nodes
+        if (!links.length && /^\w+(\s*&\s*\w+)*$/.test(statement)) {
+            statement.split('&').forEach(id => mention(id.trim(), index));
+        }
+    });
+
+    const diagnostics: Diagnostic[] = [];
+
+    // Bare ids are normal in an all-bare diagram; once other nodes carry labels an unlabelled one stands out
+    if (declared.size > 0) {
+        mentions.forEach(({ index, at }, id) => {
+            if (declared.has(id) || subgraphs.has(id) || at < 0) return;
+            const similar = [...declared].filter(other =>
+                other.toLowerCase() === id.toLowerCase() || editDistance(other, id) <= (id.length > 3 ? 2 : 1));
+            const range = tokenRange(index, at, id.length);
+            diagnostics.push({
+                ...range,
+                severity: 'warning',
+                code: 'undefined-node',
+                message: similar.length
+                    ? `Node "${id}" is referenced but never defined. Did you mean "${similar[0]}"?`
+                    : `Node "${id}" is referenced but never defined; it will be drawn with its id as label`,
+                fixes: [
+                    ...similar.map(other => ({ title: `Change to "${other}"`, range, text: other })),
+                    { title: `Define "${id}"`, range: { ...range, startColumn: range.endColumn }, text: `[${id}]` },
+                ],
+            });
+        });
+    }
+
+    const known = new Set([...declared, ...subgraphs, ...mentions.keys()]);
+    for (const { id, index, keyword } of targets) {
+        if (known.has(id)) continue;
+        const at = lines[index].indexOf(id, lines[index].indexOf(keyword) + keyword.length);
+        diagnostics.push({
+            ...tokenRange(index, at, id.length),
+            severity: 'warning',
+            code: 'unknown-node',
+            message: `${keyword} refers to "${id}", which is not a node in this diagram`,
+            fixes: [removeLineFix(lines, index)],
+        });
+    }
+
+    const linkCount = findSourceLinks(code).length;
+    for (const { link, index } of linkStyles) {
+        if (link < linkCount) continue;
+        diagnostics.push({
+            ...lineRange(lines, index),
+            severity: 'warning',
+            code: 'link-style-range',
+            message: `linkStyle ${link} is out of range, the diagram has ${linkCount} link${linkCount === 1 ? '' : 's'}`,
+            fixes: [removeLineFix(lines, index)],
+        });
+    }
+
+    const last = lastContentLine(lines);
+    for (const index of openSubgraphs) {
+        const indent = lines[index].match(/^\s*/)?.[0] || '';
+        const end = lines[last].length + 1;
+        diagnostics.push({
+            ...lineRange(lines, index),
+            severity: 'error',
+            code: 'unclosed-subgraph',
+            message: 'subgraph is never closed with "end"',
+            fixes: [{ title: 'Insert "end"', range: { startLine: last + 1, startColumn: end, endLine: last + 1, endColumn: end }, text: `\n${indent}end` }],
+        });
+    }
+
+    return diagnostics;
+}
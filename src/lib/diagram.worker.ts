@@ -0,0 +1,41 @@
+import { processDiagram, type PipelineRequest, type PipelineResponse } from './diagramPipeline';
+import { installDomlessSanitizer } from './domlessSanitizer';
+
+/**
+ * Worker side of the diagram pipeline: one job at a time per message, cancellable between stages
+ */
+
+// Workers have no DOM, so Mermaid's DOMPurify pass is skipped here rather than run against a stand-in
+// window. Nothing from Mermaid is rendered in the worker: the parser keeps only the text of each label
+// (sanitizeLabel drops every tag) and the canvas shows labels as text.
+installDomlessSanitizer();
+
+const running = new Map<number, AbortController>();
+
+function post(response: PipelineResponse) {
+    self.postMessage(response);
+}
+
+self.onmessage = async (event: MessageEvent<PipelineRequest>) => {
+    const request = event.data;
+    if (request.type === 'cancel') {
+        running.get(request.id)?.abort();
+        return;
+    }
+
+    const { id, code, options } = request;
+    const abort = new AbortController();
+    running.set(id, abort);
+    try {
+        const diagram = await processDiagram(code, {
+            ...options,
+            signal: abort.signal,
+            onProgress: stage => post({ id, type: 'progress', stage }),
+        });
+        post({ id, type: 'result', diagram });
+    } catch (error) {
+        if (!abort.signal.aborted) post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+    } finally {
+        running.delete(id);
+    }
+};
@@ -0,0 +1,154 @@
+import type { Node, Edge } from '../store';
+import type { EdgeMarker, EdgeStroke, FlowDirection, NodeMetadata } from '../types';
+import { getLayoutedElements, getNodeHeight, getNodeWidth, type NodeBounds } from './layoutEngine';
+
+/**
+ * Pieces shared by the importers of other tools' diagram files (draw.io, Excalidraw, DOT, ...).
+ * Imported diagrams are written back as Mermaid source, so their ids have to be ones Mermaid accepts.
+ */
+
+export interface ImportedDiagram {
+    nodes: Node[];
+    edges: Edge[];
+}
+
+/** Fills given to imported groups that bring no colour of their own, in turn */
+export const GROUP_COLORS = ['#fef3c7', '#dbeafe', '#dcfce7', '#fce7f3', '#e0e7ff'];
+
+// Words that end or start blocks in a flowchart and can't be node ids
+const RESERVED_IDS = new Set(['end', 'graph', 'flowchart', 'subgraph', 'direction', 'style', 'class', 'classdef', 'click', 'linkstyle', 'default']);
+
+/**
+ * Map foreign ids to word-character ids, the same id always mapping to the same result and
+ * different ids never colliding
+ */
+export function createIdMapper(): (id: string) => string {
+    const ids = new Map<string, string>();
+    const used = new Set<string>();
+    return (id: string) => {
+        let mapped = ids.get(id);
+        if (mapped) return mapped;
+        const base = id.trim().replace(/\W+/g, '_').replace(/^_+|_+$/g, '') || 'node';
+        mapped = RESERVED_IDS.has(base.toLowerCase()) ? `${base}_` : base;
+        for (let i = 2; used.has(mapped); i++) mapped = `${base}_${i}`;
+        ids.set(id, mapped);
+        used.add(mapped);
+        return mapped;
+    };
+}
+
+/**
+ * Order nodes so every parent comes before its children, as React Flow requires
+ */
+export function sortParentsFirst(nodes: Node[]): Node[] {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const sorted: Node[] = [];
+    const placed = new Set<string>();
+    const place = (node: Node, path: Set<string>) => {
+        if (placed.has(node.id) || path.has(node.id)) return;
+        const parent = node.parentId ? byId.get(node.parentId) : undefined;
+        if (parent) place(parent, new Set([...path, node.id]));
+        placed.add(node.id);
+        sorted.push(node);
+    };
+    nodes.forEach(node => place(node, new Set()));
+    return sorted;
+}
+
+/**
+ * Node metadata from loose key/value properties (`techStack` comma-separated), or undefined when there is none
+ */
+export function toNodeMetadata(properties: Record<string, string | undefined>): NodeMetadata | undefined {
+    const { techStack = '', role = '', description = '' } = properties;
+    if (!techStack && !role && !description) return undefined;
+    return { techStack: techStack.split(',').map(t => t.trim()).filter(Boolean), role, description };
+}
+
+// Node types a file may name for a node; anything else is read as a plain node
+const NODE_TYPES = new Set([
+    'start', 'end', 'decision', 'database', 'process', 'client', 'ai', 'team', 'platform', 'data', 'tech',
+    'server', 'system', 'default', 'custom-shape',
+]);
+
+const EDGE_MARKERS = new Set<EdgeMarker>([
+    'none', 'arrow', 'circle', 'cross', 'triangle', 'diamond', 'filled-diamond', 'lollipop',
+    'zero-or-one', 'exactly-one', 'zero-or-many', 'one-or-many',
+]);
+
+const EDGE_STROKES = new Set<EdgeStroke>(['normal', 'thick', 'dotted', 'invisible']);
+
+/**
+ * A node type named in a file, if the canvas can draw it
+ */
+export function toNodeType(value: unknown): string | undefined {
+    return typeof value === 'string' && NODE_TYPES.has(value) ? value : undefined;
+}
+
+/**
+ * An edge marker named in a file, or `fallback` when it names none of ours
+ */
+export function toEdgeMarker(value: unknown, fallback: EdgeMarker): EdgeMarker {
+    return typeof value === 'string' && EDGE_MARKERS.has(value as EdgeMarker) ? value as EdgeMarker : fallback;
+}
+
+/**
+ * An edge stroke named in a file, or `normal`
+ */
+export function toEdgeStroke(value: unknown): EdgeStroke {
+    return typeof value === 'string' && EDGE_STROKES.has(value as EdgeStroke) ? value as EdgeStroke : 'normal';
+}
+
+const GROUP_PADDING = 40;
+const GROUP_TITLE_HEIGHT = 40;
+const EMPTY_GROUP_SIZE = { width: 200, height: 120 };
+
+/**
+ * Put imported nodes in place. When the file gives a canvas position (top-left) for every node that is not a
+ * group, those positions are kept: they are made relative to the parent group, and groups without a size
+ * are fitted around their members. Otherwise the diagram is laid out in `direction`.
+ */
+export function placeImportedNodes(
+    nodes: Node[],
+    edges: Edge[],
+    positions: Map<string, { x: number; y: number }>,
+    direction?: FlowDirection
+): ImportedDiagram {
+    const sorted = sortParentsFirst(nodes);
+    if (sorted.some(node => node.type !== 'group' && !positions.has(node.id))) {
+        return getLayoutedElements(sorted, edges, { direction });
+    }
+
+    // Canvas boxes, members before the groups around them
+    const boxes = new Map<string, NodeBounds>();
+    [...sorted].reverse().forEach(node => {
+        const at = positions.get(node.id);
+        const members = sorted.filter(n => n.parentId === node.id).map(n => boxes.get(n.id)!);
+        const hasSize = typeof node.style?.width === 'number' && typeof node.style?.height === 'number';
+        if (node.type === 'group' && (!at || !hasSize)) {
+            const box = members.length
+                ? {
+                    left: Math.min(...members.map(b => b.left)) - GROUP_PADDING,
+                    top: Math.min(...members.map(b => b.top)) - GROUP_PADDING - GROUP_TITLE_HEIGHT,
+                    right: Math.max(...members.map(b => b.right)) + GROUP_PADDING,
+                    bottom: Math.max(...members.map(b => b.bottom)) + GROUP_PADDING,
+                }
+                : { left: at?.x ?? 0, top: at?.y ?? 0, right: (at?.x ?? 0) + EMPTY_GROUP_SIZE.width, bottom: (at?.y ?? 0) + EMPTY_GROUP_SIZE.height };
+            boxes.set(node.id, box);
+            return;
+        }
+        const { x, y } = at ?? { x: 0, y: 0 };
+        boxes.set(node.id, { left: x, top: y, right: x + getNodeWidth(node), bottom: y + getNodeHeight(node) });
+    });
+
+    return {
+        nodes: sorted.map(node => {
+            const box = boxes.get(node.id)!;
+            const parent = node.parentId ? boxes.get(node.parentId) : undefined;
+            const position = { x: box.left - (parent?.left ?? 0), y: box.top - (parent?.top ?? 0) };
+            return node.type === 'group'
+                ? { ...node, position, style: { ...node.style, width: box.right - box.left, height: box.bottom - box.top } }
+                : { ...node, position };
+        }),
+        edges,
+    };
+}
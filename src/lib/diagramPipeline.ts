@@ -0,0 +1,164 @@
+import { parseMermaid, type ParsedDiagram, type ParseOptions } from './mermaidParser';
+import { getLayoutedElements } from './layoutEngine';
+import { mergeParsedDiagram, type DiagramSnapshot } from './codeSync';
+
+/**
+ * Parse + layout pipeline.
+ * Runs in a web worker (see diagram.worker.ts) so large diagrams do not block the UI,
+ * and falls back to the main thread where workers are unavailable or fail.
+ * Only the latest request counts: starting one supersedes the previous, whose result is discarded.
+ */
+
+export type PipelineStage = 'parsing' | 'layout';
+
+export interface PipelineOptions extends ParseOptions {
+    /** Merge onto the current canvas, keeping positions when the structure is unchanged, instead of a fresh layout */
+    current?: DiagramSnapshot;
+}
+
+export type PipelineRequest =
+    | { id: number; type: 'run'; code: string; options: PipelineOptions }
+    | { id: number; type: 'cancel' };
+
+export type PipelineResponse =
+    | { id: number; type: 'progress'; stage: PipelineStage }
+    | { id: number; type: 'result'; diagram: ParsedDiagram }
+    | { id: number; type: 'error'; message: string };
+
+interface ProcessOptions extends PipelineOptions {
+    onProgress?: (stage: PipelineStage) => void;
+    signal?: AbortSignal;
+}
+
+/**
+ * Parse Mermaid source and lay it out (or merge it onto `current`); the work the worker does
+ */
+export async function processDiagram(code: string, { onProgress, signal, current, ...parseOptions }: ProcessOptions = {}): Promise<ParsedDiagram> {
+    onProgress?.('parsing');
+    const parsed = await parseMermaid(code, parseOptions);
+    signal?.throwIfAborted();
+
+    onProgress?.('layout');
+    const { nodes, edges } = current
+        ? mergeParsedDiagram(current, parsed)
+        : getLayoutedElements(parsed.nodes, parsed.edges, { direction: parsed.direction });
+    signal?.throwIfAborted();
+
+    return { ...parsed, nodes, edges };
+}
+
+interface PendingRequest {
+    id: number;
+    code: string;
+    options: PipelineOptions;
+    resolve: (diagram: ParsedDiagram | null) => void;
+    reject: (error: Error) => void;
+}
+
+export interface DiagramPipeline {
+    /** Parse and lay out `code`; resolves null if a newer request superseded this one */
+    run: (code: string, options?: PipelineOptions) => Promise<ParsedDiagram | null>;
+    /** Drop the request in flight, if any */
+    cancel: () => void;
+}
+
+interface PipelineConfig {
+    /** Stage of the current request, null once it settles */
+    onProgress?: (stage: PipelineStage | null) => void;
+    /** Worker factory; return null to run on the main thread */
+    createWorker?: () => Worker | null;
+}
+
+function createDefaultWorker(): Worker | null {
+    if (typeof Worker === 'undefined') return null;
+    return new Worker(new URL('./diagram.worker.ts', import.meta.url), { type: 'module' });
+}
+
+export function createDiagramPipeline({ onProgress, createWorker = createDefaultWorker }: PipelineConfig = {}): DiagramPipeline {
+    let worker: Worker | null | undefined;
+    let nextId = 1;
+    let pending: PendingRequest | null = null;
+    let inlineAbort: AbortController | null = null;
+
+    const settle = (request: PendingRequest, outcome: { diagram: ParsedDiagram | null } | { error: Error }) => {
+        if (pending !== request) return;
+        pending = null;
+        inlineAbort = null;
+        onProgress?.(null);
+        if ('error' in outcome) request.reject(outcome.error);
+        else request.resolve(outcome.diagram);
+    };
+
+    const runInline = (request: PendingRequest) => {
+        const abort = new AbortController();
+        inlineAbort = abort;
+        processDiagram(request.code, {
+            ...request.options,
+            signal: abort.signal,
+            onProgress: stage => {
+                if (pending === request) onProgress?.(stage);
+            },
+        }).then(
+            diagram => settle(request, { diagram }),
+            error => {
+                if (!abort.signal.aborted) settle(request, { error: error instanceof Error ? error : new Error(String(error)) });
+            },
+        );
+    };
+
+    // A worker that fails to load (or to clone a request) is dropped for good; work continues on the main thread
+    const dropWorker = (reason: unknown) => {
+        console.warn('[DiagramPipeline] Worker unavailable, running on the main thread:', reason);
+        worker?.terminate();
+        worker = null;
+        if (pending) runInline(pending);
+    };
+
+    const getWorker = (): Worker | null => {
+        if (worker !== undefined) return worker;
+        try {
+            worker = createWorker();
+        } catch (error) {
+            console.warn('[DiagramPipeline] Could not start worker:', error);
+            worker = null;
+        }
+        worker?.addEventListener('message', (event: MessageEvent<PipelineResponse>) => {
+            const response = event.data;
+            // Responses for superseded requests are stale
+            if (!pending || response.id !== pending.id) return;
+            if (response.type === 'progress') onProgress?.(response.stage);
+            else if (response.type === 'result') settle(pending, { diagram: response.diagram });
+            else settle(pending, { error: new Error(response.message) });
+        });
+        worker?.addEventListener('error', dropWorker);
+        return worker;
+    };
+
+    const cancel = () => {
+        if (!pending) return;
+        const request = pending;
+        if (worker) worker.postMessage({ id: request.id, type: 'cancel' } satisfies PipelineRequest);
+        inlineAbort?.abort();
+        settle(request, { diagram: null });
+    };
+
+    const run = (code: string, options: PipelineOptions = {}) => {
+        cancel();
+        return new Promise<ParsedDiagram | null>((resolve, reject) => {
+            const request: PendingRequest = { id: nextId++, code, options, resolve, reject };
+            pending = request;
+            const target = getWorker();
+            if (!target) {
+                runInline(request);
+                return;
+            }
+            try {
+                target.postMessage({ id: request.id, type: 'run', code, options } satisfies PipelineRequest);
+            } catch (error) {
+                dropWorker(error);
+            }
+        });
+    };
+
+    return { run, cancel };
+}
@@ -0,0 +1,10 @@
+import DOMPurify from 'dompurify';
+
+/**
+ * Lets Mermaid parse labels without a DOM, where DOMPurify has no `sanitize` of its own: labels pass
+ * through unchanged. Only for callers that treat labels as text, like the diagram worker.
+ */
+export function installDomlessSanitizer() {
+    if (DOMPurify.isSupported) return;
+    DOMPurify.sanitize = ((dirty: unknown) => String(dirty)) as typeof DOMPurify.sanitize;
+}
@@ -0,0 +1,424 @@
+import type { CSSProperties } from 'react';
+import type { Node, Edge } from '../store';
+import type { EdgeData, EdgeMarker, EdgeStroke, EdgeStyle } from '../types';
+import { getFlowLink } from './flowEdges';
+import { getNodeHeight, getNodeWidth } from './layoutEngine';
+import { resolveShapeName } from './shapes';
+import { GROUP_COLORS, createIdMapper, sortParentsFirst, toNodeMetadata, type ImportedDiagram } from './diagramImport';
+
+/**
+ * draw.io (diagrams.net) interchange.
+ * Diagrams are written as an `mxfile` holding one uncompressed `mxGraphModel`: nodes are vertices,
+ * groups are containers holding their children, edges keep their markers, stroke and bend points, and
+ * node metadata goes on an `<object>` wrapper as custom properties. `sysvisType` / `sysvisShape`
+ * style keys, which draw.io keeps but ignores, let node types and shapes without a draw.io
+ * counterpart survive a round trip.
+ */
+
+export interface DrawioExportOptions {
+    /** Edge routing to ask draw.io for, as on the canvas */
+    edgeStyle?: EdgeStyle;
+}
+
+const LAYER_ROOT = 'root';
+const LAYER = 'layer';
+
+// Our shapes as draw.io vertex styles, and the style keys that identify them on import
+const SHAPE_STYLES: Record<string, string> = {
+    rect: 'rounded=0',
+    rounded: 'rounded=1',
+    stadium: 'rounded=1;arcSize=50',
+    'fr-rect': 'shape=process;backgroundOutline=1',
+    text: 'text',
+    circle: 'ellipse',
+    'sm-circ': 'ellipse',
+    'f-circ': 'ellipse',
+    'dbl-circ': 'ellipse;shape=doubleEllipse',
+    cloud: 'ellipse;shape=cloud',
+    diam: 'rhombus',
+    hex: 'shape=hexagon;perimeter=hexagonPerimeter2;fixedSize=1',
+    'lean-r': 'shape=parallelogram;perimeter=parallelogramPerimeter;fixedSize=1',
+    'lean-l': 'shape=parallelogram;perimeter=parallelogramPerimeter;fixedSize=1;flipH=1',
+    'trap-t': 'shape=trapezoid;perimeter=trapezoidPerimeter;fixedSize=1',
+    'trap-b': 'shape=trapezoid;perimeter=trapezoidPerimeter;fixedSize=1;flipV=1',
+    tri: 'triangle;direction=north',
+    cyl: 'shape=cylinder3;boundedLbl=1;backgroundOutline=1;size=15',
+    doc: 'shape=document;boundedLbl=1',
+    docs: 'shape=document;boundedLbl=1',
+    'lin-doc': 'shape=document;boundedLbl=1',
+    'tag-doc': 'shape=document;boundedLbl=1',
+    'notch-pent': 'shape=offPageConnector',
+    delay: 'shape=delay',
+};
+
+const IMPORTED_SHAPES: Record<string, string> = {
+    ellipse: 'circle', doubleEllipse: 'dbl-circ', cloud: 'cloud', rhombus: 'diam', hexagon: 'hex', parallelogram: 'lean-r',
+    trapezoid: 'trap-t', triangle: 'tri', cylinder: 'cyl', cylinder3: 'cyl', datastore: 'cyl', document: 'doc', process: 'fr-rect',
+    offPageConnector: 'notch-pent', delay: 'delay', text: 'text',
+};
+
+// Node types the canvas draws without a Mermaid shape
+const TYPE_SHAPES: Record<string, string> = {
+    start: 'stadium', startNode: 'stadium', end: 'stadium', endNode: 'stadium',
+    decision: 'diam', decisionNode: 'diam', database: 'cyl', databaseNode: 'cyl',
+};
+
+// Edge markers as draw.io arrow names and whether they are filled
+const ARROWS: Record<Exclude<EdgeMarker, 'none'>, [arrow: string, fill: boolean]> = {
+    arrow: ['classic', true],
+    circle: ['oval', true],
+    cross: ['cross', false],
+    triangle: ['block', false],
+    diamond: ['diamond', false],
+    'filled-diamond': ['diamond', true],
+    lollipop: ['oval', false],
+    'zero-or-one': ['ERzeroToOne', false],
+    'exactly-one': ['ERmandOne', false],
+    'zero-or-many': ['ERzeroToMany', false],
+    'one-or-many': ['ERoneToMany', false],
+};
+
+// draw.io arrows with no marker of their own, read as the nearest one
+const ARROW_ALIASES: Record<string, EdgeMarker> = {
+    block: 'arrow', open: 'arrow', classicThin: 'arrow', openThin: 'arrow', blockThin: 'arrow', openAsync: 'arrow', async: 'arrow',
+    diamondThin: 'diamond', ERone: 'exactly-one', ERmany: 'zero-or-many', dash: 'cross',
+};
+
+const EDGE_STYLES: Record<EdgeStyle, string> = {
+    curved: 'edgeStyle=orthogonalEdgeStyle;curved=1',
+    straight: 'edgeStyle=orthogonalEdgeStyle;rounded=1',
+    orthogonal: 'edgeStyle=orthogonalEdgeStyle;rounded=1',
+};
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/\n/g, '&#10;');
+}
+
+function attrs(values: Record<string, string | number | undefined>): string {
+    return Object.entries(values)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+        .join('');
+}
+
+// Labels are written as HTML (html=1) so draw.io wraps them
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function toStyle(entries: (string | [string, string | number | undefined] | undefined)[]): string {
+    return entries
+        .filter(Boolean)
+        .map(entry => (Array.isArray(entry) ? (entry[1] === undefined || entry[1] === '' ? '' : `${entry[0]}=${entry[1]}`) : entry))
+        .filter(Boolean)
+        .join(';') + ';';
+}
+
+/**
+ * A draw.io style string as key/value pairs; bare words (`ellipse`, `swimlane`) map to ''
+ */
+export function parseDrawioStyle(style: string | null | undefined): Record<string, string> {
+    const entries: Record<string, string> = {};
+    (style || '').split(';').map(part => part.trim()).filter(Boolean).forEach(part => {
+        const at = part.indexOf('=');
+        if (at === -1) entries[part] = '';
+        else entries[part.slice(0, at)] = part.slice(at + 1);
+    });
+    return entries;
+}
+
+const cssString = (value: unknown) => (typeof value === 'string' || typeof value === 'number' ? String(value) : undefined);
+
+function getNodeStyle(node: Node): string {
+    const css = (node.data.style || {}) as CSSProperties;
+    const paint: [string, string | undefined][] = [
+        ['fillColor', cssString(css.background) ?? cssString(css.backgroundColor)],
+        ['strokeColor', cssString(css.borderColor)],
+        ['strokeWidth', cssString(css.borderWidth)?.replace('px', '')],
+        ['fontColor', cssString(css.color)],
+        ['dashed', css.borderStyle === 'dashed' ? '1' : undefined],
+    ];
+    if (node.type === 'group') {
+        return toStyle([
+            'swimlane', 'rounded=1', 'startSize=28', 'container=1', 'collapsible=0', 'html=1', 'whiteSpace=wrap',
+            ['fillColor', cssString(node.data.color) ?? GROUP_COLORS[0]], ['swimlaneFillColor', 'none'],
+            ...paint.filter(([key]) => key !== 'fillColor'),
+            ['sysvisType', 'group'],
+        ]);
+    }
+    const shape = resolveShapeName(node.data.shape as string | undefined);
+    const drawn = shape ?? TYPE_SHAPES[node.type || ''];
+    return toStyle([
+        (drawn && SHAPE_STYLES[drawn]) || 'rounded=1', 'whiteSpace=wrap', 'html=1',
+        ...paint,
+        ['sysvisType', node.type],
+        ['sysvisShape', shape],
+    ]);
+}
+
+function getArrowStyle(marker: EdgeMarker, end: 'start' | 'end'): string[] {
+    if (marker === 'none') return [`${end}Arrow=none`];
+    const [arrow, fill] = ARROWS[marker];
+    return [`${end}Arrow=${arrow}`, `${end}Fill=${fill ? 1 : 0}`];
+}
+
+function getEdgeStyle(edge: Edge, edgeStyle: EdgeStyle): string {
+    const link = getFlowLink(edge.data as EdgeData | undefined, edge.style);
+    const stroke = cssString(edge.style?.stroke);
+    return toStyle([
+        EDGE_STYLES[edgeStyle], 'html=1',
+        ...getArrowStyle(link.startMarker, 'start'),
+        ...getArrowStyle(link.endMarker, 'end'),
+        link.stroke === 'dotted' ? 'dashed=1' : undefined,
+        ['strokeWidth', link.stroke === 'thick' ? 3 : cssString(edge.style?.strokeWidth)],
+        ['strokeColor', link.stroke === 'invisible' ? 'none' : stroke],
+    ]);
+}
+
+/**
+ * Write nodes and edges as a draw.io file (`.drawio`)
+ */
+export function exportToDrawio(nodes: Node[], edges: Edge[], options: DrawioExportOptions = {}): string {
+    const { edgeStyle = 'curved' } = options;
+    const ids = new Set(nodes.map(n => n.id));
+    const cells: string[] = [`<mxCell id="${LAYER_ROOT}"/>`, `<mxCell id="${LAYER}" parent="${LAYER_ROOT}"/>`];
+
+    sortParentsFirst(nodes).forEach(node => {
+        const parent = node.parentId && ids.has(node.parentId) ? node.parentId : LAYER;
+        const geometry = `<mxGeometry${attrs({
+            x: Math.round(node.position.x), y: Math.round(node.position.y),
+            width: Math.round(getNodeWidth(node)), height: Math.round(getNodeHeight(node)),
+        })} as="geometry"/>`;
+        const label = escapeHtml(String(node.data.label ?? node.id));
+        const style = getNodeStyle(node);
+        const metadata = node.data.metadata;
+        if (metadata) {
+            // Custom properties sit on an <object> wrapping the cell, which then has no id or value of its own
+            cells.push(`<object${attrs({
+                label, id: node.id, techStack: metadata.techStack?.join(', '), role: metadata.role, description: metadata.description,
+            })}><mxCell${attrs({ style, vertex: 1, parent })}>${geometry}</mxCell></object>`);
+        } else {
+            cells.push(`<mxCell${attrs({ id: node.id, value: label, style, vertex: 1, parent })}>${geometry}</mxCell>`);
+        }
+    });
+
+    edges.forEach(edge => {
+        if (!ids.has(edge.source) || !ids.has(edge.target)) return;
+        // Bend points are in canvas coordinates, so edges live on the layer rather than in a group
+        const points = (edge.data as EdgeData | undefined)?.points;
+        const waypoints = points?.length
+            ? `<Array as="points">${points.map(p => `<mxPoint${attrs({ x: Math.round(p.x), y: Math.round(p.y) })}/>`).join('')}</Array>`
+            : '';
+        cells.push(`<mxCell${attrs({
+            id: ids.has(edge.id) ? `edge-${edge.id}` : edge.id,
+            value: edge.label ? escapeHtml(String(edge.label)) : undefined,
+            style: getEdgeStyle(edge, edgeStyle), edge: 1, parent: LAYER, source: edge.source, target: edge.target,
+        })}><mxGeometry relative="1" as="geometry">${waypoints}</mxGeometry></mxCell>`);
+    });
+
+    return [
+        '<mxfile host="SysVis.AI" type="device">',
+        '  <diagram id="diagram" name="Page-1">',
+        '    <mxGraphModel grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="0" pageScale="1" math="0" shadow="0">',
+        '      <root>',
+        ...cells.map(cell => `        ${cell}`),
+        '      </root>',
+        '    </mxGraphModel>',
+        '  </diagram>',
+        '</mxfile>',
+        '',
+    ].join('\n');
+}
+
+/**
+ * Whether text looks like a draw.io file or a bare `mxGraphModel`
+ */
+export function isDrawioFile(text: string): boolean {
+    return /<mxfile[\s>]|<mxGraphModel[\s>]/.test(text);
+}
+
+// Compressed pages are URI-encoded XML, raw-deflated and base64-encoded
+async function inflateDiagram(data: string): Promise<string> {
+    const bytes = Uint8Array.from(atob(data.replace(/\s+/g, '')), char => char.charCodeAt(0));
+    const stream = new Response(bytes).body!.pipeThrough(new DecompressionStream('deflate-raw'));
+    const text = await new Response(stream).text();
+    try {
+        return decodeURIComponent(text);
+    } catch {
+        return text;
+    }
+}
+
+function parseXml(text: string): Document {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.querySelector('parsererror')) throw new Error('Not a valid draw.io file: the XML could not be read');
+    return doc;
+}
+
+// Plain text of a label, which may be HTML when the cell style has html=1
+function toPlainText(value: string, isHtml: boolean): string {
+    if (!isHtml) return value.trim();
+    const html = value.replace(/<br\s*\/?>|<\/(div|p|li)>/gi, ' ');
+    const text = new DOMParser().parseFromString(html, 'text/html').body.textContent || '';
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function toMarker(style: Record<string, string>, end: 'start' | 'end'): EdgeMarker {
+    // Edges end in an arrow unless told otherwise, and start in none
+    const arrow = style[`${end}Arrow`] ?? (end === 'end' ? 'classic' : 'none');
+    if (!arrow || arrow === 'none') return 'none';
+    const filled = style[`${end}Fill`] !== '0';
+    const markers = Object.entries(ARROWS) as [Exclude<EdgeMarker, 'none'>, [string, boolean]][];
+    const exact = markers.find(([, [name, fill]]) => name === arrow && fill === filled);
+    return exact?.[0] ?? ARROW_ALIASES[arrow] ?? markers.find(([, [name]]) => name === arrow)?.[0] ?? 'arrow';
+}
+
+function toNodeCss(style: Record<string, string>): CSSProperties | undefined {
+    const css: CSSProperties = {};
+    const color = (value: string | undefined) => (value && value !== 'none' && value !== 'default' ? value : undefined);
+    if (color(style.fillColor)) css.background = style.fillColor;
+    if (color(style.strokeColor)) css.borderColor = style.strokeColor;
+    if (style.strokeWidth) css.borderWidth = `${style.strokeWidth}px`;
+    if (color(style.fontColor)) css.color = style.fontColor;
+    if (style.dashed === '1') css.borderStyle = 'dashed';
+    return Object.keys(css).length ? css : undefined;
+}
+
+interface DrawioCell {
+    id: string;
+    value: string;
+    style: Record<string, string>;
+    parent?: string;
+    vertex: boolean;
+    edge: boolean;
+    source?: string;
+    target?: string;
+    geometry?: Element;
+    properties: Record<string, string>;
+}
+
+function readCells(model: Element): DrawioCell[] {
+    return Array.from(model.querySelectorAll('root > mxCell, root > object, root > UserObject')).flatMap(element => {
+        // <object>/<UserObject> carry the id, label and custom properties of the cell inside them
+        const wrapper = element.tagName === 'mxCell' ? null : element;
+        const cell = wrapper ? wrapper.querySelector(':scope > mxCell') : element;
+        if (!cell) return [];
+        const properties: Record<string, string> = {};
+        if (wrapper) Array.from(wrapper.attributes).forEach(attribute => { properties[attribute.name] = attribute.value; });
+        return [{
+            id: (wrapper ?? cell).getAttribute('id') || '',
+            value: (wrapper ? wrapper.getAttribute('label') : cell.getAttribute('value')) || '',
+            style: parseDrawioStyle(cell.getAttribute('style')),
+            parent: cell.getAttribute('parent') || undefined,
+            vertex: cell.getAttribute('vertex') === '1',
+            edge: cell.getAttribute('edge') === '1',
+            source: cell.getAttribute('source') || undefined,
+            target: cell.getAttribute('target') || undefined,
+            geometry: cell.querySelector(':scope > mxGeometry') ?? undefined,
+            properties,
+        }];
+    });
+}
+
+const numberAttr = (element: Element | null | undefined, name: string) => Number(element?.getAttribute(name)) || 0;
+
+/**
+ * Read a draw.io file (or a bare `mxGraphModel`) into nodes and edges. Only the first page is read;
+ * compressed pages are inflated. Positions are kept, with children relative to their container.
+ */
+export async function importFromDrawio(text: string): Promise<ImportedDiagram> {
+    const doc = parseXml(text);
+    let model = doc.querySelector('mxGraphModel');
+    if (!model) {
+        const page = doc.querySelector('diagram');
+        if (!page?.textContent?.trim()) throw new Error('No diagram found in the draw.io file');
+        model = parseXml(await inflateDiagram(page.textContent)).querySelector('mxGraphModel');
+        if (!model) throw new Error('No diagram found in the draw.io file');
+    }
+
+    const cells = readCells(model);
+    const byId = new Map(cells.map(cell => [cell.id, cell]));
+    const toId = createIdMapper();
+    // Layers are the cells without a parent and their direct children that are neither vertex nor edge
+    const layers = new Set(cells.filter(cell => !cell.parent || (!cell.vertex && !cell.edge && !byId.get(cell.parent)?.parent)).map(cell => cell.id));
+    const edgeIds = new Set(cells.filter(cell => cell.edge).map(cell => cell.id));
+    const isLabelCell = (cell: DrawioCell) => !!cell.parent && edgeIds.has(cell.parent);
+    const vertices = cells.filter(cell => cell.vertex && !isLabelCell(cell));
+    const containers = new Set(vertices.filter(cell => cell.parent && !layers.has(cell.parent)).map(cell => cell.parent!));
+
+    // Position of a cell's coordinate origin on the canvas, for edge points inside containers
+    const originOf = (id: string | undefined): { x: number; y: number } => {
+        const cell = id ? byId.get(id) : undefined;
+        if (!cell || layers.has(cell.id) || !cell.vertex) return { x: 0, y: 0 };
+        const parent = originOf(cell.parent);
+        return { x: parent.x + numberAttr(cell.geometry, 'x'), y: parent.y + numberAttr(cell.geometry, 'y') };
+    };
+
+    let groupIndex = 0;
+    const nodes: Node[] = vertices.map(cell => {
+        const { style } = cell;
+        const label = toPlainText(cell.value, style.html === '1');
+        const position = { x: numberAttr(cell.geometry, 'x'), y: numberAttr(cell.geometry, 'y') };
+        const parentId = cell.parent && !layers.has(cell.parent) && byId.get(cell.parent)?.vertex ? toId(cell.parent) : undefined;
+        const size = { width: numberAttr(cell.geometry, 'width'), height: numberAttr(cell.geometry, 'height') };
+        const metadata = toNodeMetadata(cell.properties);
+        const isGroup = style.sysvisType === 'group' || 'swimlane' in style || style.container === '1' || 'group' in style || containers.has(cell.id);
+
+        if (isGroup) {
+            return {
+                id: toId(cell.id), type: 'group', position, parentId, extent: parentId ? 'parent' as const : undefined,
+                data: { label, color: style.fillColor && style.fillColor !== 'none' ? style.fillColor : GROUP_COLORS[groupIndex++ % GROUP_COLORS.length], metadata },
+                style: { width: size.width, height: size.height },
+            };
+        }
+
+        const base = Object.keys(style).find(key => style[key] === '' && IMPORTED_SHAPES[key]);
+        const shape = style.sysvisShape || IMPORTED_SHAPES[style.shape] || (base && IMPORTED_SHAPES[base])
+            || (style.rounded === '1' && style.arcSize === '50' ? 'stadium' : undefined);
+        let type = style.sysvisType;
+        if (!type) {
+            if (shape === 'diam') type = 'decision';
+            else if (shape === 'cyl') type = 'database';
+            else type = shape ? 'custom-shape' : 'default';
+        }
+        return {
+            id: toId(cell.id), type, position, parentId, extent: parentId ? 'parent' as const : undefined,
+            data: {
+                label,
+                category: 'filter-other',
+                // Typed nodes draw their own shape
+                shape: type === 'custom-shape' || style.sysvisShape ? shape : undefined,
+                style: toNodeCss(style),
+                metadata,
+            },
+        };
+    });
+    const nodeIds = new Set(nodes.map(n => n.id));
+
+    const edges: Edge[] = cells.filter(cell => cell.edge && cell.source && cell.target).flatMap((cell, i) => {
+        const source = toId(cell.source!);
+        const target = toId(cell.target!);
+        if (!nodeIds.has(source) || !nodeIds.has(target)) return [];
+        const { style } = cell;
+        const labelCell = cells.find(other => other.parent === cell.id && other.value);
+        const label = toPlainText(cell.value || labelCell?.value || '', (cell.value ? style.html : labelCell?.style.html) === '1');
+        const stroke: EdgeStroke = style.strokeColor === 'none' ? 'invisible' : style.dashed === '1' ? 'dotted' : Number(style.strokeWidth) >= 3 ? 'thick' : 'normal';
+        const origin = originOf(cell.parent);
+        const points = Array.from(cell.geometry?.querySelectorAll(':scope > Array[as="points"] > mxPoint') ?? [])
+            .map(point => ({ x: origin.x + numberAttr(point, 'x'), y: origin.y + numberAttr(point, 'y') }));
+        const data: EdgeData = { stroke, startMarker: toMarker(style, 'start'), endMarker: toMarker(style, 'end'), length: 1 };
+        if (points.length) data.points = points;
+        const color = style.strokeColor && style.strokeColor !== 'none' && style.strokeColor !== 'default' ? style.strokeColor : undefined;
+        return [{
+            id: `e${i}-${source}-${target}`,
+            source, target,
+            label: label || undefined,
+            animated: stroke === 'dotted',
+            style: color ? { stroke: color } : {},
+            data,
+        }];
+    });
+
+    console.log(`[Drawio] Imported ${nodes.length} nodes, ${edges.length} edges`);
+    return { nodes: sortParentsFirst(nodes), edges };
+}
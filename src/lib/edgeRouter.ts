@@ -0,0 +1,334 @@
+import type { Node, Edge } from '../store';
+import { getHandlePoint, getNodeBounds, type HandleSide, type NodeBounds } from './layoutEngine';
+
+/**
+ * Orthogonal (Manhattan) edge routing.
+ * An edge leaves its source handle, runs in horizontal and vertical segments around the nodes
+ * and group boxes it does not belong to, and enters its target handle. Routes are searched on a
+ * sparse grid made of the obstacle borders, preferring short routes with few bends.
+ */
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface RouteEnd {
+    point: Point;
+    side: HandleSide;
+}
+
+const ROUTE_MARGIN = 20;  // Clearance kept around nodes and group boxes
+const BEND_PENALTY = 40;  // Cost of a bend, in pixels of route length
+const CORRIDOR = 160;     // Room a route may take around the box between its ends, doubled while no route fits
+const ROUTE_CHUNK = 25;   // Edges routed between breaks by routeOrthogonalEdgesInChunks
+
+// Right, down, left, up; opposite directions are two apart
+const STEPS: Point[] = [{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 0, y: -1 }];
+const SIDE_STEP: Record<HandleSide, number> = { right: 0, bottom: 1, left: 2, top: 3 };
+
+function inflate(rect: NodeBounds, by: number): NodeBounds {
+    return { left: rect.left - by, top: rect.top - by, right: rect.right + by, bottom: rect.bottom + by };
+}
+
+function intersects(a: NodeBounds, b: NodeBounds): boolean {
+    return a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+}
+
+function isInside(point: Point, rect: NodeBounds): boolean {
+    return rect.left < point.x && point.x < rect.right && rect.top < point.y && point.y < rect.bottom;
+}
+
+// Drop repeated points and points in the middle of a straight run
+function simplify(points: Point[]): Point[] {
+    const result: Point[] = [];
+    for (const point of points) {
+        const last = result[result.length - 1];
+        if (last && last.x === point.x && last.y === point.y) continue;
+        const before = result[result.length - 2];
+        if (before && last && ((before.x === last.x && last.x === point.x) || (before.y === last.y && last.y === point.y))) {
+            result[result.length - 1] = point;
+        } else {
+            result.push(point);
+        }
+    }
+    return result;
+}
+
+// Index of the first value above `value` (or at it, with `inclusive`) in ascending `values`
+function search(values: number[], value: number, inclusive = false): number {
+    let low = 0;
+    let high = values.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (values[middle] < value || (!inclusive && values[middle] === value)) low = middle + 1;
+        else high = middle;
+    }
+    return low;
+}
+
+/**
+ * Bend points of an orthogonal route between two handles around `obstacles`, or null when the
+ * handles are boxed in. The handles themselves are not included.
+ */
+export function routeOrthogonalEdge(from: RouteEnd, to: RouteEnd, obstacles: NodeBounds[]): Point[] | null {
+    const leave = SIDE_STEP[from.side];
+    const enter = (SIDE_STEP[to.side] + 2) % 4;
+    const start = { x: from.point.x + STEPS[leave].x * ROUTE_MARGIN, y: from.point.y + STEPS[leave].y * ROUTE_MARGIN };
+    const end = { x: to.point.x - STEPS[enter].x * ROUTE_MARGIN, y: to.point.y - STEPS[enter].y * ROUTE_MARGIN };
+    if (obstacles.some(rect => isInside(start, rect) || isInside(end, rect))) return null;
+
+    // Search a corridor around the ends first and widen it until a route fits or it holds every obstacle
+    const ends: NodeBounds = { left: Math.min(start.x, end.x), top: Math.min(start.y, end.y), right: Math.max(start.x, end.x), bottom: Math.max(start.y, end.y) };
+    const all = obstacles.reduce((bounds, rect) => ({
+        left: Math.min(bounds.left, rect.left), top: Math.min(bounds.top, rect.top),
+        right: Math.max(bounds.right, rect.right), bottom: Math.max(bounds.bottom, rect.bottom),
+    }), ends);
+    for (let margin = CORRIDOR; ; margin *= 2) {
+        const area = inflate(ends, margin);
+        const route = searchRoute(start, end, leave, enter, area, obstacles.filter(rect => intersects(rect, area)));
+        if (route) return simplify([from.point, ...route, to.point]).slice(1, -1);
+        if (area.left < all.left && area.top < all.top && area.right > all.right && area.bottom > all.bottom) return null;
+    }
+}
+
+// Cheapest route from `start` to `end` that stays in `area`, on the grid of the area and obstacle borders
+function searchRoute(start: Point, end: Point, leave: number, enter: number, area: NodeBounds, obstacles: NodeBounds[]): Point[] | null {
+    const axis = (pick: (p: Point) => number, low: keyof NodeBounds, high: keyof NodeBounds) => [...new Set([
+        pick(start), pick(end), (pick(start) + pick(end)) / 2, area[low], area[high],
+        ...obstacles.flatMap(rect => [rect[low], rect[high]]),
+    ])].filter(value => value >= area[low] && value <= area[high]).sort((a, b) => a - b);
+    const xs = axis(p => p.x, 'left', 'right');
+    const ys = axis(p => p.y, 'top', 'bottom');
+    const columns = xs.length;
+    const rows = ys.length;
+
+    // Grid points inside an obstacle, and grid steps through one, worked out once per search. Every
+    // obstacle border in the area is a grid line, so a step goes through an obstacle exactly when it
+    // runs strictly between its borders on one axis and spans part of it on the other.
+    const blocked = new Uint8Array(columns * rows);
+    const blockedAcross = new Uint8Array(columns * rows);  // From a point to the one on its right
+    const blockedDown = new Uint8Array(columns * rows);    // From a point to the one below it
+    for (const rect of obstacles) {
+        const [insideLeft, insideRight] = [search(xs, rect.left), search(xs, rect.right, true)];
+        const [insideTop, insideBottom] = [search(ys, rect.top), search(ys, rect.bottom, true)];
+        const [spanLeft, spanRight] = [search(xs, rect.left, true), search(xs, rect.right)];
+        const [spanTop, spanBottom] = [search(ys, rect.top, true), search(ys, rect.bottom)];
+        for (let row = insideTop; row < insideBottom; row++) {
+            for (let column = insideLeft; column < insideRight; column++) blocked[row * columns + column] = 1;
+            for (let column = spanLeft; column < spanRight - 1; column++) blockedAcross[row * columns + column] = 1;
+        }
+        for (let row = spanTop; row < spanBottom - 1; row++) {
+            for (let column = insideLeft; column < insideRight; column++) blockedDown[row * columns + column] = 1;
+        }
+    }
+    const isOpen = (column: number, row: number, direction: number) => {
+        switch (direction) {
+            case 0: return !blockedAcross[row * columns + column];
+            case 1: return !blockedDown[row * columns + column];
+            case 2: return !blockedAcross[row * columns + column - 1];
+            default: return !blockedDown[(row - 1) * columns + column];
+        }
+    };
+
+    // Dijkstra over (grid point, heading) so bends can be charged for
+    const startCell = ys.indexOf(start.y) * columns + xs.indexOf(start.x);
+    const endCell = ys.indexOf(end.y) * columns + xs.indexOf(end.x);
+    const cost = new Float64Array(columns * rows * 4).fill(Infinity);
+    const previous = new Int32Array(cost.length).fill(-1);
+    const queue = new MinQueue();
+    cost[startCell * 4 + leave] = 0;
+    queue.push(startCell * 4 + leave, 0);
+
+    let best = Infinity;
+    let bestState = -1;
+    while (queue.size > 0) {
+        const [state, stateCost] = queue.pop();
+        if (stateCost > cost[state]) continue;
+        if (stateCost >= best) break;
+        const cell = state >> 2;
+        const heading = state & 3;
+        if (cell === endCell) {
+            const total = stateCost + (heading === enter ? 0 : BEND_PENALTY);
+            if (total < best) {
+                best = total;
+                bestState = state;
+            }
+            continue;
+        }
+
+        const column = cell % columns;
+        const row = Math.floor(cell / columns);
+        for (let direction = 0; direction < 4; direction++) {
+            if (direction === (heading + 2) % 4) continue;
+            const nextColumn = column + STEPS[direction].x;
+            const nextRow = row + STEPS[direction].y;
+            if (nextColumn < 0 || nextColumn >= columns || nextRow < 0 || nextRow >= rows) continue;
+            const next = nextRow * columns + nextColumn;
+            if (blocked[next] || !isOpen(column, row, direction)) continue;
+            const nextState = next * 4 + direction;
+            const nextCost = stateCost + Math.abs(xs[nextColumn] - xs[column]) + Math.abs(ys[nextRow] - ys[row])
+                + (direction === heading ? 0 : BEND_PENALTY);
+            if (nextCost < cost[nextState]) {
+                cost[nextState] = nextCost;
+                previous[nextState] = state;
+                queue.push(nextState, nextCost);
+            }
+        }
+    }
+    if (bestState < 0) return null;
+
+    const route: Point[] = [];
+    for (let state = bestState; state >= 0; state = previous[state]) {
+        const cell = state >> 2;
+        route.unshift({ x: xs[cell % columns], y: ys[Math.floor(cell / columns)] });
+    }
+    return route;
+}
+
+function getAncestors(node: Node, byId: Map<string, Node>): string[] {
+    const ancestors: string[] = [];
+    for (let parent = node.parentId; parent && !ancestors.includes(parent); parent = byId.get(parent)?.parentId) {
+        ancestors.push(parent);
+    }
+    return ancestors;
+}
+
+// Routes one edge at a time around the visible nodes, or leaves it as it is when it is not to be routed
+function createEdgeRouter(nodes: Node[], moved?: Set<string>): (edge: Edge) => Edge {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const rects = getNodeBounds(nodes);
+    const obstacles = nodes.filter(n => !n.hidden).map(n => ({ id: n.id, rect: inflate(rects.get(n.id)!, ROUTE_MARGIN) }));
+    const isMoved = (node: Node) => !moved || moved.has(node.id) || getAncestors(node, byId).some(id => moved.has(id));
+
+    return edge => {
+        const source = byId.get(edge.source);
+        const target = byId.get(edge.target);
+        // Sequence messages are drawn on their own rows; self-loops keep the default path
+        if (!source || !target || source === target || edge.type === 'message') return edge;
+        if (!isMoved(source) && !isMoved(target)) return edge;
+
+        const inside = new Set([source.id, target.id, ...getAncestors(source, byId), ...getAncestors(target, byId)]);
+        const sourceSide = (source.sourcePosition || 'bottom') as HandleSide;
+        const targetSide = (target.targetPosition || 'top') as HandleSide;
+        const points = routeOrthogonalEdge(
+            { point: getHandlePoint(rects.get(source.id)!, sourceSide), side: sourceSide },
+            { point: getHandlePoint(rects.get(target.id)!, targetSide), side: targetSide },
+            obstacles.filter(obstacle => !inside.has(obstacle.id)).map(obstacle => obstacle.rect),
+        );
+        return { ...edge, data: { ...edge.data, points: points ?? undefined } };
+    };
+}
+
+/**
+ * Route every edge orthogonally around the visible nodes, storing the bend points on `data.points`.
+ * Groups are obstacles except for edges starting or ending inside them. With `moved`, only edges
+ * attached to those nodes (or to nodes inside them) are routed and the rest are returned as they are.
+ */
+export function routeOrthogonalEdges(nodes: Node[], edges: Edge[], moved?: Set<string>): Edge[] {
+    return edges.map(createEdgeRouter(nodes, moved));
+}
+
+/**
+ * routeOrthogonalEdges for whole diagrams, a slice of edges at a time with a break for the page
+ * in between. Throws once `signal` is aborted.
+ */
+export async function routeOrthogonalEdgesInChunks(nodes: Node[], edges: Edge[], signal?: AbortSignal, chunkSize = ROUTE_CHUNK): Promise<Edge[]> {
+    const route = createEdgeRouter(nodes);
+    const routed: Edge[] = [];
+    for (let i = 0; i < edges.length; i += chunkSize) {
+        if (i > 0) await new Promise(resolve => setTimeout(resolve, 0));
+        signal?.throwIfAborted();
+        routed.push(...edges.slice(i, i + chunkSize).map(route));
+    }
+    return routed;
+}
+
+/**
+ * Fingerprint of everything the routes depend on (node boxes, handles, visibility and edge ends),
+ * to tell when routes stored on the edges are out of date
+ */
+export function getRoutingKey(nodes: Node[], edges: Edge[]): string {
+    const rects = getNodeBounds(nodes);
+    const boxes = nodes.map(n => {
+        const { left, top, right, bottom } = rects.get(n.id)!;
+        return `${n.id}${n.hidden ? '!' : ''}:${left},${top},${right},${bottom},${n.sourcePosition ?? ''},${n.targetPosition ?? ''}`;
+    });
+    const links = edges.map(e => `${e.id}:${e.source}>${e.target}:${e.type ?? ''}`);
+    return [...boxes, ...links].join('|');
+}
+
+/**
+ * SVG path through `points` with rounded corners, plus the point halfway along it for the label.
+ * Neighbouring points that are not in line (the rendered handle is a little off the routed one) get a corner between them.
+ */
+export function getOrthogonalPath(points: Point[], radius = 8): [path: string, labelX: number, labelY: number] {
+    const line = simplify(points.flatMap((point, i) => {
+        const last = points[i - 1];
+        return last && last.x !== point.x && last.y !== point.y ? [{ x: point.x, y: last.y }, point] : [point];
+    }));
+
+    let path = `M ${line[0].x} ${line[0].y}`;
+    for (let i = 1; i < line.length - 1; i++) {
+        const [a, corner, b] = [line[i - 1], line[i], line[i + 1]];
+        const inLength = Math.abs(corner.x - a.x) + Math.abs(corner.y - a.y);
+        const outLength = Math.abs(b.x - corner.x) + Math.abs(b.y - corner.y);
+        const r = Math.min(radius, inLength / 2, outLength / 2);
+        const before = { x: corner.x - Math.sign(corner.x - a.x) * r, y: corner.y - Math.sign(corner.y - a.y) * r };
+        const after = { x: corner.x + Math.sign(b.x - corner.x) * r, y: corner.y + Math.sign(b.y - corner.y) * r };
+        path += ` L ${before.x} ${before.y} Q ${corner.x} ${corner.y} ${after.x} ${after.y}`;
+    }
+    const last = line[line.length - 1];
+    if (line.length > 1) path += ` L ${last.x} ${last.y}`;
+
+    const lengths = line.slice(1).map((point, i) => Math.abs(point.x - line[i].x) + Math.abs(point.y - line[i].y));
+    let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+    for (let i = 0; i < lengths.length; i++) {
+        if (remaining <= lengths[i]) {
+            const t = lengths[i] ? remaining / lengths[i] : 0;
+            return [path, line[i].x + (line[i + 1].x - line[i].x) * t, line[i].y + (line[i + 1].y - line[i].y) * t];
+        }
+        remaining -= lengths[i];
+    }
+    return [path, last.x, last.y];
+}
+
+// Binary heap of search states keyed by cost
+class MinQueue {
+    private items: [state: number, cost: number][] = [];
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    push(state: number, cost: number) {
+        const items = this.items;
+        items.push([state, cost]);
+        for (let i = items.length - 1; i > 0;) {
+            const parent = (i - 1) >> 1;
+            if (items[parent][1] <= items[i][1]) break;
+            [items[parent], items[i]] = [items[i], items[parent]];
+            i = parent;
+        }
+    }
+
+    pop(): [number, number] {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop()!;
+        if (items.length > 0) {
+            items[0] = last;
+            for (let i = 0; ;) {
+                const left = i * 2 + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < items.length && items[left][1] < items[smallest][1]) smallest = left;
+                if (right < items.length && items[right][1] < items[smallest][1]) smallest = right;
+                if (smallest === i) break;
+                [items[smallest], items[i]] = [items[i], items[smallest]];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+}
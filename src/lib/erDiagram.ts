@@ -0,0 +1,185 @@
+import type { Node, Edge } from '../store';
+import type { EdgeMarker } from '../types';
+
+export type ErKey = 'PK' | 'FK' | 'UK';
+
+export interface ErAttribute {
+    type: string;
+    name: string;
+    keys: ErKey[];
+    comment?: string;
+}
+
+// Sizing used by the layout engine so attribute rows don't overlap neighbours
+const ENTITY_HEADER_HEIGHT = 40;
+const ENTITY_ROW_HEIGHT = 22;
+const ENTITY_PADDING = 8;
+const ENTITY_CHAR_WIDTH = 7;
+const ENTITY_MIN_WIDTH = 180;
+
+// Left-hand tokens describe the source end, right-hand tokens the target end
+const CARDINALITIES: Record<string, EdgeMarker> = {
+    '|o': 'zero-or-one',
+    'o|': 'zero-or-one',
+    '||': 'exactly-one',
+    '}o': 'zero-or-many',
+    'o{': 'zero-or-many',
+    '}|': 'one-or-many',
+    '|{': 'one-or-many',
+};
+
+// The word forms Mermaid accepts for each cardinality, on either end
+const WORD_CARDINALITIES: Record<string, EdgeMarker> = {
+    'zero or one': 'zero-or-one',
+    'one or zero': 'zero-or-one',
+    'only one': 'exactly-one',
+    '1': 'exactly-one',
+    'zero or more': 'zero-or-many',
+    'zero or many': 'zero-or-many',
+    'many(0)': 'zero-or-many',
+    '0+': 'zero-or-many',
+    'one or more': 'one-or-many',
+    'one or many': 'one-or-many',
+    'many(1)': 'one-or-many',
+    '1+': 'one-or-many',
+};
+
+// Entity names are bare words or quoted strings ("Customer Account")
+const ENTITY_NAME = '("[^"]+"|[^\\s{["]+)';
+const WORD_CARDINALITY = 'zero\\s+or\\s+(?:one|more|many)|one\\s+or\\s+(?:zero|more|many)|only\\s+one|many\\([01]\\)|[01]\\+|1';
+
+// CUSTOMER ||--o{ ORDER : places, CAR one or more to zero or one DRIVER : drives;
+// `to` is an identifying line like --, `optionally to`, .- and -. are dashed like ..
+const RELATIONSHIP_REGEX = new RegExp(
+    `^${ENTITY_NAME}\\s*(\\|o|\\|\\||\\}o|\\}\\||${WORD_CARDINALITY})\\s*(--|\\.\\.|\\.-|-\\.|optionally\\s+to|to)\\s*` +
+    `(o\\||\\|\\||o\\{|\\|\\{|${WORD_CARDINALITY})\\s*${ENTITY_NAME}\\s*:\\s*(.+)$`, 'i');
+const ENTITY_REGEX = new RegExp(`^${ENTITY_NAME}\\s*(?:\\[\\s*"?([^"\\]]*)"?\\s*\\])?\\s*(\\{)?\\s*(\\})?$`);
+const ATTRIBUTE_REGEX = /^(\S+)\s+(\S+)(?:\s+((?:PK|FK|UK)(?:\s*,\s*(?:PK|FK|UK))*))?(?:\s+"([^"]*)")?$/;
+
+const toCardinality = (token: string): EdgeMarker => {
+    const normalized = token.toLowerCase().replace(/\s+/g, ' ');
+    return CARDINALITIES[normalized] ?? WORD_CARDINALITIES[normalized];
+};
+
+const toEntityName = (name: string) => name.replace(/^"(.*)"$/, '$1');
+
+/**
+ * True when the given Mermaid source is an `erDiagram`
+ */
+export function isErDiagram(code: string): boolean {
+    const header = code.split('\n').map(l => l.trim()).find(l => l && !l.startsWith('%%'));
+    return /^erDiagram\b/.test(header || '');
+}
+
+/**
+ * Parse a single attribute line (e.g. `string email UK "login name"`)
+ */
+export function parseErAttribute(raw: string): ErAttribute | null {
+    const match = raw.trim().match(ATTRIBUTE_REGEX);
+    if (!match) return null;
+    const [, type, name, keys, comment] = match;
+    return {
+        type,
+        name,
+        keys: keys ? keys.split(',').map(k => k.trim() as ErKey) : [],
+        comment: comment || undefined,
+    };
+}
+
+/**
+ * Estimate the rendered size of an entity node from its attribute rows
+ */
+export function estimateEntityNodeSize(data: Node['data']): { width: number; height: number } {
+    const attributes = (data.attributes as ErAttribute[]) || [];
+    const rowLengths = attributes.map(a => a.type.length + a.name.length + a.keys.join(',').length + 4);
+    const longest = Math.max(String(data.label || '').length, ...rowLengths);
+
+    return {
+        width: Math.max(ENTITY_MIN_WIDTH, longest * ENTITY_CHAR_WIDTH + 32),
+        height: ENTITY_HEADER_HEIGHT + attributes.length * ENTITY_ROW_HEIGHT + ENTITY_PADDING * 2,
+    };
+}
+
+/**
+ * Parse an `erDiagram` into table-style entity nodes and relationship edges
+ * whose start/end markers carry the crow's-foot cardinality.
+ */
+export function parseErDiagram(code: string): { nodes: Node[]; edges: Edge[] } {
+    const lines = code.split('\n').map(l => l.trim()).filter(l => l && !l.startsWith('%%'));
+
+    const entities = new Map<string, Node>();
+    const edges: Edge[] = [];
+    let openEntity: Node | null = null;
+
+    const ensureEntity = (id: string) => {
+        let node = entities.get(id);
+        if (!node) {
+            node = {
+                id,
+                type: 'erEntity',
+                position: { x: 0, y: 0 },
+                data: {
+                    label: id,
+                    attributes: [] as ErAttribute[],
+                    category: 'filter-db',
+                },
+            };
+            entities.set(id, node);
+        }
+        return node;
+    };
+
+    for (const line of lines) {
+        if (/^erDiagram\b/i.test(line)) continue;
+
+        // Entity body: every line until the closing brace is an attribute
+        if (openEntity) {
+            if (line === '}') {
+                openEntity = null;
+            } else {
+                const attribute = parseErAttribute(line);
+                if (attribute) (openEntity.data.attributes as ErAttribute[]).push(attribute);
+            }
+            continue;
+        }
+
+        if (/^(direction|style|classDef|class|title|accTitle|accDescr)\b/i.test(line)) continue;
+
+        const relationshipMatch = line.match(RELATIONSHIP_REGEX);
+        if (relationshipMatch) {
+            const [, left, leftCardinality, lineToken, rightCardinality, right, label] = relationshipMatch;
+            const source = ensureEntity(toEntityName(left)).id;
+            const target = ensureEntity(toEntityName(right)).id;
+            const identifying = lineToken === '--' || lineToken.toLowerCase() === 'to';
+
+            edges.push({
+                id: `rel-${source}-${target}-${edges.length}`,
+                source,
+                target,
+                label: label.trim().replace(/^"(.*)"$/, '$1') || undefined,
+                style: {
+                    strokeWidth: 2,
+                    strokeDasharray: identifying ? undefined : '5,5',
+                },
+                data: {
+                    startMarker: toCardinality(leftCardinality),
+                    endMarker: toCardinality(rightCardinality),
+                    identifying,
+                },
+            });
+            continue;
+        }
+
+        const entityMatch = line.match(ENTITY_REGEX);
+        if (entityMatch) {
+            const [, id, alias, openBrace, closeBrace] = entityMatch;
+            const node = ensureEntity(toEntityName(id));
+            if (alias) node.data.label = alias;
+            if (openBrace && !closeBrace) openEntity = node;
+        }
+    }
+
+    const nodes = Array.from(entities.values());
+    console.log(`[MermaidParser] ER diagram: ${nodes.length} entities, ${edges.length} relationships`);
+    return { nodes, edges };
+}
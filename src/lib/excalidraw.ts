@@ -0,0 +1,504 @@
+import type { CSSProperties } from 'react';
+import type { Node, Edge } from '../store';
+import type { EdgeData, EdgeMarker, EdgeStroke, EdgeStyle, NodeMetadata } from '../types';
+import { getFlowLink } from './flowEdges';
+import { getHandlePoint, getLayoutedElements, getNodeBounds, type HandleSide, type NodeBounds } from './layoutEngine';
+import { routeOrthogonalEdges, type Point } from './edgeRouter';
+import { measureText, wrapText, type TextStyle } from './nodeSizing';
+import { resolveShapeName } from './shapes';
+import { GROUP_COLORS, createIdMapper, sortParentsFirst, toNodeMetadata, type ImportedDiagram } from './diagramImport';
+
+/**
+ * Excalidraw interchange.
+ * Diagrams are written as a hand-drawn scene: nodes become rectangles, ellipses or diamonds with their
+ * label bound inside, groups become dashed boxes whose members share an Excalidraw group, and edges
+ * become arrows bound to both ends. Node types, shapes and metadata go on `customData`, which
+ * Excalidraw keeps, so they survive a round trip.
+ */
+
+export interface ExcalidrawExportOptions {
+    /** Edge routing to draw the arrows with, as on the canvas */
+    edgeStyle?: EdgeStyle;
+}
+
+// The fields of a scene element read and written here; Excalidraw fills in the rest on load
+interface ExcalidrawElement {
+    id: string;
+    type: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    strokeColor?: string;
+    backgroundColor?: string;
+    strokeStyle?: string;
+    strokeWidth?: number;
+    opacity?: number;
+    isDeleted?: boolean;
+    groupIds?: string[];
+    frameId?: string | null;
+    roundness?: { type: number } | null;
+    boundElements?: { id: string; type: string }[] | null;
+    name?: string | null;
+    text?: string;
+    originalText?: string;
+    containerId?: string | null;
+    points?: [number, number][];
+    startBinding?: { elementId: string; focus?: number; gap?: number } | null;
+    endBinding?: { elementId: string; focus?: number; gap?: number } | null;
+    startArrowhead?: string | null;
+    endArrowhead?: string | null;
+    customData?: Record<string, unknown>;
+    [key: string]: unknown;
+}
+
+const INK = '#1e1e1e';
+const FONT_SIZE = 20;
+const LABEL_FONT_SIZE = 16;
+const LINE_HEIGHT = 1.25;
+// Virgil, the hand-drawn font, runs wider than the Inter the text is measured in
+const VIRGIL_WIDTH = 1.15;
+const TEXT_PADDING = 10;
+const BINDING_GAP = 4;
+// How far outside a shape an unbound arrow end may stop and still be read as attached to it
+const ATTACH_DISTANCE = 24;
+
+const ROUNDED = { type: 3 };
+const CURVED = { type: 2 };
+const ELLIPSE_SHAPES = new Set(['circle', 'sm-circ', 'f-circ', 'dbl-circ', 'cloud']);
+const SHAPE_TYPES = new Set(['rectangle', 'ellipse', 'diamond']);
+const FRAME_TYPES = new Set(['frame', 'magicframe']);
+
+// Edge markers as Excalidraw arrowheads, and arrowheads read back as markers
+const ARROWHEADS: Record<Exclude<EdgeMarker, 'none'>, string> = {
+    arrow: 'arrow',
+    circle: 'circle',
+    cross: 'bar',
+    triangle: 'triangle_outline',
+    diamond: 'diamond_outline',
+    'filled-diamond': 'diamond',
+    lollipop: 'circle_outline',
+    'zero-or-one': 'crowfoot_one',
+    'exactly-one': 'crowfoot_one',
+    'zero-or-many': 'crowfoot_many',
+    'one-or-many': 'crowfoot_one_or_many',
+};
+
+const IMPORTED_ARROWHEADS: Record<string, EdgeMarker> = {
+    arrow: 'arrow', bar: 'cross', dot: 'circle', circle: 'circle', circle_outline: 'lollipop',
+    triangle: 'arrow', triangle_outline: 'triangle', diamond: 'filled-diamond', diamond_outline: 'diamond',
+    crowfoot_one: 'exactly-one', crowfoot_many: 'zero-or-many', crowfoot_one_or_many: 'one-or-many',
+};
+
+// Same seed for the same id, so exporting an unchanged diagram draws the same strokes
+function getSeed(id: string): number {
+    let hash = 2166136261;
+    for (let i = 0; i < id.length; i++) hash = Math.imul(hash ^ id.charCodeAt(i), 16777619);
+    return (hash >>> 0) % 2147483647 || 1;
+}
+
+function createElement(id: string, type: string, box: NodeBounds, properties: Partial<ExcalidrawElement> = {}): ExcalidrawElement {
+    const seed = getSeed(id);
+    return {
+        id, type,
+        x: box.left, y: box.top, width: box.right - box.left, height: box.bottom - box.top,
+        angle: 0,
+        strokeColor: INK,
+        backgroundColor: 'transparent',
+        fillStyle: 'hachure',
+        strokeWidth: 2,
+        strokeStyle: 'solid',
+        roughness: 1,
+        opacity: 100,
+        groupIds: [],
+        frameId: null,
+        roundness: null,
+        seed,
+        version: 1,
+        versionNonce: seed,
+        isDeleted: false,
+        boundElements: null,
+        updated: 1,
+        link: null,
+        locked: false,
+        ...properties,
+    };
+}
+
+// Text centred on (x, y), wrapped to `maxWidth`
+function createText(id: string, text: string, center: Point, maxWidth: number, properties: Partial<ExcalidrawElement> & { fontSize?: number } = {}): ExcalidrawElement {
+    const fontSize = properties.fontSize ?? FONT_SIZE;
+    const style: TextStyle = { size: fontSize * VIRGIL_WIDTH, weight: 400 };
+    const lines = text.split('\n').flatMap(line => wrapText(line, style, maxWidth));
+    const width = Math.ceil(Math.max(...lines.map(line => measureText(line, style))));
+    const height = Math.ceil(lines.length * fontSize * LINE_HEIGHT);
+    return createElement(id, 'text', {
+        left: center.x - width / 2, top: center.y - height / 2, right: center.x + width / 2, bottom: center.y + height / 2,
+    }, {
+        strokeWidth: 1,
+        text: lines.join('\n'),
+        originalText: text,
+        fontSize,
+        fontFamily: 1,
+        textAlign: 'center',
+        verticalAlign: 'middle',
+        containerId: null,
+        autoResize: true,
+        lineHeight: LINE_HEIGHT,
+        ...properties,
+    });
+}
+
+const cssColor = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+function getShapeType(node: Node): string {
+    const shape = resolveShapeName(node.data.shape as string | undefined);
+    if (shape === 'diam' || node.type === 'decision') return 'diamond';
+    return shape && ELLIPSE_SHAPES.has(shape) ? 'ellipse' : 'rectangle';
+}
+
+// Excalidraw group ids of a node: its own group if it is one, then every group around it, innermost first
+function getGroupIds(node: Node, byId: Map<string, Node>): string[] {
+    const ids: string[] = node.type === 'group' ? [`group-${node.id}`] : [];
+    for (let parent = node.parentId ? byId.get(node.parentId) : undefined; parent && !ids.includes(`group-${parent.id}`); parent = parent.parentId ? byId.get(parent.parentId) : undefined) {
+        ids.push(`group-${parent.id}`);
+    }
+    return ids;
+}
+
+// Points of a path in order, with a corner between points that are not in line
+function toOrthogonal(points: Point[]): Point[] {
+    return points.flatMap((point, i) => {
+        const last = points[i - 1];
+        return last && last.x !== point.x && last.y !== point.y ? [{ x: point.x, y: last.y }, point] : [point];
+    });
+}
+
+function getMidpoint(points: Point[]): Point {
+    const lengths = points.slice(1).map((point, i) => Math.hypot(point.x - points[i].x, point.y - points[i].y));
+    let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+    for (let i = 0; i < lengths.length; i++) {
+        if (remaining <= lengths[i] && lengths[i] > 0) {
+            const t = remaining / lengths[i];
+            return { x: points[i].x + (points[i + 1].x - points[i].x) * t, y: points[i].y + (points[i + 1].y - points[i].y) * t };
+        }
+        remaining -= lengths[i];
+    }
+    return points[0];
+}
+
+/**
+ * Write nodes and edges as an Excalidraw scene (`.excalidraw`)
+ */
+export function exportToExcalidraw(nodes: Node[], edges: Edge[], options: ExcalidrawExportOptions = {}): string {
+    const { edgeStyle = 'curved' } = options;
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const bounds = getNodeBounds(nodes);
+    const shapes = new Map<string, ExcalidrawElement>();
+    const elements: ExcalidrawElement[] = [];
+
+    // Groups come first so they are drawn behind their members
+    sortParentsFirst(nodes).forEach(node => {
+        const box = bounds.get(node.id)!;
+        const css = (node.data.style || {}) as CSSProperties;
+        const groupIds = getGroupIds(node, byId);
+        const label = String(node.data.label ?? '');
+        const isGroup = node.type === 'group';
+        const shape = resolveShapeName(node.data.shape as string | undefined);
+        const element = createElement(node.id, isGroup ? 'rectangle' : getShapeType(node), box, {
+            groupIds,
+            strokeColor: cssColor(css.borderColor) ?? INK,
+            backgroundColor: (isGroup ? cssColor(node.data.color) : cssColor(css.background) ?? cssColor(css.backgroundColor)) ?? 'transparent',
+            fillStyle: isGroup ? 'solid' : 'hachure',
+            strokeWidth: isGroup ? 1 : 2,
+            strokeStyle: isGroup || css.borderStyle === 'dashed' ? 'dashed' : 'solid',
+            roundness: shape === 'rect' ? null : ROUNDED,
+            customData: {
+                sysvisType: node.type,
+                ...(shape ? { sysvisShape: shape } : {}),
+                ...(node.data.metadata ? { metadata: node.data.metadata } : {}),
+            },
+        });
+        elements.push(element);
+        shapes.set(node.id, element);
+        if (!label.trim()) return;
+
+        // Group titles sit at the top of the box, other labels in the middle
+        const width = box.right - box.left;
+        const text = createText(`${node.id}-label`, label, { x: (box.left + box.right) / 2, y: (box.top + box.bottom) / 2 }, width - TEXT_PADDING * 2, {
+            groupIds,
+            containerId: node.id,
+            strokeColor: cssColor(css.color) ?? INK,
+            ...(isGroup ? { verticalAlign: 'top', fontSize: LABEL_FONT_SIZE } : {}),
+        });
+        if (isGroup) {
+            text.y = box.top + TEXT_PADDING / 2;
+        }
+        element.boundElements = [{ id: text.id, type: 'text' }];
+        elements.push(text);
+    });
+
+    const routed = edgeStyle === 'orthogonal' ? routeOrthogonalEdges(nodes, edges) : edges;
+    routed.forEach(edge => {
+        const source = byId.get(edge.source);
+        const target = byId.get(edge.target);
+        if (!source || !target) return;
+        const id = shapes.has(edge.id) ? `edge-${edge.id}` : edge.id;
+        const data = edge.data as EdgeData | undefined;
+        const link = getFlowLink(data, edge.style);
+        const from = getHandlePoint(bounds.get(source.id)!, (source.sourcePosition || 'bottom') as HandleSide);
+        const to = getHandlePoint(bounds.get(target.id)!, (target.targetPosition || 'top') as HandleSide);
+        let path = [from, ...(data?.points ?? []), to];
+        if (edgeStyle === 'orthogonal') path = toOrthogonal(path);
+
+        const xs = path.map(p => p.x);
+        const ys = path.map(p => p.y);
+        const arrow = createElement(id, 'arrow', { left: from.x, top: from.y, right: from.x + Math.max(...xs) - Math.min(...xs), bottom: from.y + Math.max(...ys) - Math.min(...ys) }, {
+            strokeColor: link.stroke === 'invisible' ? 'transparent' : cssColor(edge.style?.stroke) ?? INK,
+            strokeWidth: link.stroke === 'thick' ? 4 : 2,
+            strokeStyle: link.stroke === 'dotted' ? 'dashed' : 'solid',
+            roundness: edgeStyle === 'curved' ? CURVED : null,
+            points: path.map(p => [p.x - from.x, p.y - from.y] as [number, number]),
+            lastCommittedPoint: null,
+            startBinding: { elementId: source.id, focus: 0, gap: BINDING_GAP },
+            endBinding: { elementId: target.id, focus: 0, gap: BINDING_GAP },
+            startArrowhead: link.startMarker === 'none' ? null : ARROWHEADS[link.startMarker],
+            endArrowhead: link.endMarker === 'none' ? null : ARROWHEADS[link.endMarker],
+            // Arrowheads stand in for several markers, so the exact ones are kept as well
+            customData: { startMarker: link.startMarker, endMarker: link.endMarker },
+        });
+        elements.push(arrow);
+        [shapes.get(source.id)!, shapes.get(target.id)!].forEach(shape => {
+            if (!shape.boundElements?.some(bound => bound.id === id)) {
+                shape.boundElements = [...(shape.boundElements ?? []), { id, type: 'arrow' }];
+            }
+        });
+
+        const label = typeof edge.label === 'string' ? edge.label.trim() : '';
+        if (label) {
+            const text = createText(`${id}-label`, label, getMidpoint(path), 200, { containerId: id, fontSize: LABEL_FONT_SIZE });
+            arrow.boundElements = [{ id: text.id, type: 'text' }];
+            elements.push(text);
+        }
+    });
+
+    return JSON.stringify({
+        type: 'excalidraw',
+        version: 2,
+        source: 'SysVis.AI',
+        elements,
+        appState: { gridSize: null, viewBackgroundColor: '#ffffff' },
+        files: {},
+    }, null, 2);
+}
+
+/**
+ * Whether text looks like an Excalidraw scene or a copy from its clipboard
+ */
+export function isExcalidrawFile(text: string): boolean {
+    return /"type"\s*:\s*"excalidraw(\/clipboard)?"/.test(text);
+}
+
+function getBox(element: ExcalidrawElement): NodeBounds {
+    const x = Number(element.x) || 0;
+    const y = Number(element.y) || 0;
+    const width = Number(element.width) || 0;
+    const height = Number(element.height) || 0;
+    return { left: Math.min(x, x + width), top: Math.min(y, y + height), right: Math.max(x, x + width), bottom: Math.max(y, y + height) };
+}
+
+const area = (box: NodeBounds) => (box.right - box.left) * (box.bottom - box.top);
+
+function contains(outer: NodeBounds, inner: NodeBounds): boolean {
+    return outer.left <= inner.left && outer.top <= inner.top && outer.right >= inner.right && outer.bottom >= inner.bottom && area(outer) > area(inner);
+}
+
+function containsPoint(box: NodeBounds, point: Point, margin = 0): boolean {
+    return point.x >= box.left - margin && point.x <= box.right + margin && point.y >= box.top - margin && point.y <= box.bottom + margin;
+}
+
+function overlaps(a: NodeBounds, b: NodeBounds): boolean {
+    return a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+}
+
+// Colours Excalidraw uses for "no colour"
+const isPaint = (color: string | undefined): color is string => !!color && color !== 'transparent' && color.toLowerCase() !== INK && color.toLowerCase() !== '#000000';
+
+function readMetadata(value: unknown): NodeMetadata | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+    const { techStack, role, description } = value as Record<string, unknown>;
+    return toNodeMetadata({
+        techStack: Array.isArray(techStack) ? techStack.join(',') : typeof techStack === 'string' ? techStack : undefined,
+        role: typeof role === 'string' ? role : undefined,
+        description: typeof description === 'string' ? description : undefined,
+    });
+}
+
+function toMarker(element: ExcalidrawElement, end: 'start' | 'end'): EdgeMarker {
+    const kept = element.customData?.[`${end}Marker`];
+    if (typeof kept === 'string' && (kept === 'none' || kept in ARROWHEADS)) return kept as EdgeMarker;
+    const arrowhead = element[`${end}Arrowhead`];
+    return arrowhead ? IMPORTED_ARROWHEADS[arrowhead] ?? 'arrow' : 'none';
+}
+
+// Sketches whose shapes sit on top of each other are laid out afresh
+function hasMessyPositions(boxes: NodeBounds[]): boolean {
+    return boxes.some((box, i) => boxes.slice(i + 1).some(other => overlaps(box, other)));
+}
+
+/**
+ * Read an Excalidraw scene into nodes and edges. Rectangles, ellipses and diamonds become nodes,
+ * rectangles and frames around other shapes become groups, arrows between shapes become edges and
+ * text becomes the label of the shape it is bound to or written on, or a text node of its own.
+ * Positions are kept unless shapes overlap, in which case the diagram is laid out again.
+ */
+export function importFromExcalidraw(text: string): ImportedDiagram {
+    let scene: { elements?: unknown };
+    try {
+        scene = JSON.parse(text);
+    } catch {
+        throw new Error('Not a valid Excalidraw file: the JSON could not be read');
+    }
+    if (!Array.isArray(scene?.elements)) throw new Error('Not a valid Excalidraw file: it has no elements');
+
+    const elements = (scene.elements as ExcalidrawElement[]).filter(element => element && typeof element.id === 'string' && !element.isDeleted);
+    const byId = new Map(elements.map(element => [element.id, element]));
+    const shapes = elements.filter(element => SHAPE_TYPES.has(element.type) || FRAME_TYPES.has(element.type));
+    const boxes = new Map(shapes.map(shape => [shape.id, getBox(shape)]));
+    const labels = new Map<string, ExcalidrawElement>();
+    const texts = elements.filter(element => element.type === 'text');
+
+    // Text bound to a shape or arrow is its label
+    texts.forEach(element => {
+        if (element.containerId && byId.has(element.containerId)) labels.set(element.containerId, element);
+    });
+
+    const isGroup = (shape: ExcalidrawElement) => FRAME_TYPES.has(shape.type) || shape.customData?.sysvisType === 'group'
+        || (shape.type === 'rectangle' && shapes.some(other => other !== shape && contains(boxes.get(shape.id)!, boxes.get(other.id)!)));
+    const groups = shapes.filter(isGroup);
+    const groupIds = new Set(groups.map(group => group.id));
+
+    // Loose text written on a shape labels the smallest shape it sits on that has no label yet; the rest stands alone
+    const looseTexts = texts.filter(element => !element.containerId || !byId.has(element.containerId)).filter(element => {
+        const box = getBox(element);
+        const center = { x: (box.left + box.right) / 2, y: (box.top + box.bottom) / 2 };
+        const owner = shapes
+            .filter(shape => !labels.has(shape.id) && containsPoint(boxes.get(shape.id)!, center))
+            .sort((a, b) => area(boxes.get(a.id)!) - area(boxes.get(b.id)!))
+            .find(shape => !groupIds.has(shape.id) || !shapes.some(other => !groupIds.has(other.id) && contains(boxes.get(shape.id)!, boxes.get(other.id)!) && containsPoint(boxes.get(other.id)!, center)));
+        if (!owner) return true;
+        labels.set(owner.id, element);
+        return false;
+    });
+    looseTexts.forEach(element => boxes.set(element.id, getBox(element)));
+
+    // Members sit in the frame they were drawn in, else in the smallest group drawn around them
+    const getParent = (element: ExcalidrawElement): ExcalidrawElement | undefined => {
+        const frame = element.frameId ? byId.get(element.frameId) : undefined;
+        if (frame && groupIds.has(frame.id)) return frame;
+        const box = boxes.get(element.id)!;
+        return groups
+            .filter(group => group !== element && contains(boxes.get(group.id)!, box))
+            .sort((a, b) => area(boxes.get(a.id)!) - area(boxes.get(b.id)!))[0];
+    };
+
+    const toId = createIdMapper();
+    let groupIndex = 0;
+    const labelOf = (element: ExcalidrawElement) => {
+        const label = labels.get(element.id);
+        return String(label?.originalText ?? label?.text ?? element.name ?? '').replace(/\s+/g, ' ').trim();
+    };
+
+    const nodes: Node[] = [...shapes, ...looseTexts].map(element => {
+        const box = boxes.get(element.id)!;
+        const parent = getParent(element);
+        const parentBox = parent ? boxes.get(parent.id)! : undefined;
+        const position = { x: box.left - (parentBox?.left ?? 0), y: box.top - (parentBox?.top ?? 0) };
+        const parentId = parent ? toId(parent.id) : undefined;
+        const metadata = readMetadata(element.customData?.metadata);
+        const label = element.type === 'text' ? String(element.originalText ?? element.text ?? '').replace(/\s+/g, ' ').trim() : labelOf(element);
+
+        if (groupIds.has(element.id)) {
+            return {
+                id: toId(element.id), type: 'group', position, parentId, extent: parentId ? 'parent' as const : undefined,
+                data: { label, color: isPaint(element.backgroundColor) ? element.backgroundColor : GROUP_COLORS[groupIndex++ % GROUP_COLORS.length], metadata },
+                style: { width: box.right - box.left, height: box.bottom - box.top },
+            };
+        }
+
+        const kept = element.customData ?? {};
+        let shape = typeof kept.sysvisShape === 'string' ? kept.sysvisShape : undefined;
+        let type = typeof kept.sysvisType === 'string' ? kept.sysvisType : undefined;
+        if (!type) {
+            if (element.type === 'diamond') type = 'decision';
+            else if (element.type === 'ellipse') [type, shape] = ['custom-shape', 'circle'];
+            else if (element.type === 'text') [type, shape] = ['custom-shape', 'text'];
+            else type = 'default';
+        }
+        const css: CSSProperties = {};
+        if (element.type !== 'text') {
+            if (isPaint(element.backgroundColor)) css.background = element.backgroundColor;
+            if (isPaint(element.strokeColor)) css.borderColor = element.strokeColor;
+            if (element.strokeStyle === 'dashed' || element.strokeStyle === 'dotted') css.borderStyle = 'dashed';
+        }
+        const textColor = element.type === 'text' ? element.strokeColor : labels.get(element.id)?.strokeColor;
+        if (isPaint(textColor)) css.color = textColor;
+
+        return {
+            id: toId(element.id), type, position, parentId, extent: parentId ? 'parent' as const : undefined,
+            data: {
+                label,
+                category: 'filter-other',
+                shape: type === 'custom-shape' || kept.sysvisShape ? shape : undefined,
+                style: Object.keys(css).length ? css : undefined,
+                metadata,
+            },
+        };
+    });
+    const nodeIds = new Set(nodes.map(n => n.id));
+
+    // An arrow end belongs to the shape it is bound to, else to the smallest shape it stops on or near
+    const nodeBoxes = [...boxes.entries()].filter(([id]) => byId.get(id)?.type !== 'text' || looseTexts.includes(byId.get(id)!));
+    const getEnd = (arrow: ExcalidrawElement, end: 'start' | 'end', point: Point): string | undefined => {
+        const bound = arrow[`${end}Binding`]?.elementId;
+        const element = bound ? byId.get(bound) : undefined;
+        const owner = element?.type === 'text' && element.containerId ? element.containerId : element?.id;
+        if (owner && boxes.has(owner)) return toId(owner);
+        const nearest = nodeBoxes
+            .filter(([, box]) => containsPoint(box, point, ATTACH_DISTANCE))
+            .sort(([a, boxA], [b, boxB]) => Number(groupIds.has(a)) - Number(groupIds.has(b)) || area(boxA) - area(boxB))[0];
+        return nearest ? toId(nearest[0]) : undefined;
+    };
+
+    const edges: Edge[] = elements.filter(element => element.type === 'arrow' && element.points && element.points.length >= 2).flatMap((arrow, i) => {
+        const points = arrow.points!.map(([x, y]) => ({ x: arrow.x + x, y: arrow.y + y }));
+        const source = getEnd(arrow, 'start', points[0]);
+        const target = getEnd(arrow, 'end', points[points.length - 1]);
+        if (!source || !target || !nodeIds.has(source) || !nodeIds.has(target)) return [];
+
+        const label = labels.get(arrow.id);
+        const stroke: EdgeStroke = arrow.strokeColor === 'transparent' || arrow.opacity === 0 ? 'invisible'
+            : arrow.strokeStyle === 'dashed' || arrow.strokeStyle === 'dotted' ? 'dotted'
+                : (arrow.strokeWidth ?? 0) >= 4 ? 'thick' : 'normal';
+        const data: EdgeData = { stroke, startMarker: toMarker(arrow, 'start'), endMarker: toMarker(arrow, 'end'), length: 1 };
+        if (points.length > 2) data.points = points.slice(1, -1);
+        return [{
+            id: `e${i}-${source}-${target}`,
+            source, target,
+            label: String(label?.originalText ?? label?.text ?? '').replace(/\s+/g, ' ').trim() || undefined,
+            animated: stroke === 'dotted',
+            style: isPaint(arrow.strokeColor) ? { stroke: arrow.strokeColor } : {},
+            data,
+        }];
+    });
+
+    const sorted = sortParentsFirst(nodes);
+    if (hasMessyPositions([...shapes, ...looseTexts].filter(element => !groupIds.has(element.id)).map(element => boxes.get(element.id)!))) {
+        // Bend points were drawn for the old positions
+        const unrouted = edges.map(edge => ({ ...edge, data: { ...edge.data, points: undefined } }));
+        console.log(`[Excalidraw] Imported ${nodes.length} nodes, ${edges.length} edges; shapes overlap, laying out again`);
+        return getLayoutedElements(sorted, unrouted);
+    }
+    console.log(`[Excalidraw] Imported ${nodes.length} nodes, ${edges.length} edges`);
+    return { nodes: sorted, edges };
+}
@@ -1,5 +1,15 @@
-import { toPng, toJpeg, toSvg } from 'html-to-image';
+import { toPng, toJpeg } from 'html-to-image';
 import { type Node, type Edge } from '../store';
+import { exportToMermaid, type MermaidExportOptions } from './mermaidExporter';
+import { renderDiagramSvg, type SvgRenderOptions } from './svgRenderer';
+import { renderDiagramPdf, type PdfExportOptions } from './pdfExport';
+import { exportToDrawio, type DrawioExportOptions } from './drawio';
+import { exportToExcalidraw, type ExcalidrawExportOptions } from './excalidraw';
+import { exportToDot, type DotExportOptions } from './graphviz';
+import { exportToGraphml } from './graphml';
+import { exportToCytoscape } from './cytoscape';
+
+export { exportToMermaid };
 
 // Robust cross-browser file download function using data URLs for better Chrome compatibility
 function saveFile(blob: Blob, filename: string): void {
@@ -37,11 +47,14 @@ function saveFile(blob: Blob, filename: string): void {
     reader.readAsDataURL(blob);
 }
 
+// Check if dark mode is active by looking at the document class
+function getTheme(): 'light' | 'dark' {
+    return document.documentElement.classList.contains('dark') ? 'dark' : 'light';
+}
+
 // Get the current theme's background color
 function getThemeBackgroundColor(): string {
-    // Check if dark mode is active by looking at the document class
-    const isDark = document.documentElement.classList.contains('dark');
-    return isDark ? '#020617' : '#ffffff';
+    return getTheme() === 'dark' ? '#020617' : '#ffffff';
 }
 
 export async function exportToPng(element: HTMLElement): Promise<void> {
@@ -90,25 +103,22 @@ export async function exportToJpg(element: HTMLElement): Promise<void> {
     }
 }
 
-export async function exportToSvg(element: HTMLElement): Promise<void> {
-    try {
-        const backgroundColor = getThemeBackgroundColor();
-        const dataUrl = await toSvg(element, {
-            backgroundColor,
-            filter: (node) => {
-                const className = node.className?.toString() || '';
-                return !className.includes('react-flow__controls') &&
-                    !className.includes('react-flow__minimap') &&
-                    !className.includes('react-flow__panel');
-            }
-        });
+/**
+ * Download the diagram as vector SVG drawn from the nodes and edges, not from the canvas DOM
+ */
+export function exportToSvg(nodes: Node[], edges: Edge[], options: SvgRenderOptions = {}): void {
+    const svg = renderDiagramSvg(nodes, edges, { theme: getTheme(), ...options });
+    const blob = new Blob([svg], { type: 'image/svg+xml;charset=utf-8' });
+    saveFile(blob, `diagram-${getTimestamp()}.svg`);
+}
 
-        const blob = dataURLtoBlob(dataUrl);
-        saveFile(blob, `diagram-${getTimestamp()}.svg`);
-    } catch (error) {
-        console.error('Failed to export SVG:', error);
-        throw error;
-    }
+/**
+ * Download the diagram as a vector PDF laid out on pages with a title block
+ */
+export function exportToPdf(nodes: Node[], edges: Edge[], options: PdfExportOptions = {}): void {
+    const pdf = renderDiagramPdf(nodes, edges, options);
+    const blob = new Blob([pdf], { type: 'application/pdf' });
+    saveFile(blob, `diagram-${getTimestamp()}.pdf`);
 }
 
 export function exportToTxt(nodes: Node[], edges: Edge[]): void {
@@ -156,73 +166,40 @@ export function exportToJson(nodes: Node[], edges: Edge[]): void {
     saveFile(blob, `diagram-${getTimestamp()}.json`);
 }
 
-export function exportToMermaid(nodes: Node[], edges: Edge[]): string {
-    let mermaid = 'flowchart TD\n\n';
-
-    // Add styling
-    mermaid += '    %% Styling\n';
-    mermaid += '    classDef start fill:#10b981,stroke:#10b981,color:#fff\n';
-    mermaid += '    classDef end fill:#ef4444,stroke:#ef4444,color:#fff\n';
-    mermaid += '    classDef database fill:#10b981,stroke:#10b981,color:#fff\n';
-    mermaid += '    classDef server fill:#3b82f6,stroke:#3b82f6,color:#fff\n';
-    mermaid += '    classDef decision fill:#8b5cf6,stroke:#8b5cf6,color:#fff\n\n';
-
-    // Export nodes
-    mermaid += '    %% Nodes\n';
-    nodes.forEach((node) => {
-        const label = (node.data as { label?: string })?.label || node.id;
-        const safeLabel = label.replace(/"/g, "'");
-        let shape = '';
-
-        switch (node.type) {
-            case 'start':
-            case 'startNode':
-                shape = `(["${safeLabel}"])`;
-                break;
-            case 'end':
-            case 'endNode':
-                shape = `(["${safeLabel}"])`;
-                break;
-            case 'decision':
-            case 'decisionNode':
-                shape = `{"${safeLabel}"}`;
-                break;
-            case 'database':
-            case 'databaseNode':
-                shape = `[("${safeLabel}")]`;
-                break;
-            default:
-                shape = `["${safeLabel}"]`;
-        }
-
-        mermaid += `    ${node.id}${shape}\n`;
-    });
+export function downloadMermaid(nodes: Node[], edges: Edge[], options?: MermaidExportOptions): void {
+    const mermaid = exportToMermaid(nodes, edges, options);
+    const blob = new Blob([mermaid], { type: 'text/plain;charset=utf-8' });
+    saveFile(blob, `diagram-${getTimestamp()}.mmd`);
+}
 
-    mermaid += '\n    %% Connections\n';
+export function downloadDrawio(nodes: Node[], edges: Edge[], options?: DrawioExportOptions): void {
+    const xml = exportToDrawio(nodes, edges, options);
+    const blob = new Blob([xml], { type: 'application/xml;charset=utf-8' });
+    saveFile(blob, `diagram-${getTimestamp()}.drawio`);
+}
 
-    // Export edges
-    edges.forEach((edge) => {
-        const label = edge.label ? `|${edge.label}|` : '';
-        mermaid += `    ${edge.source} -->${label} ${edge.target}\n`;
-    });
+export function downloadExcalidraw(nodes: Node[], edges: Edge[], options?: ExcalidrawExportOptions): void {
+    const scene = exportToExcalidraw(nodes, edges, options);
+    const blob = new Blob([scene], { type: 'application/json;charset=utf-8' });
+    saveFile(blob, `diagram-${getTimestamp()}.excalidraw`);
+}
 
-    // Apply classes
-    mermaid += '\n    %% Apply styles\n';
-    nodes.forEach((node) => {
-        if (node.type?.includes('start')) mermaid += `    class ${node.id} start\n`;
-        if (node.type?.includes('end')) mermaid += `    class ${node.id} end\n`;
-        if (node.type?.includes('database')) mermaid += `    class ${node.id} database\n`;
-        if (node.type?.includes('server')) mermaid += `    class ${node.id} server\n`;
-        if (node.type?.includes('decision')) mermaid += `    class ${node.id} decision\n`;
-    });
+export function downloadDot(nodes: Node[], edges: Edge[], options?: DotExportOptions): void {
+    const dot = exportToDot(nodes, edges, options);
+    const blob = new Blob([dot], { type: 'text/vnd.graphviz;charset=utf-8' });
+    saveFile(blob, `diagram-${getTimestamp()}.dot`);
+}
 
-    return mermaid;
+export function downloadGraphml(nodes: Node[], edges: Edge[]): void {
+    const xml = exportToGraphml(nodes, edges);
+    const blob = new Blob([xml], { type: 'application/xml;charset=utf-8' });
+    saveFile(blob, `diagram-${getTimestamp()}.graphml`);
 }
 
-export function downloadMermaid(nodes: Node[], edges: Edge[]): void {
-    const mermaid = exportToMermaid(nodes, edges);
-    const blob = new Blob([mermaid], { type: 'text/plain;charset=utf-8' });
-    saveFile(blob, `diagram-${getTimestamp()}.mmd`);
+export function downloadCytoscape(nodes: Node[], edges: Edge[]): void {
+    const json = exportToCytoscape(nodes, edges);
+    const blob = new Blob([json], { type: 'application/json;charset=utf-8' });
+    saveFile(blob, `diagram-${getTimestamp()}.cyjs`);
 }
 
 function getTimestamp(): string {
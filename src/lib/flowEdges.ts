@@ -0,0 +1,189 @@
+import type { CSSProperties } from 'react';
+import type { EdgeMarker, EdgeStroke, EdgeData } from '../types';
+
+/**
+ * Typed form of a Mermaid flowchart link (`-->`, `==o`, `<-.->`, `~~~`, ...)
+ */
+export interface FlowLink {
+    stroke: EdgeStroke;
+    startMarker: EdgeMarker;
+    endMarker: EdgeMarker;
+    /** Extra rank span requested by longer links (`--->` is 2) */
+    length: number;
+}
+
+// Edge `type` values reported by Mermaid's flowchart DB
+const MERMAID_LINK_TYPES: Record<string, Pick<FlowLink, 'startMarker' | 'endMarker'>> = {
+    arrow_point: { startMarker: 'none', endMarker: 'arrow' },
+    arrow_open: { startMarker: 'none', endMarker: 'none' },
+    arrow_circle: { startMarker: 'none', endMarker: 'circle' },
+    arrow_cross: { startMarker: 'none', endMarker: 'cross' },
+    double_arrow_point: { startMarker: 'arrow', endMarker: 'arrow' },
+    double_arrow_circle: { startMarker: 'circle', endMarker: 'circle' },
+    double_arrow_cross: { startMarker: 'cross', endMarker: 'cross' },
+};
+
+const START_CHARS: Record<string, EdgeMarker> = { '<': 'arrow', o: 'circle', x: 'cross' };
+const END_CHARS: Record<string, EdgeMarker> = { '>': 'arrow', o: 'circle', x: 'cross' };
+
+const LINK_TOKEN_REGEX = /^([<ox])?(-{2,}|={2,}|-\.+-|~{3,})([>ox])?$/;
+
+/**
+ * Source for a regex matching one link, optionally with an inline (`-- text -->`)
+ * or piped (`-->|text|`) label. Groups: start, inline label, body, end, piped label.
+ */
+export const LINK_PATTERN = String.raw`([<ox]?)(?:(?:--|==|-\.)\s+(.+?)\s+)?(-{2,}|={2,}|-\.+-|\.+-|~{3,})([>ox]?)(?:\s*\|([^|]*)\|)?`;
+
+// Node shapes are reduced to their ids before links are read: A[text], B((x)), C{{y}}, D(((z))), E@{ shape: doc }, ...
+const NODE_SHAPE = String.raw`@\{[^}]*\}|\(\(\([^)]*\)\)\)|\(\([^)]*\)\)|\(\[[^\]]*\]\)|\[\[[^\]]*\]\]|\{\{[^}]*\}\}|\[[^\]]*\]|\([^)]*\)|\{[^}]*\}|>[^\]]*\]`;
+// Piped labels are matched alongside shapes so that neither is read inside the other: `A[a|b]`, `-->|q[1]|`
+const PIPED_LABEL = String.raw`\|[^|]*\|`;
+const NODE_SHAPE_REGEX = new RegExp(String.raw`${PIPED_LABEL}|(\w+)\s*(?:${NODE_SHAPE})`, 'g');
+const NODE_DECLARATION_REGEX = new RegExp(String.raw`${PIPED_LABEL}|(\w+)(?:\s*(${NODE_SHAPE}))?(:::[\w-]+)?`, 'g');
+// Quoted text may hold brackets and pipes, so it is swapped for placeholders before anything else is matched
+const QUOTED_REGEX = /"[^"]*"/g;
+const PLACEHOLDER_REGEX = /\uE000(\d+)\uE001/g;
+const NODE_LIST = String.raw`(\w+(?:\s*&\s*\w+)*)`;
+
+export interface ParsedLink {
+    source: string;
+    target: string;
+    label?: string;
+    link: FlowLink;
+}
+
+// Hide quoted strings from the shape and link patterns; `restore` puts them back, optionally without quotes
+function maskQuoted(line: string): { masked: string; restore: (text: string, unquote?: boolean) => string } {
+    const quoted: string[] = [];
+    const masked = line.replace(QUOTED_REGEX, text => `\uE000${quoted.push(text) - 1}\uE001`);
+    const restore = (text: string, unquote = false) =>
+        text.replace(PLACEHOLDER_REGEX, (_, i: string) => (unquote ? quoted[Number(i)].slice(1, -1) : quoted[Number(i)]));
+    return { masked, restore };
+}
+
+/**
+ * Build the typed link from an edge reported by Mermaid's flowchart DB
+ */
+export function fromMermaidEdge(edge: { type?: string; stroke?: string; length?: number }): FlowLink {
+    const markers = MERMAID_LINK_TYPES[edge.type || 'arrow_point'] || MERMAID_LINK_TYPES.arrow_point;
+    const stroke = (['thick', 'dotted', 'invisible'].includes(edge.stroke || '') ? edge.stroke : 'normal') as EdgeStroke;
+    return { stroke, ...markers, length: Math.max(edge.length || 1, 1) };
+}
+
+/**
+ * Parse a bare link token such as `-->`, `<==>`, `-..-o` or `~~~`
+ */
+export function parseLinkToken(token: string): FlowLink | null {
+    const match = token.trim().match(LINK_TOKEN_REGEX);
+    if (!match) return null;
+    const [, start, body, end] = match;
+
+    let stroke: EdgeStroke = 'normal';
+    if (body.startsWith('=')) stroke = 'thick';
+    else if (body.startsWith('~')) stroke = 'invisible';
+    else if (body.includes('.')) stroke = 'dotted';
+
+    // `-->` and `---` are both length 1; dotted links count their dots
+    const length = stroke === 'dotted'
+        ? body.length - 2
+        : body.length - (end ? 1 : 2);
+
+    return {
+        stroke,
+        startMarker: start ? START_CHARS[start] : 'none',
+        endMarker: end ? END_CHARS[end] : 'none',
+        length: Math.max(length, 1),
+    };
+}
+
+/**
+ * Read every link on a flowchart line, following chains (`A --> B -.-> C`)
+ * and `&` lists (`A & B --> C`)
+ */
+export function parseLinkChain(line: string): ParsedLink[] {
+    const { masked, restore } = maskQuoted(line);
+    const stripped = masked.replace(NODE_SHAPE_REGEX, (text, id?: string) => id ?? text);
+
+    const head = stripped.match(new RegExp(String.raw`^\s*${NODE_LIST}`));
+    if (!head) return [];
+
+    const step = new RegExp(String.raw`\s*${LINK_PATTERN}\s*${NODE_LIST}`, 'y');
+    step.lastIndex = head[0].length;
+    const splitIds = (list: string) => list.split('&').map(id => id.trim());
+
+    const links: ParsedLink[] = [];
+    let sources = splitIds(head[1]);
+    let match: RegExpExecArray | null;
+    while ((match = step.exec(stripped))) {
+        const [, start, inlineLabel, body, end, pipedLabel, targetList] = match;
+        // `-. text .->` closes with `.-`, which on its own reads as `-.-`
+        const link = parseLinkToken(`${start}${body.startsWith('.') ? `-${body}` : body}${end}`);
+        if (!link) break;
+
+        const label = restore((pipedLabel ?? inlineLabel)?.trim() ?? '', true).trim() || undefined;
+        const targets = splitIds(targetList);
+        sources.forEach(source => targets.forEach(target => links.push({ source, target, label, link })));
+        sources = targets;
+    }
+    return links;
+}
+
+/**
+ * Shape (and `:::class`) declarations on a flowchart line by node id, e.g. `A` -> `[Start]:::hot`
+ */
+export function getNodeShapes(line: string): Map<string, string> {
+    const shapes = new Map<string, string>();
+    const { masked, restore } = maskQuoted(line);
+    for (const [, id, shape = '', className = ''] of masked.matchAll(NODE_DECLARATION_REGEX)) {
+        if (id && (shape || className) && !shapes.has(id)) shapes.set(id, restore(shape) + className);
+    }
+    return shapes;
+}
+
+/**
+ * Write a typed link back as Mermaid syntax
+ */
+export function toLinkToken(link: Partial<FlowLink>): string {
+    const stroke = link.stroke || 'normal';
+    const length = Math.max(link.length || 1, 1);
+    if (stroke === 'invisible') return '~'.repeat(length + 2);
+
+    const startMarker = link.startMarker || 'none';
+    const endMarker = link.endMarker ?? 'arrow';
+    const start = Object.keys(START_CHARS).find(c => START_CHARS[c] === startMarker) || '';
+    const end = Object.keys(END_CHARS).find(c => END_CHARS[c] === endMarker) || '';
+
+    let body: string;
+    if (stroke === 'dotted') body = `-${'.'.repeat(length)}-`;
+    else body = (stroke === 'thick' ? '=' : '-').repeat(length + (end ? 1 : 2));
+
+    return `${start}${body}${end}`;
+}
+
+/**
+ * Read the typed link off an edge, falling back to the legacy dashed style
+ */
+export function getFlowLink(data?: EdgeData, style?: CSSProperties): FlowLink {
+    return {
+        stroke: data?.stroke || (style?.strokeDasharray ? 'dotted' : 'normal'),
+        startMarker: data?.startMarker || 'none',
+        endMarker: data?.endMarker || 'arrow',
+        length: data?.length || 1,
+    };
+}
+
+/**
+ * SVG stroke styling for each link stroke
+ */
+export function getStrokeStyle(stroke: EdgeStroke = 'normal'): CSSProperties {
+    switch (stroke) {
+        case 'thick':
+            return { strokeWidth: 3.5 };
+        case 'dotted':
+            return { strokeDasharray: '5,5' };
+        case 'invisible':
+            return { strokeOpacity: 0 };
+        default:
+            return {};
+    }
+}
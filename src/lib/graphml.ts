@@ -0,0 +1,269 @@
+import type { CSSProperties } from 'react';
+import type { Node, Edge } from '../store';
+import type { EdgeData } from '../types';
+import { getFlowLink } from './flowEdges';
+import { getNodeBounds, getNodeHeight, getNodeWidth } from './layoutEngine';
+import { resolveShapeName } from './shapes';
+import {
+    GROUP_COLORS, createIdMapper, placeImportedNodes, toEdgeMarker, toEdgeStroke, toNodeMetadata, toNodeType, type ImportedDiagram,
+} from './diagramImport';
+
+/**
+ * GraphML interchange.
+ * Diagrams are written as a GraphML graph with every node field (label, type, shape, colour, `NodeMetadata`
+ * and canvas box) and edge field as a declared data key; groups are nodes holding a nested graph of their
+ * members. On import, data keys are matched by their attribute name, so graphs written by NetworkX, igraph
+ * or yEd are read too. Positions are kept when every node has one, otherwise the graph is laid out.
+ */
+
+const NAMESPACE = 'http://graphml.graphdrawing.org/xmlns';
+
+// Data keys written for nodes and edges: [key id, attr.name, attr.type]
+const NODE_KEYS: [string, string, string][] = [
+    ['n_label', 'label', 'string'],
+    ['n_type', 'type', 'string'],
+    ['n_shape', 'shape', 'string'],
+    ['n_color', 'color', 'string'],
+    ['n_techStack', 'techStack', 'string'],
+    ['n_role', 'role', 'string'],
+    ['n_description', 'description', 'string'],
+    ['n_x', 'x', 'double'],
+    ['n_y', 'y', 'double'],
+    ['n_width', 'width', 'double'],
+    ['n_height', 'height', 'double'],
+];
+
+const EDGE_KEYS: [string, string, string][] = [
+    ['e_label', 'label', 'string'],
+    ['e_stroke', 'stroke', 'string'],
+    ['e_startMarker', 'startMarker', 'string'],
+    ['e_endMarker', 'endMarker', 'string'],
+    ['e_color', 'color', 'string'],
+];
+
+// yEd shape names read as our shapes
+const YED_SHAPES: Record<string, string> = {
+    ellipse: 'circle', diamond: 'diam', hexagon: 'hex', parallelogram: 'lean-r', trapezoid: 'trap-t', trapezoid2: 'trap-b',
+    triangle: 'tri', octagon: 'hex', roundrectangle: 'rounded',
+};
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const cssString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+function writeData(values: Record<string, string | number | undefined>, indent: string): string[] {
+    return Object.entries(values)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => `${indent}<data key="${key}">${escapeXml(String(typeof value === 'number' ? Math.round(value * 100) / 100 : value))}</data>`);
+}
+
+/**
+ * Write nodes and edges as GraphML (`.graphml`)
+ */
+export function exportToGraphml(nodes: Node[], edges: Edge[]): string {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const bounds = getNodeBounds(nodes);
+    const childrenOf = (parentId: string | undefined) => nodes.filter(n => (n.parentId && byId.has(n.parentId) ? n.parentId : undefined) === parentId);
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<graphml xmlns="${NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${NAMESPACE} ${NAMESPACE}/1.0/graphml.xsd">`,
+        ...NODE_KEYS.map(([id, name, type]) => `  <key id="${id}" for="node" attr.name="${name}" attr.type="${type}"/>`),
+        ...EDGE_KEYS.map(([id, name, type]) => `  <key id="${id}" for="edge" attr.name="${name}" attr.type="${type}"/>`),
+        '  <graph id="G" edgedefault="directed">',
+    ];
+
+    const write = (parentId: string | undefined, indent: string) => {
+        childrenOf(parentId).forEach(node => {
+            const css = (node.data.style || {}) as CSSProperties;
+            const box = bounds.get(node.id)!;
+            const metadata = node.data.metadata;
+            lines.push(`${indent}<node id="${escapeXml(node.id)}">`);
+            lines.push(...writeData({
+                n_label: String(node.data.label ?? ''),
+                n_type: node.type,
+                n_shape: resolveShapeName(node.data.shape as string | undefined),
+                n_color: node.type === 'group' ? cssString(node.data.color) : cssString(css.background) ?? cssString(css.backgroundColor),
+                n_techStack: metadata?.techStack?.join(', '),
+                n_role: metadata?.role,
+                n_description: metadata?.description,
+                n_x: box.left,
+                n_y: box.top,
+                n_width: getNodeWidth(node),
+                n_height: getNodeHeight(node),
+            }, `${indent}  `));
+            if (node.type === 'group') {
+                // Members are a nested graph, with ids in GraphML's `parent::` convention
+                lines.push(`${indent}  <graph id="${escapeXml(node.id)}::" edgedefault="directed">`);
+                write(node.id, `${indent}    `);
+                lines.push(`${indent}  </graph>`);
+            }
+            lines.push(`${indent}</node>`);
+        });
+    };
+    write(undefined, '    ');
+
+    edges.forEach(edge => {
+        if (!byId.has(edge.source) || !byId.has(edge.target)) return;
+        const link = getFlowLink(edge.data as EdgeData | undefined, edge.style);
+        lines.push(`    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`);
+        lines.push(...writeData({
+            e_label: typeof edge.label === 'string' ? edge.label : undefined,
+            e_stroke: link.stroke,
+            e_startMarker: link.startMarker,
+            e_endMarker: link.endMarker,
+            e_color: cssString(edge.style?.stroke),
+        }, '      '));
+        lines.push('    </edge>');
+    });
+
+    lines.push('  </graph>', '</graphml>', '');
+    return lines.join('\n');
+}
+
+/**
+ * Whether text looks like a GraphML document
+ */
+export function isGraphmlFile(text: string): boolean {
+    return /<graphml[\s>]/.test(text);
+}
+
+const childElements = (element: Element, name: string) => Array.from(element.children).filter(child => child.localName === name);
+
+function findElement(element: Element, name: string): Element | undefined {
+    return Array.from(element.getElementsByTagName('*')).find(child => child.localName === name);
+}
+
+interface GraphmlKey {
+    name: string;
+    target: string;
+    fallback?: string;
+    /** yEd graphics, which hold the label, box and fill as elements */
+    graphics: boolean;
+}
+
+// Values of an element's data by lower-cased attribute name, yEd graphics included
+function readData(element: Element, keys: Map<string, GraphmlKey>, kind: 'node' | 'edge'): Map<string, string> {
+    const values = new Map<string, string>();
+    keys.forEach(key => {
+        if (key.fallback !== undefined && (key.target === kind || key.target === 'all')) values.set(key.name.toLowerCase(), key.fallback);
+    });
+    childElements(element, 'data').forEach(data => {
+        const key = keys.get(data.getAttribute('key') || '');
+        if (key?.graphics || data.children.length > 0) {
+            const label = findElement(data, kind === 'node' ? 'NodeLabel' : 'EdgeLabel');
+            const geometry = findElement(data, 'Geometry');
+            const fill = findElement(data, 'Fill');
+            const shape = findElement(data, 'Shape');
+            if (label?.textContent?.trim() && !values.has('label')) values.set('label', label.textContent.trim());
+            if (geometry) ['x', 'y', 'width', 'height'].forEach(name => geometry.hasAttribute(name) && values.set(name, geometry.getAttribute(name)!));
+            if (fill?.getAttribute('color') && !values.has('color')) values.set('color', fill.getAttribute('color')!);
+            if (shape?.getAttribute('type')) values.set('yedshape', shape.getAttribute('type')!);
+            return;
+        }
+        values.set((key?.name ?? data.getAttribute('key') ?? '').toLowerCase(), data.textContent ?? '');
+    });
+    return values;
+}
+
+/**
+ * Read a GraphML document into nodes and edges. Nested graphs become groups; `label` (or `name`), `type`,
+ * `shape`, `color`, `techStack`, `role` and `description` data fill in the nodes, and `x`/`y` place them.
+ */
+export function importFromGraphml(text: string): ImportedDiagram {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.querySelector('parsererror')) throw new Error('Not a valid GraphML file: the XML could not be read');
+    const root = doc.documentElement;
+    const graph = root.localName === 'graphml' ? childElements(root, 'graph')[0] : undefined;
+    if (!graph) throw new Error('No graph found in the GraphML file');
+
+    const keys = new Map(childElements(root, 'key').map(key => [key.getAttribute('id') || '', {
+        name: key.getAttribute('attr.name') || key.getAttribute('id') || '',
+        target: key.getAttribute('for') || 'all',
+        fallback: childElements(key, 'default')[0]?.textContent ?? undefined,
+        graphics: !!key.getAttribute('yfiles.type'),
+    }]));
+
+    const toId = createIdMapper();
+    const nodes: Node[] = [];
+    const positions = new Map<string, { x: number; y: number }>();
+    const edgeElements: { element: Element; directed: boolean }[] = [];
+    let groupIndex = 0;
+
+    const readGraph = (element: Element, parentId: string | undefined) => {
+        const directed = element.getAttribute('edgedefault') !== 'undirected';
+        childElements(element, 'edge').forEach(edge => edgeElements.push({ element: edge, directed }));
+        childElements(element, 'node').forEach(nodeElement => {
+            const id = toId(nodeElement.getAttribute('id') || '');
+            const data = readData(nodeElement, keys, 'node');
+            const nested = childElements(nodeElement, 'graph')[0];
+            const label = (data.get('label') ?? data.get('name') ?? nodeElement.getAttribute('id') ?? '').replace(/\s+/g, ' ').trim();
+            const metadata = toNodeMetadata({ techStack: data.get('techstack') ?? data.get('tech_stack'), role: data.get('role'), description: data.get('description') });
+            const color = cssString(data.get('color') ?? data.get('fill'));
+            const x = Number(data.get('x'));
+            const y = Number(data.get('y'));
+            if (data.has('x') && data.has('y') && Number.isFinite(x) && Number.isFinite(y)) positions.set(id, { x, y });
+            const width = Number(data.get('width')) || undefined;
+            const height = Number(data.get('height')) || undefined;
+            const extent = parentId ? 'parent' as const : undefined;
+
+            if (nested || data.get('type') === 'group') {
+                nodes.push({
+                    id, type: 'group', position: { x: 0, y: 0 }, parentId, extent,
+                    data: { label, color: color ?? GROUP_COLORS[groupIndex++ % GROUP_COLORS.length], metadata },
+                    style: width && height ? { width, height } : {},
+                });
+                if (nested) readGraph(nested, id);
+                return;
+            }
+
+            const yedShape = data.get('yedshape');
+            const shape = resolveShapeName(data.get('shape')) ?? (yedShape ? YED_SHAPES[yedShape] : undefined);
+            let type = toNodeType(data.get('type'));
+            if (!type) {
+                if (shape === 'diam') type = 'decision';
+                else if (shape === 'cyl') type = 'database';
+                else type = shape && shape !== 'rounded' ? 'custom-shape' : 'default';
+            }
+            nodes.push({
+                id, type, position: { x: 0, y: 0 }, parentId, extent,
+                data: {
+                    label,
+                    category: 'filter-other',
+                    shape: type === 'custom-shape' || data.has('shape') ? shape : undefined,
+                    style: color ? { background: color } : undefined,
+                    metadata,
+                },
+            });
+        });
+    };
+    readGraph(graph, undefined);
+    const nodeIds = new Set(nodes.map(n => n.id));
+
+    const edges: Edge[] = edgeElements.flatMap(({ element, directed }, i) => {
+        const source = toId(element.getAttribute('source') || '');
+        const target = toId(element.getAttribute('target') || '');
+        if (!nodeIds.has(source) || !nodeIds.has(target)) return [];
+        const data = readData(element, keys, 'edge');
+        const isDirected = element.hasAttribute('directed') ? element.getAttribute('directed') === 'true' : directed;
+        const stroke = toEdgeStroke(data.get('stroke'));
+        const color = cssString(data.get('color'));
+        return [{
+            id: `e${i}-${source}-${target}`,
+            source, target,
+            label: (data.get('label') ?? '').replace(/\s+/g, ' ').trim() || undefined,
+            animated: stroke === 'dotted',
+            style: color ? { stroke: color } : {},
+            data: {
+                stroke,
+                startMarker: toEdgeMarker(data.get('startmarker'), 'none'),
+                endMarker: toEdgeMarker(data.get('endmarker'), isDirected ? 'arrow' : 'none'),
+                length: 1,
+            } satisfies EdgeData,
+        }];
+    });
+
+    console.log(`[GraphML] Imported ${nodes.length} nodes, ${edges.length} edges`);
+    return placeImportedNodes(nodes, edges, positions);
+}
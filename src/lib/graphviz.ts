@@ -0,0 +1,581 @@
+import type { CSSProperties } from 'react';
+import type { Node, Edge } from '../store';
+import type { EdgeData, EdgeMarker, EdgeStroke, FlowDirection } from '../types';
+import { getFlowLink } from './flowEdges';
+import { resolveShapeName } from './shapes';
+import {
+    GROUP_COLORS, createIdMapper, placeImportedNodes, sortParentsFirst, toNodeMetadata, toNodeType, type ImportedDiagram,
+} from './diagramImport';
+
+/**
+ * Graphviz DOT interchange.
+ * Diagrams are written as a `digraph`: groups become `cluster_` subgraphs, edges keep their markers as
+ * arrowheads and node types, shapes and metadata go in `sysvis_*` / `tech_stack` / `role` / `description`
+ * attributes, which Graphviz carries along without drawing. DOT has no positions, so imports are laid out.
+ */
+
+export interface DotExportOptions {
+    /** Becomes the graph's `rankdir` */
+    direction?: FlowDirection;
+}
+
+type DotAttributes = Record<string, string>;
+
+const CLUSTER_PREFIX = 'cluster_';
+
+// Our shapes as Graphviz node shapes (with the style they need), and Graphviz shapes read back
+const SHAPES: Record<string, [shape: string, style?: string]> = {
+    rect: ['box'],
+    rounded: ['box', 'rounded'],
+    stadium: ['box', 'rounded'],
+    'fr-rect': ['box'],
+    text: ['plaintext'],
+    circle: ['circle'],
+    'sm-circ': ['circle'],
+    'f-circ': ['circle'],
+    'dbl-circ': ['doublecircle'],
+    cloud: ['ellipse'],
+    diam: ['diamond'],
+    hex: ['hexagon'],
+    'lean-r': ['parallelogram'],
+    'lean-l': ['parallelogram'],
+    'trap-t': ['trapezoid'],
+    'trap-b': ['invtrapezoid'],
+    tri: ['triangle'],
+    cyl: ['cylinder'],
+    doc: ['note'],
+    docs: ['note'],
+    'lin-doc': ['note'],
+    'tag-doc': ['note'],
+    'notch-pent': ['house'],
+    delay: ['box', 'rounded'],
+};
+
+const TYPE_SHAPES: Record<string, string> = {
+    decision: 'diam', decisionNode: 'diam', database: 'cyl', databaseNode: 'cyl',
+};
+
+const IMPORTED_SHAPES: Record<string, string> = {
+    ellipse: 'circle', oval: 'circle', circle: 'circle', point: 'sm-circ', doublecircle: 'dbl-circ', diamond: 'diam',
+    hexagon: 'hex', parallelogram: 'lean-r', trapezoid: 'trap-t', invtrapezoid: 'trap-b', triangle: 'tri',
+    cylinder: 'cyl', note: 'doc', tab: 'doc', folder: 'doc', house: 'notch-pent', plaintext: 'text', plain: 'text', none: 'text',
+};
+
+// Edge markers as Graphviz arrow names; several shapes in one name run outward from the node
+const ARROWS: Record<Exclude<EdgeMarker, 'none'>, string> = {
+    arrow: 'normal',
+    circle: 'dot',
+    cross: 'tee',
+    triangle: 'empty',
+    diamond: 'odiamond',
+    'filled-diamond': 'diamond',
+    lollipop: 'odot',
+    'zero-or-one': 'teeodot',
+    'exactly-one': 'teetee',
+    'zero-or-many': 'crowodot',
+    'one-or-many': 'crowtee',
+};
+
+// Other Graphviz arrow shapes read as the nearest marker, and those that differ when open (`o` prefix)
+const ARROW_SHAPES: Record<string, EdgeMarker> = {
+    normal: 'arrow', inv: 'arrow', vee: 'arrow', curve: 'arrow', icurve: 'arrow', dot: 'circle', tee: 'cross', box: 'cross',
+    empty: 'triangle', invempty: 'triangle', diamond: 'filled-diamond', ediamond: 'diamond', crow: 'zero-or-many', none: 'none',
+};
+const OPEN_ARROW_SHAPES: Record<string, EdgeMarker> = { normal: 'triangle', inv: 'triangle', dot: 'lollipop', diamond: 'diamond' };
+
+const DIRECTIONS = new Set<FlowDirection>(['TB', 'BT', 'LR', 'RL']);
+
+function quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
+
+function formatAttributes(values: [string, string | number | undefined][]): string {
+    const written = values.filter(([, value]) => value !== undefined && value !== '').map(([name, value]) => `${name}=${quote(String(value))}`);
+    return written.length ? ` [${written.join(', ')}]` : '';
+}
+
+const cssString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+function getNodeAttributes(node: Node): [string, string | undefined][] {
+    const css = (node.data.style || {}) as CSSProperties;
+    const shape = resolveShapeName(node.data.shape as string | undefined);
+    const [dotShape, shapeStyle] = SHAPES[shape ?? TYPE_SHAPES[node.type || ''] ?? 'rounded'] ?? SHAPES.rounded;
+    const fill = cssString(css.background) ?? cssString(css.backgroundColor);
+    const style = [shapeStyle, fill ? 'filled' : undefined, css.borderStyle === 'dashed' ? 'dashed' : undefined].filter(Boolean).join(',');
+    const metadata = node.data.metadata;
+    return [
+        ['label', String(node.data.label ?? node.id)],
+        ['shape', dotShape],
+        ['style', style],
+        ['fillcolor', fill],
+        ['color', cssString(css.borderColor)],
+        ['fontcolor', cssString(css.color)],
+        ['sysvis_type', node.type],
+        ['sysvis_shape', shape],
+        ['tech_stack', metadata?.techStack?.join(', ')],
+        ['role', metadata?.role],
+        ['description', metadata?.description],
+    ];
+}
+
+function getEdgeAttributes(edge: Edge): [string, string | number | undefined][] {
+    const link = getFlowLink(edge.data as EdgeData | undefined, edge.style);
+    const forward = link.endMarker !== 'none';
+    const back = link.startMarker !== 'none';
+    return [
+        ['label', typeof edge.label === 'string' ? edge.label : undefined],
+        ['dir', forward && back ? 'both' : back ? 'back' : forward ? undefined : 'none'],
+        ['arrowhead', forward && link.endMarker !== 'arrow' ? ARROWS[link.endMarker as Exclude<EdgeMarker, 'none'>] : undefined],
+        ['arrowtail', back ? ARROWS[link.startMarker as Exclude<EdgeMarker, 'none'>] : undefined],
+        ['style', link.stroke === 'dotted' ? 'dashed' : link.stroke === 'invisible' ? 'invis' : undefined],
+        ['penwidth', link.stroke === 'thick' ? 3 : undefined],
+        ['color', cssString(edge.style?.stroke)],
+    ];
+}
+
+/**
+ * Write nodes and edges as a Graphviz DOT graph (`.dot`)
+ */
+export function exportToDot(nodes: Node[], edges: Edge[], options: DotExportOptions = {}): string {
+    const { direction = 'TB' } = options;
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const sorted = sortParentsFirst(nodes);
+    const childrenOf = (parentId: string | undefined) => sorted.filter(n => (n.parentId && byId.has(n.parentId) ? n.parentId : undefined) === parentId);
+    const lines = [
+        'digraph G {',
+        `    graph [rankdir=${direction}, compound=true, fontname="Helvetica"];`,
+        '    node [fontname="Helvetica"];',
+        '    edge [fontname="Helvetica"];',
+    ];
+
+    const write = (parentId: string | undefined, indent: string) => {
+        childrenOf(parentId).forEach(node => {
+            if (node.type !== 'group') {
+                lines.push(`${indent}${quote(node.id)}${formatAttributes(getNodeAttributes(node))};`);
+                return;
+            }
+            lines.push('', `${indent}subgraph ${quote(CLUSTER_PREFIX + node.id)} {`);
+            const attributes: [string, string | undefined][] = [
+                ['label', String(node.data.label ?? node.id)],
+                ['style', 'rounded,filled'],
+                ['fillcolor', cssString(node.data.color) ?? GROUP_COLORS[0]],
+            ];
+            attributes.forEach(([name, value]) => value && lines.push(`${indent}    ${name}=${quote(value)};`));
+            write(node.id, `${indent}    `);
+            lines.push(`${indent}}`);
+        });
+    };
+    write(undefined, '    ');
+
+    // Graphviz edges join nodes, so an edge at a group is drawn to a node inside it and clipped at the cluster
+    const firstLeaf = (node: Node): Node | undefined => node.type !== 'group'
+        ? node
+        : childrenOf(node.id).map(firstLeaf).find(Boolean);
+    const edgeLines = edges.flatMap(edge => {
+        const source = byId.get(edge.source);
+        const target = byId.get(edge.target);
+        const from = source && firstLeaf(source);
+        const to = target && firstLeaf(target);
+        if (!from || !to) return [];
+        const attributes = getEdgeAttributes(edge);
+        if (source.type === 'group') attributes.push(['ltail', CLUSTER_PREFIX + source.id]);
+        if (target.type === 'group') attributes.push(['lhead', CLUSTER_PREFIX + target.id]);
+        return [`    ${quote(from.id)} -> ${quote(to.id)}${formatAttributes(attributes)};`];
+    });
+    if (edgeLines.length) lines.push('', ...edgeLines);
+
+    lines.push('}', '');
+    return lines.join('\n');
+}
+
+/**
+ * Whether text looks like a DOT graph
+ */
+export function isDotFile(text: string): boolean {
+    return /^\s*(?:(?:\/\/|#)[^\n]*\n\s*|\/\*[\s\S]*?\*\/\s*)*(?:strict\s+)?(?:di)?graph\b[^{]*\{/i.test(text);
+}
+
+interface Token {
+    kind: 'id' | 'html' | 'punct' | 'edgeop';
+    value: string;
+    /** Quoted and HTML strings are never keywords */
+    keyword?: string;
+    line: number;
+}
+
+const KEYWORDS = new Set(['strict', 'graph', 'digraph', 'node', 'edge', 'subgraph']);
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1;
+    let i = 0;
+    const fail = (message: string): never => {
+        throw new Error(`Not a valid DOT file: ${message} on line ${line}`);
+    };
+    while (i < text.length) {
+        const char = text[i];
+        if (char === '\n') {
+            line++;
+            i++;
+        } else if (/\s/.test(char)) {
+            i++;
+        } else if (text.startsWith('//', i) || (char === '#' && !text.slice(text.lastIndexOf('\n', i - 1) + 1, i).trim())) {
+            while (i < text.length && text[i] !== '\n') i++;
+        } else if (text.startsWith('/*', i)) {
+            const end = text.indexOf('*/', i + 2);
+            if (end === -1) fail('unclosed comment');
+            line += text.slice(i, end).split('\n').length - 1;
+            i = end + 2;
+        } else if (text.startsWith('->', i) || text.startsWith('--', i)) {
+            tokens.push({ kind: 'edgeop', value: text.slice(i, i + 2), line });
+            i += 2;
+        } else if ('{}[]=;,:'.includes(char)) {
+            tokens.push({ kind: 'punct', value: char, line });
+            i++;
+        } else if (char === '"') {
+            let value = '';
+            i++;
+            while (i < text.length && text[i] !== '"') {
+                if (text[i] === '\\' && text[i + 1] === '"') {
+                    value += '"';
+                    i += 2;
+                } else if (text[i] === '\\' && text[i + 1] === '\n') {
+                    line++;
+                    i += 2;
+                } else {
+                    if (text[i] === '\n') line++;
+                    value += text[i++];
+                }
+            }
+            if (i >= text.length) fail('unclosed string');
+            i++;
+            // "a" + "b" is one string
+            const last = tokens[tokens.length - 1];
+            if (last?.kind === 'punct' && last.value === '+') {
+                tokens.pop();
+                tokens[tokens.length - 1].value += value;
+            } else {
+                tokens.push({ kind: 'id', value, line });
+            }
+        } else if (char === '+') {
+            tokens.push({ kind: 'punct', value: '+', line });
+            i++;
+        } else if (char === '<') {
+            let depth = 0;
+            const start = i;
+            do {
+                if (text[i] === '<') depth++;
+                else if (text[i] === '>') depth--;
+                else if (text[i] === '\n') line++;
+                i++;
+            } while (depth > 0 && i < text.length);
+            if (depth > 0) fail('unclosed HTML string');
+            tokens.push({ kind: 'html', value: text.slice(start + 1, i - 1), line });
+        } else {
+            const match = /^(?:-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(text.slice(i, i + 256));
+            if (!match) fail(`unexpected "${char}"`);
+            const value = match![0];
+            const lower = value.toLowerCase();
+            tokens.push({ kind: 'id', value, keyword: KEYWORDS.has(lower) ? lower : undefined, line });
+            i += value.length;
+        }
+    }
+    return tokens;
+}
+
+interface DotNode {
+    attributes: DotAttributes;
+    cluster?: string;
+    html: Set<string>;
+}
+
+interface DotCluster {
+    attributes: DotAttributes;
+    parent?: string;
+    html: Set<string>;
+}
+
+interface DotGraph {
+    directed: boolean;
+    attributes: DotAttributes;
+    nodes: Map<string, DotNode>;
+    clusters: Map<string, DotCluster>;
+    edges: { source: string; target: string; attributes: DotAttributes; html: Set<string> }[];
+}
+
+interface Scope {
+    node: DotAttributes;
+    edge: DotAttributes;
+    cluster?: string;
+}
+
+// Recursive descent over the DOT grammar (https://graphviz.org/doc/info/lang.html)
+function parseDot(text: string): DotGraph {
+    const tokens = tokenize(text);
+    let at = 0;
+    const peek = (offset = 0) => tokens[at + offset];
+    const fail = (expected: string): never => {
+        const token = peek();
+        throw new Error(`Not a valid DOT file: expected ${expected} ${token ? `on line ${token.line}` : 'at the end'}`);
+    };
+    const isPunct = (value: string, token = peek()) => token?.kind === 'punct' && token.value === value;
+    const expectPunct = (value: string) => (isPunct(value) ? at++ : fail(`"${value}"`));
+    const isId = (token = peek()) => token?.kind === 'id' || token?.kind === 'html';
+    const readId = () => (isId() ? tokens[at++] : fail('a name'));
+
+    if (peek()?.keyword === 'strict') at++;
+    const kind = peek()?.keyword;
+    if (kind !== 'graph' && kind !== 'digraph') fail('"graph" or "digraph"');
+    at++;
+    if (isId() && !peek()?.keyword) at++;
+    expectPunct('{');
+
+    const graph: DotGraph = { directed: kind === 'digraph', attributes: {}, nodes: new Map(), clusters: new Map(), edges: [] };
+
+    // Attributes of a list, noting which were HTML strings
+    const readAttributes = (html: Set<string>): DotAttributes => {
+        const attributes: DotAttributes = {};
+        while (isPunct('[')) {
+            at++;
+            while (!isPunct(']')) {
+                const name = readId().value;
+                let value = 'true';
+                if (isPunct('=')) {
+                    at++;
+                    const token = readId();
+                    value = token.value;
+                    if (token.kind === 'html') html.add(name);
+                }
+                attributes[name] = value;
+                if (isPunct(',') || isPunct(';')) at++;
+            }
+            at++;
+        }
+        return attributes;
+    };
+
+    const declareNode = (id: string, scope: Scope, attributes: DotAttributes = {}, html = new Set<string>()) => {
+        const known = graph.nodes.get(id);
+        if (known) {
+            Object.assign(known.attributes, attributes);
+            html.forEach(name => known.html.add(name));
+        } else {
+            graph.nodes.set(id, { attributes: { ...scope.node, ...attributes }, cluster: scope.cluster, html });
+        }
+    };
+
+    const graphAttributesOf = (scope: Scope) => (scope.cluster ? graph.clusters.get(scope.cluster)! : { attributes: graph.attributes, html: new Set<string>() });
+
+    // Node ids declared or mentioned in a statement list, for subgraphs used as edge ends
+    const parseStatements = (scope: Scope): Set<string> => {
+        const mentioned = new Set<string>();
+        while (!isPunct('}')) {
+            if (!peek()) fail('"}"');
+            if (isPunct(';')) {
+                at++;
+                continue;
+            }
+            const token = peek();
+            if ((token.keyword === 'graph' || token.keyword === 'node' || token.keyword === 'edge') && isPunct('[', peek(1))) {
+                at++;
+                const html = new Set<string>();
+                const attributes = readAttributes(html);
+                if (token.keyword === 'node') scope.node = { ...scope.node, ...attributes };
+                else if (token.keyword === 'edge') scope.edge = { ...scope.edge, ...attributes };
+                else {
+                    const target = graphAttributesOf(scope);
+                    Object.assign(target.attributes, attributes);
+                    html.forEach(name => target.html.add(name));
+                }
+                continue;
+            }
+            if (isId() && !token.keyword && isPunct('=', peek(1))) {
+                at += 2;
+                const value = readId();
+                const target = graphAttributesOf(scope);
+                target.attributes[token.value] = value.value;
+                if (value.kind === 'html') target.html.add(token.value);
+                continue;
+            }
+
+            // A node, a subgraph, or a chain of edges between them
+            const ends: Set<string>[] = [parseEnd(scope)];
+            while (peek()?.kind === 'edgeop') {
+                at++;
+                ends.push(parseEnd(scope));
+            }
+            ends.forEach(ids => ids.forEach(id => mentioned.add(id)));
+            const html = new Set<string>();
+            const attributes = readAttributes(html);
+            if (ends.length === 1) {
+                if (!isPunct('{', token) && token.keyword !== 'subgraph') declareNode(token.value, scope, attributes, html);
+                continue;
+            }
+            for (let i = 1; i < ends.length; i++) {
+                ends[i - 1].forEach(source => ends[i].forEach(target => {
+                    graph.edges.push({ source, target, attributes: { ...scope.edge, ...attributes }, html });
+                }));
+            }
+        }
+        at++;
+        return mentioned;
+    };
+
+    const parseEnd = (scope: Scope): Set<string> => {
+        if (peek()?.keyword === 'subgraph' || isPunct('{')) {
+            let name: string | undefined;
+            if (peek().keyword === 'subgraph') {
+                at++;
+                if (isId()) name = readId().value;
+            }
+            expectPunct('{');
+            const inner: Scope = { node: { ...scope.node }, edge: { ...scope.edge }, cluster: scope.cluster };
+            if (name?.toLowerCase().startsWith('cluster')) {
+                if (!graph.clusters.has(name)) graph.clusters.set(name, { attributes: {}, parent: scope.cluster, html: new Set() });
+                inner.cluster = name;
+            }
+            return parseStatements(inner);
+        }
+        const id = readId().value;
+        // Ports (node:port:compass) only pick where the edge meets the node
+        while (isPunct(':')) {
+            at++;
+            readId();
+        }
+        declareNode(id, scope);
+        return new Set([id]);
+    };
+
+    parseStatements({ node: {}, edge: {} });
+    return graph;
+}
+
+// Label text: escapes like \n and \l break lines, \N stands for the node name, HTML labels lose their markup
+function toLabel(value: string | undefined, name: string, isHtml: boolean): string {
+    if (value === undefined) return name;
+    const text = isHtml
+        ? new DOMParser().parseFromString(value.replace(/<br\s*\/?>/gi, ' '), 'text/html').body.textContent || ''
+        : value.replace(/\\N/g, name).replace(/\\G/g, '').replace(/\\[nlr]/g, ' ').replace(/\\(.)/g, '$1');
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function toMarker(name: string | undefined): EdgeMarker {
+    if (!name) return 'arrow';
+    const exact = (Object.entries(ARROWS) as [EdgeMarker, string][]).find(([, arrow]) => arrow === name);
+    if (exact) return exact[0];
+    // Shapes are written [o][l|r]shape, the first one being at the node
+    const match = /^(o?)[lr]?(invempty|normal|inv|vee|curve|icurve|dot|tee|box|empty|diamond|ediamond|crow|none)/.exec(name);
+    if (!match) return 'arrow';
+    const [, open, shape] = match;
+    return (open && OPEN_ARROW_SHAPES[shape]) || ARROW_SHAPES[shape];
+}
+
+function toDirection(rankdir: string | undefined): FlowDirection | undefined {
+    const direction = rankdir?.toUpperCase() as FlowDirection | undefined;
+    return direction && DIRECTIONS.has(direction) ? direction : undefined;
+}
+
+function toNodeCss(attributes: DotAttributes): CSSProperties | undefined {
+    const css: CSSProperties = {};
+    const style = (attributes.style || '').split(',').map(part => part.trim());
+    if (style.includes('filled') && (attributes.fillcolor || attributes.color)) css.background = attributes.fillcolor || attributes.color;
+    if (attributes.color) css.borderColor = attributes.color;
+    if (attributes.penwidth) css.borderWidth = `${attributes.penwidth}px`;
+    if (attributes.fontcolor) css.color = attributes.fontcolor;
+    if (style.includes('dashed') || style.includes('dotted')) css.borderStyle = 'dashed';
+    return Object.keys(css).length ? css : undefined;
+}
+
+/**
+ * Read a Graphviz DOT graph into nodes and edges. Clusters become groups, other subgraphs only scope
+ * their attributes, and the result is laid out in the graph's `rankdir`.
+ */
+export function importFromDot(text: string): ImportedDiagram {
+    const graph = parseDot(text);
+    const toId = createIdMapper();
+    // Clusters are named without their prefix where that is free
+    const clusterIds = new Map([...graph.clusters.keys()].map(name => [name, name.replace(/^cluster_/i, '') || name]));
+    const nodeNames = new Set(graph.nodes.keys());
+    const clusterNodeId = (name: string) => {
+        const short = clusterIds.get(name)!;
+        return toId(nodeNames.has(short) ? name : short);
+    };
+
+    let groupIndex = 0;
+    const groups: Node[] = [...graph.clusters.entries()].map(([name, cluster]) => {
+        const { attributes } = cluster;
+        const parentId = cluster.parent ? clusterNodeId(cluster.parent) : undefined;
+        const style = (attributes.style || '').split(',');
+        const fill = attributes.fillcolor || attributes.bgcolor || (style.includes('filled') ? attributes.color : undefined);
+        return {
+            id: clusterNodeId(name),
+            type: 'group',
+            position: { x: 0, y: 0 },
+            parentId,
+            extent: parentId ? 'parent' as const : undefined,
+            data: {
+                label: toLabel(attributes.label, clusterIds.get(name)!, cluster.html.has('label')),
+                color: fill || GROUP_COLORS[groupIndex++ % GROUP_COLORS.length],
+                metadata: toNodeMetadata({ techStack: attributes.tech_stack, role: attributes.role, description: attributes.description }),
+            },
+            style: {},
+        };
+    });
+
+    const nodes: Node[] = [...graph.nodes.entries()].map(([name, node]) => {
+        const { attributes } = node;
+        const parentId = node.cluster ? clusterNodeId(node.cluster) : undefined;
+        const dotShape = (attributes.shape || '').toLowerCase();
+        const shape = attributes.sysvis_shape || IMPORTED_SHAPES[dotShape];
+        let type = toNodeType(attributes.sysvis_type);
+        if (!type) {
+            if (shape === 'diam') type = 'decision';
+            else if (shape === 'cyl') type = 'database';
+            else type = shape ? 'custom-shape' : 'default';
+        }
+        return {
+            id: toId(name),
+            type,
+            position: { x: 0, y: 0 },
+            parentId,
+            extent: parentId ? 'parent' as const : undefined,
+            data: {
+                label: toLabel(attributes.label, name, node.html.has('label')),
+                category: 'filter-other',
+                shape: type === 'custom-shape' || attributes.sysvis_shape ? shape : undefined,
+                style: toNodeCss(attributes),
+                metadata: toNodeMetadata({ techStack: attributes.tech_stack, role: attributes.role, description: attributes.description }),
+            },
+        };
+    });
+
+    const edges: Edge[] = graph.edges.map((edge, i) => {
+        const { attributes } = edge;
+        const source = attributes.ltail && graph.clusters.has(attributes.ltail) ? clusterNodeId(attributes.ltail) : toId(edge.source);
+        const target = attributes.lhead && graph.clusters.has(attributes.lhead) ? clusterNodeId(attributes.lhead) : toId(edge.target);
+        const dir = attributes.dir || (graph.directed ? 'forward' : 'none');
+        const style = (attributes.style || '').split(',').map(part => part.trim());
+        const stroke: EdgeStroke = style.includes('invis') ? 'invisible'
+            : style.includes('dashed') || style.includes('dotted') ? 'dotted'
+                : style.includes('bold') || Number(attributes.penwidth) >= 2.5 ? 'thick' : 'normal';
+        const data: EdgeData = {
+            stroke,
+            startMarker: dir === 'back' || dir === 'both' ? toMarker(attributes.arrowtail) : 'none',
+            endMarker: dir === 'forward' || dir === 'both' ? toMarker(attributes.arrowhead) : 'none',
+            length: 1,
+        };
+        const label = toLabel(attributes.label ?? attributes.xlabel ?? '', '', edge.html.has('label') || edge.html.has('xlabel'));
+        const color = attributes.color?.split(':')[0];
+        return {
+            id: `e${i}-${source}-${target}`,
+            source, target,
+            label: label || undefined,
+            animated: stroke === 'dotted',
+            style: color ? { stroke: color } : {},
+            data,
+        };
+    });
+
+    console.log(`[Graphviz] Imported ${nodes.length} nodes, ${groups.length} clusters, ${edges.length} edges`);
+    return placeImportedNodes([...groups, ...nodes], edges, new Map(), toDirection(graph.attributes.rankdir));
+}
@@ -0,0 +1,331 @@
+import type { Node, Edge } from '../store';
+import { getLayoutedElements, layoutByScope, type ArrangeScope, type LayoutItem, type LayoutOptions } from './layoutEngine';
+import { VisualOrganizer } from './visualOrganizer';
+
+/**
+ * Layout algorithms offered on the canvas.
+ * Dagre's layered layout is the default; the others are `ArrangeScope` strategies run group by group
+ * (see layoutByScope) so nodes always stay inside their subgraphs. More can be added with registerLayoutAlgorithm.
+ */
+
+export interface LayoutAlgorithm {
+    id: string;
+    label: string;
+    description: string;
+    layout: (nodes: Node[], edges: Edge[], options?: Partial<LayoutOptions>) => { nodes: Node[]; edges: Edge[] };
+}
+
+export const DEFAULT_LAYOUT = 'dagre';
+
+const algorithms = new Map<string, LayoutAlgorithm>();
+
+export function registerLayoutAlgorithm(algorithm: LayoutAlgorithm) {
+    algorithms.set(algorithm.id, algorithm);
+}
+
+export function getLayoutAlgorithms(): LayoutAlgorithm[] {
+    return [...algorithms.values()];
+}
+
+/**
+ * Lay out with the algorithm registered as `id`, falling back to the default for unknown ids
+ */
+export function applyLayout(id: string, nodes: Node[], edges: Edge[], options: Partial<LayoutOptions> = {}): { nodes: Node[]; edges: Edge[] } {
+    const algorithm = algorithms.get(id) || algorithms.get(DEFAULT_LAYOUT)!;
+    return algorithm.layout(nodes, edges, options);
+}
+
+interface Box {
+    x: number;  // Centre
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Top-left positions from centred boxes
+function toPositions(items: LayoutItem[], boxes: Box[]): Map<string, { x: number; y: number }> {
+    return new Map(items.map((item, i) => [item.id, { x: boxes[i].x - boxes[i].width / 2, y: boxes[i].y - boxes[i].height / 2 }]));
+}
+
+function getNeighbours(items: LayoutItem[], links: { source: string; target: string }[]): Map<string, string[]> {
+    const neighbours = new Map(items.map(item => [item.id, [] as string[]]));
+    links.forEach(({ source, target }) => {
+        neighbours.get(source)?.push(target);
+        neighbours.get(target)?.push(source);
+    });
+    return neighbours;
+}
+
+/**
+ * Push overlapping boxes apart along the axis where they overlap least
+ */
+function separateBoxes(boxes: Box[], gap: number, maxIterations = 100) {
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+        let moved = false;
+        for (let i = 0; i < boxes.length; i++) {
+            for (let j = i + 1; j < boxes.length; j++) {
+                const a = boxes[i];
+                const b = boxes[j];
+                const dx = b.x - a.x;
+                const dy = b.y - a.y;
+                const overlapX = (a.width + b.width) / 2 + gap - Math.abs(dx);
+                const overlapY = (a.height + b.height) / 2 + gap - Math.abs(dy);
+                if (overlapX <= 0 || overlapY <= 0) continue;
+                moved = true;
+                if (overlapX < overlapY) {
+                    const shift = (overlapX / 2) * (dx < 0 ? -1 : 1);
+                    a.x -= shift;
+                    b.x += shift;
+                } else {
+                    const shift = (overlapY / 2) * (dy < 0 ? -1 : 1);
+                    a.y -= shift;
+                    b.y += shift;
+                }
+            }
+        }
+        if (!moved) return;
+    }
+}
+
+/**
+ * Force-directed (Fruchterman-Reingold): linked items attract, all items repel, then overlaps are removed.
+ * Items start on a circle in source order, so the same diagram always lays out the same way.
+ */
+const arrangeForce: ArrangeScope = (items, links, opts) => {
+    const ideal = items.reduce((sum, item) => sum + Math.max(item.width, item.height), 0) / items.length + opts.nodeSpacing;
+    const startRadius = (ideal * items.length) / (2 * Math.PI);
+    const boxes: Box[] = items.map((item, i) => {
+        const angle = (2 * Math.PI * i) / items.length;
+        return { x: Math.cos(angle) * startRadius, y: Math.sin(angle) * startRadius, width: item.width, height: item.height };
+    });
+    const index = new Map(items.map((item, i) => [item.id, i]));
+    const pairs = links.map(({ source, target }) => [index.get(source)!, index.get(target)!]);
+
+    const iterations = 300;
+    for (let step = 0; step < iterations; step++) {
+        const temperature = ideal * (1 - step / iterations);
+        const shift = boxes.map(() => ({ x: 0, y: 0 }));
+        for (let i = 0; i < boxes.length; i++) {
+            for (let j = i + 1; j < boxes.length; j++) {
+                const dx = boxes[i].x - boxes[j].x || 0.01;
+                const dy = boxes[i].y - boxes[j].y;
+                const distance = Math.max(Math.hypot(dx, dy), 1);
+                const force = (ideal * ideal) / distance;
+                shift[i].x += (dx / distance) * force;
+                shift[i].y += (dy / distance) * force;
+                shift[j].x -= (dx / distance) * force;
+                shift[j].y -= (dy / distance) * force;
+            }
+        }
+        pairs.forEach(([i, j]) => {
+            const dx = boxes[i].x - boxes[j].x;
+            const dy = boxes[i].y - boxes[j].y;
+            const distance = Math.max(Math.hypot(dx, dy), 1);
+            const force = (distance * distance) / ideal;
+            shift[i].x -= (dx / distance) * force;
+            shift[i].y -= (dy / distance) * force;
+            shift[j].x += (dx / distance) * force;
+            shift[j].y += (dy / distance) * force;
+        });
+        boxes.forEach((box, i) => {
+            // Gentle pull to the centre keeps disconnected parts together
+            const x = shift[i].x - box.x * 0.05;
+            const y = shift[i].y - box.y * 0.05;
+            const length = Math.max(Math.hypot(x, y), 1);
+            const limited = Math.min(length, temperature);
+            box.x += (x / length) * limited;
+            box.y += (y / length) * limited;
+        });
+    }
+
+    separateBoxes(boxes, opts.nodeSpacing / 2);
+    return toPositions(items, boxes);
+};
+
+/**
+ * Radial: the centre item in the middle and the rest on rings by link distance from it,
+ * each item near the one it was reached from. Items not linked to the centre go on an outer ring.
+ */
+function arrangeRadial(centreId?: string): ArrangeScope {
+    return (items, links, opts) => {
+        const neighbours = getNeighbours(items, links);
+        const centre = items.find(item => item.id === centreId)
+            || items.reduce((best, item) => (neighbours.get(item.id)!.length > neighbours.get(best.id)!.length ? item : best));
+
+        const level = new Map([[centre.id, 0]]);
+        const reachedFrom = new Map<string, string>();
+        const queue = [centre.id];
+        while (queue.length > 0) {
+            const id = queue.shift()!;
+            neighbours.get(id)!.forEach(next => {
+                if (level.has(next)) return;
+                level.set(next, level.get(id)! + 1);
+                reachedFrom.set(next, id);
+                queue.push(next);
+            });
+        }
+        const outer = Math.max(...level.values()) + 1;
+        items.forEach(item => {
+            if (!level.has(item.id)) level.set(item.id, outer);
+        });
+
+        const size = Math.max(...items.map(item => Math.max(item.width, item.height)));
+        const ringGap = size + opts.nodeSpacing;
+        const angles = new Map([[centre.id, -Math.PI / 2]]);
+        const boxes = new Map<string, Box>([[centre.id, { x: 0, y: 0, width: centre.width, height: centre.height }]]);
+        let radius = 0;
+        for (let ring = 1; ring <= outer; ring++) {
+            const onRing = items
+                .filter(item => level.get(item.id) === ring)
+                .map((item, order) => ({ item, order, angle: angles.get(reachedFrom.get(item.id) || '') ?? Infinity }))
+                .sort((a, b) => a.angle - b.angle || a.order - b.order);
+            if (onRing.length === 0) continue;
+            radius = Math.max(radius + ringGap, (onRing.length * (size + opts.nodeSpacing / 2)) / (2 * Math.PI));
+            onRing.forEach(({ item }, i) => {
+                const angle = -Math.PI / 2 + (2 * Math.PI * i) / onRing.length;
+                angles.set(item.id, angle);
+                boxes.set(item.id, { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius, width: item.width, height: item.height });
+            });
+        }
+        return toPositions(items, items.map(item => boxes.get(item.id)!));
+    };
+}
+
+/**
+ * Compact tree: a spanning tree of the links from the items nothing points to, each subtree
+ * only as wide as it needs, growing in the flow direction.
+ */
+const arrangeTree: ArrangeScope = (items, links, opts) => {
+    const isHorizontal = opts.direction === 'LR' || opts.direction === 'RL';
+    const isReversed = opts.direction === 'BT' || opts.direction === 'RL';
+    const siblingGap = opts.nodeSpacing / 2;
+    const levelGap = opts.rankSpacing / 2;
+    const byId = new Map(items.map(item => [item.id, item]));
+    const breadth = (id: string) => (isHorizontal ? byId.get(id)!.height : byId.get(id)!.width);
+    const depth = (id: string) => (isHorizontal ? byId.get(id)!.width : byId.get(id)!.height);
+
+    // Spanning tree, breadth first from the roots in source order
+    const targets = new Set(links.map(link => link.target));
+    const roots = items.filter(item => !targets.has(item.id)).map(item => item.id);
+    const children = new Map(items.map(item => [item.id, [] as string[]]));
+    const level = new Map<string, number>();
+    const visit = (root: string) => {
+        level.set(root, 0);
+        const queue = [root];
+        while (queue.length > 0) {
+            const id = queue.shift()!;
+            links.filter(link => link.source === id && !level.has(link.target)).forEach(({ target }) => {
+                level.set(target, level.get(id)! + 1);
+                children.get(id)!.push(target);
+                queue.push(target);
+            });
+        }
+    };
+    roots.forEach(visit);
+    // Cycles without an entry point start from their first item
+    items.forEach(item => {
+        if (!level.has(item.id)) {
+            roots.push(item.id);
+            visit(item.id);
+        }
+    });
+
+    const levelDepth: number[] = [];
+    level.forEach((l, id) => {
+        levelDepth[l] = Math.max(levelDepth[l] || 0, depth(id));
+    });
+    const levelStart = levelDepth.map((_, l) => levelDepth.slice(0, l).reduce((sum, d) => sum + d + levelGap, 0));
+
+    const width = new Map<string, number>();
+    const measure = (id: string): number => {
+        const kids = children.get(id)!;
+        const kidsWidth = kids.reduce((sum, kid) => sum + measure(kid), 0) + siblingGap * Math.max(kids.length - 1, 0);
+        width.set(id, Math.max(breadth(id), kidsWidth));
+        return width.get(id)!;
+    };
+
+    const positions = new Map<string, { x: number; y: number }>();
+    const place = (id: string, start: number) => {
+        const kids = children.get(id)!;
+        const kidsWidth = kids.reduce((sum, kid) => sum + width.get(kid)!, 0) + siblingGap * Math.max(kids.length - 1, 0);
+        const across = start + (width.get(id)! - breadth(id)) / 2;
+        const along = isReversed ? -(levelStart[level.get(id)!] + depth(id)) : levelStart[level.get(id)!];
+        positions.set(id, isHorizontal ? { x: along, y: across } : { x: across, y: along });
+
+        let next = start + (width.get(id)! - kidsWidth) / 2;
+        kids.forEach(kid => {
+            place(kid, next);
+            next += width.get(kid)! + siblingGap;
+        });
+    };
+
+    let start = 0;
+    roots.forEach(root => {
+        measure(root);
+        place(root, start);
+        start += width.get(root)! + opts.nodeSpacing;
+    });
+    return positions;
+};
+
+/**
+ * Grid: items in rows of about √n, in source order. Groups of different sizes are packed
+ * tallest first into rows of the same width.
+ */
+const arrangeGrid: ArrangeScope = (items, _links, opts) => {
+    const gap = opts.nodeSpacing / 2;
+    const columns = Math.ceil(Math.sqrt(items.length));
+    const rowWidth = Math.max(
+        ...items.map(item => item.width),
+        (items.reduce((sum, item) => sum + item.width + gap, 0) / items.length) * columns - gap,
+    );
+    const sorted = [...items].sort((a, b) => b.height - a.height);
+
+    const positions = new Map<string, { x: number; y: number }>();
+    let x = 0;
+    let y = 0;
+    let rowHeight = 0;
+    sorted.forEach(item => {
+        if (x > 0 && x + item.width > rowWidth) {
+            x = 0;
+            y += rowHeight + gap;
+            rowHeight = 0;
+        }
+        positions.set(item.id, { x, y });
+        x += item.width + gap;
+        rowHeight = Math.max(rowHeight, item.height);
+    });
+    return positions;
+};
+
+registerLayoutAlgorithm({
+    id: DEFAULT_LAYOUT,
+    label: 'Layered',
+    description: 'Ranks along the flow direction',
+    layout: getLayoutedElements,
+});
+registerLayoutAlgorithm({
+    id: 'force',
+    label: 'Force-directed',
+    description: 'Linked nodes pull together, the rest spread out',
+    layout: (nodes, edges, options) => layoutByScope(nodes, edges, arrangeForce, options),
+});
+registerLayoutAlgorithm({
+    id: 'radial',
+    label: 'Radial',
+    description: 'Rings around the most connected node',
+    layout: (nodes, edges, options) =>
+        layoutByScope(nodes, edges, arrangeRadial(new VisualOrganizer(nodes, edges).findCentralNode()?.id), options),
+});
+registerLayoutAlgorithm({
+    id: 'tree',
+    label: 'Compact Tree',
+    description: 'Tidy tree from the entry points',
+    layout: (nodes, edges, options) => layoutByScope(nodes, edges, arrangeTree, options),
+});
+registerLayoutAlgorithm({
+    id: 'grid',
+    label: 'Grid',
+    description: 'Rows and columns, groups packed together',
+    layout: (nodes, edges, options) => layoutByScope(nodes, edges, arrangeGrid, options),
+});
@@ -1,20 +1,27 @@
 import dagre from 'dagre';
-import { type Node, type Edge } from '../store';
+import type { Node, Edge } from '../store';
+import type { FlowDirection } from '../types';
+import { SEQUENCE_LAYOUT, getSequenceRowOffset, type SequenceNotePlacement } from './sequenceDiagram';
+import { estimateClassNodeSize } from './classDiagram';
+import { estimateEntityNodeSize } from './erDiagram';
+import { STATE_BAR_SIZE } from './stateDiagram';
+import { estimateLabelNodeSize, measureText } from './nodeSizing';
 
 // Enhanced constants for better spacing
-const NODE_WIDTH = 180;
-const NODE_HEIGHT = 60;
 const GROUP_PADDING = 60;  // Increased padding
 const GROUP_TITLE_HEIGHT = 50;
-const GROUP_GAP = 120;  // Increased gap between groups
+const GROUP_GAP = 120;  // Gap between ranked items and the unlinked ones packed beside them
 const MIN_NODE_SPACING = 80;  // Minimum space between nodes
 
 export interface LayoutOptions {
-    direction: 'TB' | 'LR' | 'BT' | 'RL';
+    /** Diagram direction; groups with their own `data.direction` override it for their contents */
+    direction: FlowDirection;
     nodeSpacing: number;
     rankSpacing: number;
     smartOverlapResolution?: boolean;  // Enable collision detection
     optimizeForReadability?: boolean;  // Prioritize clear flow
+    /** Nodes that keep their current position, besides those pinned with `data.pinned`; the rest are placed around them */
+    fixedNodeIds?: string[];
 }
 
 const defaultOptions: LayoutOptions = {
@@ -30,233 +37,383 @@ export function getLayoutedElements(
     edges: Edge[],
     options: Partial<LayoutOptions> = {}
 ): { nodes: Node[]; edges: Edge[] } {
-    const opts = { ...defaultOptions, ...options };
-    const isHorizontal = opts.direction === 'LR' || opts.direction === 'RL';
+    // Parsers report `direction: undefined` for diagrams without a header direction
+    const opts = { ...defaultOptions, ...options, direction: options.direction || defaultOptions.direction };
+    const layout = keepFixedNodes(nodes, layoutAllNodes(nodes, edges, opts), opts);
+    return { nodes: layout.nodes, edges: placeEdgeLabels(layout.nodes, layout.edges) };
+}
 
-    // Separate group nodes from regular nodes
-    const groupNodes = nodes.filter(n => n.type === 'group');
-    const regularNodes = nodes.filter(n => n.type !== 'group');
+// Pinned and fixed nodes stay put; everything else in `layout` is moved around them
+function keepFixedNodes(nodes: Node[], layout: { nodes: Node[]; edges: Edge[] }, opts: LayoutOptions): { nodes: Node[]; edges: Edge[] } {
+    const fixedIds = new Set(opts.fixedNodeIds);
+    const fixed = nodes.filter(n => n.data.pinned || fixedIds.has(n.id));
+    if (fixed.length === 0 || nodes.some(n => n.type === 'lifeline')) return layout;
+    return {
+        nodes: placeAroundFixedNodes(layout.nodes, new Map(fixed.map(n => [n.id, n])), opts.direction),
+        edges: layout.edges,
+    };
+}
 
-    // If no groups, just layout all nodes flat
-    if (groupNodes.length === 0) {
-        return layoutFlatNodes(regularNodes, edges, opts, isHorizontal);
-    }
+/**
+ * A node, or a group already sized around its contents, to be placed by an `ArrangeScope` strategy
+ */
+export interface LayoutItem {
+    id: string;
+    node: Node;
+    width: number;
+    height: number;
+}
 
-    // Separate nodes by their parent group
-    const nodesWithoutParent = regularNodes.filter(n => !n.parentId);
-    const nodesByGroup = new Map<string, Node[]>();
+/**
+ * Edge between two items of a scope, with edges into nested groups attached to the group
+ */
+export interface LayoutLink {
+    source: string;
+    target: string;
+    label?: string;
+}
 
-    groupNodes.forEach(g => nodesByGroup.set(g.id, []));
-    regularNodes.forEach(n => {
-        if (n.parentId && nodesByGroup.has(n.parentId)) {
-            nodesByGroup.get(n.parentId)!.push(n);
-        }
-    });
+/**
+ * Strategy placing the items of one scope (the top level or one group's children).
+ * Returns top-left positions in any coordinate space; the result is shifted into place afterwards.
+ */
+export type ArrangeScope = (
+    items: LayoutItem[],
+    links: LayoutLink[],
+    opts: LayoutOptions,
+) => Map<string, { x: number; y: number }>;
 
-    // Layout each group internally and calculate their sizes
-    const groupLayouts = new Map<string, {
-        width: number;
-        height: number;
-        nodes: Node[];
-        group: Node;
-    }>();
-
-    groupNodes.forEach(group => {
-        const childNodes = nodesByGroup.get(group.id) || [];
-        const layout = layoutGroupInternal(group, childNodes, edges, opts, isHorizontal);
-        groupLayouts.set(group.id, layout);
-    });
+/**
+ * Lay out with a custom strategy while keeping every node inside its group: each group's contents
+ * are arranged first (innermost groups first) and the group is sized around them, then its parent
+ * places it like a large node. Sequence diagrams keep their fixed geometry.
+ */
+export function layoutByScope(
+    nodes: Node[],
+    edges: Edge[],
+    arrange: ArrangeScope,
+    options: Partial<LayoutOptions> = {}
+): { nodes: Node[]; edges: Edge[] } {
+    const opts = { ...defaultOptions, ...options, direction: options.direction || defaultOptions.direction };
+    if (nodes.some(n => n.type === 'lifeline')) return getLayoutedElements(nodes, edges, options);
+    const layout = keepFixedNodes(nodes, arrangeByScope(nodes, edges, arrange, opts), opts);
+    return { nodes: layout.nodes, edges: placeEdgeLabels(layout.nodes, layout.edges) };
+}
 
-    // Stack groups vertically (for TB direction)
-    const finalNodes: Node[] = [];
-    let currentY = 60; // Starting Y position
-    const groupX = 60; // Left margin for groups
-
-    // Sort groups by their original order (first defined = first in list)
-    const sortedGroups = Array.from(groupLayouts.values());
-
-    sortedGroups.forEach(({ group, width, height, nodes: childNodes }) => {
-        // Position the group
-        finalNodes.push({
-            ...group,
-            position: { x: groupX, y: currentY },
-            style: {
-                ...group.style,
-                width,
-                height,
-            },
-        } as Node);
+// Arrange every scope, innermost groups first, and put the nodes in parent-first order
+function arrangeByScope(nodes: Node[], edges: Edge[], arrange: ArrangeScope, opts: LayoutOptions): { nodes: Node[]; edges: Edge[] } {
+    const groupIds = new Set(nodes.filter(n => n.type === 'group').map(n => n.id));
+    const parentOf = (node: Node) => (node.parentId && groupIds.has(node.parentId) ? node.parentId : undefined);
+    const parents = new Map(nodes.map(n => [n.id, parentOf(n)]));
+    const members = new Map<string | undefined, Node[]>();
+    nodes.forEach(node => members.set(parentOf(node), [...(members.get(parentOf(node)) || []), node]));
+
+    const positions = new Map<string, { x: number; y: number }>();
+    const sizes = new Map<string, { width: number; height: number }>();
+    const arrangeScope = (scopeId: string | undefined, scopeOpts: LayoutOptions) => {
+        const children = members.get(scopeId) || [];
+        // A subgraph's own `direction` applies to its contents
+        children.filter(n => groupIds.has(n.id)).forEach(group => arrangeScope(group.id, {
+            ...scopeOpts,
+            direction: (group.data.direction as FlowDirection | undefined) || scopeOpts.direction,
+        }));
+        if (children.length === 0) {
+            if (scopeId) sizes.set(scopeId, { width: 300, height: 200 });
+            return;
+        }
 
-        // Add positioned child nodes
-        childNodes.forEach(child => finalNodes.push(child));
+        const items = children.map(node => ({
+            id: node.id,
+            node,
+            ...(sizes.get(node.id) || { width: getNodeWidth(node), height: getNodeHeight(node) }),
+        }));
+        const links = edges.flatMap(edge => {
+            if (!parents.has(edge.source) || !parents.has(edge.target)) return [];
+            const source = getChildOfGroup(edge.source, scopeId, parents);
+            const target = getChildOfGroup(edge.target, scopeId, parents);
+            return source && target && source !== target ? [{ source, target, label: getEdgeLabel(edge) }] : [];
+        });
+        const placed = arrange(items, links, scopeOpts);
+
+        const boxes = items.map(item => ({ ...item, ...(placed.get(item.id) || { x: 0, y: 0 }) }));
+        const minX = Math.min(...boxes.map(b => b.x));
+        const minY = Math.min(...boxes.map(b => b.y));
+        const origin = scopeId ? { x: GROUP_PADDING, y: GROUP_PADDING + GROUP_TITLE_HEIGHT } : { x: 60, y: 60 };
+        boxes.forEach(b => positions.set(b.id, { x: b.x - minX + origin.x, y: b.y - minY + origin.y }));
+
+        if (scopeId) {
+            const width = Math.max(...boxes.map(b => b.x + b.width)) - minX + GROUP_PADDING * 2;
+            const height = Math.max(...boxes.map(b => b.y + b.height)) - minY + GROUP_PADDING * 2 + GROUP_TITLE_HEIGHT;
+            sizes.set(scopeId, { width: Math.max(width, 300), height: Math.max(height, 200) });
+        }
+    };
+    arrangeScope(undefined, opts);
 
-        // Move Y down for next group
-        currentY += height + GROUP_GAP;
+    // Parents ahead of their children, as React Flow requires
+    const ordered: Node[] = [];
+    const emit = (scopeId: string | undefined, scopeOpts: LayoutOptions) => (members.get(scopeId) || []).forEach(node => {
+        const size = sizes.get(node.id);
+        ordered.push({
+            ...node,
+            position: positions.get(node.id) || node.position,
+            ...(size ? { style: { ...node.style, ...size } } : getHandlePositions(scopeOpts.direction)),
+            ...(parentOf(node) ? { extent: 'parent' } : {}),
+        } as Node);
+        if (groupIds.has(node.id)) {
+            emit(node.id, { ...scopeOpts, direction: (node.data.direction as FlowDirection | undefined) || scopeOpts.direction });
+        }
     });
+    emit(undefined, opts);
 
-    // Layout orphan nodes (nodes without parent) to the right of groups
-    if (nodesWithoutParent.length > 0) {
-        const maxGroupWidth = Math.max(...sortedGroups.map(g => g.width), 300);
-        const orphanStartX = groupX + maxGroupWidth + 100;
+    return { nodes: ordered, edges };
+}
 
-        const orphanLayout = layoutOrphanNodes(nodesWithoutParent, edges, opts, isHorizontal, orphanStartX);
-        orphanLayout.forEach(node => finalNodes.push(node));
+// Full layout, ignoring current positions
+function layoutAllNodes(nodes: Node[], edges: Edge[], opts: LayoutOptions): { nodes: Node[]; edges: Edge[] } {
+    // Sequence diagrams have a fixed column/row geometry instead of a graph layout
+    if (nodes.some(n => n.type === 'lifeline')) {
+        return layoutSequenceDiagram(nodes, edges);
     }
 
-    return { nodes: finalNodes, edges };
-}
-
-// Layout nodes within a single group
-function layoutGroupInternal(
-    group: Node,
-    childNodes: Node[],
-    edges: Edge[],
-    opts: LayoutOptions,
-    isHorizontal: boolean
-): { width: number; height: number; nodes: Node[]; group: Node } {
-    if (childNodes.length === 0) {
-        return {
-            width: 300,
-            height: 200,
-            nodes: [],
-            group
-        };
+    // Without groups, one dagre pass over everything
+    if (!nodes.some(n => n.type === 'group')) {
+        return layoutFlatNodes(nodes, edges, opts);
     }
 
-    // Create dagre sub-graph for this group
-    const subGraph = new dagre.graphlib.Graph();
-    subGraph.setDefaultEdgeLabel(() => ({}));
-    subGraph.setGraph({
-        rankdir: opts.direction,
-        nodesep: opts.nodeSpacing,
-        ranksep: opts.rankSpacing,
-        marginx: 30,
-        marginy: 30,
-    });
+    // Groups (and nodes outside them) are placed as a graph of their own, each group sized around its layout
+    return arrangeByScope(nodes, edges, arrangeLayered, opts);
+}
 
-    // Add nodes
-    childNodes.forEach(node => {
-        const w = node.type === 'decision' ? 140 : NODE_WIDTH;
-        const h = node.type === 'decision' ? 90 : NODE_HEIGHT;
-        subGraph.setNode(node.id, { width: w, height: h });
-    });
+/**
+ * Restore fixed nodes to their current positions and move every other node by the same
+ * offset as the nearest fixed node beside it (same parent), so the fresh layout lines up
+ * with the parts the user arranged. Moved nodes then slide across the flow until they
+ * clear the fixed ones, and groups grow to fit children that were kept in place.
+ */
+function placeAroundFixedNodes(laidOut: Node[], fixed: Map<string, Node>, direction: FlowDirection): Node[] {
+    const isHorizontal = direction === 'LR' || direction === 'RL';
+    const result = laidOut.map(node => ({ ...node, position: { ...node.position } }));
+    const scopes = new Map<string | undefined, Node[]>();
+    result.forEach(node => scopes.set(node.parentId, [...(scopes.get(node.parentId) || []), node]));
+
+    scopes.forEach(siblings => {
+        // Nodes that moved to another group in the code are placed afresh
+        const anchors = siblings.filter(node => fixed.has(node.id) && fixed.get(node.id)!.parentId === node.parentId);
+        if (anchors.length === 0) return;
+
+        const offsets = new Map(anchors.map(node => {
+            const { x, y } = fixed.get(node.id)!.position;
+            return [node.id, { x: x - node.position.x, y: y - node.position.y }];
+        }));
+        const nearestOffset = (node: Node) => {
+            const distance = (other: Node) => Math.hypot(other.position.x - node.position.x, other.position.y - node.position.y);
+            const nearest = anchors.reduce((best, other) => (distance(other) < distance(best) ? other : best));
+            return offsets.get(nearest.id)!;
+        };
 
-    // Add edges within this group
-    edges.forEach(edge => {
-        const sourceInGroup = childNodes.some(n => n.id === edge.source);
-        const targetInGroup = childNodes.some(n => n.id === edge.target);
-        if (sourceInGroup && targetInGroup) {
-            subGraph.setEdge(edge.source, edge.target);
-        }
+        // Offsets are measured on the fresh layout, so work them all out before moving anything
+        const moves = siblings.map(node => ({ node, offset: offsets.get(node.id) || nearestOffset(node) }));
+        moves.forEach(({ node, offset }) => {
+            node.position.x += offset.x;
+            node.position.y += offset.y;
+        });
+
+        const placed = [...anchors];
+        siblings.filter(node => !offsets.has(node.id)).forEach(node => {
+            for (let attempt = 0; attempt < siblings.length; attempt++) {
+                const blocker = placed.find(other => overlapsNode(node, other));
+                if (!blocker) break;
+                if (isHorizontal) node.position.y = blocker.position.y + getNodeHeight(blocker) + MIN_NODE_SPACING;
+                else node.position.x = blocker.position.x + getNodeWidth(blocker) + MIN_NODE_SPACING;
+            }
+            placed.push(node);
+        });
     });
 
-    dagre.layout(subGraph);
-
-    // Calculate bounds
-    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-    const positionedChildren: Node[] = [];
+    fitGroupsToChildren(result);
+    return result;
+}
 
-    childNodes.forEach(node => {
-        const pos = subGraph.node(node.id);
-        if (!pos) return;
+function overlapsNode(a: Node, b: Node): boolean {
+    return getOverlap(a.position.x, getNodeWidth(a), b.position.x, getNodeWidth(b), MIN_NODE_SPACING / 2) > 0
+        && getOverlap(a.position.y, getNodeHeight(a), b.position.y, getNodeHeight(b), MIN_NODE_SPACING / 2) > 0;
+}
 
-        const w = node.type === 'decision' ? 140 : NODE_WIDTH;
-        const h = node.type === 'decision' ? 90 : NODE_HEIGHT;
-        const x = pos.x - w / 2;
-        const y = pos.y - h / 2;
+// Grow groups (innermost first) so children kept at their old positions stay inside
+function fitGroupsToChildren(nodes: Node[]) {
+    const groups = nodes.filter(n => n.type === 'group').reverse();
+    for (const group of groups) {
+        const children = nodes.filter(n => n.parentId === group.id);
+        if (children.length === 0) continue;
+        const width = Math.max(getNodeWidth(group), ...children.map(c => c.position.x + getNodeWidth(c) + GROUP_PADDING));
+        const height = Math.max(getNodeHeight(group), ...children.map(c => c.position.y + getNodeHeight(c) + GROUP_PADDING));
+        group.style = { ...group.style, width, height };
+    }
+}
 
-        minX = Math.min(minX, x);
-        minY = Math.min(minY, y);
-        maxX = Math.max(maxX, x + w);
-        maxY = Math.max(maxY, y + h);
+// Place lifelines in columns and fragments/notes on the message rows they cover
+function layoutSequenceDiagram(nodes: Node[], edges: Edge[]): { nodes: Node[]; edges: Edge[] } {
+    const { participantWidth, participantGap, rowHeight, noteWidth } = SEQUENCE_LAYOUT;
+    const originX = 60;
+    const originY = 60;
 
-        positionedChildren.push({
-            ...node,
-            position: { x, y },
-            targetPosition: isHorizontal ? 'left' : 'top',
-            sourcePosition: isHorizontal ? 'right' : 'bottom',
-            extent: 'parent',
-        } as Node);
-    });
+    const lifelines = nodes
+        .filter(n => n.type === 'lifeline')
+        .sort((a, b) => ((a.data.column as number) ?? 0) - ((b.data.column as number) ?? 0));
 
-    // Normalize positions to start at padding
-    positionedChildren.forEach(child => {
-        child.position.x = child.position.x - minX + GROUP_PADDING;
-        child.position.y = child.position.y - minY + GROUP_PADDING + GROUP_TITLE_HEIGHT;
+    const centerX = new Map<string, number>();
+    lifelines.forEach((node, i) => {
+        centerX.set(node.id, originX + i * (participantWidth + participantGap) + participantWidth / 2);
     });
+    const allCenters = Array.from(centerX.values());
+    const rowY = (row: number) => originY + getSequenceRowOffset(row);
+
+    const layouted = nodes.map(node => {
+        if (node.type === 'lifeline') {
+            const rowCount = (node.data.rowCount as number) || 0;
+            return {
+                ...node,
+                position: { x: centerX.get(node.id)! - participantWidth / 2, y: originY },
+                style: {
+                    ...node.style,
+                    width: participantWidth,
+                    height: getSequenceRowOffset(rowCount) + SEQUENCE_LAYOUT.headerHeight,
+                },
+            };
+        }
 
-    const contentWidth = maxX - minX;
-    const contentHeight = maxY - minY;
-    const groupWidth = contentWidth + GROUP_PADDING * 2;
-    const groupHeight = contentHeight + GROUP_PADDING * 2 + GROUP_TITLE_HEIGHT;
+        if (node.type === 'fragment') {
+            const covered = ((node.data.participants as string[]) || [])
+                .map(id => centerX.get(id))
+                .filter((x): x is number => x !== undefined);
+            const xs = covered.length > 0 ? covered : allCenters;
+            const depth = (node.data.depth as number) || 0;
+            const inset = 10 + depth * 8;
+            const left = Math.min(...xs) - participantWidth / 2 + inset;
+            const right = Math.max(...xs) + participantWidth / 2 - inset;
+            const top = rowY(node.data.startRow as number) - rowHeight / 2 + 4;
+            const bottom = rowY(node.data.endRow as number) - rowHeight / 2 - depth * 6;
+            return {
+                ...node,
+                position: { x: left, y: top },
+                zIndex: -1,
+                style: { ...node.style, width: right - left, height: Math.max(bottom - top, rowHeight) },
+            };
+        }
 
-    return {
-        width: Math.max(groupWidth, 300),
-        height: Math.max(groupHeight, 200),
-        nodes: positionedChildren,
-        group
-    };
-}
+        if (node.type === 'sequenceNote') {
+            const ids = (node.data.participants as string[]) || [];
+            const xs = ids.map(id => centerX.get(id) ?? allCenters[0] ?? originX);
+            const placement = node.data.placement as SequenceNotePlacement;
+            const height = rowHeight - 14;
+            let left: number;
+            let width = noteWidth;
+
+            if (placement === 'left') {
+                left = xs[0] - 16 - noteWidth;
+            } else if (placement === 'right') {
+                left = xs[0] + 16;
+            } else if (xs.length > 1) {
+                left = Math.min(...xs) - 40;
+                width = Math.max(...xs) - Math.min(...xs) + 80;
+            } else {
+                left = xs[0] - noteWidth / 2;
+            }
 
-// Layout orphan nodes that don't belong to any group
-function layoutOrphanNodes(
-    nodes: Node[],
-    edges: Edge[],
-    opts: LayoutOptions,
-    isHorizontal: boolean,
-    startX: number
-): Node[] {
-    const orphanGraph = new dagre.graphlib.Graph();
-    orphanGraph.setDefaultEdgeLabel(() => ({}));
-    orphanGraph.setGraph({
-        rankdir: opts.direction,
-        nodesep: opts.nodeSpacing,
-        ranksep: opts.rankSpacing,
-        marginx: 0,
-        marginy: 60,
-    });
+            return {
+                ...node,
+                position: { x: left, y: rowY(node.data.row as number) - height / 2 },
+                style: { ...node.style, width, height },
+            };
+        }
 
-    nodes.forEach(node => {
-        const w = node.type === 'decision' ? 140 : NODE_WIDTH;
-        const h = node.type === 'decision' ? 90 : NODE_HEIGHT;
-        orphanGraph.setNode(node.id, { width: w, height: h });
+        return node;
     });
 
-    // Add edges between orphan nodes
-    edges.forEach(edge => {
-        const sourceOrphan = nodes.some(n => n.id === edge.source);
-        const targetOrphan = nodes.some(n => n.id === edge.target);
-        if (sourceOrphan && targetOrphan) {
-            orphanGraph.setEdge(edge.source, edge.target);
-        }
-    });
+    return { nodes: layouted as Node[], edges };
+}
 
-    dagre.layout(orphanGraph);
+/**
+ * Map a node to the direct child of `groupId` (the top level when undefined) that contains it, so edges
+ * into nested groups still pull that group into place. Undefined when the node is outside the group.
+ */
+function getChildOfGroup(nodeId: string, groupId: string | undefined, parents: Map<string, string | undefined>): string | undefined {
+    let current: string | undefined = nodeId;
+    const seen = new Set<string>();
+    while (current && !seen.has(current)) {
+        seen.add(current);
+        const parent = parents.get(current);
+        if (parent === groupId) return current;
+        current = parent;
+    }
+    return undefined;
+}
 
-    return nodes.map(node => {
-        const pos = orphanGraph.node(node.id);
-        if (!pos) return node;
+/**
+ * Dagre's layered layout for one scope, groups ranked like large nodes. Every edge between two items
+ * counts, so busy neighbours end up close together, and labelled edges get room for their label.
+ * Items with no links in the scope are packed in rows beside the ranked ones instead of trailing off in one long line.
+ */
+const arrangeLayered: ArrangeScope = (items, links, opts) => {
+    const linked = new Set(links.flatMap(link => [link.source, link.target]));
+    const ranked = items.filter(item => linked.has(item.id));
+    const isolated = items.filter(item => !linked.has(item.id));
+    const positions = new Map<string, { x: number; y: number }>();
+
+    if (ranked.length > 0) {
+        const graph = new dagre.graphlib.Graph({ multigraph: true });
+        graph.setDefaultEdgeLabel(() => ({}));
+        graph.setGraph({
+            rankdir: opts.direction,
+            nodesep: opts.nodeSpacing,
+            ranksep: opts.rankSpacing,
+            marginx: 0,
+            marginy: 0,
+        });
+        ranked.forEach(item => graph.setNode(item.id, { width: item.width, height: item.height }));
+        links.forEach((link, i) => graph.setEdge(link.source, link.target, getDagreEdgeLabel(link.label), String(i)));
+        dagre.layout(graph);
+        ranked.forEach(item => {
+            const { x, y } = graph.node(item.id);
+            positions.set(item.id, { x: x - item.width / 2, y: y - item.height / 2 });
+        });
+    }
 
-        const w = node.type === 'decision' ? 140 : NODE_WIDTH;
-        const h = node.type === 'decision' ? 90 : NODE_HEIGHT;
+    if (isolated.length > 0) {
+        // Across the flow from the ranked items: to their right for TB/BT, below them for LR/RL
+        const isHorizontal = opts.direction === 'LR' || opts.direction === 'RL';
+        const placed = ranked.map(item => ({ ...item, ...positions.get(item.id)! }));
+        const origin = placed.length === 0
+            ? { x: 0, y: 0 }
+            : isHorizontal
+                ? { x: 0, y: Math.max(...placed.map(p => p.y + p.height)) + GROUP_GAP }
+                : { x: Math.max(...placed.map(p => p.x + p.width)) + GROUP_GAP, y: 0 };
+        const columns = Math.ceil(Math.sqrt(isolated.length));
+        let x = origin.x;
+        let y = origin.y;
+        let rowHeight = 0;
+        isolated.forEach((item, i) => {
+            if (i > 0 && i % columns === 0) {
+                x = origin.x;
+                y += rowHeight + opts.nodeSpacing;
+                rowHeight = 0;
+            }
+            positions.set(item.id, { x, y });
+            x += item.width + opts.nodeSpacing;
+            rowHeight = Math.max(rowHeight, item.height);
+        });
+    }
 
-        return {
-            ...node,
-            position: { x: startX + pos.x - w / 2, y: pos.y - h / 2 },
-            targetPosition: isHorizontal ? 'left' : 'top',
-            sourcePosition: isHorizontal ? 'right' : 'bottom',
-        } as Node;
-    });
-}
+    return positions;
+};
 
 // Flat layout when there are no groups
 function layoutFlatNodes(
     nodes: Node[],
     edges: Edge[],
-    opts: LayoutOptions,
-    isHorizontal: boolean
+    opts: LayoutOptions
 ): { nodes: Node[]; edges: Edge[] } {
-    const flatGraph = new dagre.graphlib.Graph();
+    const flatGraph = new dagre.graphlib.Graph({ multigraph: true });
     flatGraph.setDefaultEdgeLabel(() => ({}));
     flatGraph.setGraph({
         rankdir: opts.direction,
@@ -267,14 +424,14 @@ function layoutFlatNodes(
     });
 
     nodes.forEach(node => {
-        const w = node.type === 'decision' ? 140 : NODE_WIDTH;
-        const h = node.type === 'decision' ? 90 : NODE_HEIGHT;
+        const w = getNodeWidth(node);
+        const h = getNodeHeight(node);
         flatGraph.setNode(node.id, { width: w, height: h });
     });
 
     edges.forEach(edge => {
         if (nodes.some(n => n.id === edge.source) && nodes.some(n => n.id === edge.target)) {
-            flatGraph.setEdge(edge.source, edge.target);
+            flatGraph.setEdge(edge.source, edge.target, getDagreEdgeLabel(getEdgeLabel(edge)), edge.id);
         }
     });
 
@@ -284,14 +441,13 @@ function layoutFlatNodes(
         const pos = flatGraph.node(node.id);
         if (!pos) return node;
 
-        const w = node.type === 'decision' ? 140 : NODE_WIDTH;
-        const h = node.type === 'decision' ? 90 : NODE_HEIGHT;
+        const w = getNodeWidth(node);
+        const h = getNodeHeight(node);
 
         return {
             ...node,
             position: { x: pos.x - w / 2, y: pos.y - h / 2 },
-            targetPosition: isHorizontal ? 'left' : 'top',
-            sourcePosition: isHorizontal ? 'right' : 'bottom',
+            ...getHandlePositions(opts.direction),
         } as Node;
     });
 
@@ -405,20 +561,160 @@ function getOverlap(pos1: number, size1: number, pos2: number, size2: number, pa
 }
 
 /**
- * Get node width based on type
+ * Edges leave a node on the side facing the flow and enter on the opposite side
+ */
+function getHandlePositions(direction: FlowDirection): Pick<Node, 'sourcePosition' | 'targetPosition'> {
+    const sides = {
+        TB: ['bottom', 'top'],
+        BT: ['top', 'bottom'],
+        LR: ['right', 'left'],
+        RL: ['left', 'right'],
+    } as const;
+    const [sourcePosition, targetPosition] = sides[direction];
+    return { sourcePosition: sourcePosition as Node['sourcePosition'], targetPosition: targetPosition as Node['targetPosition'] };
+}
+
+/**
+ * State diagram fork/join pseudo-states are flat bars rather than diamonds
+ */
+function isStateBar(node: Node): boolean {
+    return node.data.stateKind === 'fork' || node.data.stateKind === 'join';
+}
+
+/**
+ * Get node width: a fixed style width, else the size React Flow measured on the canvas, else an estimate by type
  */
-function getNodeWidth(node: Node): number {
+export function getNodeWidth(node: Node): number {
+    if (isStateBar(node)) return STATE_BAR_SIZE.width;
     if (node.type === 'decision') return 140;
     if (node.style?.width && typeof node.style.width === 'number') return node.style.width;
-    return NODE_WIDTH;
+    if (node.measured?.width) return node.measured.width;
+    if (node.type === 'umlClass') return estimateClassNodeSize(node.data).width;
+    if (node.type === 'erEntity') return estimateEntityNodeSize(node.data).width;
+    return estimateLabelNodeSize(node).width;
 }
 
 /**
- * Get node height based on type
+ * Get node height: a fixed style height, else the size React Flow measured on the canvas, else an estimate by type
  */
-function getNodeHeight(node: Node): number {
+export function getNodeHeight(node: Node): number {
+    if (isStateBar(node)) return STATE_BAR_SIZE.height;
     if (node.type === 'decision') return 90;
     if (node.style?.height && typeof node.style.height === 'number') return node.style.height;
-    return NODE_HEIGHT;
+    if (node.measured?.height) return node.measured.height;
+    if (node.type === 'umlClass') return estimateClassNodeSize(node.data).height;
+    if (node.type === 'erEntity') return estimateEntityNodeSize(node.data).height;
+    return estimateLabelNodeSize(node).height;
+}
+
+/**
+ * Box of a node on the canvas
+ */
+export interface NodeBounds {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+export type HandleSide = 'top' | 'bottom' | 'left' | 'right';
+
+/**
+ * Canvas box of every node, resolving positions relative to parent groups
+ */
+export function getNodeBounds(nodes: Node[]): Map<string, NodeBounds> {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const origins = new Map<string, { x: number; y: number }>();
+    const origin = (node: Node): { x: number; y: number } => {
+        const known = origins.get(node.id);
+        if (known) return known;
+        const parent = node.parentId ? byId.get(node.parentId) : undefined;
+        const base = parent ? origin(parent) : { x: 0, y: 0 };
+        const point = { x: base.x + node.position.x, y: base.y + node.position.y };
+        origins.set(node.id, point);
+        return point;
+    };
+    return new Map(nodes.map(node => {
+        const { x, y } = origin(node);
+        return [node.id, { left: x, top: y, right: x + getNodeWidth(node), bottom: y + getNodeHeight(node) }];
+    }));
+}
+
+/**
+ * Where an edge meets a node: the middle of the given side
+ */
+export function getHandlePoint(bounds: NodeBounds, side: HandleSide): { x: number; y: number } {
+    const centerX = (bounds.left + bounds.right) / 2;
+    const centerY = (bounds.top + bounds.bottom) / 2;
+    if (side === 'top') return { x: centerX, y: bounds.top };
+    if (side === 'bottom') return { x: centerX, y: bounds.bottom };
+    return { x: side === 'left' ? bounds.left : bounds.right, y: centerY };
+}
+
+const LABEL_MARGIN = 8;  // Space kept between an edge label and nodes or other labels
+
+function getEdgeLabel(edge: Edge): string | undefined {
+    return typeof edge.label === 'string' && edge.label.trim() ? edge.label : undefined;
 }
 
+/**
+ * Size of an edge label as the edges draw it (10px semibold text with padding and a border)
+ */
+export function estimateEdgeLabelSize(label: string): { width: number; height: number } {
+    return { width: Math.ceil(measureText(label, { size: 10, weight: 600 })) + 22, height: 25 };
+}
+
+// Dagre reserves room for labels given a size, placing them as nodes of their own between the ranks
+function getDagreEdgeLabel(label?: string): { width?: number; height?: number; labelpos?: string } {
+    return label ? { ...estimateEdgeLabelSize(label), labelpos: 'c' } : {};
+}
+
+function overlapsBounds(a: NodeBounds, b: NodeBounds): boolean {
+    return a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+}
+
+/**
+ * Move edge labels off the nodes and off each other. Each label starts in the middle of its edge,
+ * where the edges draw it, and is tried further across the edge and then along it until it fits.
+ * The result is stored as `data.labelOffset` from the middle of the edge, so it follows the edge when nodes move.
+ */
+export function placeEdgeLabels(nodes: Node[], edges: Edge[]): Edge[] {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const bounds = getNodeBounds(nodes);
+    const placed = nodes.filter(n => n.type !== 'group' && !n.hidden).map(n => bounds.get(n.id)!);
+
+    return edges.map(edge => {
+        const label = getEdgeLabel(edge);
+        const source = byId.get(edge.source);
+        const target = byId.get(edge.target);
+        // Sequence messages draw their labels on their own rows
+        if (!label || !source || !target || edge.type === 'message') return edge;
+
+        const from = getHandlePoint(bounds.get(source.id)!, (source.sourcePosition || 'bottom') as HandleSide);
+        const to = getHandlePoint(bounds.get(target.id)!, (target.targetPosition || 'top') as HandleSide);
+        const middle = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+        const { width, height } = estimateEdgeLabelSize(label);
+        const boxAt = ({ x, y }: { x: number; y: number }): NodeBounds => ({
+            left: middle.x + x - width / 2 - LABEL_MARGIN,
+            top: middle.y + y - height / 2 - LABEL_MARGIN,
+            right: middle.x + x + width / 2 + LABEL_MARGIN,
+            bottom: middle.y + y + height / 2 + LABEL_MARGIN,
+        });
+
+        // Across a mostly vertical edge means sideways, across a horizontal one means up or down
+        const isVertical = Math.abs(to.y - from.y) >= Math.abs(to.x - from.x);
+        const across = isVertical ? { x: width / 2 + LABEL_MARGIN, y: 0 } : { x: 0, y: height + LABEL_MARGIN };
+        const along = isVertical ? { x: 0, y: height + LABEL_MARGIN } : { x: width + LABEL_MARGIN, y: 0 };
+        const candidates = [{ x: 0, y: 0 }];
+        for (let step = 1; step <= 3; step++) {
+            candidates.push({ x: across.x * step, y: across.y * step }, { x: -across.x * step, y: -across.y * step });
+        }
+        for (let step = 1; step <= 2; step++) {
+            candidates.push({ x: along.x * step, y: along.y * step }, { x: -along.x * step, y: -along.y * step });
+        }
+        const offset = candidates.find(candidate => !placed.some(box => overlapsBounds(box, boxAt(candidate)))) || candidates[0];
+        placed.push(boxAt(offset));
+
+        return { ...edge, data: { ...edge.data, labelOffset: offset } };
+    });
+}
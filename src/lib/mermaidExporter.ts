@@ -0,0 +1,143 @@
+import type { Node, Edge } from '../store';
+import type { EdgeData, FlowDirection } from '../types';
+import { getFlowLink, toLinkToken } from './flowEdges';
+import { toNodeDeclarations, toEdgeDeclarations } from './mermaidStyles';
+import { isNamedShape, resolveShapeName, toShapeData } from './shapes';
+
+export interface MermaidExportOptions {
+    direction?: FlowDirection;
+}
+
+// Bracket pairs for every shape Mermaid's flowchart DB reports as `vertex.type`
+export const SHAPE_BRACKETS: Record<string, [string, string]> = {
+    square: ['[', ']'],
+    round: ['(', ')'],
+    stadium: ['([', '])'],
+    subroutine: ['[[', ']]'],
+    cylinder: ['[(', ')]'],
+    circle: ['((', '))'],
+    doublecircle: ['(((', ')))'],
+    diamond: ['{', '}'],
+    hexagon: ['{{', '}}'],
+    odd: ['>', ']'],
+    lean_right: ['[/', '/]'],
+    lean_left: ['[\\', '\\]'],
+    trapezoid: ['[/', '\\]'],
+    inv_trapezoid: ['[\\', '/]'],
+    ellipse: ['(-', '-)'],
+};
+
+// Nodes drawn on the canvas carry a type but no Mermaid shape
+const TYPE_SHAPES: Record<string, string> = {
+    start: 'stadium',
+    startNode: 'stadium',
+    end: 'stadium',
+    endNode: 'stadium',
+    decision: 'diamond',
+    decisionNode: 'diamond',
+    database: 'cylinder',
+    databaseNode: 'cylinder',
+};
+
+// Opacity the parser puts on every flowchart edge, not a linkStyle of its own
+const PARSER_EDGE_OPACITY = 0.5;
+
+/**
+ * Escape characters that would end a quoted Mermaid label, using entity codes the parser decodes
+ */
+export function escapeMermaidText(text: string): string {
+    return text
+        .replace(/"/g, '#quot;')
+        .replace(/</g, '#lt;')
+        .replace(/>/g, '#gt;')
+        .replace(/\|/g, '#124;');
+}
+
+function getShapeBrackets(node: Node): [string, string] {
+    const shape = String(node.data.shape || '');
+    return SHAPE_BRACKETS[SHAPE_BRACKETS[shape] ? shape : TYPE_SHAPES[node.type || ''] || 'square'];
+}
+
+// Classic shapes keep their brackets, catalogue shapes are written as `id@{ shape: ..., label: "..." }`
+function getNodeDeclaration(node: Node): string {
+    const label = escapeMermaidText(String(node.data.label ?? node.id));
+    const shape = String(node.data.shape || '');
+    if (isNamedShape(shape)) return `${node.id}${toShapeData(resolveShapeName(shape)!, label)}`;
+    const [open, close] = getShapeBrackets(node);
+    return `${node.id}${open}"${label}"${close}`;
+}
+
+// Everything the shape syntax can't say goes in a comment that parseMermaid reads back
+function getNodeComment(node: Node): string | null {
+    const { category, color, metadata } = node.data;
+    const isGroup = node.type === 'group';
+    const comment = {
+        id: node.id,
+        type: isGroup ? undefined : node.type,
+        category,
+        color: isGroup ? color : undefined,
+        metadata,
+    };
+    return Object.values(comment).filter(v => v !== undefined).length > 1 ? `%% ${JSON.stringify(comment)}` : null;
+}
+
+/**
+ * Export nodes and edges as a Mermaid flowchart that parseMermaid reads back unchanged:
+ * shapes (bracket or v11 `@{ shape }` syntax), labels, subgraph nesting and direction, link strokes and arrowheads, styles,
+ * and the node type, category and metadata (as `%% {...}` comments) all round-trip.
+ */
+export function exportToMermaid(nodes: Node[], edges: Edge[], options: MermaidExportOptions = {}): string {
+    const lines: string[] = [`flowchart ${options.direction || 'TD'}`];
+    const groups = nodes.filter(n => n.type === 'group');
+    const groupIds = new Set(groups.map(g => g.id));
+    const members = nodes.filter(n => n.type !== 'group');
+
+    // Nodes are declared up front, in order, so re-parsing keeps their order
+    lines.push('', '    %% Nodes');
+    members.forEach(node => lines.push(`    ${getNodeDeclaration(node)}`));
+    nodes.forEach(node => {
+        const comment = getNodeComment(node);
+        if (comment) lines.push(`    ${comment}`);
+    });
+
+    // Subgraphs list their members by id, nested subgraphs inside their parent
+    const writeGroup = (group: Node, depth: number) => {
+        const indent = '    '.repeat(depth);
+        lines.push(`${indent}subgraph ${group.id}["${escapeMermaidText(String(group.data.label ?? group.id))}"]`);
+        if (group.data.direction) lines.push(`${indent}    direction ${group.data.direction}`);
+        groups.filter(g => g.parentId === group.id).forEach(child => writeGroup(child, depth + 1));
+        members.filter(n => n.parentId === group.id).forEach(n => lines.push(`${indent}    ${n.id}`));
+        lines.push(`${indent}end`);
+    };
+    if (groups.length > 0) {
+        lines.push('', '    %% Groups');
+        groups.filter(g => !g.parentId || !groupIds.has(g.parentId)).forEach(g => writeGroup(g, 1));
+    }
+
+    lines.push('', '    %% Connections');
+    edges.forEach(edge => {
+        const link = getFlowLink(edge.data as EdgeData | undefined, edge.style);
+        // Mermaid only accepts a start marker that mirrors the end marker (`<-->`, `o--o`)
+        const token = toLinkToken({ ...link, startMarker: link.startMarker === link.endMarker ? link.startMarker : 'none' });
+        // Invisible links can't carry a label
+        const label = edge.label && link.stroke !== 'invisible' ? `|"${escapeMermaidText(String(edge.label))}"|` : '';
+        lines.push(`    ${edge.source} ${token}${label} ${edge.target}`);
+    });
+
+    // Resolved styles are written inline, so class names round-trip without their classDefs
+    const styleLines: string[] = [];
+    nodes.forEach(node => {
+        (node.data.classes || []).forEach(className => styleLines.push(`    class ${node.id} ${className}`));
+        const declarations = node.data.style ? toNodeDeclarations(node.data.style) : [];
+        if (declarations.length) styleLines.push(`    style ${node.id} ${declarations.join(',')}`);
+    });
+    edges.forEach((edge, i) => {
+        const { strokeOpacity, ...rest } = edge.style || {};
+        const css = strokeOpacity === PARSER_EDGE_OPACITY ? rest : edge.style || {};
+        const declarations = toEdgeDeclarations(css);
+        if (declarations.length) styleLines.push(`    linkStyle ${i} ${declarations.join(',')}`);
+    });
+    if (styleLines.length > 0) lines.push('', '    %% Styles', ...styleLines);
+
+    return `${lines.join('\n')}\n`;
+}
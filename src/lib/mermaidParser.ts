@@ -1,5 +1,16 @@
 import mermaid from 'mermaid';
-import { type Node, type Edge } from '../store';
+import type { Node, Edge } from '../store';
+import type { FlowDirection, NodeMetadata } from '../types';
+import { parseSequenceDiagram } from './sequenceDiagram';
+import { parseClassDiagram } from './classDiagram';
+import { parseStateDiagram } from './stateDiagram';
+import { parseErDiagram } from './erDiagram';
+import { applyStyleDirectives } from './mermaidStyles';
+import { fromMermaidEdge, parseLinkChain } from './flowEdges';
+import { resolveShapeName, isNamedShape, parseShapeData } from './shapes';
+import { isFlowchartSource } from './codeSync';
+import { fromMermaidError, lintFlowchart, regexFallbackDiagnostic, type Diagnostic } from './diagnostics';
+import { mapSourceElements, type SourceElement } from './sourceMap';
 
 // Initialize mermaid
 mermaid.initialize({
@@ -15,17 +26,73 @@ interface ParsedNode {
     parentId?: string;
 }
 
+export interface ParsedDiagram {
+    nodes: Node[];
+    edges: Edge[];
+    /** Declared flowchart direction, undefined for other diagram types */
+    direction?: FlowDirection;
+    /** Syntax errors, parser fallbacks and lint warnings, located in the source */
+    diagnostics: Diagnostic[];
+    /** Where each node, link and subgraph is written, for flowcharts */
+    sourceMap: SourceElement[];
+}
+
+/**
+ * Per-node overrides written by the exporter as `%% {"id": ..., ...}` comments
+ */
+interface NodeComment {
+    metadata?: NodeMetadata;
+    type?: ParsedNode['type'];
+    category?: string;
+    color?: string;
+}
+
+/**
+ * Subgraph as reported by Mermaid's flowchart DB; `nodes` holds vertex and nested subgraph ids
+ */
+interface MermaidSubgraph {
+    id: string;
+    title?: string;
+    nodes: string[];
+    dir?: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = { quot: '"', lt: '<', gt: '>', amp: '&', nbsp: ' ' };
+
+/**
+ * Decode `#quot;` / `#35;` entity codes. Mermaid hands them back as its own
+ * placeholder characters, the regex path sees them raw.
+ */
+function decodeEntities(text: string): string {
+    return text
+        .replace(/ﬂ°°/g, '&#')
+        .replace(/ﬂ°/g, '&')
+        .replace(/¶ß/g, ';')
+        .replace(/[&#](#?)(\w+);/g, (match, hash: string, code: string) => {
+            if (/^\d+$/.test(code)) return String.fromCharCode(parseInt(code, 10));
+            return !hash && NAMED_ENTITIES[code] !== undefined ? NAMED_ENTITIES[code] : match;
+        });
+}
+
 /**
  * Sanitize node labels by removing HTML tags and normalizing whitespace
  */
 function sanitizeLabel(label: string): string {
-    return label
-        .replace(/<br\s*\/?>/gi, ' ')  // Replace <br/> with space
-        .replace(/<[^>]*>/g, '')        // Remove all other HTML tags
+    return decodeEntities(
+        label
+            .replace(/<br\s*\/?>/gi, ' ')  // Replace <br/> with space
+            .replace(/<[^>]*>/g, '')        // Remove all other HTML tags
+    )
         .replace(/\s+/g, ' ')           // Normalize whitespace
         .trim();
 }
 
+function normalizeDirection(direction?: string): FlowDirection | undefined {
+    const dir = direction?.trim().toUpperCase();
+    if (dir === 'TD') return 'TB';
+    return dir === 'TB' || dir === 'BT' || dir === 'LR' || dir === 'RL' ? dir : undefined;
+}
+
 /**
  * Check if label indicates a decision/approval step
  */
@@ -37,10 +104,10 @@ function isDecisionLabel(label: string): boolean {
 
 /**
  * Parse metadata from Mermaid comments
- * Format: %% { "id": "nodeId", "metadata": { ... } }
+ * Format: %% { "id": "nodeId", "type": "server", "category": "filter-server", "metadata": { ... } }
  */
-function parseMetadataComments(code: string): Map<string, any> {
-    const metadataMap = new Map<string, any>();
+function parseMetadataComments(code: string): Map<string, NodeComment> {
+    const metadataMap = new Map<string, NodeComment>();
 
     // Regex matches lines starting with %% followed by JSON object
     const lines = code.split('\n');
@@ -53,8 +120,9 @@ function parseMetadataComments(code: string): Map<string, any> {
                 // Basic check if it looks like JSON object
                 if (jsonStr.startsWith('{') && jsonStr.endsWith('}')) {
                     const data = JSON.parse(jsonStr);
-                    if (data.id && data.metadata) {
-                        metadataMap.set(data.id, data.metadata);
+                    if (data.id && (data.metadata || data.type || data.category || data.color)) {
+                        const { metadata, type, category, color } = data;
+                        metadataMap.set(data.id, { metadata, type, category, color });
                     }
                 }
             } catch (e) {
@@ -74,8 +142,8 @@ function preprocessMermaidCode(code: string): string {
         // Strip markdown code fence wrappers (```mermaid ... ```)
         .replace(/^```(?:mermaid)?\s*\n?/im, '')
         .replace(/\n?```\s*$/im, '')
-        // Remove %%{init:...}%% directives that may cause issues
-        .replace(/%%\{init:[^}]*\}%%/g, '')
+        // Remove %%{init:...}%% directives that may cause issues (read beforehand by applyStyleDirectives)
+        .replace(/%%\{[\s\S]*?\}%%/g, '')
         // Convert <br/>, <br>, <br /> to spaces in node labels
         .replace(/<br\s*\/?>/gi, ' ')
         // Normalize line endings
@@ -86,10 +154,75 @@ function preprocessMermaidCode(code: string): string {
     return cleaned;
 }
 
-export async function parseMermaid(mermaidCode: string): Promise<{ nodes: Node[]; edges: Edge[] }> {
+/**
+ * Get the diagram declaration line (e.g. "flowchart TD", "sequenceDiagram"), skipping comments
+ */
+function getDiagramHeader(code: string): string {
+    const header = code.split('\n').map(l => l.trim()).find(l => l && !l.startsWith('%%'));
+    return header || '';
+}
+
+/**
+ * Read the direction from a `flowchart LR` / `graph TD` header
+ */
+export function getFlowDirection(mermaidCode: string): FlowDirection | undefined {
+    const header = getDiagramHeader(preprocessMermaidCode(mermaidCode));
+    const match = header.match(/^(?:flowchart|graph)\s+(\w+)/i);
+    return normalizeDirection(match?.[1]);
+}
+
+export interface ParseOptions {
+    /** Throw Mermaid's syntax error instead of falling back to the lenient regex parser */
+    strict?: boolean;
+}
+
+export async function parseMermaid(mermaidCode: string, options: ParseOptions = {}): Promise<ParsedDiagram> {
+    const diagnostics: Diagnostic[] = [];
+    const parsed = await parseMermaidStructure(mermaidCode, options, diagnostics);
+    if (isFlowchartSource(mermaidCode)) diagnostics.push(...lintFlowchart(mermaidCode));
+    // Styling is resolved from the raw source so every parse path (and the init directive) keeps it
+    return {
+        ...applyStyleDirectives(mermaidCode, parsed),
+        direction: getFlowDirection(mermaidCode),
+        diagnostics,
+        sourceMap: mapSourceElements(mermaidCode),
+    };
+}
+
+/**
+ * Check Mermaid source without building a diagram: Mermaid's own syntax error, if any,
+ * followed by flowchart lint warnings
+ */
+export async function diagnoseMermaid(mermaidCode: string): Promise<Diagnostic[]> {
+    const cleanedCode = preprocessMermaidCode(mermaidCode);
+    const diagnostics: Diagnostic[] = [];
     try {
-        // Preprocess the code to handle common issues
-        const cleanedCode = preprocessMermaidCode(mermaidCode);
+        await mermaid.parse(cleanedCode);
+    } catch (e) {
+        diagnostics.push(fromMermaidError(e, mermaidCode, cleanedCode));
+    }
+    if (isFlowchartSource(mermaidCode)) diagnostics.push(...lintFlowchart(mermaidCode));
+    return diagnostics;
+}
+
+async function parseMermaidStructure(mermaidCode: string, { strict = false }: ParseOptions, diagnostics: Diagnostic[]): Promise<{ nodes: Node[]; edges: Edge[] }> {
+    // Preprocess the code to handle common issues
+    const cleanedCode = preprocessMermaidCode(mermaidCode);
+    try {
+        // Sequence, class, state and ER diagrams have no vertex/edge DB, they go through their own parsers
+        const header = getDiagramHeader(cleanedCode);
+        if (/^sequenceDiagram\b/.test(header)) {
+            return parseSequenceDiagram(cleanedCode);
+        }
+        if (/^classDiagram(-v2)?\b/.test(header)) {
+            return parseClassDiagram(cleanedCode);
+        }
+        if (/^stateDiagram(-v2)?\b/.test(header)) {
+            return parseStateDiagram(cleanedCode);
+        }
+        if (/^erDiagram\b/.test(header)) {
+            return parseErDiagram(cleanedCode);
+        }
 
         // Validate syntax first
         await mermaid.parse(cleanedCode);
@@ -112,7 +245,16 @@ export async function parseMermaid(mermaidCode: string): Promise<{ nodes: Node[]
         let groupIndex = 0;
 
         // REVISE: Retrieving subgraphs from DB
-        const subgraphs = (db as any).getSubGraphs?.() || []; // { id, title, nodes: [ids] }
+        const subgraphs: MermaidSubgraph[] = orderSubgraphs((db as any).getSubGraphs?.() || []);
+        // A nested subgraph is listed by id among its parent's nodes
+        const subgraphIds = new Set(subgraphs.map(sub => sub.id));
+        const subgraphParents = new Map<string, string>();
+        for (const sub of subgraphs) {
+            sub.nodes.filter(id => subgraphIds.has(id)).forEach(id => subgraphParents.set(id, sub.id));
+        }
+
+        // Match metadata (and exported type/category overrides) to nodes
+        const metadataMap = parseMetadataComments(cleanedCode);
 
         // Create Group Nodes first
         for (const sub of subgraphs) {
@@ -127,34 +269,40 @@ export async function parseMermaid(mermaidCode: string): Promise<{ nodes: Node[]
                 category = 'filter-db';
             }
 
+            const groupComment = metadataMap.get(sub.id);
+            const color = groupColors[groupIndex++ % groupColors.length];
             nodes.push({
                 id: sub.id,
                 type: 'group',
                 position: { x: 0, y: 0 },
                 data: {
-                    label: sub.title,
-                    color: groupColors[groupIndex++ % groupColors.length],
-                    category
+                    label: sanitizeLabel(sub.title || sub.id),
+                    color: groupComment?.color || color,
+                    category: groupComment?.category || category,
+                    direction: normalizeDirection(sub.dir),
                 },
                 style: {},
+                parentId: subgraphParents.get(sub.id),
+                extent: subgraphParents.has(sub.id) ? 'parent' : undefined,
             });
         }
 
-        // Match metadata to nodes
-        const metadataMap = parseMetadataComments(cleanedCode);
-
         // Process Nodes and Groups logic combined
-        for (const [id, vertex] of Object.entries(vertices) as any[]) {
+        // Mermaid 11 returns vertices as a Map, older versions as a plain object
+        const vertexEntries = vertices instanceof Map ? Array.from(vertices.entries()) : Object.entries(vertices);
+        for (const [id, vertex] of vertexEntries as any[]) {
             // vertex: { id, text, type, styles, classes, ... }
             const rawLabel = vertex.text || id;
             const label = sanitizeLabel(rawLabel);  // Clean HTML tags
             let type: ParsedNode['type'] = 'default';
             const lowerLabel = label.toLowerCase();
+            // `A@{ shape: db }` reports the name as written, `A[(x)]` reports `cylinder`
+            const shapeName = resolveShapeName(vertex.type);
 
             // Infer type from shape/label overlap
-            if (vertex.type === 'cylinder' || lowerLabel.includes('db') || lowerLabel.includes('database')) {
+            if (shapeName === 'cyl' || lowerLabel.includes('db') || lowerLabel.includes('database')) {
                 type = 'database';
-            } else if (vertex.type === 'diamond' || isDecisionLabel(label)) {
+            } else if (shapeName === 'diam' || isDecisionLabel(label)) {
                 type = 'decision';
             } else if (lowerLabel.includes('start') || lowerLabel.includes('begin')) {
                 type = 'start';
@@ -233,8 +381,13 @@ export async function parseMermaid(mermaidCode: string): Promise<{ nodes: Node[]
                 }
             }
 
-            // Merge metadata if available
-            const nodeMetadata = metadataMap.get(id);
+            // A shape picked with `@{ shape: ... }` is drawn as that shape whatever the label says
+            if (isNamedShape(vertex.type)) type = 'custom-shape';
+
+            // Exported diagrams pin the type and category so heuristics can't drift on re-import
+            const comment = metadataMap.get(id);
+            if (comment?.type) type = comment.type;
+            if (comment?.category) category = comment.category;
 
             nodes.push({
                 id: id,
@@ -243,8 +396,9 @@ export async function parseMermaid(mermaidCode: string): Promise<{ nodes: Node[]
                 data: {
                     label,
                     category,
-                    shape: vertex.type, // Pass the raw mermaid shape type
-                    metadata: nodeMetadata // Attach parsed metadata
+                    // Classic bracket types are kept raw, named shapes by their short name
+                    shape: isNamedShape(vertex.type) ? shapeName : vertex.type,
+                    metadata: comment?.metadata // Attach parsed metadata
                 },
                 parentId: parentId,
                 extent: parentId ? 'parent' : undefined
@@ -253,17 +407,18 @@ export async function parseMermaid(mermaidCode: string): Promise<{ nodes: Node[]
 
         // Process Edges
         edgesData.forEach((e: any, i: number) => {
+            // Stroke and markers live on data, AnimatedEdge turns them into SVG styling
+            const link = fromMermaidEdge(e);
             edges.push({
                 id: `e${e.start}-${e.end}-${i}`,
                 source: e.start,
                 target: e.end,
-                label: e.text,
-                animated: e.stroke === 'dotted', // Heuristic
+                label: e.text ? sanitizeLabel(e.text) : undefined,
+                animated: link.stroke === 'dotted', // Heuristic
                 style: {
-                    strokeWidth: 2,
-                    strokeOpacity: 0.5,
-                    strokeDasharray: e.stroke === 'dotted' ? '5,5' : undefined
+                    strokeOpacity: 0.5
                 },
+                data: { ...link },
                 labelStyle: { fill: '#374151', fontWeight: 600, fontSize: 11 },
                 labelBgStyle: { fill: '#ffffff', fillOpacity: 0.9 },
                 labelBgPadding: [6, 4],
@@ -275,6 +430,7 @@ export async function parseMermaid(mermaidCode: string): Promise<{ nodes: Node[]
         const nonGroupNodes = nodes.filter(n => n.type !== 'group');
         if (edges.length > 0 && nonGroupNodes.length === 0) {
             console.warn('[MermaidParser] Mermaid API returned edges but no nodes, falling back to regex');
+            diagnostics.push(regexFallbackDiagnostic(mermaidCode, cleanedCode));
             return parseMermaidRegex(mermaidCode);
         }
 
@@ -282,12 +438,31 @@ export async function parseMermaid(mermaidCode: string): Promise<{ nodes: Node[]
         return { nodes, edges };
 
     } catch (e) {
+        if (strict) throw e;
         console.error("[MermaidParser] Mermaid API failed, falling back to regex:", e);
+        diagnostics.push(fromMermaidError(e, mermaidCode, cleanedCode), regexFallbackDiagnostic(mermaidCode, cleanedCode));
         // Fallback to regex if mermaid API fails or isn't a flowchart
         return parseMermaidRegex(mermaidCode);
     }
 }
 
+/**
+ * Mermaid lists subgraphs innermost first (each is recorded at its `end`); React Flow needs
+ * parents before children, so reorder depth-first with siblings kept in declaration order.
+ */
+function orderSubgraphs(subgraphs: MermaidSubgraph[]): MermaidSubgraph[] {
+    const ids = new Set(subgraphs.map(sub => sub.id));
+    const nested = new Set(subgraphs.flatMap(sub => sub.nodes.filter(id => ids.has(id))));
+    const ordered: MermaidSubgraph[] = [];
+    const visit = (sub: MermaidSubgraph) => {
+        if (ordered.includes(sub)) return;
+        ordered.push(sub);
+        subgraphs.filter(child => sub.nodes.includes(child.id)).forEach(visit);
+    };
+    subgraphs.filter(sub => !nested.has(sub.id)).forEach(visit);
+    return ordered;
+}
+
 // Improved regex fallback parser
 function parseMermaidRegex(mermaidCode: string): { nodes: Node[]; edges: Edge[] } {
     // Preprocess the code first
@@ -297,12 +472,18 @@ function parseMermaidRegex(mermaidCode: string): { nodes: Node[]; edges: Edge[]
     const nodeMap = new Map<string, any>();
     const parsedEdges: any[] = [];
     const groups: any[] = [];
+    // Open subgraphs, innermost last
+    const groupStack: typeof groups = [];
     let currentGroup: any | null = null;
     const groupColors = ['#fef3c7', '#dbeafe', '#dcfce7', '#fce7f3', '#e0e7ff'];
 
-    for (const line of lines) {
+    for (const rawLine of lines) {
         // Skip flowchart/graph declaration
-        if (line.match(/^(flowchart|graph)\s+/i)) continue;
+        if (rawLine.match(/^(flowchart|graph)\s+/i)) continue;
+
+        // Styling statements are applied separately by applyStyleDirectives
+        if (rawLine.match(/^(classDef|class|style|linkStyle)\s+/)) continue;
+        const line = rawLine.replace(/:::[\w-]+/g, '');
 
         // Subgraph start - handle multiple formats
         const subgraphMatch = line.match(/^subgraph\s+(\w+)\s*\[([^\]]+)\]/i) ||
@@ -312,16 +493,39 @@ function parseMermaidRegex(mermaidCode: string): { nodes: Node[]; edges: Edge[]
             currentGroup = {
                 id: subgraphMatch[1],
                 label: sanitizeLabel(subgraphMatch[2] || subgraphMatch[1]),
+                parentId: currentGroup?.id,
                 nodes: []
             };
             groups.push(currentGroup);
+            groupStack.push(currentGroup);
             continue;
         }
         if (line.match(/^end$/i)) {
-            currentGroup = null;
+            groupStack.pop();
+            currentGroup = groupStack[groupStack.length - 1] || null;
             continue;
         }
 
+        const directionMatch = line.match(/^direction\s+(\w+)/i);
+        if (directionMatch) {
+            if (currentGroup) currentGroup.direction = normalizeDirection(directionMatch[1]);
+            continue;
+        }
+
+        // Mermaid v11 shape syntax: A@{ shape: cyl, label: "Orders" }
+        for (const [, id, block] of line.matchAll(/(\w+)@(\{[^}]*\})/g)) {
+            const { shape, label } = parseShapeData(block);
+            if (nodeMap.has(id)) continue;
+            nodeMap.set(id, {
+                id,
+                label: sanitizeLabel(label || id),
+                type: 'custom-shape',
+                shape: resolveShapeName(shape) || shape,
+                parentId: currentGroup?.id
+            });
+            if (currentGroup) currentGroup.nodes.push(id);
+        }
+
         // Enhanced node definition patterns - handle all bracket types
         // [text], (text), {text}, ((text)), ([text]), [(text)], [[text]], [/text/], [\text\], etc.
         const nodePatterns = [
@@ -335,11 +539,13 @@ function parseMermaidRegex(mermaidCode: string): { nodes: Node[]; edges: Edge[]
             /(\w+)\s*\(\(([^)]+)\)\)/g,        // ((circle))
             /(\w+)\s*\[\[([^\]]+)\]\]/g,       // [[subroutine]]
         ];
+        // Brackets inside `@{ label: "..." }` are label text, not shapes
+        const bracketLine = line.replace(/@\{[^}]*\}/g, '');
 
         for (const pattern of nodePatterns) {
             let match;
             const regex = new RegExp(pattern.source, 'g');
-            while ((match = regex.exec(line)) !== null) {
+            while ((match = regex.exec(bracketLine)) !== null) {
                 const id = match[1];
                 // Skip if it looks like an edge keyword
                 if (['end', 'subgraph', 'flowchart', 'graph'].includes(id.toLowerCase())) continue;
@@ -366,45 +572,23 @@ function parseMermaidRegex(mermaidCode: string): { nodes: Node[]; edges: Edge[]
             }
         }
 
-        // Enhanced edge matching - handle all arrow types and labels
-        // A --> B, A --text--> B, A -.-> B, A -.text.-> B, A ==> B, A -->|text| B, A -.->|text| B
-        const edgePatterns = [
-            /(\w+)\s*-->\|([^|]*)\|\s*(\w+)/g,           // A -->|text| B
-            /(\w+)\s*-\.->\|([^|]*)\|\s*(\w+)/g,         // A -.->|text| B (dotted with pipe label) ***NEW***
-            /(\w+)\s*--\s*([^->\s][^-]*?)\s*-->\s*(\w+)/g,  // A --text--> B
-            /(\w+)\s*-\.->(\w+)/g,                       // A -.->B (dotted no space)
-            /(\w+)\s*-\.->\s*(\w+)/g,                    // A -.-> B (dotted)
-            /(\w+)\s*-\.([^.>]+)\.->\s*(\w+)/g,          // A -.text.-> B (dotted with label)
-            /(\w+)\s*==>\s*(\w+)/g,                      // A ==> B (thick)
-            /(\w+)\s*-->\s*(\w+)/g,                      // A --> B (simple)
-            /(\w+)\s*---\s*(\w+)/g,                      // A --- B (no arrow)
-        ];
+        // Links in every Mermaid form: chains, `&` lists, labels, thick/dotted/invisible strokes and markers
+        for (const { source, target, label, link } of parseLinkChain(line)) {
+            parsedEdges.push({
+                source,
+                target,
+                label: label ? sanitizeLabel(label) : undefined,
+                link
+            });
 
-        for (const pattern of edgePatterns) {
-            let match;
-            const regex = new RegExp(pattern.source, 'g');
-            while ((match = regex.exec(line)) !== null) {
-                const source = match[1];
-                const target = match.length > 3 ? match[3] : match[2];
-                const edgeLabel = match.length > 3 ? sanitizeLabel(match[2]) : undefined;
-                const isDotted = pattern.source.includes('-\\.');
-
-                parsedEdges.push({
-                    source,
-                    target,
-                    label: edgeLabel,
-                    dotted: isDotted
-                });
-
-                // Auto-create nodes if they don't exist
-                if (!nodeMap.has(source)) {
-                    nodeMap.set(source, { id: source, label: source, type: 'default', parentId: currentGroup?.id });
-                    if (currentGroup) currentGroup.nodes.push(source);
-                }
-                if (!nodeMap.has(target)) {
-                    nodeMap.set(target, { id: target, label: target, type: 'default', parentId: currentGroup?.id });
-                    if (currentGroup) currentGroup.nodes.push(target);
-                }
+            // Auto-create nodes if they don't exist
+            if (!nodeMap.has(source)) {
+                nodeMap.set(source, { id: source, label: source, type: 'default', parentId: currentGroup?.id });
+                if (currentGroup) currentGroup.nodes.push(source);
+            }
+            if (!nodeMap.has(target)) {
+                nodeMap.set(target, { id: target, label: target, type: 'default', parentId: currentGroup?.id });
+                if (currentGroup) currentGroup.nodes.push(target);
             }
         }
     }
@@ -416,18 +600,20 @@ function parseMermaidRegex(mermaidCode: string): { nodes: Node[]; edges: Edge[]
             id: g.id,
             type: 'group',
             position: { x: 0, y: 0 },
-            data: { label: g.label, color: groupColors[i % groupColors.length] },
+            data: { label: g.label, color: groupColors[i % groupColors.length], direction: g.direction },
             style: {
                 width: 300,
                 height: 200,
-            }
+            },
+            parentId: g.parentId,
+            extent: g.parentId ? 'parent' as const : undefined
         })),
         // Then nodes
         ...Array.from(nodeMap.values()).map((n: any) => ({
             id: n.id,
             type: n.type,
             position: { x: 0, y: 0 },
-            data: { label: n.label, category: 'filter-server' },
+            data: { label: n.label, category: 'filter-server', shape: n.shape },
             parentId: n.parentId,
             extent: n.parentId ? 'parent' as const : undefined
         }))
@@ -438,11 +624,11 @@ function parseMermaidRegex(mermaidCode: string): { nodes: Node[]; edges: Edge[]
         source: e.source,
         target: e.target,
         label: e.label,
-        animated: e.dotted,
+        animated: e.link.stroke === 'dotted',
         style: {
-            strokeDasharray: e.dotted ? '5,5' : undefined,
             strokeOpacity: 0.5
-        }
+        },
+        data: { ...e.link }
     }));
 
     console.log(`[MermaidParser] Regex fallback: ${nodes.length} nodes, ${edges.length} edges`);
@@ -451,7 +637,7 @@ function parseMermaidRegex(mermaidCode: string): { nodes: Node[]; edges: Edge[]
 
 export function detectInputType(input: string): 'mermaid' | 'natural' {
     const mermaidPatterns = [
-        /^(flowchart|graph|sequenceDiagram|classDiagram|stateDiagram)/im,
+        /^(flowchart|graph|sequenceDiagram|classDiagram|stateDiagram|erDiagram)/im,
         /-->/,
         /---/,
         /\[\[.*\]\]/,
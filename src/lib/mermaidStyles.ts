@@ -0,0 +1,262 @@
+import type { CSSProperties } from 'react';
+import type { Node, Edge } from '../store';
+
+/**
+ * Styling statements collected from Mermaid source.
+ * Declarations are kept as raw `prop:value` strings so they can be written back unchanged.
+ */
+export interface StyleDirectives {
+    classDefs: Map<string, string[]>;
+    nodeStyles: Map<string, string[]>;
+    nodeClasses: Map<string, string[]>;
+    linkStyles: Map<number | 'default', string[]>;
+    init: Record<string, unknown> | null;
+}
+
+const CLASS_DEF_REGEX = /^classDef\s+(\S+)\s+(.+?);?$/;
+const STYLE_REGEX = /^style\s+(\S+)\s+(.+?);?$/;
+const CLASS_REGEX = /^class\s+(\S+)\s+(\S+?);?$/;
+const LINK_STYLE_REGEX = /^linkStyle\s+(default|[\d\s,]+?)\s+(?:interpolate\s+\S+\s*)?(.+?);?$/;
+const SHORTHAND_CLASS_REGEX = /([A-Za-z0-9_-]+)(?:\s*(?:\(\([^)]*\)\)|\{\{[^}]*\}\}|\[[^\]]*\]|\([^)]*\)|\{[^}]*\}|>[^\]]*\]))?:::([A-Za-z0-9_-]+)/g;
+const INIT_REGEX = /%%\{\s*init(?:ialize)?\s*:\s*([\s\S]*?)\s*\}%%/;
+
+// Mermaid declarations that map straight onto a CSS property of the same (camelCased) name
+const PASSTHROUGH = ['color', 'opacity', 'font-size', 'font-weight', 'font-style', 'font-family'];
+
+function splitDeclarations(raw: string): string[] {
+    return raw.split(',').map(d => d.trim()).filter(d => d.includes(':'));
+}
+
+function camelCase(prop: string): string {
+    return prop.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+// Mermaid accepts unitless widths (`stroke-width:4`), CSS borders need a unit
+function withUnit(value: string): string {
+    return /^\d+(\.\d+)?$/.test(value) ? `${value}px` : value;
+}
+
+function toEntries(declarations: string[]): [string, string][] {
+    return declarations.map(d => {
+        const at = d.indexOf(':');
+        return [d.slice(0, at).trim().toLowerCase(), d.slice(at + 1).replace(/!important/g, '').trim()];
+    });
+}
+
+/**
+ * Parse a `%%{init: {...}}%%` directive. Mermaid accepts single-quoted JSON here.
+ */
+export function parseInitDirective(code: string): Record<string, unknown> | null {
+    const match = code.match(INIT_REGEX);
+    if (!match) return null;
+    try {
+        return JSON.parse(match[1].replace(/'/g, '"'));
+    } catch {
+        console.warn('[MermaidParser] Ignoring unparseable init directive');
+        return null;
+    }
+}
+
+/**
+ * Collect classDef, style, class, `:::` and linkStyle statements plus the init directive
+ */
+export function extractStyleDirectives(code: string): StyleDirectives {
+    const directives: StyleDirectives = {
+        classDefs: new Map(),
+        nodeStyles: new Map(),
+        nodeClasses: new Map(),
+        linkStyles: new Map(),
+        init: parseInitDirective(code),
+    };
+
+    const addClass = (id: string, className: string) => {
+        const classes = directives.nodeClasses.get(id) || [];
+        if (!classes.includes(className)) classes.push(className);
+        directives.nodeClasses.set(id, classes);
+    };
+
+    for (const rawLine of code.split('\n')) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('%%')) continue;
+
+        const classDefMatch = line.match(CLASS_DEF_REGEX);
+        if (classDefMatch) {
+            const declarations = splitDeclarations(classDefMatch[2]);
+            classDefMatch[1].split(',').forEach(name => directives.classDefs.set(name.trim(), declarations));
+            continue;
+        }
+
+        const styleMatch = line.match(STYLE_REGEX);
+        if (styleMatch) {
+            directives.nodeStyles.set(styleMatch[1], splitDeclarations(styleMatch[2]));
+            continue;
+        }
+
+        const classMatch = line.match(CLASS_REGEX);
+        if (classMatch) {
+            classMatch[1].split(',').forEach(id => addClass(id.trim(), classMatch[2]));
+            continue;
+        }
+
+        const linkStyleMatch = line.match(LINK_STYLE_REGEX);
+        if (linkStyleMatch) {
+            const declarations = splitDeclarations(linkStyleMatch[2]);
+            if (linkStyleMatch[1] === 'default') {
+                directives.linkStyles.set('default', declarations);
+            } else {
+                linkStyleMatch[1].split(',').map(i => parseInt(i.trim(), 10))
+                    .filter(i => !isNaN(i))
+                    .forEach(i => directives.linkStyles.set(i, declarations));
+            }
+            continue;
+        }
+
+        for (const match of line.matchAll(SHORTHAND_CLASS_REGEX)) {
+            addClass(match[1], match[2]);
+        }
+    }
+
+    return directives;
+}
+
+/**
+ * Convert Mermaid node declarations (fill, stroke, ...) to CSS for the node body
+ */
+export function toNodeCss(declarations: string[]): CSSProperties {
+    const css: Record<string, string> = {};
+    for (const [prop, value] of toEntries(declarations)) {
+        if (prop === 'fill') css.background = value;
+        else if (prop === 'stroke') css.borderColor = value;
+        else if (prop === 'stroke-width') css.borderWidth = withUnit(value);
+        else if (prop === 'stroke-dasharray') css.borderStyle = 'dashed';
+        else if (prop === 'rx' || prop === 'ry') css.borderRadius = withUnit(value);
+        else if (PASSTHROUGH.includes(prop)) css[camelCase(prop)] = value;
+    }
+    return css as CSSProperties;
+}
+
+/**
+ * Convert Mermaid link declarations to SVG stroke styles for an edge path
+ */
+export function toEdgeCss(declarations: string[]): CSSProperties {
+    const css: Record<string, string | number> = {};
+    for (const [prop, value] of toEntries(declarations)) {
+        if (prop === 'stroke') css.stroke = value;
+        else if (prop === 'stroke-width') css.strokeWidth = parseFloat(value) || value;
+        else if (prop === 'stroke-dasharray') css.strokeDasharray = value.replace(/\s+/g, ',');
+        else if (prop === 'opacity' || prop === 'stroke-opacity') css.strokeOpacity = parseFloat(value);
+        else if (prop === 'color') css.color = value;
+    }
+    return css as CSSProperties;
+}
+
+function kebabCase(prop: string): string {
+    return prop.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+}
+
+/**
+ * Inverse of toNodeCss, used when writing node styles back as a `style` statement
+ */
+export function toNodeDeclarations(css: CSSProperties): string[] {
+    const declarations: string[] = [];
+    for (const [prop, value] of Object.entries(css)) {
+        if (value === undefined || value === null || value === '') continue;
+        if (prop === 'background') declarations.push(`fill:${value}`);
+        else if (prop === 'borderColor') declarations.push(`stroke:${value}`);
+        else if (prop === 'borderWidth') declarations.push(`stroke-width:${value}`);
+        else if (prop === 'borderStyle' && value === 'dashed') declarations.push('stroke-dasharray:5 5');
+        else if (prop === 'borderRadius') declarations.push(`rx:${value}`);
+        else if (PASSTHROUGH.includes(kebabCase(prop))) declarations.push(`${kebabCase(prop)}:${value}`);
+    }
+    return declarations;
+}
+
+/**
+ * Inverse of toEdgeCss, used when writing edge styles back as a `linkStyle` statement
+ */
+export function toEdgeDeclarations(css: CSSProperties): string[] {
+    const declarations: string[] = [];
+    for (const [prop, value] of Object.entries(css)) {
+        if (value === undefined || value === null || value === '') continue;
+        if (prop === 'stroke') declarations.push(`stroke:${value}`);
+        else if (prop === 'strokeWidth') declarations.push(`stroke-width:${value}`);
+        // Commas separate declarations in Mermaid, so dash arrays are written space-separated
+        else if (prop === 'strokeDasharray') declarations.push(`stroke-dasharray:${String(value).replace(/,/g, ' ')}`);
+        else if (prop === 'strokeOpacity') declarations.push(`stroke-opacity:${value}`);
+        else if (prop === 'color') declarations.push(`color:${value}`);
+    }
+    return declarations;
+}
+
+/**
+ * Split a node's resolved `data.style` into body and label styles,
+ * since node labels carry their own Tailwind text colour
+ */
+export function splitNodeStyle(data: Record<string, unknown>): { body?: CSSProperties; text?: CSSProperties } {
+    const style = data.style as CSSProperties | undefined;
+    if (!style) return {};
+    const { color, fontSize, fontWeight, fontStyle, fontFamily, ...body } = style;
+    return { body, text: { color, fontSize, fontWeight, fontStyle, fontFamily } };
+}
+
+// themeVariables are the lowest-priority styling, below classDef and style
+function getThemeDeclarations(init: StyleDirectives['init']) {
+    const vars = (init?.themeVariables || {}) as Record<string, string>;
+    const node = [
+        vars.primaryColor && `fill:${vars.primaryColor}`,
+        vars.primaryBorderColor && `stroke:${vars.primaryBorderColor}`,
+        vars.primaryTextColor && `color:${vars.primaryTextColor}`,
+    ].filter(Boolean) as string[];
+    const edge = vars.lineColor ? [`stroke:${vars.lineColor}`] : [];
+    return { node, edge };
+}
+
+/**
+ * Apply the styling statements of `code` to parsed nodes and edges.
+ * Nodes get the resolved CSS in `data.style` (custom nodes paint their own body,
+ * so the React Flow wrapper style is left for sizing) along with `data.classes`
+ * and any inline `style` declarations; edges get it merged into `edge.style`,
+ * with the raw linkStyle declarations kept in `data.linkStyle`.
+ */
+export function applyStyleDirectives(
+    code: string,
+    { nodes, edges }: { nodes: Node[]; edges: Edge[] }
+): { nodes: Node[]; edges: Edge[] } {
+    const directives = extractStyleDirectives(code);
+    const theme = getThemeDeclarations(directives.init);
+
+    const styledNodes = nodes.map(node => {
+        const classes = directives.nodeClasses.get(node.id) || [];
+        const inline = directives.nodeStyles.get(node.id) || [];
+        // Like Mermaid, theme colours and the `default` classDef skip subgraphs
+        const isGroup = node.type === 'group';
+        const applied = isGroup ? classes : ['default', ...classes];
+        const fromClasses = applied.flatMap(c => directives.classDefs.get(c) || []);
+        const declarations = [...(isGroup ? [] : theme.node), ...fromClasses, ...inline];
+        if (declarations.length === 0) return node;
+
+        return {
+            ...node,
+            data: {
+                ...node.data,
+                style: toNodeCss(declarations),
+                classes: classes.length ? classes : undefined,
+                inlineStyle: inline.length ? inline : undefined,
+            },
+        };
+    });
+
+    const styledEdges = edges.map((edge, i) => {
+        const linkStyle = directives.linkStyles.get(i) || [];
+        const declarations = [...theme.edge, ...(directives.linkStyles.get('default') || []), ...linkStyle];
+        if (declarations.length === 0) return edge;
+
+        return {
+            ...edge,
+            style: { ...edge.style, ...toEdgeCss(declarations) },
+            data: { ...edge.data, linkStyle: linkStyle.length ? linkStyle : undefined },
+        };
+    });
+
+    return { nodes: styledNodes, edges: styledEdges };
+}
@@ -0,0 +1,156 @@
+import type { Node } from '../store';
+
+/**
+ * Node sizes estimated from the label text, using the typography the CustomNodes components render it with.
+ * Text is measured on an OffscreenCanvas, which also works inside the layout worker; where there is
+ * no canvas (tests, old browsers) an average character width stands in.
+ */
+
+export interface TextStyle {
+    /** Font size in pixels */
+    size: number;
+    weight: number;
+    /** Extra space after every character, in em */
+    letterSpacing?: number;
+    uppercase?: boolean;
+}
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+const FONT_FAMILY = '"Inter", system-ui, sans-serif';
+const AVERAGE_CHAR_WIDTH = 0.6;  // In em, a little wide for Inter so fallback estimates err on the roomy side
+
+// Box of each node component: text style and line height, padding, border, icon beside the text and width limits
+interface NodeTypography {
+    text: TextStyle;
+    lineHeight: number;
+    paddingX: number;
+    paddingY: number;
+    border: number;
+    iconWidth?: number;
+    /** Height above the text inside the padding (icons stacked over it) */
+    extraHeight?: number;
+    /** Least content height, e.g. an icon taller than one line */
+    minContentHeight?: number;
+    minWidth: number;
+    maxWidth?: number;
+}
+
+const STANDARD: NodeTypography = {
+    text: { size: 13, weight: 700 }, lineHeight: 13 * 1.625,
+    paddingX: 20, paddingY: 14, border: 2, minWidth: 160, maxWidth: 240,
+};
+const SYSTEM: NodeTypography = {
+    text: { size: 12, weight: 700 }, lineHeight: 18,
+    paddingX: 20, paddingY: 16, border: 2, iconWidth: 32 + 12, minContentHeight: 32, minWidth: 160, maxWidth: 240,
+};
+const TERMINAL: NodeTypography = {
+    text: { size: 11, weight: 900, letterSpacing: 0.1, uppercase: true }, lineHeight: 16.5,
+    paddingX: 32, paddingY: 12, border: 2, iconWidth: 14 + 8, minWidth: 120,
+};
+const DATABASE: NodeTypography = {
+    text: { size: 12, weight: 700 }, lineHeight: 18,
+    paddingX: 24, paddingY: 20, border: 2, extraHeight: 8 + 20 + 8, minWidth: 150,
+};
+
+const TYPOGRAPHY: Record<string, NodeTypography> = {
+    start: TERMINAL, startNode: TERMINAL, end: TERMINAL, endNode: TERMINAL,
+    database: DATABASE, databaseNode: DATABASE, data: DATABASE,
+    server: SYSTEM, system: SYSTEM, tech: SYSTEM,
+};
+
+// Custom shapes draw their label over a fixed-size outline
+const SHAPE_SIZE: Size = { width: 128, height: 80 };
+
+// Metadata role shown under standard node labels
+const ROLE_LINE = { height: 4 + 9 * 1.5 };
+
+let context: OffscreenCanvasRenderingContext2D | null | undefined;
+const widths = new Map<string, number>();
+
+function getContext(): OffscreenCanvasRenderingContext2D | null {
+    if (context === undefined) {
+        try {
+            context = typeof OffscreenCanvas === 'undefined' ? null : new OffscreenCanvas(1, 1).getContext('2d');
+        } catch {
+            context = null;
+        }
+    }
+    return context;
+}
+
+/**
+ * Rendered width of one line of text
+ */
+export function measureText(text: string, style: TextStyle): number {
+    const shown = style.uppercase ? text.toUpperCase() : text;
+    const font = `${style.weight} ${style.size}px ${FONT_FAMILY}`;
+    const key = `${font}|${shown}`;
+    let width = widths.get(key);
+    if (width === undefined) {
+        const ctx = getContext();
+        if (ctx) ctx.font = font;
+        width = ctx ? ctx.measureText(shown).width : shown.length * style.size * AVERAGE_CHAR_WIDTH;
+        widths.set(key, width);
+    }
+    return width + shown.length * (style.letterSpacing || 0) * style.size;
+}
+
+/**
+ * Break text into lines no wider than `maxWidth` the way the browser wraps it, at spaces.
+ * A word longer than the line overflows it rather than being split.
+ */
+export function wrapText(text: string, style: TextStyle, maxWidth = Infinity): string[] {
+    const lines: string[] = [];
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const last = lines[lines.length - 1];
+        if (last !== undefined && measureText(`${last} ${word}`, style) <= maxWidth) {
+            lines[lines.length - 1] = `${last} ${word}`;
+        } else {
+            lines.push(word);
+        }
+    }
+    return lines.length ? lines : [''];
+}
+
+/**
+ * Label text of a flowchart node broken into the lines it renders on in a box `width` wide,
+ * with the text style and line height of the node's component
+ */
+export function getNodeLabelLines(node: Node, width: number): { lines: string[]; text: TextStyle; lineHeight: number } {
+    const { text, lineHeight, paddingX, border, iconWidth = 0, maxWidth } = getTypography(node);
+    const lines = maxWidth === undefined
+        ? wrapText(String(node.data.label || ''), text)
+        : wrapText(String(node.data.label || ''), text, width - (paddingX + border) * 2 - iconWidth);
+    return { lines, text, lineHeight };
+}
+
+function getTypography(node: Node): NodeTypography {
+    return (node.type && TYPOGRAPHY[node.type]) || STANDARD;
+}
+
+/**
+ * Size a flowchart node renders at for its label. Types without typography of their own render as
+ * the standard box, like React Flow falls back to the default node; diamonds, groups, class and entity
+ * boxes are sized by the layout engine instead.
+ */
+export function estimateLabelNodeSize(node: Node): Size {
+    if (node.type === 'custom-shape' || node.type === 'shape') return SHAPE_SIZE;
+    const typography = getTypography(node);
+
+    const { text, lineHeight, paddingX, paddingY, border, iconWidth = 0, extraHeight = 0, minContentHeight = 0, minWidth, maxWidth = Infinity } = typography;
+    const chrome = (paddingX + border) * 2 + iconWidth;
+    const label = String(node.data.label || '');
+    const lines = wrapText(label, text, maxWidth - chrome);
+    // Like the browser, a box whose text wraps takes its full width
+    const textWidth = lines.length > 1 ? Infinity : measureText(label.trim(), text);
+    const role = typography === STANDARD && node.data.metadata?.role ? ROLE_LINE.height : 0;
+
+    return {
+        width: Math.ceil(Math.min(Math.max(textWidth + chrome, minWidth), maxWidth)),
+        height: Math.ceil((paddingY + border) * 2 + extraHeight + Math.max(lines.length * lineHeight, minContentHeight) + role),
+    };
+}
@@ -0,0 +1,311 @@
+import type { Node, Edge } from '../store';
+import { buildDiagramSvg, type SvgAttributes, type SvgElement, type SvgRenderOptions } from './svgRenderer';
+import {
+    PdfDocument, ellipsePath, measurePdfText, multiply, parseColor, parsePath, parseTransform, rectPath, transformPath,
+    type Matrix, type PathSegment, type PdfFont, type PdfPage,
+} from './pdfWriter';
+
+/**
+ * Vector PDF export. The diagram is drawn from the same element tree as the SVG export, onto pages
+ * of a chosen size with a title block, and tiled across several pages when fitting it on one
+ * would shrink it past readability.
+ */
+
+export type PageSize = 'A4' | 'A3' | 'Letter' | 'Legal' | 'Tabloid';
+export type PageOrientation = 'portrait' | 'landscape' | 'auto';
+
+/** Portrait page sizes in points */
+export const PAGE_SIZES: Record<PageSize, { width: number; height: number }> = {
+    A4: { width: 595.28, height: 841.89 },
+    A3: { width: 841.89, height: 1190.55 },
+    Letter: { width: 612, height: 792 },
+    Legal: { width: 612, height: 1008 },
+    Tabloid: { width: 792, height: 1224 },
+};
+
+export interface PdfExportOptions extends SvgRenderOptions {
+    pageSize?: PageSize;
+    /** 'auto' picks whichever needs fewer pages, then prints larger */
+    orientation?: PageOrientation;
+    /** Page margin in millimetres */
+    margin?: number;
+    title?: string;
+    author?: string;
+    date?: Date;
+    /** Smallest print size, as a fraction of the on-screen size, before the diagram is tiled over several pages */
+    minScale?: number;
+}
+
+export interface PageLayout {
+    /** Page size in points */
+    width: number;
+    height: number;
+    /** Points per diagram pixel */
+    scale: number;
+    columns: number;
+    rows: number;
+    /** Drawing area on each page, in points from the bottom left */
+    area: { x: number; y: number; width: number; height: number };
+}
+
+const POINTS_PER_MM = 72 / 25.4;
+const POINTS_PER_PX = 0.75;  // CSS pixels are 1/96 in, points 1/72 in
+const TITLE_BLOCK_HEIGHT = 36;
+const TITLE_BLOCK_GAP = 12;
+const TITLE_COLOR = { r: 15, g: 23, b: 42 };
+const MUTED_COLOR = { r: 100, g: 116, b: 139 };
+
+/**
+ * Page size, print scale and tile grid for a diagram `width` x `height` pixels
+ */
+export function planPages(width: number, height: number, options: PdfExportOptions = {}): PageLayout {
+    const { pageSize = 'A4', orientation = 'auto', margin = 12, minScale = 0.5 } = options;
+    const portrait = PAGE_SIZES[pageSize];
+    const candidates = orientation === 'auto' ? ['portrait', 'landscape'] : [orientation];
+    const inset = margin * POINTS_PER_MM;
+
+    const layouts = candidates.map((side): PageLayout => {
+        const page = side === 'landscape' ? { width: portrait.height, height: portrait.width } : portrait;
+        const area = {
+            x: inset, y: inset + TITLE_BLOCK_HEIGHT + TITLE_BLOCK_GAP,
+            width: page.width - inset * 2, height: page.height - inset * 2 - TITLE_BLOCK_HEIGHT - TITLE_BLOCK_GAP,
+        };
+        // Shrink to fit, never enlarge past the on-screen size
+        const fit = Math.min(area.width / width, area.height / height, POINTS_PER_PX);
+        const scale = fit >= minScale * POINTS_PER_PX ? fit : minScale * POINTS_PER_PX;
+        return {
+            ...page, scale, area,
+            columns: Math.max(1, Math.ceil((width * scale) / area.width - 1e-6)),
+            rows: Math.max(1, Math.ceil((height * scale) / area.height - 1e-6)),
+        };
+    });
+    return layouts.reduce((best, layout) => {
+        const pages = layout.columns * layout.rows;
+        const bestPages = best.columns * best.rows;
+        return pages < bestPages || (pages === bestPages && layout.scale > best.scale) ? layout : best;
+    });
+}
+
+// Attributes that children pick up from their group
+const INHERITED = ['fill', 'stroke', 'stroke-width', 'font-family', 'font-size', 'font-weight', 'font-style'];
+
+const attribute = (attributes: SvgAttributes, name: string) => (attributes[name] === undefined ? undefined : String(attributes[name]));
+const numeric = (attributes: SvgAttributes, name: string, fallback = 0) => {
+    const value = Number.parseFloat(attribute(attributes, name) ?? '');
+    return Number.isFinite(value) ? value : fallback;
+};
+
+function getFont(attributes: SvgAttributes): PdfFont {
+    const bold = numeric(attributes, 'font-weight', 400) >= 600 || attribute(attributes, 'font-weight') === 'bold';
+    if (attribute(attributes, 'font-family')?.includes('Mono')) return bold ? 'Courier-Bold' : 'Courier';
+    const italic = attribute(attributes, 'font-style') === 'italic';
+    if (italic) return bold ? 'Helvetica-BoldOblique' : 'Helvetica-Oblique';
+    return bold ? 'Helvetica-Bold' : 'Helvetica';
+}
+
+interface DrawContext {
+    page: PdfPage;
+    markers: Map<string, SvgElement>;
+}
+
+// Fill and stroke `segments` with the element's paint
+function paintPath(context: DrawContext, segments: PathSegment[], attributes: SvgAttributes, strokeScale = 1) {
+    const opacity = numeric(attributes, 'opacity', 1);
+    const fill = parseColor(attribute(attributes, 'fill') ?? 'black');
+    const stroke = parseColor(attribute(attributes, 'stroke'));
+    const strokeWidth = numeric(attributes, 'stroke-width', 1) * strokeScale;
+    if (!fill && (!stroke || strokeWidth <= 0)) return;
+
+    const { page } = context;
+    page.save();
+    if (fill) page.setFill(fill.rgb, fill.alpha * numeric(attributes, 'fill-opacity', 1) * opacity);
+    if (stroke) {
+        page.setStroke(stroke.rgb, {
+            width: strokeWidth,
+            dash: attribute(attributes, 'stroke-dasharray')?.split(/[\s,]+/).map(Number).filter(Number.isFinite),
+            cap: attribute(attributes, 'stroke-linecap') === 'round' ? 1 : 0,
+            join: attribute(attributes, 'stroke-linejoin') === 'round' ? 1 : 0,
+        }, stroke.alpha * numeric(attributes, 'stroke-opacity', 1) * opacity);
+    }
+    page.drawPath(segments, fill && stroke ? 'B' : fill ? 'f' : 'S');
+    page.restore();
+}
+
+// Points and directions at both ends of a path, for its markers
+function getPathEnds(segments: PathSegment[]) {
+    const drawn = segments.filter(s => s.type !== 'Z') as Exclude<PathSegment, { type: 'Z' }>[];
+    if (drawn.length < 2) return null;
+    const [first, second] = drawn;
+    const last = drawn[drawn.length - 1];
+    const beforeLast = drawn[drawn.length - 2];
+    const leave = second.type === 'C' && (second.x1 !== first.x || second.y1 !== first.y) ? { x: second.x1, y: second.y1 } : second;
+    const arrive = last.type === 'C' && (last.x2 !== last.x || last.y2 !== last.y) ? { x: last.x2, y: last.y2 } : beforeLast;
+    return {
+        start: { x: first.x, y: first.y, angle: Math.atan2(leave.y - first.y, leave.x - first.x) },
+        end: { x: last.x, y: last.y, angle: Math.atan2(last.y - arrive.y, last.x - arrive.x) },
+    };
+}
+
+// A marker drawn at a path end, scaled with the stroke and turned along the path
+function drawMarker(context: DrawContext, reference: string | undefined, at: { x: number; y: number; angle: number }, isStart: boolean, strokeWidth: number) {
+    const marker = context.markers.get(reference?.match(/^url\(#(.+)\)$/)?.[1] ?? '');
+    if (!marker) return;
+    const attributes = marker.attributes;
+    const [, , boxWidth, boxHeight] = (attribute(attributes, 'viewBox') ?? '0 0 10 10').split(/\s+/).map(Number);
+    const scale = Math.min((numeric(attributes, 'markerWidth', 3) * strokeWidth) / boxWidth, (numeric(attributes, 'markerHeight', 3) * strokeWidth) / boxHeight);
+    const orient = attribute(attributes, 'orient');
+    const angle = orient === 'auto-start-reverse' && isStart ? at.angle + Math.PI : orient === 'auto' || orient === 'auto-start-reverse' ? at.angle : 0;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const placement = multiply(
+        [cos * scale, sin * scale, -sin * scale, cos * scale, at.x, at.y],
+        [1, 0, 0, 1, -numeric(attributes, 'refX'), -numeric(attributes, 'refY')],
+    );
+
+    context.page.save();
+    context.page.transform(placement);
+    marker.children?.forEach(child => drawElement(context, child, {}));
+    context.page.restore();
+}
+
+function drawText(context: DrawContext, element: SvgElement, attributes: SvgAttributes) {
+    const text = element.text ?? '';
+    const fill = parseColor(attribute(attributes, 'fill') ?? 'black');
+    if (!text.trim() || !fill) return;
+    const font = getFont(attributes);
+    const size = numeric(attributes, 'font-size', 16);
+    const letterSpacing = numeric(attributes, 'letter-spacing');
+    const width = measurePdfText(text, font, size) + letterSpacing * text.length;
+    const anchor = attribute(attributes, 'text-anchor');
+    const x = numeric(attributes, 'x') - (anchor === 'middle' ? width / 2 : anchor === 'end' ? width : 0);
+    // Centred text sits about a third of the font size above its baseline
+    const y = numeric(attributes, 'y') + (attribute(attributes, 'dominant-baseline') === 'central' ? size * 0.35 : 0);
+
+    const { page } = context;
+    page.save();
+    page.setFill(fill.rgb, fill.alpha * numeric(attributes, 'fill-opacity', 1) * numeric(attributes, 'opacity', 1));
+    page.drawText(text, x, y, font, size, { letterSpacing, flip: true });
+    page.restore();
+    if (attribute(attributes, 'text-decoration') === 'underline') {
+        paintPath(context, [{ type: 'M', x, y: y + size * 0.15 }, { type: 'L', x: x + width, y: y + size * 0.15 }],
+            { stroke: attribute(attributes, 'fill'), 'stroke-width': size / 16, fill: 'none' });
+    }
+}
+
+// Draw one element of the tree (in diagram coordinates) and its children
+function drawElement(context: DrawContext, element: SvgElement, inherited: SvgAttributes) {
+    const attributes = { ...inherited, ...element.attributes };
+    const get = (name: string) => numeric(attributes, name);
+    let segments: PathSegment[] | null = null;
+    let strokeScale = 1;
+
+    switch (element.tag) {
+        case 'svg':
+        case 'g': {
+            const passed = Object.fromEntries(INHERITED.filter(name => attributes[name] !== undefined).map(name => [name, attributes[name]]));
+            element.children?.forEach(child => drawElement(context, child, passed));
+            return;
+        }
+        case 'defs':
+            element.children?.filter(child => child.tag === 'marker').forEach(marker => context.markers.set(String(marker.attributes.id), marker));
+            return;
+        case 'text':
+            drawText(context, element, attributes);
+            return;
+        case 'rect':
+            segments = rectPath(get('x'), get('y'), get('width'), get('height'), get('rx'));
+            break;
+        case 'circle':
+            segments = ellipsePath(get('cx'), get('cy'), get('r'), get('r'));
+            break;
+        case 'ellipse':
+            segments = ellipsePath(get('cx'), get('cy'), get('rx'), get('ry'));
+            break;
+        case 'line':
+            segments = [{ type: 'M', x: get('x1'), y: get('y1') }, { type: 'L', x: get('x2'), y: get('y2') }];
+            break;
+        case 'polygon':
+        case 'polyline': {
+            const values = (attribute(attributes, 'points') ?? '').split(/[\s,]+/).filter(Boolean).map(Number);
+            segments = [];
+            for (let i = 0; i + 1 < values.length; i += 2) segments.push({ type: i ? 'L' : 'M', x: values[i], y: values[i + 1] });
+            if (element.tag === 'polygon' && segments.length) segments.push({ type: 'Z' });
+            break;
+        }
+        case 'path':
+            segments = parsePath(attribute(attributes, 'd') ?? '');
+            break;
+        default:
+            return;
+    }
+
+    // Transforms are applied to the points, so a non-scaling stroke keeps its width
+    if (attributes.transform !== undefined) {
+        const matrix: Matrix = parseTransform(attribute(attributes, 'transform'));
+        segments = transformPath(segments, matrix);
+        if (attribute(attributes, 'vector-effect') !== 'non-scaling-stroke') strokeScale = Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]));
+    }
+    if (element.tag === 'line' || element.tag === 'polyline') attributes.fill = attributes.fill ?? 'none';
+    paintPath(context, segments, attributes, strokeScale);
+
+    const ends = (attributes['marker-start'] || attributes['marker-end']) && getPathEnds(segments);
+    if (ends) {
+        const strokeWidth = numeric(attributes, 'stroke-width', 1) * strokeScale;
+        drawMarker(context, attribute(attributes, 'marker-start'), ends.start, true, strokeWidth);
+        drawMarker(context, attribute(attributes, 'marker-end'), ends.end, false, strokeWidth);
+    }
+}
+
+// Rule, title, author and date, and the page number along the bottom of a page
+function drawTitleBlock(page: PdfPage, layout: PageLayout, options: PdfExportOptions, pageNumber: number, pageCount: number, tile: string) {
+    const { x, width } = layout.area;
+    const top = layout.area.y - TITLE_BLOCK_GAP;
+    const date = (options.date ?? new Date()).toISOString().slice(0, 10);
+    const byline = [options.author, date].filter(Boolean).join('  ·  ');
+    const pageLabel = `Page ${pageNumber} of ${pageCount}${tile}`;
+
+    page.save();
+    page.setStroke(MUTED_COLOR, { width: 0.5 });
+    page.drawPath([{ type: 'M', x, y: top }, { type: 'L', x: x + width, y: top }], 'S');
+    page.setFill(TITLE_COLOR);
+    page.drawText(options.title || 'Untitled diagram', x, top - 15, 'Helvetica-Bold', 12);
+    page.setFill(MUTED_COLOR);
+    page.drawText(byline, x, top - 29, 'Helvetica', 8);
+    page.drawText(pageLabel, x + width - measurePdfText(pageLabel, 'Helvetica', 8), top - 29, 'Helvetica', 8);
+    page.restore();
+}
+
+/**
+ * Lay the diagram out on PDF pages and return the file. Colours default to the light theme, for paper.
+ */
+export function renderDiagramPdf(nodes: Node[], edges: Edge[], options: PdfExportOptions = {}): Uint8Array<ArrayBuffer> {
+    const svg = buildDiagramSvg(nodes, edges, { theme: 'light', ...options });
+    const [left, top, width, height] = String(svg.attributes.viewBox).split(' ').map(Number);
+    const layout = planPages(width, height, options);
+    const { area, scale, columns, rows } = layout;
+    const pageCount = columns * rows;
+    // A diagram on one page is centred in the drawing area; tiles start at its top left
+    const offsetX = pageCount === 1 ? (area.width - width * scale) / 2 : 0;
+    const offsetY = pageCount === 1 ? (area.height - height * scale) / 2 : 0;
+
+    const document = new PdfDocument({ title: options.title, author: options.author });
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+            const page = document.addPage(layout.width, layout.height);
+            page.save();
+            page.clipRect(area.x, area.y, area.width, area.height);
+            // Diagram pixels (y down) to page points (y up), shifted to this tile
+            page.transform([
+                scale, 0, 0, -scale,
+                area.x + offsetX - left * scale - column * area.width,
+                area.y + area.height - offsetY + top * scale + row * area.height,
+            ]);
+            drawElement({ page, markers: new Map() }, svg, {});
+            page.restore();
+            const tile = pageCount > 1 ? `  ·  row ${row + 1}, column ${column + 1}` : '';
+            drawTitleBlock(page, layout, options, row * columns + column + 1, pageCount, tile);
+        }
+    }
+    console.log(`[PdfExport] ${pageCount} page(s) at ${Math.round((scale / POINTS_PER_PX) * 100)}% on ${options.pageSize ?? 'A4'}`);
+    return document.toBytes();
+}
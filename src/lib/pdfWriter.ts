@@ -0,0 +1,477 @@
+/**
+ * Minimal PDF 1.4 writer for vector drawings.
+ * Pages hold content streams of paths and text in the standard 14 fonts (no embedding), with
+ * transparency through graphics states. SVG path data and colours are converted here so callers
+ * can draw SVG-like elements straight onto a page.
+ */
+
+export type PdfFont = 'Helvetica' | 'Helvetica-Bold' | 'Helvetica-Oblique' | 'Helvetica-BoldOblique' | 'Courier' | 'Courier-Bold';
+
+const FONTS: PdfFont[] = ['Helvetica', 'Helvetica-Bold', 'Helvetica-Oblique', 'Helvetica-BoldOblique', 'Courier', 'Courier-Bold'];
+
+// Advance widths of the printable ASCII characters (32-126) in 1/1000 em, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI: Record<string, number> = {
+    '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c,
+    'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+    'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/**
+ * Text as WinAnsi bytes (one character each); characters the encoding lacks become '?'
+ */
+export function encodeWinAnsi(text: string): string {
+    return Array.from(text, char => {
+        const code = char.codePointAt(0)!;
+        if ((code >= 32 && code < 127) || (code >= 160 && code < 256)) return char;
+        return WIN_ANSI[char] !== undefined ? String.fromCharCode(WIN_ANSI[char]) : '?';
+    }).join('');
+}
+
+/**
+ * Width of a line of text in points when set in one of the standard fonts
+ */
+export function measurePdfText(text: string, font: PdfFont, size: number): number {
+    if (font.startsWith('Courier')) return encodeWinAnsi(text).length * 0.6 * size;
+    const widths = font.startsWith('Helvetica-Bold') ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of encodeWinAnsi(text)) {
+        const code = char.charCodeAt(0);
+        total += code >= 32 && code < 127 ? widths[code - 32] : 556;
+    }
+    return (total / 1000) * size;
+}
+
+export interface RGB {
+    r: number;
+    g: number;
+    b: number;
+}
+
+const NAMED_COLORS: Record<string, RGB> = {
+    black: { r: 0, g: 0, b: 0 }, white: { r: 255, g: 255, b: 255 }, red: { r: 255, g: 0, b: 0 }, green: { r: 0, g: 128, b: 0 },
+    blue: { r: 0, g: 0, b: 255 }, gray: { r: 128, g: 128, b: 128 }, grey: { r: 128, g: 128, b: 128 }, orange: { r: 255, g: 165, b: 0 },
+    yellow: { r: 255, g: 255, b: 0 }, purple: { r: 128, g: 0, b: 128 },
+};
+
+/**
+ * CSS colour (#rgb, #rrggbb, rgb()/rgba() or a basic name) as RGB plus its alpha, or null for none and unknown values
+ */
+export function parseColor(value: string | undefined): { rgb: RGB; alpha: number } | null {
+    const color = value?.trim().toLowerCase();
+    if (!color || color === 'none' || color === 'transparent') return null;
+    const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+    if (hex) {
+        const digits = hex[1].length === 3 ? hex[1].replace(/./g, d => d + d) : hex[1];
+        return { rgb: { r: parseInt(digits.slice(0, 2), 16), g: parseInt(digits.slice(2, 4), 16), b: parseInt(digits.slice(4, 6), 16) }, alpha: 1 };
+    }
+    const rgb = color.match(/^rgba?\(([^)]+)\)$/);
+    if (rgb) {
+        const [r, g, b, a = 1] = rgb[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+        if ([r, g, b, a].some(Number.isNaN)) return null;
+        return { rgb: { r, g, b }, alpha: a };
+    }
+    return NAMED_COLORS[color] ? { rgb: NAMED_COLORS[color], alpha: 1 } : null;
+}
+
+/** Affine matrix [a, b, c, d, e, f], mapping (x, y) to (ax + cy + e, bx + dy + f) */
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * `m` applied after `n`
+ */
+export function multiply(m: Matrix, n: Matrix): Matrix {
+    return [
+        m[0] * n[0] + m[2] * n[1], m[1] * n[0] + m[3] * n[1],
+        m[0] * n[2] + m[2] * n[3], m[1] * n[2] + m[3] * n[3],
+        m[0] * n[4] + m[2] * n[5] + m[4], m[1] * n[4] + m[3] * n[5] + m[5],
+    ];
+}
+
+/**
+ * SVG transform list (translate, scale, rotate, matrix) as one matrix
+ */
+export function parseTransform(transform: string | undefined): Matrix {
+    let matrix = IDENTITY;
+    for (const [, name, args] of (transform || '').matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+        const [a = 0, b, c, d, e, f] = args.split(/[\s,]+/).filter(Boolean).map(Number);
+        let next: Matrix = IDENTITY;
+        if (name === 'translate') next = [1, 0, 0, 1, a, b ?? 0];
+        else if (name === 'scale') next = [a, 0, 0, b ?? a, 0, 0];
+        else if (name === 'rotate') {
+            const angle = (a * Math.PI) / 180;
+            next = [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0];
+            if (b !== undefined) next = multiply(multiply([1, 0, 0, 1, b, c ?? 0], next), [1, 0, 0, 1, -b, -(c ?? 0)]);
+        } else if (name === 'matrix') next = [a, b ?? 0, c ?? 0, d ?? 1, e ?? 0, f ?? 0];
+        matrix = multiply(matrix, next);
+    }
+    return matrix;
+}
+
+export type PathSegment =
+    | { type: 'M' | 'L'; x: number; y: number }
+    | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+    | { type: 'Z' };
+
+const KAPPA = 0.5522847498;
+
+// Cubic Béziers for an SVG arc (endpoint parameterisation), each spanning at most a quarter turn
+function arcToCurves(x0: number, y0: number, rx: number, ry: number, rotation: number, large: boolean, sweep: boolean, x: number, y: number): PathSegment[] {
+    if (rx === 0 || ry === 0 || (x0 === x && y0 === y)) return [{ type: 'L', x, y }];
+    const phi = (rotation * Math.PI) / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    const dx = (x0 - x) / 2;
+    const dy = (y0 - y) / 2;
+    const x1 = cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) {
+        rx *= Math.sqrt(lambda);
+        ry *= Math.sqrt(lambda);
+    }
+    const sign = large === sweep ? -1 : 1;
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const factor = sign * Math.sqrt(Math.max(0, numerator / (rx * rx * y1 * y1 + ry * ry * x1 * x1)));
+    const cx1 = (factor * rx * y1) / ry;
+    const cy1 = (-factor * ry * x1) / rx;
+    const cx = cos * cx1 - sin * cy1 + (x0 + x) / 2;
+    const cy = sin * cx1 + cos * cy1 + (y0 + y) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+    let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+    if (!sweep && delta > 0) delta -= Math.PI * 2;
+    if (sweep && delta < 0) delta += Math.PI * 2;
+
+    const count = Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9);
+    const step = delta / count;
+    const handle = (4 / 3) * Math.tan(step / 4);
+    const point = (t: number, along = 0) => {
+        // Point on the ellipse at angle t, moved `along` its tangent
+        const px = Math.cos(t) - along * Math.sin(t);
+        const py = Math.sin(t) + along * Math.cos(t);
+        return { x: cx + cos * rx * px - sin * ry * py, y: cy + sin * rx * px + cos * ry * py };
+    };
+    return Array.from({ length: count }, (_, i) => {
+        const from = start + i * step;
+        const to = from + step;
+        const c1 = point(from, handle);
+        const c2 = point(to, -handle);
+        const end = i === count - 1 ? { x, y } : point(to);
+        return { type: 'C' as const, x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y };
+    });
+}
+
+/**
+ * SVG path data as absolute moves, lines and cubic curves. Relative, shorthand, quadratic and
+ * arc commands are all converted.
+ */
+export function parsePath(d: string): PathSegment[] {
+    const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?/g) || [];
+    const segments: PathSegment[] = [];
+    let i = 0;
+    let command = '';
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+    // Reflected control points for S and T
+    let lastCubic: { x: number; y: number } | null = null;
+    let lastQuad: { x: number; y: number } | null = null;
+    const number = () => Number(tokens[i++]);
+    const flag = () => {
+        // Arc flags may be written without separators ("a10 10 0 01 5 5")
+        const token = tokens[i];
+        if (token.length > 1 && (token[0] === '0' || token[0] === '1')) {
+            tokens[i] = token.slice(1);
+            return token[0] === '1';
+        }
+        i++;
+        return token === '1';
+    };
+
+    while (i < tokens.length) {
+        if (/[a-zA-Z]/.test(tokens[i])) command = tokens[i++];
+        else if (!command) break;
+        const relative = command === command.toLowerCase();
+        const ox = relative ? x : 0;
+        const oy = relative ? y : 0;
+        const upper = command.toUpperCase();
+        let cubic: { x: number; y: number } | null = null;
+        let quad: { x: number; y: number } | null = null;
+
+        if (upper === 'Z') {
+            segments.push({ type: 'Z' });
+            x = startX;
+            y = startY;
+        } else if (upper === 'M') {
+            x = ox + number();
+            y = oy + number();
+            startX = x;
+            startY = y;
+            segments.push({ type: 'M', x, y });
+            // Further pairs after a move are lines
+            command = relative ? 'l' : 'L';
+        } else if (upper === 'L' || upper === 'H' || upper === 'V') {
+            if (upper !== 'V') x = ox + number();
+            if (upper !== 'H') y = oy + number();
+            segments.push({ type: 'L', x, y });
+        } else if (upper === 'C' || upper === 'S') {
+            const x1 = upper === 'S' ? (lastCubic ? 2 * x - lastCubic.x : x) : ox + number();
+            const y1 = upper === 'S' ? (lastCubic ? 2 * y - lastCubic.y : y) : oy + number();
+            const x2 = ox + number();
+            const y2 = oy + number();
+            x = ox + number();
+            y = oy + number();
+            segments.push({ type: 'C', x1, y1, x2, y2, x, y });
+            cubic = { x: x2, y: y2 };
+        } else if (upper === 'Q' || upper === 'T') {
+            const qx: number = upper === 'T' ? (lastQuad ? 2 * x - lastQuad.x : x) : ox + number();
+            const qy: number = upper === 'T' ? (lastQuad ? 2 * y - lastQuad.y : y) : oy + number();
+            const endX = ox + number();
+            const endY = oy + number();
+            segments.push({ type: 'C', x1: x + (2 / 3) * (qx - x), y1: y + (2 / 3) * (qy - y), x2: endX + (2 / 3) * (qx - endX), y2: endY + (2 / 3) * (qy - endY), x: endX, y: endY });
+            x = endX;
+            y = endY;
+            quad = { x: qx, y: qy };
+        } else if (upper === 'A') {
+            const rx = number();
+            const ry = number();
+            const rotation = number();
+            const large = flag();
+            const sweep = flag();
+            const endX = ox + number();
+            const endY = oy + number();
+            segments.push(...arcToCurves(x, y, rx, ry, rotation, large, sweep, endX, endY));
+            x = endX;
+            y = endY;
+        } else {
+            // Unknown command: skip its arguments
+            i++;
+        }
+        lastCubic = cubic;
+        lastQuad = quad;
+    }
+    return segments;
+}
+
+/**
+ * Outline of a rectangle with corners rounded to `radius`, as path segments
+ */
+export function rectPath(x: number, y: number, width: number, height: number, radius = 0): PathSegment[] {
+    const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+    if (!r) return [{ type: 'M', x, y }, { type: 'L', x: x + width, y }, { type: 'L', x: x + width, y: y + height }, { type: 'L', x, y: y + height }, { type: 'Z' }];
+    const k = r * (1 - KAPPA);
+    const right = x + width;
+    const bottom = y + height;
+    return [
+        { type: 'M', x: x + r, y },
+        { type: 'L', x: right - r, y },
+        { type: 'C', x1: right - k, y1: y, x2: right, y2: y + k, x: right, y: y + r },
+        { type: 'L', x: right, y: bottom - r },
+        { type: 'C', x1: right, y1: bottom - k, x2: right - k, y2: bottom, x: right - r, y: bottom },
+        { type: 'L', x: x + r, y: bottom },
+        { type: 'C', x1: x + k, y1: bottom, x2: x, y2: bottom - k, x, y: bottom - r },
+        { type: 'L', x, y: y + r },
+        { type: 'C', x1: x, y1: y + k, x2: x + k, y2: y, x: x + r, y },
+        { type: 'Z' },
+    ];
+}
+
+/**
+ * Outline of an ellipse, as path segments
+ */
+export function ellipsePath(cx: number, cy: number, rx: number, ry: number): PathSegment[] {
+    return [{ type: 'M', x: cx - rx, y: cy }, ...arcToCurves(cx - rx, cy, rx, ry, 0, false, true, cx + rx, cy), ...arcToCurves(cx + rx, cy, rx, ry, 0, false, true, cx - rx, cy), { type: 'Z' }];
+}
+
+/**
+ * Segments moved through `matrix`
+ */
+export function transformPath(segments: PathSegment[], matrix: Matrix): PathSegment[] {
+    const [a, b, c, d, e, f] = matrix;
+    const map = (x: number, y: number) => ({ x: a * x + c * y + e, y: b * x + d * y + f });
+    return segments.map(segment => {
+        if (segment.type === 'Z') return segment;
+        const end = map(segment.x, segment.y);
+        if (segment.type !== 'C') return { type: segment.type, ...end };
+        const c1 = map(segment.x1, segment.y1);
+        const c2 = map(segment.x2, segment.y2);
+        return { type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, ...end };
+    });
+}
+
+const num = (value: number) => {
+    const rounded = Math.round(value * 1000) / 1000;
+    return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+function pdfString(text: string): string {
+    return `(${encodeWinAnsi(text).replace(/[\\()]/g, char => `\\${char}`)})`;
+}
+
+export interface StrokeStyle {
+    width: number;
+    dash?: number[];
+    /** 0 butt, 1 round, 2 square */
+    cap?: 0 | 1 | 2;
+    /** 0 miter, 1 round, 2 bevel */
+    join?: 0 | 1 | 2;
+}
+
+/**
+ * Drawing operators for one page. Coordinates are PDF points from the bottom left unless a transform says otherwise.
+ */
+export class PdfPage {
+    readonly operators: string[] = [];
+    readonly width: number;
+    readonly height: number;
+    private readonly document: PdfDocument;
+
+    constructor(width: number, height: number, document: PdfDocument) {
+        this.width = width;
+        this.height = height;
+        this.document = document;
+    }
+
+    save() {
+        this.operators.push('q');
+    }
+
+    restore() {
+        this.operators.push('Q');
+    }
+
+    transform(matrix: Matrix) {
+        this.operators.push(`${matrix.map(num).join(' ')} cm`);
+    }
+
+    clipRect(x: number, y: number, width: number, height: number) {
+        this.operators.push(`${num(x)} ${num(y)} ${num(width)} ${num(height)} re W n`);
+    }
+
+    setFill(rgb: RGB, alpha = 1) {
+        this.operators.push(`${num(rgb.r / 255)} ${num(rgb.g / 255)} ${num(rgb.b / 255)} rg`);
+        if (alpha < 1) this.operators.push(`/${this.document.getAlphaState('ca', alpha)} gs`);
+    }
+
+    setStroke(rgb: RGB, style: StrokeStyle, alpha = 1) {
+        this.operators.push(`${num(rgb.r / 255)} ${num(rgb.g / 255)} ${num(rgb.b / 255)} RG`, `${num(style.width)} w`);
+        this.operators.push(`[${(style.dash || []).map(num).join(' ')}] 0 d`, `${style.cap ?? 0} J`, `${style.join ?? 0} j`);
+        if (alpha < 1) this.operators.push(`/${this.document.getAlphaState('CA', alpha)} gs`);
+    }
+
+    /**
+     * Add `segments` to the current path and paint it: 'f' fill, 'S' stroke, 'B' both
+     */
+    drawPath(segments: PathSegment[], paint: 'f' | 'S' | 'B') {
+        if (!segments.length) return;
+        for (const segment of segments) {
+            if (segment.type === 'Z') this.operators.push('h');
+            else if (segment.type === 'C') this.operators.push(`${num(segment.x1)} ${num(segment.y1)} ${num(segment.x2)} ${num(segment.y2)} ${num(segment.x)} ${num(segment.y)} c`);
+            else this.operators.push(`${num(segment.x)} ${num(segment.y)} ${segment.type === 'M' ? 'm' : 'l'}`);
+        }
+        this.operators.push(paint);
+    }
+
+    /**
+     * Set a line of text with its baseline starting at (x, y). `flip` draws it upright in a y-down coordinate system.
+     */
+    drawText(text: string, x: number, y: number, font: PdfFont, size: number, options: { letterSpacing?: number; flip?: boolean } = {}) {
+        const name = `F${FONTS.indexOf(font) + 1}`;
+        const spacing = options.letterSpacing ? ` ${num(options.letterSpacing)} Tc` : '';
+        this.operators.push(`BT /${name} ${num(size)} Tf${spacing} 1 0 0 ${options.flip ? -1 : 1} ${num(x)} ${num(y)} Tm ${pdfString(text)} Tj ET`);
+    }
+}
+
+/**
+ * A PDF file being assembled page by page
+ */
+export class PdfDocument {
+    private readonly pages: PdfPage[] = [];
+    private readonly alphaStates = new Map<string, string>();
+
+    private readonly info: { title?: string; author?: string };
+
+    constructor(info: { title?: string; author?: string } = {}) {
+        this.info = info;
+    }
+
+    addPage(width: number, height: number): PdfPage {
+        const page = new PdfPage(width, height, this);
+        this.pages.push(page);
+        return page;
+    }
+
+    /** Name of the graphics state setting fill ('ca') or stroke ('CA') opacity */
+    getAlphaState(key: 'ca' | 'CA', alpha: number): string {
+        const id = `${key}${Math.round(Math.max(0, alpha) * 1000) / 1000}`;
+        if (!this.alphaStates.has(id)) this.alphaStates.set(id, `GS${this.alphaStates.size + 1}`);
+        return this.alphaStates.get(id)!;
+    }
+
+    /**
+     * The finished file
+     */
+    toBytes(): Uint8Array<ArrayBuffer> {
+        // Objects 1-2 are the catalog and page tree, then the info, fonts, graphics states and the pages
+        const objects: string[] = [];
+        const add = (body: string) => objects.push(body);
+        const fontStart = 4;
+        const stateStart = fontStart + FONTS.length;
+        const pageStart = stateStart + this.alphaStates.size;
+
+        add('<< /Type /Catalog /Pages 2 0 R >>');
+        add(`<< /Type /Pages /Kids [${this.pages.map((_, i) => `${pageStart + i * 2} 0 R`).join(' ')}] /Count ${this.pages.length} >>`);
+        const title = this.info.title ? ` /Title ${pdfString(this.info.title)}` : '';
+        const author = this.info.author ? ` /Author ${pdfString(this.info.author)}` : '';
+        add(`<< /Producer (SysVis.AI)${title}${author} >>`);
+        FONTS.forEach(font => add(`<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`));
+        [...this.alphaStates.keys()].forEach(id => add(`<< /Type /ExtGState /${id.slice(0, 2)} ${id.slice(2)} >>`));
+
+        const fonts = FONTS.map((_, i) => `/F${i + 1} ${fontStart + i} 0 R`).join(' ');
+        const states = [...this.alphaStates.values()].map((name, i) => `/${name} ${stateStart + i} 0 R`).join(' ');
+        this.pages.forEach((page, i) => {
+            const content = page.operators.join('\n');
+            add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Resources << /Font << ${fonts} >> /ExtGState << ${states} >> >> /Contents ${pageStart + i * 2 + 1} 0 R >>`);
+            add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+        });
+
+        // Every character is a single byte, so string offsets are byte offsets
+        let file = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+        const offsets = objects.map((body, i) => {
+            const offset = file.length;
+            file += `${i + 1} 0 obj\n${body}\nendobj\n`;
+            return offset;
+        });
+        const xref = file.length;
+        file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')}`;
+        file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+        const bytes = new Uint8Array(file.length);
+        for (let i = 0; i < file.length; i++) bytes[i] = file.charCodeAt(i);
+        return bytes;
+    }
+}
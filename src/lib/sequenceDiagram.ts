@@ -0,0 +1,294 @@
+import type { Node, Edge } from '../store';
+
+/**
+ * Shared geometry for sequence diagrams.
+ * The parser assigns every message, note and fragment header a row index;
+ * lifelines, message edges and the layout engine all derive y positions from it.
+ */
+export const SEQUENCE_LAYOUT = {
+    participantWidth: 150,
+    participantGap: 90,
+    headerHeight: 48,
+    rowHeight: 52,
+    activationWidth: 12,
+    noteWidth: 150,
+    selfMessageWidth: 40,
+};
+
+export type SequenceParticipantKind = 'participant' | 'actor';
+export type SequenceLineStyle = 'solid' | 'dotted';
+export type SequenceArrowHead = 'none' | 'arrow' | 'cross' | 'async';
+export type SequenceFragmentKind = 'loop' | 'alt' | 'opt' | 'par' | 'critical' | 'break' | 'rect';
+export type SequenceNotePlacement = 'left' | 'right' | 'over';
+
+export interface SequenceActivation {
+    start: number;
+    end: number;
+    depth: number;
+}
+
+export interface SequenceSection {
+    label: string;
+    row: number;
+}
+
+/**
+ * Vertical offset of a row's message line, measured from the top of a lifeline
+ */
+export function getSequenceRowOffset(row: number): number {
+    return SEQUENCE_LAYOUT.headerHeight + (row + 1) * SEQUENCE_LAYOUT.rowHeight;
+}
+
+// Longest tokens first so `-->>` is not read as `-->`
+const ARROWS: Record<string, { lineStyle: SequenceLineStyle; head: SequenceArrowHead; bidirectional?: boolean }> = {
+    '<<-->>': { lineStyle: 'dotted', head: 'arrow', bidirectional: true },
+    '<<->>': { lineStyle: 'solid', head: 'arrow', bidirectional: true },
+    '-->>': { lineStyle: 'dotted', head: 'arrow' },
+    '->>': { lineStyle: 'solid', head: 'arrow' },
+    '--x': { lineStyle: 'dotted', head: 'cross' },
+    '-x': { lineStyle: 'solid', head: 'cross' },
+    '--)': { lineStyle: 'dotted', head: 'async' },
+    '-)': { lineStyle: 'solid', head: 'async' },
+    '-->': { lineStyle: 'dotted', head: 'none' },
+    '->': { lineStyle: 'solid', head: 'none' },
+};
+
+const ARROW_PATTERN = Object.keys(ARROWS)
+    .map(token => token.replace(/[()]/g, '\\$&'))
+    .join('|');
+
+const MESSAGE_REGEX = new RegExp(`^([^\\s:<>+]+?)\\s*(${ARROW_PATTERN})\\s*([+-]?)\\s*([^:]+?)\\s*(?::\\s*(.*))?$`);
+const PARTICIPANT_REGEX = /^(?:create\s+)?(participant|actor)\s+(.+?)(?:\s+as\s+(.+))?$/i;
+const NOTE_REGEX = /^note\s+(left of|right of|over)\s+([^:]+?)\s*:\s*(.*)$/i;
+const FRAGMENT_REGEX = /^(loop|alt|opt|par|critical|break|rect)\b\s*(.*)$/i;
+const SECTION_REGEX = /^(else|and|option)\b\s*(.*)$/i;
+const ACTIVATION_REGEX = /^(activate|deactivate)\s+(\S+)$/i;
+
+interface OpenFragment {
+    node: Node;
+    participants: Set<string>;
+}
+
+/**
+ * Parse a `sequenceDiagram` into lifeline nodes, ordered message edges,
+ * fragment (loop/alt/opt/...) nodes and note nodes.
+ * Positions are left at the origin; `getLayoutedElements` places them.
+ */
+export function parseSequenceDiagram(code: string): { nodes: Node[]; edges: Edge[] } {
+    const lines = code.split('\n').map(l => l.trim()).filter(l => l && !l.startsWith('%%'));
+
+    const participants = new Map<string, Node>();
+    const activations = new Map<string, SequenceActivation[]>();
+    const openActivations = new Map<string, SequenceActivation[]>();
+    const fragments: Node[] = [];
+    const notes: Node[] = [];
+    const edges: Edge[] = [];
+    // Fragment stack also tracks `box` blocks so their `end` is consumed correctly
+    const blockStack: (OpenFragment | 'box')[] = [];
+
+    let row = 0;
+    let lastMessageRow: number | null = null;
+    let autonumber = false;
+    let messageCount = 0;
+
+    const ensureParticipant = (id: string, label?: string, kind: SequenceParticipantKind = 'participant') => {
+        const existing = participants.get(id);
+        if (existing) {
+            if (label) existing.data.label = label;
+            return existing;
+        }
+        const node: Node = {
+            id,
+            type: 'lifeline',
+            position: { x: 0, y: 0 },
+            data: {
+                label: label || id,
+                participantKind: kind,
+                column: participants.size,
+                activations: [],
+                rowCount: 0,
+                category: 'filter-other',
+            },
+        };
+        participants.set(id, node);
+        return node;
+    };
+
+    const touchFragments = (...ids: string[]) => {
+        for (const block of blockStack) {
+            if (block !== 'box') ids.forEach(id => block.participants.add(id));
+        }
+    };
+
+    const activate = (id: string, start: number) => {
+        const stack = openActivations.get(id) || [];
+        const activation = { start, end: start, depth: stack.length };
+        stack.push(activation);
+        openActivations.set(id, stack);
+        const all = activations.get(id) || [];
+        all.push(activation);
+        activations.set(id, all);
+    };
+
+    const deactivate = (id: string, end: number) => {
+        const activation = openActivations.get(id)?.pop();
+        if (activation) activation.end = Math.max(activation.start, end);
+    };
+
+    for (const line of lines) {
+        if (/^sequenceDiagram\b/i.test(line)) continue;
+        if (/^autonumber\b/i.test(line)) {
+            autonumber = true;
+            continue;
+        }
+        if (/^(title|accTitle|accDescr)\b/i.test(line)) continue;
+
+        const participantMatch = line.match(PARTICIPANT_REGEX);
+        if (participantMatch) {
+            const kind = participantMatch[1].toLowerCase() as SequenceParticipantKind;
+            ensureParticipant(participantMatch[2].trim(), participantMatch[3]?.trim(), kind);
+            continue;
+        }
+
+        if (/^destroy\s+/i.test(line)) continue;
+
+        if (/^box\b/i.test(line)) {
+            blockStack.push('box');
+            continue;
+        }
+
+        const activationMatch = line.match(ACTIVATION_REGEX);
+        if (activationMatch) {
+            const id = activationMatch[2];
+            ensureParticipant(id);
+            if (activationMatch[1].toLowerCase() === 'activate') {
+                activate(id, lastMessageRow ?? row);
+            } else {
+                deactivate(id, lastMessageRow ?? row);
+            }
+            continue;
+        }
+
+        const noteMatch = line.match(NOTE_REGEX);
+        if (noteMatch) {
+            const placement = noteMatch[1].toLowerCase().split(' ')[0] as SequenceNotePlacement;
+            const noteParticipants = noteMatch[2].split(',').map(p => p.trim()).filter(Boolean);
+            noteParticipants.forEach(id => ensureParticipant(id));
+            touchFragments(...noteParticipants);
+            notes.push({
+                id: `note-${notes.length}`,
+                type: 'sequenceNote',
+                position: { x: 0, y: 0 },
+                data: {
+                    label: noteMatch[3].trim(),
+                    row,
+                    placement,
+                    participants: noteParticipants,
+                    category: 'filter-other',
+                },
+            });
+            row++;
+            continue;
+        }
+
+        const fragmentMatch = line.match(FRAGMENT_REGEX);
+        if (fragmentMatch) {
+            const depth = blockStack.filter(b => b !== 'box').length;
+            const node: Node = {
+                id: `fragment-${fragments.length}`,
+                type: 'fragment',
+                position: { x: 0, y: 0 },
+                style: { pointerEvents: 'none' },
+                data: {
+                    label: fragmentMatch[2].trim(),
+                    fragmentKind: fragmentMatch[1].toLowerCase() as SequenceFragmentKind,
+                    startRow: row,
+                    endRow: row + 1,
+                    sections: [] as SequenceSection[],
+                    participants: [] as string[],
+                    depth,
+                    category: 'filter-other',
+                },
+            };
+            fragments.push(node);
+            blockStack.push({ node, participants: new Set() });
+            row++;
+            continue;
+        }
+
+        const sectionMatch = line.match(SECTION_REGEX);
+        if (sectionMatch) {
+            const current = [...blockStack].reverse().find((b): b is OpenFragment => b !== 'box');
+            if (current) {
+                (current.node.data.sections as SequenceSection[]).push({ label: sectionMatch[2].trim(), row });
+                row++;
+            }
+            continue;
+        }
+
+        if (/^end$/i.test(line)) {
+            const block = blockStack.pop();
+            if (block && block !== 'box') {
+                block.node.data.endRow = row;
+                block.node.data.participants = [...block.participants];
+            }
+            continue;
+        }
+
+        const messageMatch = line.match(MESSAGE_REGEX);
+        if (messageMatch) {
+            const [, source, arrow, activationMarker, target, text] = messageMatch;
+            ensureParticipant(source);
+            ensureParticipant(target);
+            touchFragments(source, target);
+
+            const arrowInfo = ARROWS[arrow];
+            messageCount++;
+            edges.push({
+                id: `msg-${messageCount}`,
+                source,
+                target,
+                type: 'message',
+                label: text?.trim() || undefined,
+                data: {
+                    row,
+                    lineStyle: arrowInfo.lineStyle,
+                    head: arrowInfo.head,
+                    bidirectional: arrowInfo.bidirectional || false,
+                    sequenceNumber: autonumber ? messageCount : undefined,
+                },
+            });
+
+            if (activationMarker === '+') activate(target, row);
+            if (activationMarker === '-') deactivate(source, row);
+
+            lastMessageRow = row;
+            row++;
+        }
+    }
+
+    // Close anything left open at the end of the diagram
+    for (const [id, stack] of openActivations) {
+        while (stack.length) deactivate(id, Math.max(row - 1, 0));
+    }
+    while (blockStack.length) {
+        const block = blockStack.pop();
+        if (block && block !== 'box') {
+            block.node.data.endRow = row;
+            block.node.data.participants = [...block.participants];
+        }
+    }
+
+    const lifelines = Array.from(participants.values()).map(node => ({
+        ...node,
+        style: { pointerEvents: 'none' as const },
+        data: {
+            ...node.data,
+            rowCount: row,
+            activations: activations.get(node.id) || [],
+        },
+    }));
+
+    console.log(`[MermaidParser] Sequence diagram: ${lifelines.length} participants, ${edges.length} messages`);
+    return { nodes: [...fragments, ...lifelines, ...notes], edges };
+}
@@ -3,59 +3,197 @@
 // Syntax: node@{ shape: shapeName }
 
 export interface ShapeDefinition {
+    /** Mermaid short name, the form the exporter writes */
     id: string;
     label: string;
     path: string;
     category: 'basic' | 'logic' | 'data' | 'other';
+    /** Other names Mermaid accepts for the shape */
+    aliases?: string[];
 }
 
+const DOC_PATH = 'M0 4 h100 v52 q-25 -12 -50 0 t-50 0 z';
+const CYL_PATH = 'M0 14 a50 10 0 0 1 100 0 v40 a50 10 0 0 1 -100 0 z M0 14 a50 10 0 0 1 100 0';
+
+// viewBox is 0 0 100 70; shapes sit between y=4 and y=64 unless they are deliberately small
 export const SHAPE_PATHS: Record<string, string> = {
     // Basic
     rect: 'M0 4 h100 v60 h-100 z',
     rounded: 'M10 4 h80 a10 10 0 0 1 10 10 v40 a10 10 0 0 1 -10 10 h-80 a10 10 0 0 1 -10 -10 v-40 a10 10 0 0 1 10 -10 z',
     stadium: 'M20 4 h60 a20 20 0 0 1 20 20 v20 a20 20 0 0 1 -20 20 h-60 a20 20 0 0 1 -20 -20 v-20 a20 20 0 0 1 20 -20 z',
-    subroutine: 'M10 4 h80 v60 h-80 z M20 4 v60 M80 4 v60',
-    cyl: 'M0 14 a50 10 0 0 1 100 0 v40 a50 10 0 0 1 -100 0 z M0 14 a50 10 0 0 1 100 0',
-    cylinder: 'M0 14 a50 10 0 0 1 100 0 v40 a50 10 0 0 1 -100 0 z M0 14 a50 10 0 0 1 100 0',
+    'fr-rect': 'M10 4 h80 v60 h-80 z M20 4 v60 M80 4 v60',
+    odd: 'M0 4 h100 v60 h-100 l15 -30 z',
+    text: '',
+    circle: 'M50 4 a30 30 0 0 1 0 60 a30 30 0 0 1 0 -60',
+    'dbl-circ': 'M50 4 a30 30 0 0 1 0 60 a30 30 0 0 1 0 -60 M50 9 a25 25 0 0 1 0 50 a25 25 0 0 1 0 -50',
+    'sm-circ': 'M50 20 a15 15 0 0 1 0 30 a15 15 0 0 1 0 -30',
+    'fr-circ': 'M50 17 a18 18 0 0 1 0 36 a18 18 0 0 1 0 -36 M50 24 a11 11 0 0 1 0 22 a11 11 0 0 1 0 -22',
+    'f-circ': 'M50 25 a10 10 0 0 1 0 20 a10 10 0 0 1 0 -20',
+    // Cloud (Approximation)
+    cloud: 'M20 50 a20 20 0 0 1 20 -30 a25 25 0 0 1 40 10 a20 20 0 0 1 15 35 h-70 z',
+    bang: 'M50 4 L58 20 L76 10 L72 28 L96 30 L78 42 L92 58 L70 54 L64 66 L50 56 L36 66 L30 54 L8 58 L22 42 L4 30 L28 28 L24 10 L42 20 Z',
 
     // Logic
-    diamond: 'M50 0 L100 50 L50 100 L0 50 Z',
-    rhombus: 'M50 0 L100 50 L50 100 L0 50 Z',
-    decision: 'M50 0 L100 50 L50 100 L0 50 Z',
-    hexagon: 'M15 4 L85 4 L100 34 L85 64 L15 64 L0 34 Z',
-    parallelogram: 'M15 4 h85 l-15 60 h-85 z',
-    trapezoid: 'M15 4 h70 l15 60 h-100 z',
+    diam: 'M50 0 L100 50 L50 100 L0 50 Z',
+    hex: 'M15 4 L85 4 L100 34 L85 64 L15 64 L0 34 Z',
+    'lean-r': 'M15 4 h85 l-15 60 h-85 z',
+    'lean-l': 'M0 4 h85 l15 60 h-85 z',
+    'trap-b': 'M15 4 h70 l15 60 h-100 z',
+    'trap-t': 'M0 4 h100 l-15 60 h-70 z',
+    'sl-rect': 'M0 20 L100 4 v60 h-100 z',
+    'curv-trap': 'M15 4 h60 a25 30 0 0 1 0 60 h-60 l-15 -30 z',
+    delay: 'M0 4 h65 a35 30 0 0 1 0 60 h-65 z',
+    'notch-pent': 'M20 4 h60 l20 20 v40 h-100 v-40 z',
+    tri: 'M50 4 L100 64 H0 Z',
+    'flip-tri': 'M0 4 H100 L50 64 Z',
+    hourglass: 'M20 4 h60 l-60 60 h60 z',
+    fork: 'M0 28 h100 v14 h-100 z',
+    bolt: 'M60 4 L30 38 H50 L40 66 L72 30 H52 Z',
+    'cross-circ': 'M50 4 a30 30 0 0 1 0 60 a30 30 0 0 1 0 -60 M29 13 l42 42 M29 55 l42 -42',
 
     // Documents/Data
-    doc: 'M0 0 h80 l20 20 v80 h-100 z M80 0 v20 h20',
-    document: 'M10 4 h80 v45 q0 15 -15 15 h-60 q-15 0 -15 -15 v-45 z M10 4 h80 v45 q-10 10 -40 10 q -30 0 -40 -10',
+    cyl: CYL_PATH,
+    'lin-cyl': `${CYL_PATH} M0 22 a50 10 0 0 0 100 0`,
+    'h-cyl': 'M14 4 h72 a10 30 0 0 1 0 60 h-72 a10 30 0 0 1 0 -60 z M86 4 a10 30 0 0 0 0 60',
+    'bow-rect': 'M10 4 h90 a10 30 0 0 0 0 60 h-90 a10 30 0 0 1 0 -60 z',
+    'win-pane': 'M0 4 h100 v60 h-100 z M12 4 v60 M0 16 h100',
+    doc: DOC_PATH,
+    'lin-doc': `${DOC_PATH} M8 4 v56`,
+    'tag-doc': `${DOC_PATH} M84 52 l16 -16`,
+    docs: 'M0 12 h92 v44 q-23 -12 -46 0 t-46 0 z M4 12 v-4 h92 v44 M8 8 v-4 h92 v44',
+    flag: 'M0 10 q25 -12 50 0 t50 0 v48 q-25 12 -50 0 t-50 0 z',
+    'notch-rect': 'M15 4 h85 v60 h-100 v-45 z',
 
-    // Cloud (Approximation)
-    cloud: 'M20 50 a20 20 0 0 1 20 -30 a25 25 0 0 1 40 10 a20 20 0 0 1 15 35 h-70 z',
-
-    // Circles
-    circle: 'M50 4 a30 30 0 0 1 0 60 a30 30 0 0 1 0 -60',
-    doublecircle: 'M50 4 a30 30 0 0 1 0 60 a30 30 0 0 1 0 -60 M50 9 a25 25 0 0 1 0 50 a25 25 0 0 1 0 -50',
-
-    // New additions based on research
-    note: 'M10 4 h80 v60 h-80 z M70 4 v20 h20', // rough note
-    summary: 'M50 4 a30 30 0 0 1 0 60 a30 30 0 0 1 0 -60 M30 24 l40 40 M30 64 l40 -40', // Crossed circle
+    // Other
+    'lin-rect': 'M0 4 h100 v60 h-100 z M8 4 v60',
+    'div-rect': 'M0 4 h100 v60 h-100 z M0 18 h100',
+    'st-rect': 'M0 12 h92 v52 h-92 z M4 12 v-4 h92 v52 M8 8 v-4 h92 v52',
+    'tag-rect': 'M0 4 h100 v60 h-100 z M84 64 l16 -16',
+    brace: 'M30 4 q-10 0 -10 10 v11 q0 10 -10 10 q10 0 10 10 v11 q0 10 10 10',
+    'brace-r': 'M70 4 q10 0 10 10 v11 q0 10 10 10 q-10 0 -10 10 v11 q0 10 -10 10',
+    braces: 'M30 4 q-10 0 -10 10 v11 q0 10 -10 10 q10 0 10 10 v11 q0 10 10 10 M70 4 q10 0 10 10 v11 q0 10 10 10 q-10 0 -10 10 v11 q0 10 -10 10',
 };
 
+// Every named shape in Mermaid v11, with the aliases its `@{ shape: ... }` parser accepts
 export const SHAPE_DEFINITIONS: ShapeDefinition[] = [
-    { id: 'rect', label: 'Rectangle', path: SHAPE_PATHS.rect, category: 'basic' },
-    { id: 'rounded', label: 'Rounded', path: SHAPE_PATHS.rounded, category: 'basic' },
-    { id: 'stadium', label: 'Terminal', path: SHAPE_PATHS.stadium, category: 'basic' },
-    { id: 'subroutine', label: 'Subroutine', path: SHAPE_PATHS.subroutine, category: 'basic' },
-    { id: 'circle', label: 'Circle', path: SHAPE_PATHS.circle, category: 'basic' },
+    { id: 'rect', label: 'Rectangle', path: SHAPE_PATHS.rect, category: 'basic', aliases: ['proc', 'process', 'rectangle'] },
+    { id: 'rounded', label: 'Rounded', path: SHAPE_PATHS.rounded, category: 'basic', aliases: ['event'] },
+    { id: 'stadium', label: 'Terminal', path: SHAPE_PATHS.stadium, category: 'basic', aliases: ['terminal', 'pill'] },
+    { id: 'fr-rect', label: 'Subroutine', path: SHAPE_PATHS['fr-rect'], category: 'basic', aliases: ['subprocess', 'subproc', 'framed-rectangle', 'subroutine'] },
+    { id: 'odd', label: 'Odd', path: SHAPE_PATHS.odd, category: 'basic' },
+    { id: 'text', label: 'Text Block', path: SHAPE_PATHS.text, category: 'basic' },
+    { id: 'circle', label: 'Circle', path: SHAPE_PATHS.circle, category: 'basic', aliases: ['circ'] },
+    { id: 'dbl-circ', label: 'Double Circle', path: SHAPE_PATHS['dbl-circ'], category: 'basic', aliases: ['double-circle'] },
+    { id: 'sm-circ', label: 'Start', path: SHAPE_PATHS['sm-circ'], category: 'basic', aliases: ['start', 'small-circle'] },
+    { id: 'fr-circ', label: 'Stop', path: SHAPE_PATHS['fr-circ'], category: 'basic', aliases: ['stop', 'framed-circle'] },
+    { id: 'f-circ', label: 'Junction', path: SHAPE_PATHS['f-circ'], category: 'basic', aliases: ['junction', 'filled-circle'] },
+    { id: 'cloud', label: 'Cloud', path: SHAPE_PATHS.cloud, category: 'basic' },
+    { id: 'bang', label: 'Bang', path: SHAPE_PATHS.bang, category: 'basic' },
 
-    { id: 'diamond', label: 'Decision', path: SHAPE_PATHS.diamond, category: 'logic' },
-    { id: 'hexagon', label: 'Prepare', path: SHAPE_PATHS.hexagon, category: 'logic' },
-    { id: 'parallelogram', label: 'Input/Output', path: SHAPE_PATHS.parallelogram, category: 'logic' },
+    { id: 'diam', label: 'Decision', path: SHAPE_PATHS.diam, category: 'logic', aliases: ['decision', 'diamond', 'question'] },
+    { id: 'hex', label: 'Prepare', path: SHAPE_PATHS.hex, category: 'logic', aliases: ['hexagon', 'prepare'] },
+    { id: 'lean-r', label: 'Input/Output', path: SHAPE_PATHS['lean-r'], category: 'logic', aliases: ['lean-right', 'in-out'] },
+    { id: 'lean-l', label: 'Output/Input', path: SHAPE_PATHS['lean-l'], category: 'logic', aliases: ['lean-left', 'out-in'] },
+    { id: 'trap-b', label: 'Priority Action', path: SHAPE_PATHS['trap-b'], category: 'logic', aliases: ['priority', 'trapezoid-bottom', 'trapezoid'] },
+    { id: 'trap-t', label: 'Manual Operation', path: SHAPE_PATHS['trap-t'], category: 'logic', aliases: ['manual', 'trapezoid-top', 'inv-trapezoid'] },
+    { id: 'sl-rect', label: 'Manual Input', path: SHAPE_PATHS['sl-rect'], category: 'logic', aliases: ['manual-input', 'sloped-rectangle'] },
+    { id: 'curv-trap', label: 'Display', path: SHAPE_PATHS['curv-trap'], category: 'logic', aliases: ['curved-trapezoid', 'display'] },
+    { id: 'delay', label: 'Delay', path: SHAPE_PATHS.delay, category: 'logic', aliases: ['half-rounded-rectangle'] },
+    { id: 'notch-pent', label: 'Loop Limit', path: SHAPE_PATHS['notch-pent'], category: 'logic', aliases: ['loop-limit', 'notched-pentagon'] },
+    { id: 'tri', label: 'Extract', path: SHAPE_PATHS.tri, category: 'logic', aliases: ['extract', 'triangle'] },
+    { id: 'flip-tri', label: 'Manual File', path: SHAPE_PATHS['flip-tri'], category: 'logic', aliases: ['manual-file', 'flipped-triangle'] },
+    { id: 'hourglass', label: 'Collate', path: SHAPE_PATHS.hourglass, category: 'logic', aliases: ['collate'] },
+    { id: 'fork', label: 'Fork/Join', path: SHAPE_PATHS.fork, category: 'logic', aliases: ['join'] },
+    { id: 'bolt', label: 'Com Link', path: SHAPE_PATHS.bolt, category: 'logic', aliases: ['com-link', 'lightning-bolt'] },
+    { id: 'cross-circ', label: 'Summary', path: SHAPE_PATHS['cross-circ'], category: 'logic', aliases: ['summary', 'crossed-circle'] },
 
-    { id: 'cyl', label: 'Database', path: SHAPE_PATHS.cyl, category: 'data' },
-    { id: 'doc', label: 'Document', path: SHAPE_PATHS.doc, category: 'data' },
-    { id: 'cloud', label: 'Cloud', path: SHAPE_PATHS.cloud, category: 'data' },
+    { id: 'cyl', label: 'Database', path: SHAPE_PATHS.cyl, category: 'data', aliases: ['db', 'database', 'cylinder'] },
+    { id: 'lin-cyl', label: 'Disk Storage', path: SHAPE_PATHS['lin-cyl'], category: 'data', aliases: ['disk', 'lined-cylinder'] },
+    { id: 'h-cyl', label: 'Direct Access Storage', path: SHAPE_PATHS['h-cyl'], category: 'data', aliases: ['das', 'horizontal-cylinder'] },
+    { id: 'bow-rect', label: 'Stored Data', path: SHAPE_PATHS['bow-rect'], category: 'data', aliases: ['stored-data', 'bow-tie-rectangle'] },
+    { id: 'win-pane', label: 'Internal Storage', path: SHAPE_PATHS['win-pane'], category: 'data', aliases: ['internal-storage', 'window-pane'] },
+    { id: 'doc', label: 'Document', path: SHAPE_PATHS.doc, category: 'data', aliases: ['document'] },
+    { id: 'lin-doc', label: 'Lined Document', path: SHAPE_PATHS['lin-doc'], category: 'data', aliases: ['lined-document'] },
+    { id: 'tag-doc', label: 'Tagged Document', path: SHAPE_PATHS['tag-doc'], category: 'data', aliases: ['tagged-document'] },
+    { id: 'docs', label: 'Multi-Document', path: SHAPE_PATHS.docs, category: 'data', aliases: ['documents', 'st-doc', 'stacked-document'] },
+    { id: 'flag', label: 'Paper Tape', path: SHAPE_PATHS.flag, category: 'data', aliases: ['paper-tape'] },
+    { id: 'notch-rect', label: 'Card', path: SHAPE_PATHS['notch-rect'], category: 'data', aliases: ['card', 'notched-rectangle'] },
 
-    { id: 'note', label: 'Note', path: SHAPE_PATHS.note, category: 'other' },
+    { id: 'lin-rect', label: 'Shaded Process', path: SHAPE_PATHS['lin-rect'], category: 'other', aliases: ['lined-rectangle', 'lined-process', 'lin-proc', 'shaded-process'] },
+    { id: 'div-rect', label: 'Divided Process', path: SHAPE_PATHS['div-rect'], category: 'other', aliases: ['div-proc', 'divided-rectangle', 'divided-process'] },
+    { id: 'st-rect', label: 'Multi-Process', path: SHAPE_PATHS['st-rect'], category: 'other', aliases: ['procs', 'processes', 'stacked-rectangle'] },
+    { id: 'tag-rect', label: 'Tagged Process', path: SHAPE_PATHS['tag-rect'], category: 'other', aliases: ['tagged-rectangle', 'tag-proc', 'tagged-process'] },
+    { id: 'brace', label: 'Comment', path: SHAPE_PATHS.brace, category: 'other', aliases: ['comment', 'brace-l'] },
+    { id: 'brace-r', label: 'Comment Right', path: SHAPE_PATHS['brace-r'], category: 'other' },
+    { id: 'braces', label: 'Comment Both', path: SHAPE_PATHS.braces, category: 'other' },
 ];
+
+/**
+ * Classic bracket shapes as Mermaid's flowchart DB reports them (`A[(x)]` is `cylinder`),
+ * mapped to the matching v11 shape
+ */
+export const MERMAID_TYPE_SHAPES: Record<string, string> = {
+    square: 'rect',
+    round: 'rounded',
+    stadium: 'stadium',
+    subroutine: 'fr-rect',
+    cylinder: 'cyl',
+    circle: 'circle',
+    doublecircle: 'dbl-circ',
+    diamond: 'diam',
+    hexagon: 'hex',
+    odd: 'odd',
+    lean_right: 'lean-r',
+    lean_left: 'lean-l',
+    trapezoid: 'trap-b',
+    inv_trapezoid: 'trap-t',
+    ellipse: 'rounded',
+};
+
+// Names used by earlier versions of this catalogue
+const LEGACY_SHAPES: Record<string, string> = {
+    rhombus: 'diam',
+    parallelogram: 'lean-r',
+    note: 'notch-rect',
+    end: 'stadium',
+};
+
+const SHAPE_NAMES = new Map<string, string>([
+    ...Object.entries(LEGACY_SHAPES),
+    ...Object.entries(MERMAID_TYPE_SHAPES),
+    ...SHAPE_DEFINITIONS.flatMap(def => (def.aliases || []).map(alias => [alias, def.id] as [string, string])),
+    ...SHAPE_DEFINITIONS.map(def => [def.id, def.id] as [string, string]),
+]);
+
+/**
+ * Resolve a short name, alias, classic vertex type or legacy name to the catalogue id
+ */
+export function resolveShapeName(name?: string): string | undefined {
+    return name ? SHAPE_NAMES.get(name.trim().toLowerCase()) : undefined;
+}
+
+/**
+ * Whether a `data.shape` value only exists as a v11 named shape (no bracket syntax for it)
+ */
+export function isNamedShape(shape?: string): boolean {
+    return !!shape && !(shape in MERMAID_TYPE_SHAPES) && !!resolveShapeName(shape);
+}
+
+/**
+ * Read the `key: value` pairs of a `@{ ... }` shape block (the braces are optional)
+ */
+export function parseShapeData(block: string): Record<string, string> {
+    const body = block.trim().replace(/^@?\{/, '').replace(/\}$/, '');
+    const props: Record<string, string> = {};
+    for (const [, key, quoted, bare] of body.matchAll(/(\w+)\s*:\s*(?:"((?:[^"\\]|\\.)*)"|([^,]*))/g)) {
+        props[key] = quoted ?? bare.trim();
+    }
+    return props;
+}
+
+/**
+ * Write a `@{ shape: ..., label: "..." }` block; the label must already be escaped for Mermaid
+ */
+export function toShapeData(shape: string, label?: string): string {
+    return label === undefined ? `@{ shape: ${shape} }` : `@{ shape: ${shape}, label: "${label}" }`;
+}
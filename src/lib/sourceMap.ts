@@ -0,0 +1,127 @@
+import { findIdToken, isFlowchartSource, isStatement } from './codeSync';
+import { getNodeShapes, parseLinkChain } from './flowEdges';
+
+/**
+ * Where each flowchart node, link and subgraph sits in the Mermaid source,
+ * used to jump between the canvas and the editor.
+ * Lines and columns are 1-based with an exclusive end, as in Monaco.
+ */
+
+export interface SourceSpan {
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+}
+
+export interface SourceElement extends SourceSpan {
+    kind: 'node' | 'edge' | 'subgraph';
+    /** Node or subgraph id; for links their index in Mermaid (and `linkStyle`) order */
+    id: string;
+    /** The node with its shape and label, the subgraph header, or the link itself; false for bare mentions */
+    declaration: boolean;
+    source?: string;
+    target?: string;
+}
+
+// Offset of `id` as an id at or after `from`, or -1
+function findIdFrom(line: string, id: string, from: number): number {
+    const at = findIdToken(line.slice(from), id);
+    return at < 0 ? -1 : at + from;
+}
+
+/**
+ * Every node mention, link and subgraph header in a flowchart, in source order
+ */
+export function mapSourceElements(code: string): SourceElement[] {
+    if (!isFlowchartSource(code)) return [];
+
+    const elements: SourceElement[] = [];
+    let linkIndex = 0;
+    let inDirective = false;
+
+    code.split('\n').forEach((raw, index) => {
+        const text = raw.replace(/\r$/, '');
+        const line = text.trim();
+        const span = (start: number, length: number): SourceSpan => ({
+            startLine: index + 1, startColumn: start + 1, endLine: index + 1, endColumn: start + length + 1,
+        });
+
+        // Multi-line `%%{init: ...}%%` directives
+        if (inDirective || line.startsWith('%%{')) {
+            inDirective = !line.includes('}%%');
+            return;
+        }
+        const subgraph = line.match(/^subgraph\s+(\w+)/);
+        if (subgraph) {
+            elements.push({ kind: 'subgraph', id: subgraph[1], declaration: true, ...span(text.indexOf(line), line.length) });
+            return;
+        }
+        // Styling statements mention nodes without declaring them
+        const styled = line.match(/^(?:style|class|click)\s+(\S+)/);
+        if (styled) {
+            let from = text.indexOf(styled[1]);
+            for (const id of styled[1].split(',')) {
+                from = text.indexOf(id, from);
+                elements.push({ kind: 'node', id, declaration: false, ...span(from, id.length) });
+                from += id.length;
+            }
+            return;
+        }
+        if (!isStatement(line)) return;
+
+        const shapes = getNodeShapes(line);
+        const statement = line.replace(/:::[\w-]+/g, '');
+        const links = parseLinkChain(statement);
+        const ids = new Set([...shapes.keys(), ...links.flatMap(link => [link.source, link.target])]);
+        // A bare `A` or `A & B` statement
+        if (!links.length && /^\w+(\s*&\s*\w+)*$/.test(statement)) {
+            statement.split('&').forEach(id => ids.add(id.trim()));
+        }
+
+        const lineElements: SourceElement[] = [];
+        ids.forEach(id => {
+            const at = findIdToken(text, id);
+            if (at < 0) return;
+            const shape = shapes.get(id) || '';
+            const shapeAt = shape ? text.indexOf(shape, at) : -1;
+            const declaration = !!shape && !shape.startsWith(':::') && shapeAt >= 0;
+            const length = declaration ? shapeAt + shape.length - at : id.length;
+            lineElements.push({ kind: 'node', id, declaration, ...span(at, length) });
+        });
+
+        // A link spans from its source to its target; chained links share the node between them
+        let from = 0;
+        for (const { source, target } of links) {
+            const id = String(linkIndex++);
+            const start = findIdFrom(text, source, from);
+            const end = start < 0 ? -1 : findIdFrom(text, target, start + source.length);
+            if (end < 0) continue;
+            lineElements.push({ kind: 'edge', id, declaration: true, source, target, ...span(start, end + target.length - start) });
+            from = start;
+        }
+
+        elements.push(...lineElements.sort((a, b) => a.startColumn - b.startColumn));
+    });
+
+    return elements;
+}
+
+/**
+ * Spans to reveal for a canvas node or group: where it is declared, or every mention if it never is
+ */
+export function findElementSpans(elements: SourceElement[], id: string): SourceSpan[] {
+    const matches = elements.filter(el => el.id === id && el.kind !== 'edge');
+    const declarations = matches.filter(el => el.declaration);
+    return declarations.length ? declarations : matches;
+}
+
+/**
+ * The element under the cursor, preferring nodes over the links and subgraph headers around them
+ */
+export function findElementAt(elements: SourceElement[], line: number, column: number): SourceElement | undefined {
+    const priority = { node: 0, edge: 1, subgraph: 2 };
+    return elements
+        .filter(el => el.startLine <= line && line <= el.endLine && el.startColumn <= column && column <= el.endColumn)
+        .sort((a, b) => priority[a.kind] - priority[b.kind] || (a.endColumn - a.startColumn) - (b.endColumn - b.startColumn))[0];
+}
@@ -0,0 +1,165 @@
+import type { Node, Edge } from '../store';
+
+export type StateKind = 'state' | 'composite' | 'start' | 'end' | 'choice' | 'fork' | 'join';
+
+// Fork/join bars are drawn much flatter than a regular decision diamond
+export const STATE_BAR_SIZE = { width: 140, height: 12 };
+
+const TRANSITION_REGEX = /^(\S+?)\s*-->\s*(\S+?)\s*(?::\s*(.*))?$/;
+const STATE_DECLARATION_REGEX = /^state\s+(?:"([^"]*)"\s+as\s+)?([^\s{:"]+)\s*(?:<<(fork|join|choice)>>)?\s*(\{)?$/i;
+const STATE_ALIAS_REGEX = /^state\s+([^\s"]+)\s+as\s+"([^"]*)"\s*(\{)?$/i;
+const DESCRIPTION_REGEX = /^([^\s:]+)\s*:\s*(.+)$/;
+const NODE_TYPES: Record<StateKind, string> = {
+    state: 'process',
+    composite: 'group',
+    start: 'start',
+    end: 'end',
+    choice: 'decision',
+    fork: 'decision',
+    join: 'decision',
+};
+
+// Strip `:::className` shorthand, styling is handled separately
+function stripClass(id: string): string {
+    return id.replace(/:::.*$/, '');
+}
+
+/**
+ * Parse a `stateDiagram` / `stateDiagram-v2` into flow nodes.
+ * Composite states become groups, `[*]` becomes a start or end node scoped to
+ * its enclosing state, and choice/fork/join pseudo-states become decision nodes.
+ */
+export function parseStateDiagram(code: string): { nodes: Node[]; edges: Edge[] } {
+    const lines = code.split('\n').map(l => l.trim()).filter(l => l && !l.startsWith('%%'));
+
+    const states = new Map<string, Node>();
+    const edges: Edge[] = [];
+    const scopeStack: string[] = [];
+    const groupColors = ['#fef3c7', '#dbeafe', '#dcfce7', '#fce7f3', '#e0e7ff'];
+    let groupCount = 0;
+    let inNote = false;
+
+    const currentScope = () => scopeStack[scopeStack.length - 1];
+
+    const ensureState = (id: string, kind: StateKind = 'state') => {
+        let node = states.get(id);
+        if (!node) {
+            const parentId = currentScope();
+            node = {
+                id,
+                type: NODE_TYPES[kind],
+                position: { x: 0, y: 0 },
+                data: {
+                    label: id,
+                    stateKind: kind,
+                    category: 'filter-other',
+                },
+                parentId,
+                extent: parentId ? 'parent' : undefined,
+            };
+            states.set(id, node);
+        } else if (kind !== 'state' && node.data.stateKind === 'state') {
+            // A bare reference may come before the declaration that gives the kind
+            node.type = NODE_TYPES[kind];
+            node.data.stateKind = kind;
+        }
+        if (kind === 'composite' && !node.data.color) {
+            node.data.color = groupColors[groupCount++ % groupColors.length];
+        }
+        return node;
+    };
+
+    // `[*]` resolves to a start or end node per scope, like Mermaid does
+    const resolveEndpoint = (raw: string, role: 'source' | 'target') => {
+        const id = stripClass(raw);
+        if (id !== '[*]') return ensureState(id).id;
+        const kind: StateKind = role === 'source' ? 'start' : 'end';
+        const scope = currentScope() || 'root';
+        const node = ensureState(`${scope}_${kind}`, kind);
+        node.data.label = kind === 'start' ? 'Start' : 'End';
+        return node.id;
+    };
+
+    for (const line of lines) {
+        if (/^stateDiagram(-v2)?\b/i.test(line)) continue;
+
+        // Multi-line notes run until `end note`
+        if (inNote) {
+            if (/^end\s+note$/i.test(line)) inNote = false;
+            continue;
+        }
+        if (/^note\s/i.test(line)) {
+            if (!line.includes(':')) inNote = true;
+            continue;
+        }
+
+        if (/^(direction|classDef|class|style|hide|scale|accTitle|accDescr|title)\b/i.test(line)) continue;
+
+        // Concurrent region separators inside a composite state
+        if (line === '--' || line === '||') continue;
+
+        if (line === '}') {
+            scopeStack.pop();
+            continue;
+        }
+
+        const transitionMatch = line.match(TRANSITION_REGEX);
+        if (transitionMatch) {
+            const [, from, to, label] = transitionMatch;
+            const source = resolveEndpoint(from, 'source');
+            const target = resolveEndpoint(to, 'target');
+            edges.push({
+                id: `t-${source}-${target}-${edges.length}`,
+                source,
+                target,
+                label: label?.trim() || undefined,
+            });
+            continue;
+        }
+
+        // `state "Label" as Id`, `state Id as "Label"`, `state Id <<fork>>`, `state Id {`
+        const aliasMatch = line.match(STATE_ALIAS_REGEX);
+        const declarationMatch = line.match(STATE_DECLARATION_REGEX);
+        const declaration = aliasMatch
+            ? { id: aliasMatch[1], label: aliasMatch[2], pseudo: undefined, opensBlock: aliasMatch[3] }
+            : declarationMatch && {
+                id: declarationMatch[2],
+                label: declarationMatch[1],
+                pseudo: declarationMatch[3]?.toLowerCase() as StateKind | undefined,
+                opensBlock: declarationMatch[4],
+            };
+        if (declaration) {
+            const id = stripClass(declaration.id);
+            const { label, pseudo, opensBlock } = declaration;
+
+            const node = ensureState(id, opensBlock ? 'composite' : pseudo || 'state');
+            if (label) node.data.label = label;
+            if (pseudo && pseudo !== 'choice') node.data.label = '';
+            if (opensBlock) scopeStack.push(id);
+            continue;
+        }
+
+        const descriptionMatch = line.match(DESCRIPTION_REGEX);
+        if (descriptionMatch) {
+            const node = ensureState(stripClass(descriptionMatch[1]));
+            node.data.metadata = { techStack: [], role: '', description: descriptionMatch[2].trim() };
+            continue;
+        }
+
+        if (/^[^\s]+$/.test(line)) {
+            ensureState(stripClass(line));
+        }
+    }
+
+    // Parents must precede their children for React Flow
+    const depthOf = (node: Node): number => {
+        const parent = node.parentId ? states.get(node.parentId) : undefined;
+        return parent ? depthOf(parent) + 1 : 0;
+    };
+    const nodes = Array.from(states.values());
+    const groups = nodes.filter(n => n.type === 'group').sort((a, b) => depthOf(a) - depthOf(b));
+    const others = nodes.filter(n => n.type !== 'group');
+
+    console.log(`[MermaidParser] State diagram: ${nodes.length} states, ${edges.length} transitions`);
+    return { nodes: [...groups, ...others], edges };
+}
@@ -0,0 +1,653 @@
+import type { Node, Edge } from '../store';
+import type { EdgeMarker, EdgeStyle } from '../types';
+import type { ClassMember } from './classDiagram';
+import type { ErAttribute } from './erDiagram';
+import { getFlowLink } from './flowEdges';
+import { splitNodeStyle } from './mermaidStyles';
+import { SHAPE_PATHS, resolveShapeName } from './shapes';
+import { SEQUENCE_LAYOUT, getSequenceRowOffset, type SequenceActivation, type SequenceArrowHead, type SequenceSection } from './sequenceDiagram';
+import { estimateEdgeLabelSize, getHandlePoint, getNodeBounds, type HandleSide, type NodeBounds } from './layoutEngine';
+import { getOrthogonalPath, routeOrthogonalEdges, type Point } from './edgeRouter';
+import { getNodeLabelLines, measureText, wrapText, type TextStyle } from './nodeSizing';
+
+/**
+ * Vector SVG rendering of a diagram straight from the store data.
+ * Nodes, shapes, groups, edges, markers and labels are drawn as plain SVG elements with real <text>,
+ * so the file opens in vector editors, stays searchable and covers the whole diagram whatever the
+ * viewport. Nothing here touches the DOM, so it also runs headlessly (workers, Node, tests).
+ */
+
+export interface SvgRenderOptions {
+    /** Colours for a light or dark page */
+    theme?: 'light' | 'dark';
+    /** Page fill, or null for a transparent page; defaults to the theme background */
+    background?: string | null;
+    /** Space around the drawing */
+    padding?: number;
+    /** How flowchart edges are drawn, as on the canvas */
+    edgeStyle?: EdgeStyle;
+}
+
+export type SvgAttributes = Record<string, string | number | undefined>;
+
+/**
+ * One element of the drawing. `renderDiagramSvg` serialises the tree; other vector formats walk it.
+ */
+export interface SvgElement {
+    tag: string;
+    attributes: SvgAttributes;
+    children?: SvgElement[];
+    /** Text content, for <text> */
+    text?: string;
+}
+
+interface Theme {
+    background: string;
+    text: string;
+    muted: string;
+    edge: string;
+    dotted: string;
+    lifeline: string;
+    stateBar: string;
+}
+
+const THEMES: Record<'light' | 'dark', Theme> = {
+    light: { background: '#ffffff', text: '#0f172a', muted: '#64748b', edge: '#6366f1', dotted: '#94a3b8', lifeline: '#cbd5e1', stateBar: '#334155' },
+    dark: { background: '#020617', text: '#e2e8f0', muted: '#94a3b8', edge: '#6366f1', dotted: '#94a3b8', lifeline: '#475569', stateBar: '#cbd5e1' },
+};
+
+// Node colours by kind: outline, and label colour on a light and on a dark page. Fills are the outline, faded.
+type NodeKind = 'default' | 'start' | 'end' | 'decision' | 'data' | 'tech' | 'team';
+const NODE_COLORS: Record<NodeKind, { stroke: string; light: string; dark: string }> = {
+    default: { stroke: '#94a3b8', light: '#334155', dark: '#cbd5e1' },
+    start: { stroke: '#34d399', light: '#047857', dark: '#6ee7b7' },
+    end: { stroke: '#fb7185', light: '#be123c', dark: '#fda4af' },
+    decision: { stroke: '#fbbf24', light: '#92400e', dark: '#fcd34d' },
+    data: { stroke: '#22d3ee', light: '#0e7490', dark: '#67e8f9' },
+    tech: { stroke: '#60a5fa', light: '#1d4ed8', dark: '#93c5fd' },
+    team: { stroke: '#f472b6', light: '#be185d', dark: '#f9a8d4' },
+};
+
+const KIND_BY_TYPE: Record<string, NodeKind> = {
+    start: 'start', startNode: 'start', end: 'end', endNode: 'end',
+    decision: 'decision', decisionNode: 'decision',
+    database: 'data', databaseNode: 'data', data: 'data',
+    server: 'tech', system: 'tech', tech: 'tech',
+};
+
+// Corner radius of each flowchart node body; terminals are pills
+const CORNER_RADIUS: Record<string, number> = { database: 12, databaseNode: 12, data: 12, server: 8, system: 8, tech: 8 };
+
+const FONT_FAMILY = 'Inter, system-ui, sans-serif';
+const MONO_FAMILY = 'JetBrains Mono, monospace';
+const EDGE_LABEL_TEXT: TextStyle = { size: 10, weight: 600 };
+const GROUP_LABEL_TEXT: TextStyle = { size: 10, weight: 900, letterSpacing: 0.15, uppercase: true };
+
+// Marker bodies as the canvas draws them (see EdgeDefs); `paper` is the page colour for hollow ends
+interface MarkerShape {
+    viewBox: [number, number, number, number];
+    refX: number;
+    refY: number;
+    size: [number, number];
+    orient?: string;
+    body: (color: string, paper: string) => SvgElement[];
+}
+
+const ARROW_HEAD = 'M 0 0 L 10 5 L 0 10 z';
+const CROSS = 'M 1 1 L 9 9 M 9 1 L 1 9';
+const DIAMOND = 'M 0 5 L 7 0 L 14 5 L 7 10 z';
+
+const MARKERS: Record<string, MarkerShape> = {
+    arrow: { viewBox: [0, 0, 10, 10], refX: 9, refY: 5, size: [5, 5], body: color => [el('path', { d: ARROW_HEAD, fill: color })] },
+    'arrow-open': { viewBox: [0, 0, 10, 10], refX: 9, refY: 5, size: [6, 6], body: color => [el('path', { d: 'M 0 0 L 10 5 L 0 10', fill: 'none', stroke: color, 'stroke-width': 1.5 })] },
+    cross: { viewBox: [0, 0, 10, 10], refX: 5, refY: 5, size: [6, 6], orient: 'auto', body: color => [el('path', { d: CROSS, fill: 'none', stroke: color, 'stroke-width': 2 })] },
+    circle: { viewBox: [0, 0, 10, 10], refX: 9, refY: 5, size: [5, 5], body: color => [el('circle', { cx: 5, cy: 5, r: 4, fill: color })] },
+    'flow-cross': { viewBox: [0, 0, 10, 10], refX: 8, refY: 5, size: [5, 5], body: color => [el('path', { d: CROSS, fill: 'none', stroke: color, 'stroke-width': 2 })] },
+    triangle: { viewBox: [0, 0, 10, 10], refX: 10, refY: 5, size: [7, 7], body: (color, paper) => [el('path', { d: ARROW_HEAD, fill: paper, stroke: color, 'stroke-width': 1 })] },
+    diamond: { viewBox: [0, 0, 14, 10], refX: 14, refY: 5, size: [8, 6], body: (color, paper) => [el('path', { d: DIAMOND, fill: paper, stroke: color, 'stroke-width': 1 })] },
+    'filled-diamond': { viewBox: [0, 0, 14, 10], refX: 14, refY: 5, size: [8, 6], body: color => [el('path', { d: DIAMOND, fill: color })] },
+    lollipop: { viewBox: [0, 0, 10, 10], refX: 9, refY: 5, size: [6, 6], body: (color, paper) => [el('circle', { cx: 5, cy: 5, r: 4, fill: paper, stroke: color, 'stroke-width': 1.5 })] },
+    ...Object.fromEntries(([
+        ['zero-or-one', 'M 14 3 V 17', true],
+        ['exactly-one', 'M 10 3 V 17 M 15 3 V 17', false],
+        ['zero-or-many', 'M 12 10 L 20 3 M 12 10 L 20 17 M 12 10 H 20', true],
+        ['one-or-many', 'M 8 3 V 17 M 12 10 L 20 3 M 12 10 L 20 17 M 12 10 H 20', false],
+    ] as const).map(([id, d, optional]): [string, MarkerShape] => [id, {
+        viewBox: [0, 0, 20, 20], refX: 20, refY: 10, size: [10, 10],
+        body: (color, paper) => [
+            el('path', { d, fill: 'none', stroke: color, 'stroke-width': 1.5 }),
+            ...(optional ? [el('circle', { cx: 6, cy: 10, r: 3.5, fill: paper, stroke: color, 'stroke-width': 1.5 })] : []),
+        ],
+    }])),
+};
+
+// Typed edge markers to marker shapes; the flowchart cross is drawn a little differently from the sequence one
+const EDGE_MARKERS: Record<Exclude<EdgeMarker, 'none'>, string> = {
+    arrow: 'arrow', circle: 'circle', cross: 'flow-cross',
+    triangle: 'triangle', diamond: 'diamond', 'filled-diamond': 'filled-diamond', lollipop: 'lollipop',
+    'zero-or-one': 'zero-or-one', 'exactly-one': 'exactly-one', 'zero-or-many': 'zero-or-many', 'one-or-many': 'one-or-many',
+};
+
+const MESSAGE_MARKERS: Record<SequenceArrowHead, string | undefined> = { none: undefined, arrow: 'arrow', cross: 'cross', async: 'arrow-open' };
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+// Element with its unset attributes left out
+function el(tag: string, attributes: Record<string, string | number | undefined | null>, children?: SvgElement[] | string): SvgElement {
+    const element: SvgElement = {
+        tag,
+        attributes: Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined && value !== null && value !== '')) as SvgAttributes,
+    };
+    if (typeof children === 'string') element.text = children;
+    else if (children) element.children = children;
+    return element;
+}
+
+/**
+ * Serialise an element tree to SVG markup
+ */
+export function toSvgMarkup(element: SvgElement): string {
+    const attributes = Object.entries(element.attributes).map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`).join('');
+    if (element.text !== undefined) return `<${element.tag}${attributes}>${escapeXml(element.text)}</${element.tag}>`;
+    if (!element.children) return `<${element.tag}${attributes}/>`;
+    return `<${element.tag}${attributes}>${element.children.map(toSvgMarkup).join('')}</${element.tag}>`;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function cssValue(value: unknown): string | undefined {
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+function textStyleAttrs(style: TextStyle, family = FONT_FAMILY): SvgAttributes {
+    return {
+        'font-family': family,
+        'font-size': style.size,
+        'font-weight': style.weight,
+        'letter-spacing': style.letterSpacing ? round(style.letterSpacing * style.size) : undefined,
+    };
+}
+
+// Lines of text centred on (x, y)
+function renderLines(lines: string[], x: number, y: number, style: TextStyle, lineHeight: number, fill: string, extra: SvgAttributes = {}): SvgElement[] {
+    const top = y - ((lines.length - 1) * lineHeight) / 2;
+    return lines.map((line, i) => el('text', {
+        x: round(x), y: round(top + i * lineHeight), fill, 'text-anchor': 'middle', 'dominant-baseline': 'central',
+        ...textStyleAttrs(style), ...extra,
+    }, style.uppercase ? line.toUpperCase() : line));
+}
+
+function getNodeKind(node: Node): NodeKind {
+    if (node.type === 'custom-shape' || node.type === 'shape') {
+        const shape = resolveShapeName(node.data.shape as string | undefined);
+        if (shape === 'cyl') return 'data';
+        if (shape === 'diam') return 'decision';
+        if (node.data.category === 'filter-db') return 'data';
+        if (node.data.category === 'filter-client') return 'team';
+        if (node.data.category === 'filter-server') return 'tech';
+        return 'default';
+    }
+    return (node.type && KIND_BY_TYPE[node.type]) || 'default';
+}
+
+interface NodePaint {
+    fill: string;
+    fillOpacity?: number;
+    stroke: string;
+    strokeWidth: string | number;
+    dash?: string;
+    text: string;
+}
+
+// Body and label paint for a node, `style`/`classDef` colours winning over the kind's palette
+function getNodePaint(node: Node, theme: 'light' | 'dark'): NodePaint {
+    const colors = NODE_COLORS[getNodeKind(node)];
+    const custom = splitNodeStyle(node.data);
+    const fill = cssValue(custom.body?.background) ?? cssValue(custom.body?.backgroundColor);
+    return {
+        fill: fill ?? colors.stroke,
+        fillOpacity: fill ? undefined : theme === 'dark' ? 0.2 : 0.15,
+        stroke: cssValue(custom.body?.borderColor) ?? colors.stroke,
+        strokeWidth: cssValue(custom.body?.borderWidth)?.replace('px', '') ?? 2,
+        dash: custom.body?.borderStyle === 'dashed' ? '6,4' : undefined,
+        text: cssValue(custom.text?.color) ?? colors[theme],
+    };
+}
+
+// Outline paint shared by every node body
+function bodyPaint(paint: NodePaint): SvgAttributes {
+    return { fill: paint.fill, 'fill-opacity': paint.fillOpacity, stroke: paint.stroke, 'stroke-width': paint.strokeWidth, 'stroke-dasharray': paint.dash };
+}
+
+function renderGroup(node: Node, box: NodeBounds): SvgElement {
+    const color = (node.data.color as string | undefined) || '#f59e0b';
+    const custom = splitNodeStyle(node.data);
+    const width = box.right - box.left;
+    const label = String(node.data.label || 'Group');
+    const labelWidth = measureText(label, GROUP_LABEL_TEXT) + 34;
+    const centreX = box.left + width / 2;
+    return el('g', { 'data-id': node.id }, [
+        el('rect', {
+            x: box.left, y: box.top, width, height: box.bottom - box.top, rx: 16,
+            fill: cssValue(custom.body?.background) ?? color, 'fill-opacity': custom.body?.background ? undefined : 0.1,
+            stroke: cssValue(custom.body?.borderColor) ?? color, 'stroke-width': 2, 'stroke-opacity': custom.body?.borderColor ? undefined : 0.5,
+        }),
+        el('rect', { x: round(centreX - labelWidth / 2), y: box.top - 14, width: round(labelWidth), height: 28, rx: 8, fill: color }),
+        ...renderLines([label], centreX, box.top, GROUP_LABEL_TEXT, 0, '#0f172a'),
+    ]);
+}
+
+function renderShapeNode(node: Node, box: NodeBounds, paint: NodePaint): SvgElement[] {
+    const shape = resolveShapeName(node.data.shape as string | undefined) || 'rect';
+    const path = SHAPE_PATHS[shape] ?? SHAPE_PATHS.rect;
+    const width = box.right - box.left;
+    const height = box.bottom - box.top;
+    // Shapes are drawn in a 100x70 box; the stroke keeps its width when scaled
+    const outline = path ? [el('path', {
+        d: path, transform: `translate(${round(box.left)} ${round(box.top)}) scale(${round(width / 100)} ${round(height / 70)})`,
+        ...bodyPaint(paint), 'vector-effect': 'non-scaling-stroke',
+    })] : [];
+    const text: TextStyle = { size: 10, weight: 700 };
+    const lines = wrapText(String(node.data.label || ''), text, width - 16);
+    return [...outline, ...renderLines(lines, box.left + width / 2, box.top + height / 2, text, 12.5, paint.text)];
+}
+
+function renderDecision(node: Node, box: NodeBounds, paint: NodePaint): SvgElement[] {
+    const centreX = (box.left + box.right) / 2;
+    const centreY = (box.top + box.bottom) / 2;
+    const inset = 8;
+    const points = [[centreX, box.top + inset], [box.right - inset, centreY], [centreX, box.bottom - inset], [box.left + inset, centreY]];
+    const text: TextStyle = { size: 11, weight: 700 };
+    const lines = wrapText(String(node.data.label || 'Decision'), text, (box.right - box.left) / 2 + 8);
+    return [
+        el('polygon', { points: points.map(([x, y]) => `${round(x)},${round(y)}`).join(' '), ...bodyPaint(paint), 'stroke-linejoin': 'round' }),
+        ...renderLines(lines, centreX, centreY, text, 13.75, paint.text),
+    ];
+}
+
+// Name compartment, then attributes and methods in monospace rows
+function renderClass(node: Node, box: NodeBounds, paint: NodePaint): SvgElement[] {
+    const attributes = (node.data.attributes as ClassMember[]) || [];
+    const methods = (node.data.methods as ClassMember[]) || [];
+    const annotation = node.data.annotation as string | undefined;
+    const generic = node.data.generic as string | undefined;
+    const width = box.right - box.left;
+    const centreX = box.left + width / 2;
+    const header = annotation ? 54 : 40;
+    const memberText: TextStyle = { size: 11, weight: 400 };
+    const name = generic ? `${node.data.label}<${generic}>` : String(node.data.label || 'Class');
+    const elements = [
+        el('rect', { x: box.left, y: box.top, width, height: box.bottom - box.top, rx: 8, ...bodyPaint(paint) }),
+        ...(annotation ? renderLines([`«${annotation}»`], centreX, box.top + 14, { size: 10, weight: 400 }, 0, paint.text, { 'font-style': 'italic' }) : []),
+        ...renderLines([name], centreX, box.top + header - 18, { size: 13, weight: 700 }, 0, paint.text,
+            annotation?.toLowerCase() === 'abstract' ? { 'font-style': 'italic' } : {}),
+    ];
+
+    let y = box.top + header;
+    [attributes, methods].forEach(members => {
+        elements.push(el('line', { x1: box.left, y1: y, x2: box.right, y2: y, stroke: paint.stroke, 'stroke-width': 1, 'stroke-opacity': 0.6 }));
+        y += 6;
+        members.forEach(member => {
+            elements.push(el('text', {
+                x: box.left + 12, y: y + 9, fill: paint.text, 'dominant-baseline': 'central', ...textStyleAttrs(memberText, MONO_FAMILY),
+                'text-decoration': member.isStatic ? 'underline' : undefined, 'font-style': member.isAbstract ? 'italic' : undefined,
+            }, `${member.visibility ? `${member.visibility} ` : ''}${member.text}`));
+            y += 18;
+        });
+        y += Math.max(0, 1 - members.length) * 18 + 6;
+    });
+    return elements;
+}
+
+// Entity name over key / type / name rows
+function renderEntity(node: Node, box: NodeBounds, paint: NodePaint): SvgElement[] {
+    const attributes = (node.data.attributes as ErAttribute[]) || [];
+    const width = box.right - box.left;
+    const rowText: TextStyle = { size: 11, weight: 400 };
+    const elements = [
+        el('rect', { x: box.left, y: box.top, width, height: box.bottom - box.top, rx: 8, ...bodyPaint(paint) }),
+        ...renderLines([String(node.data.label || 'Entity')], box.left + width / 2, box.top + 20, { size: 13, weight: 700 }, 0, paint.text),
+    ];
+    if (attributes.length) elements.push(el('line', { x1: box.left, y1: box.top + 40, x2: box.right, y2: box.top + 40, stroke: paint.stroke, 'stroke-width': 1, 'stroke-opacity': 0.6 }));
+    attributes.forEach((attribute, i) => {
+        const y = box.top + 48 + i * 22 + 11;
+        const cell = (x: number, text: string, extra: SvgAttributes = {}) =>
+            el('text', { x: round(x), y: round(y), fill: paint.text, 'dominant-baseline': 'central', ...textStyleAttrs(rowText, MONO_FAMILY), ...extra }, text);
+        if (attribute.keys.length) elements.push(cell(box.left + 12, attribute.keys.join(','), { 'font-size': 9, 'font-weight': 700 }));
+        elements.push(cell(box.left + 52, attribute.type, { 'fill-opacity': 0.7 }));
+        elements.push(cell(box.left + 60 + attribute.type.length * 7, attribute.name, { 'font-weight': 600 }));
+    });
+    return elements;
+}
+
+// Participant header at both ends, dashed life line and activation bars
+function renderLifeline(node: Node, box: NodeBounds, paint: NodePaint, theme: Theme): SvgElement[] {
+    const { headerHeight, activationWidth, rowHeight } = SEQUENCE_LAYOUT;
+    const width = box.right - box.left;
+    const centreX = box.left + width / 2;
+    const label = String(node.data.label || 'Participant');
+    const header = (top: number) => [
+        el('rect', { x: box.left, y: top, width, height: headerHeight, rx: 12, ...bodyPaint(paint), 'stroke-width': 2 }),
+        ...renderLines([label], centreX, top + headerHeight / 2, { size: 12, weight: 700 }, 0, paint.text),
+    ];
+    const activations = ((node.data.activations as SequenceActivation[]) || []).map(activation => el('rect', {
+        x: round(centreX - activationWidth / 2 + activation.depth * 4), y: round(box.top + getSequenceRowOffset(activation.start) - rowHeight * 0.2),
+        width: activationWidth, height: round((activation.end - activation.start) * rowHeight + rowHeight * 0.4), rx: 2,
+        fill: paint.stroke, 'fill-opacity': 0.4, stroke: paint.stroke,
+    }));
+    return [
+        el('line', { x1: centreX, y1: box.top + headerHeight, x2: centreX, y2: box.bottom - headerHeight, stroke: theme.lifeline, 'stroke-width': 2, 'stroke-dasharray': '6,4' }),
+        ...activations,
+        ...header(box.top),
+        ...header(box.bottom - headerHeight),
+    ];
+}
+
+// loop / alt / opt ... frame with its operator tab and operand separators; `rect` only tints a region
+function renderFragment(node: Node, box: NodeBounds, theme: Theme): SvgElement[] {
+    const kind = (node.data.fragmentKind as string) || 'loop';
+    const label = String(node.data.label || '');
+    const width = box.right - box.left;
+    const height = box.bottom - box.top;
+    if (kind === 'rect') {
+        return [el('rect', { x: box.left, y: box.top, width, height, rx: 8, fill: label || 'rgb(148, 163, 184)', 'fill-opacity': label ? 0.35 : 0.1 })];
+    }
+    const startRow = (node.data.startRow as number) || 0;
+    const sections = (node.data.sections as SequenceSection[]) || [];
+    const tab: TextStyle = { size: 10, weight: 900, letterSpacing: 0.1, uppercase: true };
+    const note: TextStyle = { size: 11, weight: 600 };
+    const tabWidth = kind.length * 9 + 16;
+    const { left, top } = box;
+    const elements = [
+        el('rect', { x: left, y: top, width, height, rx: 8, fill: 'none', stroke: theme.dotted, 'stroke-width': 2 }),
+        el('path', {
+            d: `M ${left} ${top + 20} V ${top + 8} Q ${left} ${top} ${left + 8} ${top} H ${left + tabWidth} V ${top + 12} Q ${left + tabWidth} ${top + 20} ${left + tabWidth - 8} ${top + 20} Z`,
+            fill: theme.dotted, 'fill-opacity': 0.4,
+        }),
+        ...renderLines([kind], left + tabWidth / 2, top + 10, tab, 0, theme.text),
+    ];
+    if (label) elements.push(el('text', { x: left + tabWidth + 8, y: top + 10, fill: theme.muted, 'dominant-baseline': 'central', ...textStyleAttrs(note) }, `[${label}]`));
+    sections.forEach(section => {
+        const y = top + (section.row - startRow) * SEQUENCE_LAYOUT.rowHeight - 4;
+        elements.push(el('line', { x1: left, y1: y, x2: box.right, y2: y, stroke: theme.dotted, 'stroke-width': 2, 'stroke-dasharray': '6,4' }));
+        if (section.label) elements.push(el('text', { x: left + 12, y: y + 10, fill: theme.muted, 'dominant-baseline': 'central', ...textStyleAttrs(note) }, `[${section.label}]`));
+    });
+    return elements;
+}
+
+function renderNote(node: Node, box: NodeBounds): SvgElement[] {
+    const width = box.right - box.left;
+    const text: TextStyle = { size: 11, weight: 500 };
+    const lines = wrapText(String(node.data.label || ''), text, width - 20);
+    return [
+        el('rect', { x: box.left, y: box.top, width, height: box.bottom - box.top, rx: 6, fill: '#fef3c7', stroke: '#fbbf24', 'stroke-width': 1.5 }),
+        ...renderLines(lines, box.left + width / 2, (box.top + box.bottom) / 2, text, 15, '#78350f'),
+    ];
+}
+
+// Flowchart box with its label wrapped the way the component wraps it
+function renderBox(node: Node, box: NodeBounds, paint: NodePaint): SvgElement[] {
+    const width = box.right - box.left;
+    const height = box.bottom - box.top;
+    const isTerminal = getNodeKind(node) === 'start' || getNodeKind(node) === 'end';
+    const radius = isTerminal ? height / 2 : CORNER_RADIUS[node.type || 'default'] ?? 16;
+    const { lines, text, lineHeight } = getNodeLabelLines(node, width);
+    // Database labels sit under their icon
+    const shift = getNodeKind(node) === 'data' ? 18 : 0;
+    const custom = splitNodeStyle(node.data).text;
+    const labelStyle: TextStyle = {
+        ...text,
+        size: Number.parseFloat(String(custom?.fontSize ?? '')) || text.size,
+        weight: Number(custom?.fontWeight) || text.weight,
+    };
+    return [
+        el('rect', {
+            x: round(box.left), y: round(box.top), width: round(width), height: round(height), rx: round(Math.min(radius, height / 2)), ...bodyPaint(paint),
+        }),
+        ...renderLines(lines, box.left + width / 2, box.top + height / 2 + shift, labelStyle, lineHeight, paint.text, { 'font-style': cssValue(custom?.fontStyle) }),
+    ];
+}
+
+function renderNode(node: Node, box: NodeBounds, themeName: 'light' | 'dark', theme: Theme): SvgElement {
+    const paint = getNodePaint(node, themeName);
+    let body: SvgElement[];
+    if (node.data.stateKind === 'fork' || node.data.stateKind === 'join') {
+        body = [el('rect', { x: box.left, y: box.top, width: box.right - box.left, height: box.bottom - box.top, rx: (box.bottom - box.top) / 2, fill: theme.stateBar })];
+    } else if (node.type === 'custom-shape' || node.type === 'shape') {
+        body = renderShapeNode(node, box, paint);
+    } else if (node.type === 'decision' || node.type === 'decisionNode') {
+        body = renderDecision(node, box, paint);
+    } else if (node.type === 'umlClass') {
+        body = renderClass(node, box, paint);
+    } else if (node.type === 'erEntity') {
+        body = renderEntity(node, box, paint);
+    } else if (node.type === 'lifeline') {
+        body = renderLifeline(node, box, paint, theme);
+    } else if (node.type === 'fragment') {
+        body = renderFragment(node, box, theme);
+    } else if (node.type === 'sequenceNote') {
+        body = renderNote(node, box);
+    } else {
+        body = renderBox(node, box, paint);
+    }
+    return el('g', { 'data-id': node.id }, body);
+}
+
+// Distance of a Bézier control point from its handle, as React Flow works it out
+function controlOffset(distance: number): number {
+    return distance >= 0 ? distance * 0.5 : 0.25 * 25 * Math.sqrt(-distance);
+}
+
+function controlPoint(point: Point, side: HandleSide, other: Point): Point {
+    switch (side) {
+        case 'left': return { x: point.x - controlOffset(point.x - other.x), y: point.y };
+        case 'right': return { x: point.x + controlOffset(other.x - point.x), y: point.y };
+        case 'top': return { x: point.x, y: point.y - controlOffset(point.y - other.y) };
+        default: return { x: point.x, y: point.y + controlOffset(other.y - point.y) };
+    }
+}
+
+// Path of a flowchart edge and the point its label is centred on
+function getEdgePath(from: Point, fromSide: HandleSide, to: Point, toSide: HandleSide, style: EdgeStyle): [path: string, labelX: number, labelY: number] {
+    if (style === 'curved') {
+        const c1 = controlPoint(from, fromSide, to);
+        const c2 = controlPoint(to, toSide, from);
+        return [
+            `M ${round(from.x)} ${round(from.y)} C ${round(c1.x)} ${round(c1.y)} ${round(c2.x)} ${round(c2.y)} ${round(to.x)} ${round(to.y)}`,
+            (from.x + 3 * c1.x + 3 * c2.x + to.x) / 8,
+            (from.y + 3 * c1.y + 3 * c2.y + to.y) / 8,
+        ];
+    }
+    // Straight edges are drawn as steps with rounded corners, halfway between the handles
+    const vertical = fromSide === 'top' || fromSide === 'bottom';
+    const middle = vertical ? (from.y + to.y) / 2 : (from.x + to.x) / 2;
+    const steps = vertical
+        ? [from, { x: from.x, y: middle }, { x: to.x, y: middle }, to]
+        : [from, { x: middle, y: from.y }, { x: middle, y: to.y }, to];
+    return getOrthogonalPath(steps, 12);
+}
+
+interface EdgeDrawing {
+    path: string;
+    stroke: string;
+    width: number;
+    dash?: string;
+    markerStart?: string;
+    markerEnd?: string;
+    label?: { text: string; x: number; y: number; style: TextStyle; anchor?: 'middle' | 'start' };
+    cardinalities: { text: string; x: number; y: number }[];
+}
+
+// Message on the lifeline row the parser gave it, looping out to the right for self-messages
+function drawMessage(edge: Edge, source: Node, target: Node, bounds: Map<string, NodeBounds>, theme: Theme): EdgeDrawing {
+    const data = edge.data || {};
+    const isDotted = data.lineStyle === 'dotted';
+    const from = bounds.get(source.id)!;
+    const to = bounds.get(target.id)!;
+    const sourceX = (from.left + from.right) / 2;
+    const targetX = (to.left + to.right) / 2;
+    const y = from.top + getSequenceRowOffset((data.row as number) ?? 0);
+    const isSelf = source.id === target.id;
+    const loop = SEQUENCE_LAYOUT.selfMessageWidth;
+    const marker = MESSAGE_MARKERS[(data.head as SequenceArrowHead) ?? 'arrow'];
+    const text = data.sequenceNumber !== undefined && edge.label ? `${data.sequenceNumber}. ${edge.label}` : String(edge.label ?? data.sequenceNumber ?? '');
+    return {
+        path: isSelf ? `M ${sourceX} ${y - 8} H ${sourceX + loop} V ${y + 8} H ${sourceX + 4}` : `M ${sourceX} ${y} L ${targetX} ${y}`,
+        stroke: (edge.style?.stroke as string | undefined) || (isDotted ? theme.dotted : theme.edge),
+        width: 2,
+        dash: isDotted ? '6,4' : undefined,
+        markerEnd: marker,
+        markerStart: data.bidirectional ? marker : undefined,
+        label: text ? {
+            text,
+            x: isSelf ? sourceX + loop + 8 : (sourceX + targetX) / 2,
+            y: isSelf ? y - 8 : y - 14,
+            style: { size: 11, weight: 600 },
+            anchor: isSelf ? 'start' : 'middle',
+        } : undefined,
+        cardinalities: [],
+    };
+}
+
+function drawEdge(edge: Edge, source: Node, target: Node, bounds: Map<string, NodeBounds>, style: EdgeStyle, theme: Theme): EdgeDrawing | null {
+    if (edge.type === 'message') return drawMessage(edge, source, target, bounds, theme);
+    const link = getFlowLink(edge.data, edge.style);
+    // `~~~` links only influence layout
+    if (link.stroke === 'invisible') return null;
+
+    const fromSide = (source.sourcePosition || 'bottom') as HandleSide;
+    const toSide = (target.targetPosition || 'top') as HandleSide;
+    const offset = (edge.data?.offset as number | undefined) || 0;
+    const shift = (side: HandleSide, point: Point) => (side === 'top' || side === 'bottom' ? { x: point.x + offset, y: point.y } : { x: point.x, y: point.y + offset });
+    const from = shift(fromSide, getHandlePoint(bounds.get(source.id)!, fromSide));
+    const to = shift(toSide, getHandlePoint(bounds.get(target.id)!, toSide));
+    const points = edge.data?.points as Point[] | undefined;
+    const [path, labelX, labelY] = points ? getOrthogonalPath([from, ...points, to]) : getEdgePath(from, fromSide, to, toSide, style === 'orthogonal' ? 'straight' : style);
+    const labelOffset = !points && (edge.data?.labelOffset as Point | undefined);
+    const isDotted = link.stroke === 'dotted';
+    const near = (a: Point, b: Point) => {
+        const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+        return { x: a.x + ((b.x - a.x) / length) * 24, y: a.y + ((b.y - a.y) / length) * 24 };
+    };
+
+    return {
+        path,
+        stroke: (edge.style?.stroke as string | undefined) || (isDotted ? theme.dotted : theme.edge),
+        width: link.stroke === 'thick' ? 3.5 : Number(edge.style?.strokeWidth) || 2,
+        dash: isDotted ? '5,5' : cssValue(edge.style?.strokeDasharray),
+        markerStart: link.startMarker !== 'none' ? EDGE_MARKERS[link.startMarker] : undefined,
+        markerEnd: link.endMarker !== 'none' ? EDGE_MARKERS[link.endMarker] : undefined,
+        label: typeof edge.label === 'string' && edge.label ? {
+            text: edge.label,
+            x: labelX + (labelOffset ? labelOffset.x : 0),
+            y: labelY + (labelOffset ? labelOffset.y : 0),
+            style: EDGE_LABEL_TEXT,
+        } : undefined,
+        cardinalities: [
+            { text: edge.data?.sourceCardinality as string | undefined, at: near(from, to) },
+            { text: edge.data?.targetCardinality as string | undefined, at: near(to, from) },
+        ].flatMap(({ text, at }) => (text ? [{ text, x: at.x + 10, y: at.y }] : [])),
+    };
+}
+
+// Edge labels as the canvas draws them: light text on a dark tag
+function renderEdgeLabel(label: NonNullable<EdgeDrawing['label']>, theme: Theme): SvgElement[] {
+    if (label.style !== EDGE_LABEL_TEXT) {
+        return [el('text', {
+            x: round(label.x), y: round(label.y), fill: theme.text, 'text-anchor': label.anchor, 'dominant-baseline': 'central', ...textStyleAttrs(label.style),
+        }, label.text)];
+    }
+    const { width, height } = estimateEdgeLabelSize(label.text);
+    return [
+        el('rect', { x: round(label.x - width / 2), y: round(label.y - height / 2), width, height, rx: 6, fill: '#0f172a', stroke: '#475569', 'stroke-opacity': 0.5 }),
+        ...renderLines([label.text], label.x, label.y, label.style, 0, '#e2e8f0'),
+    ];
+}
+
+/**
+ * Draw nodes and edges as an SVG element tree. Groups are drawn first, then edges, then nodes,
+ * with edge labels on top, and the page is sized to fit the diagram.
+ */
+export function buildDiagramSvg(nodes: Node[], edges: Edge[], options: SvgRenderOptions = {}): SvgElement {
+    const { theme: themeName = 'light', padding = 32, edgeStyle = 'curved' } = options;
+    const theme = THEMES[themeName];
+    const background = options.background === undefined ? theme.background : options.background;
+    const visible = nodes.filter(n => !n.hidden);
+    const byId = new Map(visible.map(n => [n.id, n]));
+    const bounds = getNodeBounds(nodes);
+    const routed = edgeStyle === 'orthogonal' ? routeOrthogonalEdges(visible, edges) : edges;
+
+    const drawings = routed.flatMap(edge => {
+        const source = byId.get(edge.source);
+        const target = byId.get(edge.target);
+        if (edge.hidden || !source || !target) return [];
+        const drawing = drawEdge(edge, source, target, bounds, edgeStyle, theme);
+        return drawing ? [{ edge, drawing }] : [];
+    });
+
+    // Markers are coloured per edge, so each colour gets its own copy
+    const markers = new Map<string, SvgElement>();
+    const markerUrl = (id: string | undefined, color: string) => {
+        if (!id) return undefined;
+        const key = `${id}-${color.replace(/[^a-zA-Z0-9]/g, '')}`;
+        if (!markers.has(key)) {
+            const shape = MARKERS[id];
+            markers.set(key, el('marker', {
+                id: key, viewBox: shape.viewBox.join(' '), refX: shape.refX, refY: shape.refY,
+                markerWidth: shape.size[0], markerHeight: shape.size[1], orient: shape.orient ?? 'auto-start-reverse',
+            }, shape.body(color, background ?? theme.background)));
+        }
+        return `url(#${key})`;
+    };
+
+    const edgeElements = drawings.map(({ edge, drawing }) => el('path', {
+        'data-id': edge.id, d: drawing.path, fill: 'none', stroke: drawing.stroke, 'stroke-width': drawing.width,
+        'stroke-dasharray': drawing.dash, 'stroke-linecap': 'round', 'stroke-linejoin': 'round',
+        'marker-start': markerUrl(drawing.markerStart, drawing.stroke), 'marker-end': markerUrl(drawing.markerEnd, drawing.stroke),
+    }));
+    const labelElements = drawings.flatMap(({ drawing }) => [
+        ...(drawing.label ? renderEdgeLabel(drawing.label, theme) : []),
+        ...drawing.cardinalities.map(c => el('text', {
+            x: round(c.x), y: round(c.y), fill: theme.muted, 'dominant-baseline': 'central', ...textStyleAttrs({ size: 11, weight: 600 }),
+        }, c.text)),
+    ]);
+    const groupElements = visible.filter(n => n.type === 'group').map(n => renderGroup(n, bounds.get(n.id)!));
+    const nodeElements = visible.filter(n => n.type !== 'group').map(n => renderNode(n, bounds.get(n.id)!, themeName, theme));
+
+    // Page around every node box, group badge and edge label
+    const boxes = [
+        ...visible.map(n => {
+            const box = bounds.get(n.id)!;
+            return n.type === 'group' ? { ...box, top: box.top - 14 } : box;
+        }),
+        ...drawings.flatMap(({ drawing: { label } }) => {
+            if (!label) return [];
+            const { width, height } = estimateEdgeLabelSize(label.text);
+            return [{ left: label.x - width / 2, top: label.y - height / 2, right: label.x + width / 2, bottom: label.y + height / 2 }];
+        }),
+    ];
+    const left = boxes.length ? Math.min(...boxes.map(b => b.left)) - padding : 0;
+    const top = boxes.length ? Math.min(...boxes.map(b => b.top)) - padding : 0;
+    const width = Math.ceil(boxes.length ? Math.max(...boxes.map(b => b.right)) + padding - left : padding * 2);
+    const height = Math.ceil(boxes.length ? Math.max(...boxes.map(b => b.bottom)) + padding - top : padding * 2);
+
+    return el('svg', {
+        xmlns: 'http://www.w3.org/2000/svg', width, height, viewBox: `${round(left)} ${round(top)} ${width} ${height}`, 'font-family': FONT_FAMILY,
+    }, [
+        ...(markers.size ? [el('defs', {}, [...markers.values()])] : []),
+        ...(background ? [el('rect', { x: round(left), y: round(top), width, height, fill: background })] : []),
+        el('g', { class: 'groups' }, groupElements),
+        el('g', { class: 'edges' }, edgeElements),
+        el('g', { class: 'nodes' }, nodeElements),
+        el('g', { class: 'labels' }, labelElements),
+    ]);
+}
+
+/**
+ * Render nodes and edges as a standalone SVG document
+ */
+export function renderDiagramSvg(nodes: Node[], edges: Edge[], options: SvgRenderOptions = {}): string {
+    return toSvgMarkup(buildDiagramSvg(nodes, edges, options));
+}
@@ -506,7 +506,7 @@ export class VisualOrganizer {
     /**
      * Find the most central node (highest degree centrality)
      */
-    private findCentralNode(): Node | null {
+    findCentralNode(): Node | null {
         if (this.nodes.length === 0) return null;
 
         const degrees = new Map<string, number>();
@@ -13,10 +13,12 @@ import { OrchestratorLoader } from '../components/ui/OrchestratorLoader';
 import { EditorHeader } from '../components/editor/EditorHeader';
 import { VisualOrganizerFAB } from '../components/VisualOrganizerFAB';
 import { useDiagramAPI } from '../hooks/useDiagramAPI';
+import { useCodeSync } from '../hooks/useCodeSync';
 
 export function Editor() {
     // Enable Programmatic API
     useDiagramAPI();
+    useCodeSync();
 
     const { nodes, isLoading, leftPanelOpen, setLeftPanelOpen, rightPanelOpen, setRightPanelOpen, focusMode, setFocusMode, mobileEditorOpen, setMobileEditorOpen, viewMode } = useFlowStore();
     const { isMobile } = useMobileDetect();
@@ -7,7 +7,8 @@ import { persist } from 'zustand/middleware';
 import { temporal } from 'zundo';
 import { addEdge, applyNodeChanges, applyEdgeChanges } from '@xyflow/react';
 import type { NodeChange, EdgeChange } from '@xyflow/react';
-import type { Node, Edge, Connection, SavedDiagram, EdgeStyle } from '../types';
+import type { Node, Edge, Connection, SavedDiagram, EdgeStyle, EdgeData } from '../types';
+import { addEdgeToSource, removeEdgesFromSource, removeFromSource, renameNodeInSource, setNodeShapeInSource } from '../lib/codeSync';
 
 interface DiagramState {
     // Diagram data
@@ -17,6 +18,7 @@ interface DiagramState {
     edgeStyle: EdgeStyle;
     savedDiagrams: SavedDiagram[];
     generationComplexity: 'simple' | 'complex';
+    /** Id of the layout algorithm Auto Layout uses (see lib/layoutAlgorithms) */
     layout: string;
     analysisResult: string | null;
 
@@ -24,10 +26,15 @@ interface DiagramState {
     setNodes: (nodes: Node[]) => void;
     setEdges: (edges: Edge[]) => void;
     setSourceCode: (code: string) => void;
+    /** Replace nodes, edges and source in one history step (code -> canvas sync) */
+    setDiagram: (diagram: { nodes: Node[]; edges: Edge[]; sourceCode: string }) => void;
     setEdgeStyle: (style: EdgeStyle) => void;
+    /** Store routed bend points by edge id (undefined clears them), without an undo step of their own */
+    setEdgePoints: (points: Record<string, EdgeData['points']>) => void;
+    setLayout: (layout: string) => void;
     setGenerationComplexity: (complexity: 'simple' | 'complex') => void;
 
-    // React Flow handlers
+    // React Flow handlers (removals and connections are also written to sourceCode)
     onNodesChange: (changes: NodeChange[]) => void;
     onEdgesChange: (changes: EdgeChange[]) => void;
     onConnect: (connection: Connection) => void;
@@ -69,36 +76,74 @@ export const useDiagramStore = create<DiagramState>()(
                 setNodes: (nodes) => set({ nodes }),
                 setEdges: (edges) => set({ edges }),
                 setSourceCode: (sourceCode) => set({ sourceCode }),
+                setDiagram: ({ nodes, edges, sourceCode }) => set({ nodes, edges, sourceCode }),
                 setEdgeStyle: (edgeStyle) => set({ edgeStyle }),
+                setEdgePoints: (points) => {
+                    let changed = false;
+                    const edges = get().edges.map((edge) => {
+                        if (!(edge.id in points)) return edge;
+                        const next = points[edge.id];
+                        if (JSON.stringify(next) === JSON.stringify(edge.data?.points)) return edge;
+                        changed = true;
+                        return { ...edge, data: { ...edge.data, points: next } };
+                    });
+                    if (!changed) return;
+                    // Routes follow from node positions, so undoing a move re-routes rather than undoing the route
+                    const { pause, resume } = useDiagramStore.temporal.getState();
+                    pause();
+                    set({ edges });
+                    resume();
+                },
+                setLayout: (layout) => set({ layout }),
                 setGenerationComplexity: (generationComplexity) => set({ generationComplexity }),
 
                 // React Flow handlers
                 onNodesChange: (changes) => {
+                    const removed = changes.flatMap((c) => (c.type === 'remove' ? [c.id] : []));
                     set({
                         nodes: applyNodeChanges(changes, get().nodes),
+                        sourceCode: removeFromSource(get().sourceCode, { nodes: removed }),
                     });
                 },
 
                 onEdgesChange: (changes) => {
+                    const removed = changes.flatMap((c) => (c.type === 'remove' ? [c.id] : []));
                     set({
                         edges: applyEdgeChanges(changes, get().edges),
+                        sourceCode: removeEdgesFromSource(get().sourceCode, get().edges, removed),
                     });
                 },
 
                 onConnect: (connection) => {
+                    const edges = addEdge(connection, get().edges);
+                    // addEdge ignores connections that already exist
+                    const added = edges.length > get().edges.length;
                     set({
-                        edges: addEdge(connection, get().edges),
+                        edges,
+                        sourceCode: added ? addEdgeToSource(get().sourceCode, connection) : get().sourceCode,
                     });
                 },
 
                 // Node operations
                 updateNodeData: (nodeId, data) => {
+                    const node = get().nodes.find((n) => n.id === nodeId);
+                    const renamed = typeof data.label === 'string' && data.label !== node?.data.label;
+                    const reshaped = typeof data.shape === 'string' && data.shape !== node?.data.shape;
+                    let sourceCode = get().sourceCode;
+                    if (reshaped) {
+                        // The shape declaration carries the label, so it covers a rename too
+                        const label = String(data.label ?? node?.data.label ?? nodeId);
+                        sourceCode = setNodeShapeInSource(sourceCode, nodeId, data.shape as string, label);
+                    } else if (renamed) {
+                        sourceCode = renameNodeInSource(sourceCode, nodeId, data.label as string);
+                    }
                     set({
                         nodes: get().nodes.map((node) =>
                             node.id === nodeId
                                 ? { ...node, data: { ...node.data, ...data } }
                                 : node
                         ),
+                        sourceCode,
                     });
                 },
 
@@ -116,6 +161,7 @@ export const useDiagramStore = create<DiagramState>()(
                         edges: get().edges.filter(
                             (edge) => edge.source !== nodeId && edge.target !== nodeId
                         ),
+                        sourceCode: removeFromSource(get().sourceCode, { nodes: [nodeId] }),
                     });
                 },
 
@@ -188,6 +234,7 @@ export const useDiagramStore = create<DiagramState>()(
                 partialize: (state) => ({
                     savedDiagrams: state.savedDiagrams,
                     edgeStyle: state.edgeStyle,
+                    layout: state.layout,
                     generationComplexity: state.generationComplexity,
                 }),
             }
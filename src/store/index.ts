@@ -35,6 +35,7 @@ export function useFlowStore() {
         edges: diagram.edges,
         sourceCode: diagram.sourceCode,
         edgeStyle: diagram.edgeStyle,
+        layout: diagram.layout,
         savedDiagrams: diagram.savedDiagrams,
         generationComplexity: diagram.generationComplexity, // NEW
 
@@ -42,7 +43,10 @@ export function useFlowStore() {
         setNodes: diagram.setNodes,
         setEdges: diagram.setEdges,
         setSourceCode: diagram.setSourceCode,
+        setDiagram: diagram.setDiagram,
         setEdgeStyle: diagram.setEdgeStyle,
+        setEdgePoints: diagram.setEdgePoints,
+        setLayout: diagram.setLayout,
         setGenerationComplexity: diagram.setGenerationComplexity, // NEW
         onNodesChange: diagram.onNodesChange,
         onEdgesChange: diagram.onEdgesChange,
@@ -84,6 +88,7 @@ export function useFlowStore() {
         activeFilters: ui.activeFilters,
         isLoading: ui.isLoading,
         error: ui.error,
+        diagramProgress: ui.diagramProgress,
 
         // UI actions
         setSelectedNode: ui.setSelectedNode,
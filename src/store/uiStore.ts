@@ -4,6 +4,8 @@
 
 import { create } from 'zustand';
 import type { Node } from '../types';
+import type { CodeSyncStatus } from '../lib/codeSync';
+import type { PipelineStage } from '../lib/diagramPipeline';
 
 interface UIState {
     // Panel states
@@ -14,9 +16,10 @@ interface UIState {
 
     // Input Panel persistence
     inputDescription: string;
-    inputActiveTab: 'image' | 'code' | 'describe' | 'comfy';
+    inputActiveTab: 'image' | 'code' | 'describe' | 'comfy' | 'import';
     inputImageUrl: string | null;
     mermaidCode: string;
+    codeSyncStatus: CodeSyncStatus;
 
     // Selection
     selectedNode: Node | null;
@@ -27,6 +30,8 @@ interface UIState {
     // Loading & Error states
     isLoading: boolean;
     error: string | null;
+    /** Stage of the parse/layout pipeline while it works on a diagram */
+    diagramProgress: PipelineStage | null;
 
     // Actions
     setLeftPanelOpen: (open: boolean) => void;
@@ -37,9 +42,10 @@ interface UIState {
 
     // Input Panel actions
     setInputDescription: (description: string) => void;
-    setInputActiveTab: (tab: 'image' | 'code' | 'describe' | 'comfy') => void;
+    setInputActiveTab: (tab: 'image' | 'code' | 'describe' | 'comfy' | 'import') => void;
     setInputImageUrl: (url: string | null) => void;
     setMermaidCode: (code: string) => void;
+    setCodeSyncStatus: (status: CodeSyncStatus) => void;
     clearInputs: () => void;
 
     setSelectedNode: (node: Node | null) => void;
@@ -51,6 +57,7 @@ interface UIState {
     setLoading: (loading: boolean) => void;
     setError: (error: string | null) => void;
     clearError: () => void;
+    setDiagramProgress: (stage: PipelineStage | null) => void;
 
     // View Mode
     viewMode: 'interactive' | 'static';
@@ -69,10 +76,12 @@ export const useUIStore = create<UIState>()((set, get) => ({
     inputActiveTab: 'image',
     inputImageUrl: null,
     mermaidCode: '',
+    codeSyncStatus: 'synced',
     selectedNode: null,
     activeFilters: DEFAULT_FILTERS,
     isLoading: false,
     error: null,
+    diagramProgress: null,
 
     // Panel actions
     setLeftPanelOpen: (leftPanelOpen) => set({ leftPanelOpen }),
@@ -86,6 +95,7 @@ export const useUIStore = create<UIState>()((set, get) => ({
     setInputActiveTab: (inputActiveTab) => set({ inputActiveTab }),
     setInputImageUrl: (inputImageUrl) => set({ inputImageUrl }),
     setMermaidCode: (mermaidCode) => set({ mermaidCode }),
+    setCodeSyncStatus: (codeSyncStatus) => set({ codeSyncStatus }),
     clearInputs: () => set({ inputDescription: '', inputImageUrl: null, mermaidCode: '' }),
 
     // Selection actions
@@ -112,6 +122,7 @@ export const useUIStore = create<UIState>()((set, get) => ({
     setLoading: (isLoading) => set({ isLoading }),
     setError: (error) => set({ error }),
     clearError: () => set({ error: null }),
+    setDiagramProgress: (diagramProgress) => set({ diagramProgress }),
 
     // View Mode actions
     viewMode: 'interactive',
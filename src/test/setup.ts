@@ -23,20 +23,23 @@ const localStorageMock = (function () {
     };
 })();
 
-Object.defineProperty(window, 'localStorage', {
-    value: localStorageMock
-});
+// Browser globals, for the suites that run in jsdom (the default environment)
+if (typeof window !== 'undefined') {
+    Object.defineProperty(window, 'localStorage', {
+        value: localStorageMock
+    });
 
-Object.defineProperty(window, 'matchMedia', {
-    writable: true,
-    value: (query: string) => ({
-        matches: false,
-        media: query,
-        onchange: null,
-        addListener: () => { },
-        removeListener: () => { },
-        addEventListener: () => { },
-        removeEventListener: () => { },
-        dispatchEvent: () => false,
-    }),
-});
+    Object.defineProperty(window, 'matchMedia', {
+        writable: true,
+        value: (query: string) => ({
+            matches: false,
+            media: query,
+            onchange: null,
+            addListener: () => { },
+            removeListener: () => { },
+            addEventListener: () => { },
+            removeEventListener: () => { },
+            dispatchEvent: () => false,
+        }),
+    });
+}
@@ -3,6 +3,7 @@
  * Centralized types to ensure consistency across the application
  */
 
+import type { CSSProperties } from 'react';
 import type { Node as FlowNode, Edge as FlowEdge, Connection as FlowConnection } from '@xyflow/react';
 
 // ============================================
@@ -25,6 +26,16 @@ export interface NodeData {
     label?: string;
     metadata?: NodeMetadata;
     category?: string;
+    /** Mermaid shape: a classic bracket type (`cylinder`) or a v11 shape name from shapes.ts (`lin-doc`) */
+    shape?: string;
+    /** Mermaid classDef/style overrides, painted on the node body by CustomNodes */
+    style?: CSSProperties;
+    /** Classes assigned with `class` or `:::` */
+    classes?: string[];
+    /** Saved ER diagram that documents a database node's schema */
+    schemaDiagramId?: string;
+    /** Keep this node where it is when the diagram is laid out again (Auto Layout, code edits) */
+    pinned?: boolean;
     [key: string]: unknown;
 }
 
@@ -49,7 +60,12 @@ export type NodeType =
     | 'database'
     | 'group'
     | 'client'
-    | 'server';
+    | 'server'
+    | 'lifeline'
+    | 'fragment'
+    | 'sequenceNote'
+    | 'umlClass'
+    | 'erEntity';
 
 // ============================================
 // Edge Types
@@ -76,7 +92,54 @@ export interface ParsedGroup {
     nodes: string[];
 }
 
-export type EdgeStyle = 'curved' | 'straight';
+export type EdgeStyle = 'curved' | 'straight' | 'orthogonal';
+
+/**
+ * Flowchart direction, `TD` is normalised to `TB`
+ */
+export type FlowDirection = 'TB' | 'BT' | 'LR' | 'RL';
+
+/**
+ * Marker drawn at either end of an edge
+ */
+export type EdgeMarker =
+    | 'none'
+    | 'arrow'
+    | 'circle'
+    | 'cross'
+    // UML relationships
+    | 'triangle'
+    | 'diamond'
+    | 'filled-diamond'
+    | 'lollipop'
+    // Crow's-foot cardinalities
+    | 'zero-or-one'
+    | 'exactly-one'
+    | 'zero-or-many'
+    | 'one-or-many';
+
+/**
+ * Line style of a flowchart link: `---`, `===`, `-.-` or `~~~`
+ */
+export type EdgeStroke = 'normal' | 'thick' | 'dotted' | 'invisible';
+
+/**
+ * Typed payload stored on Edge.data
+ */
+export interface EdgeData {
+    stroke?: EdgeStroke;
+    /** Rank span of the link, `--->` is 2 */
+    length?: number;
+    startMarker?: EdgeMarker;
+    endMarker?: EdgeMarker;
+    sourceCardinality?: string;
+    targetCardinality?: string;
+    /** Bend points of an orthogonal route in canvas coordinates, from the source side to the target side */
+    points?: { x: number; y: number }[];
+    /** Shift of the label from the middle of the edge, chosen by the layout so it clears nodes and other labels */
+    labelOffset?: { x: number; y: number };
+    [key: string]: unknown;
+}
 
 // ============================================
 // AI Service Types
@@ -152,7 +215,14 @@ export type Connection = FlowConnection;
 // Export Types
 // ============================================
 
-export type ExportFormat = 'png' | 'jpg' | 'svg' | 'json' | 'mermaid' | 'react' | 'react-minimal';
+export type ExportFormat =
+    | 'png' | 'jpg' | 'svg' | 'pdf' | 'json' | 'mermaid' | 'react' | 'react-minimal'
+    // Mermaid source (code) and a plain-text outline (txt)
+    | 'code' | 'txt'
+    // Other diagram tools
+    | 'drawio' | 'excalidraw'
+    // Graph interchange
+    | 'dot' | 'graphml' | 'cytoscape';
 
 export interface ExportOptions {
     format: ExportFormat;
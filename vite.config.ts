@@ -15,6 +15,10 @@ export default defineConfig({
     port: 5173,
     open: true,
   },
+  worker: {
+    // The diagram worker imports mermaid, which code-splits its diagram types
+    format: 'es',
+  },
   build: {
     outDir: 'dist',
     sourcemap: true,